@@ -6,8 +6,21 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Converter } from '../converter.js';
-import type { ConversionOptions, LoggerConfig } from '../types/converter-options.js';
-import type { ConversionResult } from '../types/conversion-result.js';
+import { HostFilter } from '../services/host-filter.js';
+import { AssetStore } from '../services/asset-store.js';
+import { HttpCache, DEFAULT_CACHE_DIR } from '../services/http-cache.js';
+import type { ConversionOptions, ImageDownloadOptions, LoggerConfig } from '../types/converter-options.js';
+import type { ConversionResult, PlannedPostAction } from '../types/conversion-result.js';
+import type { ImageRetryEvent } from '../types/converter-events.js';
+import type { OutputTargetName } from '../types/output-target.js';
+import type { MarkdownTransformerOptions } from '../processors/markdown-transformer.js';
+import type { ImageFilenameStrategy } from '../services/image-filenamer.js';
+import type { AssetStoreConfig } from '../services/asset-store.js';
+import type { HttpCacheConfig } from '../services/http-cache.js';
+import type { NodeHttpTransportConfig } from '../services/http-transport.js';
+import type { ModernImageFormat } from '../services/image-optimizer.js';
+import type { ImageOptimizationOptions } from '../types/image-processor.js';
+import type { AltTextAuditOptions, AltTextSource } from '../processors/alt-text-auditor.js';
 
 // ESM equivalents for __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -33,6 +46,64 @@ interface CLIOptions {
   verbose: boolean;
   /** Suppress progress output */
   quiet: boolean;
+  /** Number of posts to convert in parallel (raw string from commander) */
+  concurrency?: string;
+  /** Output target name (default: markdown) */
+  target?: string;
+  /** Embed directive fallback mode (default: leave directives untouched) */
+  embeds?: string;
+  /** Download cover images (default: true via --no-cover-images) */
+  coverImages?: boolean;
+  /** Comma-separated hosts to download images from (default: cdn.hashnode.com) */
+  imageHosts?: string;
+  /** Comma-separated hosts never to download images from */
+  excludeImageHosts?: string;
+  /** Filename strategy for non-Hashnode image URLs (default: hash) */
+  imageFilenames?: string;
+  /** Shared asset store: true for the default directory, or a directory (raw string from commander) */
+  sharedAssets?: boolean | string;
+  /** HTTP cache: true for the default directory, or a directory (raw string from commander) */
+  cache?: boolean | string;
+  /** Maximum HTTP cache size, e.g. "500MB" (raw string from commander) */
+  cacheMaxSize?: string;
+  /** Never download; resolve images from the cache or pre-fetched images only */
+  offline?: boolean;
+  /** Directory of pre-fetched images for offline mode (raw path from commander) */
+  prefetchedImages?: string;
+  /** Proxy URL for image downloads (raw string from commander) */
+  proxy?: string;
+  /** PEM bundle of extra trusted certificate authorities (raw path from commander) */
+  caFile?: string;
+  /** Maximum size of a downloaded image, e.g. "10MB" (raw string from commander) */
+  maxImageSize?: string;
+  /** Optimize downloaded JPEG/PNG images */
+  optimizeImages?: boolean;
+  /** Maximum width of optimized images in pixels (raw string from commander) */
+  maxImageWidth?: string;
+  /** Quality of optimized images, 1-100 (raw string from commander) */
+  imageQuality?: string;
+  /** Comma-separated modern formats to write next to optimized images */
+  imageFormats?: string;
+  /** Link optimized images through <picture> elements */
+  picture?: boolean;
+  /** Write the pixel dimensions of images into the posts */
+  imageDimensions?: boolean;
+  /** Report images with missing or meaningless alt text */
+  auditAltText?: boolean;
+  /** Fill missing alt text: true for every source, or comma-separated sources (raw string from commander) */
+  fillAltText?: boolean | string;
+  /** Report what would be converted and downloaded without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Options of the `cache prune` command
+ */
+interface CachePruneOptions {
+  /** Cache directory (default: ~/.cache/hashnode-converter) */
+  dir?: string;
+  /** Size to shrink the cache to, e.g. "200MB" (default: the cache's size limit) */
+  maxSize?: string;
 }
 
 /**
@@ -45,6 +116,16 @@ interface ValidatedOptions {
   outputPath: string;
   /** Resolved absolute path to log file (if provided) */
   logFilePath: string | undefined;
+  /** Parsed concurrency (undefined when not provided) */
+  concurrency: number | undefined;
+  /** Validated output target name */
+  target: OutputTargetName;
+  /** Markdown options for the embed fallback (undefined when not provided) */
+  markdownOptions: MarkdownTransformerOptions | undefined;
+  /** Image host and filename options (undefined when none provided) */
+  downloadOptions: ImageDownloadOptions | undefined;
+  /** Shared asset store options (undefined when not enabled) */
+  sharedAssets: true | AssetStoreConfig | undefined;
 }
 
 // =============================================================================
@@ -140,6 +221,403 @@ export function validateMutuallyExclusiveFlags(verbose: boolean, quiet: boolean)
   }
 }
 
+/**
+ * Validate and parse the concurrency option if provided
+ * @param concurrency - Optional raw value from CLI arguments
+ * @returns Parsed positive integer or undefined if not provided
+ * @throws {Error} If value is not a positive integer
+ */
+export function validateConcurrency(concurrency: string | undefined): number | undefined {
+  if (concurrency === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(concurrency.trim()) || Number(concurrency) < 1) {
+    throw new Error(`Invalid --concurrency value: ${concurrency} (must be a positive integer)`);
+  }
+  return Number(concurrency);
+}
+
+/**
+ * Supported values for the --target option
+ */
+const OUTPUT_TARGETS: readonly OutputTargetName[] = ['markdown', 'hugo', 'jekyll', 'astro', 'mdx'];
+
+/**
+ * Validate the output target name
+ * @param target - Optional raw value from CLI arguments
+ * @returns Validated target name (defaults to 'markdown')
+ * @throws {Error} If the target is not supported
+ */
+export function validateTarget(target: string | undefined): OutputTargetName {
+  if (target === undefined) {
+    return 'markdown';
+  }
+  if (!(OUTPUT_TARGETS as readonly string[]).includes(target)) {
+    throw new Error(`Invalid --target value: ${target} (expected one of: ${OUTPUT_TARGETS.join(', ')})`);
+  }
+  return target as OutputTargetName;
+}
+
+/**
+ * Markdown transformer options for each --embeds mode
+ */
+const EMBED_MODES: Readonly<Record<string, MarkdownTransformerOptions>> = {
+  none: { embedFallback: 'none' },
+  iframe: { embedFallback: 'iframe' },
+  link: { embedFallback: 'link' },
+  hugo: { embedFallback: 'shortcode', embedShortcodes: 'hugo' },
+  liquid: { embedFallback: 'shortcode', embedShortcodes: 'liquid' },
+};
+
+/**
+ * Validate the embed fallback mode if provided
+ * @param embeds - Optional raw value from CLI arguments
+ * @param target - Validated output target name
+ * @returns Markdown transformer options for the mode, or undefined if not provided
+ * @throws {Error} If the mode is not supported, or is combined with the MDX target
+ */
+export function validateEmbeds(
+  embeds: string | undefined,
+  target: OutputTargetName
+): MarkdownTransformerOptions | undefined {
+  if (embeds === undefined) {
+    return undefined;
+  }
+  if (!Object.hasOwn(EMBED_MODES, embeds)) {
+    throw new Error(
+      `Invalid --embeds value: ${embeds} (expected one of: ${Object.keys(EMBED_MODES).join(', ')})`
+    );
+  }
+  if (target === 'mdx') {
+    throw new Error('--embeds cannot be used with --target mdx (the MDX target renders embeds as components)');
+  }
+  return EMBED_MODES[embeds];
+}
+
+/**
+ * Validate a comma-separated list of image host patterns if provided
+ * @param hosts - Optional raw value from CLI arguments
+ * @param flag - Flag name used in error messages
+ * @returns Host patterns, or undefined if not provided
+ * @throws {Error} If the list is empty or contains an invalid pattern
+ */
+export function validateImageHosts(hosts: string | undefined, flag: string): string[] | undefined {
+  if (hosts === undefined) {
+    return undefined;
+  }
+  const patterns = hosts.split(',').map((host) => host.trim());
+  if (!patterns.every((pattern) => HostFilter.isValidPattern(pattern))) {
+    throw new Error(
+      `Invalid ${flag} value: ${hosts} (expected comma-separated hostnames, *.domain wildcards or *)`
+    );
+  }
+  return patterns;
+}
+
+/**
+ * Supported --image-filenames strategies
+ */
+const IMAGE_FILENAME_STRATEGIES: readonly ImageFilenameStrategy[] = ['hash', 'basename'];
+
+/**
+ * Validate the image filename strategy if provided
+ * @param strategy - Optional raw value from CLI arguments
+ * @returns Validated strategy, or undefined if not provided
+ * @throws {Error} If the strategy is not supported
+ */
+export function validateImageFilenames(strategy: string | undefined): ImageFilenameStrategy | undefined {
+  if (strategy === undefined) {
+    return undefined;
+  }
+  if (!(IMAGE_FILENAME_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new Error(
+      `Invalid --image-filenames value: ${strategy} (expected one of: ${IMAGE_FILENAME_STRATEGIES.join(', ')})`
+    );
+  }
+  return strategy as ImageFilenameStrategy;
+}
+
+/**
+ * Size units accepted by size flags (powers of 1024)
+ */
+const SIZE_UNITS: Readonly<Record<string, number>> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse a byte size such as "500MB", "2GB" or "1048576" if provided
+ * @param size - Optional raw value from CLI arguments
+ * @param flag - Name of the option the value was given for, used in error messages
+ * @returns Size in bytes, or undefined if not provided
+ * @throws {Error} If the value is not a size
+ */
+export function parseByteSize(size: string | undefined, flag: string): number | undefined {
+  if (size === undefined) {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(size.trim());
+  const unit = match ? SIZE_UNITS[(match[2] || 'b').toLowerCase()] : undefined;
+  if (!match || unit === undefined) {
+    throw new Error(`Invalid ${flag} value: ${size} (expected a size such as 500MB or 2GB)`);
+  }
+  return Math.floor(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Validate the HTTP cache flags if provided
+ * @param cache - True for the default directory, or a cache directory
+ * @param maxSize - Optional maximum cache size (enables the cache on its own)
+ * @returns Cache options, or undefined if the cache is not enabled
+ * @throws {Error} If the size is invalid
+ */
+export function validateCache(cache: boolean | string | undefined, maxSize: string | undefined): HttpCacheConfig | undefined {
+  const maxSizeBytes = parseByteSize(maxSize, '--cache-max-size');
+  if ((cache === undefined || cache === false) && maxSizeBytes === undefined) {
+    return undefined;
+  }
+
+  const config: HttpCacheConfig = { dir: typeof cache === 'string' ? path.resolve(cache) : DEFAULT_CACHE_DIR };
+  if (maxSizeBytes !== undefined) {
+    config.maxSizeBytes = maxSizeBytes;
+  }
+  return config;
+}
+
+/**
+ * Validate the pre-fetched image directory if provided
+ * @param prefetchedImages - Optional raw path from CLI arguments
+ * @param offline - Whether offline mode is enabled
+ * @returns Resolved absolute path or undefined if not provided
+ * @throws {Error} If offline mode is not enabled or the path is not a directory
+ */
+export function validatePrefetchedImages(
+  prefetchedImages: string | undefined,
+  offline: boolean | undefined
+): string | undefined {
+  if (!prefetchedImages) {
+    return undefined;
+  }
+  if (!offline) {
+    throw new Error('--prefetched-images requires --offline');
+  }
+  const resolvedPath = path.resolve(prefetchedImages);
+  if (!fs.existsSync(resolvedPath) || !fs.statSync(resolvedPath).isDirectory()) {
+    throw new Error(`Pre-fetched image directory not found: ${resolvedPath}`);
+  }
+  return resolvedPath;
+}
+
+/**
+ * Validate the proxy and CA flags if provided
+ * @param proxy - Optional proxy URL (e.g., "http://proxy.corp:8080")
+ * @param caFile - Optional path to a PEM bundle of extra certificate authorities
+ * @returns Transport options, or undefined if neither flag was provided
+ * @throws {Error} If the proxy is not an http(s) URL or the CA file does not exist
+ */
+export function validateTransportOptions(
+  proxy: string | undefined,
+  caFile: string | undefined
+): NodeHttpTransportConfig | undefined {
+  if (!proxy && !caFile) {
+    return undefined;
+  }
+
+  const transportOptions: NodeHttpTransportConfig = {};
+  if (proxy) {
+    if (!URL.canParse(proxy) || !['http:', 'https:'].includes(new URL(proxy).protocol)) {
+      throw new Error(`Invalid --proxy value: ${proxy} (expected an http:// or https:// URL)`);
+    }
+    transportOptions.proxy = proxy;
+  }
+  if (caFile) {
+    const resolvedPath = path.resolve(caFile);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`CA file not found: ${resolvedPath}`);
+    }
+    transportOptions.caFile = resolvedPath;
+  }
+  return transportOptions;
+}
+
+/**
+ * Supported --image-formats values
+ */
+const MODERN_IMAGE_FORMATS: readonly ModernImageFormat[] = ['webp', 'avif'];
+
+/**
+ * Validate the image optimization flags if provided. Any optimization flag
+ * enables optimization.
+ * @param options - Parsed CLI options
+ * @returns Optimization options, or undefined if optimization is not enabled
+ * @throws {Error} If a value is invalid or --picture is used without --image-formats
+ */
+export function validateOptimization(options: CLIOptions): ImageOptimizationOptions | undefined {
+  const { optimizeImages, maxImageWidth, imageQuality, imageFormats, picture } = options;
+  if (!optimizeImages && !maxImageWidth && !imageQuality && !imageFormats && !picture) {
+    return undefined;
+  }
+
+  const optimization: ImageOptimizationOptions = {};
+  if (maxImageWidth !== undefined) {
+    if (!/^\d+$/.test(maxImageWidth.trim()) || Number(maxImageWidth) < 1) {
+      throw new Error(`Invalid --max-image-width value: ${maxImageWidth} (must be a positive integer)`);
+    }
+    optimization.maxWidth = Number(maxImageWidth);
+  }
+  if (imageQuality !== undefined) {
+    const quality = Number(imageQuality);
+    if (!/^\d+$/.test(imageQuality.trim()) || quality < 1 || quality > 100) {
+      throw new Error(`Invalid --image-quality value: ${imageQuality} (must be an integer from 1 to 100)`);
+    }
+    optimization.quality = quality;
+  }
+  if (imageFormats !== undefined) {
+    const formats = imageFormats.split(',').map((format) => format.trim().toLowerCase());
+    if (!formats.every((format) => (MODERN_IMAGE_FORMATS as readonly string[]).includes(format))) {
+      throw new Error(
+        `Invalid --image-formats value: ${imageFormats} (expected a comma-separated list of: ${MODERN_IMAGE_FORMATS.join(', ')})`
+      );
+    }
+    optimization.formats = formats as ModernImageFormat[];
+  }
+  if (picture) {
+    if (!optimization.formats) {
+      throw new Error('--picture requires --image-formats');
+    }
+    optimization.markup = 'picture';
+  }
+  return optimization;
+}
+
+/**
+ * Supported --fill-alt-text sources, in their default order
+ */
+const ALT_TEXT_SOURCES: readonly AltTextSource[] = ['caption', 'title', 'heading'];
+
+/**
+ * Validate the alt text flags if provided. --fill-alt-text enables the audit.
+ * @param auditAltText - Whether to report alt text issues
+ * @param fillAltText - True to fill from every source, or comma-separated sources
+ * @returns Alt text audit options, or undefined if the audit is not enabled
+ * @throws {Error} If a source is unknown
+ */
+export function validateAltText(
+  auditAltText: boolean | undefined,
+  fillAltText: boolean | string | undefined
+): AltTextAuditOptions | undefined {
+  if (!auditAltText && !fillAltText) {
+    return undefined;
+  }
+  if (!fillAltText) {
+    return {};
+  }
+  if (fillAltText === true) {
+    return { fill: true };
+  }
+
+  const sources = fillAltText.split(',').map((source) => source.trim().toLowerCase());
+  if (!sources.every((source) => (ALT_TEXT_SOURCES as readonly string[]).includes(source))) {
+    throw new Error(
+      `Invalid --fill-alt-text value: ${fillAltText} (expected a comma-separated list of: ${ALT_TEXT_SOURCES.join(', ')})`
+    );
+  }
+  return { fill: true, sources: sources as AltTextSource[] };
+}
+
+/**
+ * Validate the image download flags and combine them into download options
+ * @param options - Parsed CLI options
+ * @returns Download options, or undefined if no image flag was provided
+ * @throws {Error} If any image flag is invalid
+ */
+export function validateDownloadOptions(options: CLIOptions): ImageDownloadOptions | undefined {
+  const allowedHosts = validateImageHosts(options.imageHosts, '--image-hosts');
+  const deniedHosts = validateImageHosts(options.excludeImageHosts, '--exclude-image-hosts');
+  const filenameStrategy = validateImageFilenames(options.imageFilenames);
+  const cache = validateCache(options.cache, options.cacheMaxSize);
+  const prefetchedDir = validatePrefetchedImages(options.prefetchedImages, options.offline);
+  const transportOptions = validateTransportOptions(options.proxy, options.caFile);
+  const maxBytes = parseByteSize(options.maxImageSize, '--max-image-size');
+  if (maxBytes === 0) {
+    throw new Error('Invalid --max-image-size value: 0 (expected a size greater than 0)');
+  }
+  const optimize = validateOptimization(options);
+  const altText = validateAltText(options.auditAltText, options.fillAltText);
+
+  if (
+    !allowedHosts &&
+    !deniedHosts &&
+    !filenameStrategy &&
+    !cache &&
+    !options.offline &&
+    !transportOptions &&
+    maxBytes === undefined &&
+    !optimize &&
+    !options.imageDimensions &&
+    !altText
+  ) {
+    return undefined;
+  }
+
+  const downloadOptions: ImageDownloadOptions = {};
+  if (allowedHosts) {
+    downloadOptions.allowedHosts = allowedHosts;
+  }
+  if (deniedHosts) {
+    downloadOptions.deniedHosts = deniedHosts;
+  }
+  if (filenameStrategy) {
+    downloadOptions.filenameStrategy = filenameStrategy;
+  }
+  if (cache) {
+    downloadOptions.cache = cache;
+  }
+  if (options.offline) {
+    downloadOptions.offline = true;
+  }
+  if (prefetchedDir) {
+    downloadOptions.prefetchedDir = prefetchedDir;
+  }
+  if (transportOptions) {
+    downloadOptions.transportOptions = transportOptions;
+  }
+  if (maxBytes !== undefined) {
+    downloadOptions.maxBytes = maxBytes;
+  }
+  if (optimize) {
+    downloadOptions.optimize = optimize;
+  }
+  if (options.imageDimensions) {
+    downloadOptions.writeDimensions = true;
+  }
+  if (altText) {
+    downloadOptions.altText = altText;
+  }
+  return downloadOptions;
+}
+
+/**
+ * Validate the shared asset store option if provided
+ * @param sharedAssets - True for the default directory, or a directory relative to the output
+ * @returns Shared asset options, or undefined if not enabled
+ * @throws {Error} If the directory is outside the output directory
+ */
+export function validateSharedAssets(sharedAssets: boolean | string | undefined): true | AssetStoreConfig | undefined {
+  if (sharedAssets === undefined || sharedAssets === false) {
+    return undefined;
+  }
+  if (sharedAssets === true) {
+    return true;
+  }
+  return { dir: AssetStore.normalizeDir(sharedAssets) };
+}
+
 /**
  * Validate all CLI options by delegating to specific validators
  * @param options - Parsed CLI options
@@ -149,6 +627,11 @@ export function validateMutuallyExclusiveFlags(verbose: boolean, quiet: boolean)
 export function validateOptions(options: CLIOptions): ValidatedOptions {
   // Validate flags first (fast, no I/O)
   validateMutuallyExclusiveFlags(options.verbose, options.quiet);
+  const concurrency = validateConcurrency(options.concurrency);
+  const target = validateTarget(options.target);
+  const markdownOptions = validateEmbeds(options.embeds, target);
+  const downloadOptions = validateDownloadOptions(options);
+  const sharedAssets = validateSharedAssets(options.sharedAssets);
 
   // Validate export file (existence, type, content)
   const exportPath = validateExportPath(options.export);
@@ -165,6 +648,11 @@ export function validateOptions(options: CLIOptions): ValidatedOptions {
     exportPath,
     outputPath,
     logFilePath,
+    concurrency,
+    target,
+    markdownOptions,
+    downloadOptions,
+    sharedAssets,
   };
 }
 
@@ -214,6 +702,16 @@ export function createProgressCallback(
   };
 }
 
+/**
+ * Format an image download retry for verbose output
+ * @param event - Retry event from the Converter
+ * @returns One indented line, e.g. `↻ uuid.png (my-post): retry 1/3 in 2.0s after HTTP 429: ...`
+ */
+export function formatImageRetry(event: ImageRetryEvent): string {
+  const delay = (event.delayMs / 1000).toFixed(1);
+  return `  ↻ ${event.filename} (${event.postSlug}): retry ${event.retry}/${event.maxRetries} in ${delay}s after ${event.error}`;
+}
+
 /**
  * Display the conversion result summary
  * @param result - Conversion result from Converter
@@ -233,6 +731,10 @@ export function displayResult(result: ConversionResult, verbose: boolean): void
   console.log(`  Skipped:   ${result.skipped} posts`);
   console.log(`  Errors:    ${result.errors.length}`);
   console.log(`  Duration:  ${result.duration}`);
+  if (result.accessibility) {
+    const issues = result.accessibility.reduce((count, post) => count + post.altTextIssues.length, 0);
+    console.log(`  Alt text:  ${issues} issues in ${result.accessibility.length} posts`);
+  }
   console.log('='.repeat(60));
 
   if (result.errors.length > 0 && verbose) {
@@ -241,6 +743,66 @@ export function displayResult(result: ConversionResult, verbose: boolean): void
       console.log(`  ${i + 1}. [${err.slug}] ${err.error}`);
     });
   }
+
+  if (result.accessibility && result.accessibility.length > 0 && verbose) {
+    console.log('\nAlt text issues:');
+    result.accessibility.forEach((post) => {
+      console.log(`  [${post.slug}]`);
+      post.altTextIssues.forEach((issue) => {
+        const filled = issue.filledAlt !== undefined ? ` -> "${issue.filledAlt}" (${issue.filledFrom})` : '';
+        console.log(`    ${issue.problem}: ${issue.url}${filled}`);
+      });
+    });
+  }
+}
+
+/**
+ * Display the plan of a dry run
+ * @param result - Dry-run result (with `plan`)
+ * @param verbose - Whether to list the images of each post
+ */
+export function displayPlan(result: ConversionResult, verbose: boolean): void {
+  const posts = result.plan?.posts ?? [];
+  const count = (action: PlannedPostAction) => posts.filter((post) => post.action === action).length;
+  const images = posts.reduce((total, post) => total + post.images.length, 0);
+
+  console.log('\n');
+  console.log('='.repeat(60));
+  console.log('DRY RUN (nothing was written or downloaded)');
+  console.log('='.repeat(60));
+  console.log(`  Create:    ${count('create')} posts`);
+  console.log(`  Overwrite: ${count('overwrite')} posts`);
+  console.log(`  Skip:      ${count('skip')} posts`);
+  console.log(`  Errors:    ${count('error')}`);
+  console.log(`  Images:    ${images} to fetch`);
+  console.log('='.repeat(60));
+
+  if (posts.length > 0) {
+    console.log('\nPosts:');
+    posts.forEach((post) => {
+      const target = post.outputPath ? ` -> ${post.outputPath}` : '';
+      let detail = '';
+      if (post.action === 'error') {
+        detail = `: ${post.error}`;
+      } else if (post.images.length > 0) {
+        detail = ` (${post.images.length} images)`;
+      }
+      console.log(`  ${post.action.padEnd(9)} ${post.slug}${target}${detail}`);
+      if (verbose) {
+        post.images.forEach((image) => {
+          console.log(`              ${image.url} -> ${image.filepath}`);
+        });
+      }
+    });
+  }
+
+  const supportFiles = result.plan?.supportFiles ?? [];
+  if (supportFiles.length > 0) {
+    console.log('\nSupport files:');
+    supportFiles.forEach((file) => {
+      console.log(`  ${file}`);
+    });
+  }
 }
 
 // =============================================================================
@@ -255,25 +817,91 @@ async function runConvert(options: CLIOptions): Promise<void> {
   try {
     // Validate options and get resolved paths
     const validatedPaths = validateOptions(options);
-    const { exportPath, outputPath, logFilePath } = validatedPaths;
+    const {
+      exportPath,
+      outputPath,
+      logFilePath,
+      concurrency,
+      target,
+      markdownOptions,
+      downloadOptions,
+      sharedAssets,
+    } = validatedPaths;
 
     // Display startup info
     if (!options.quiet) {
       console.log('\nHashnode Content Converter');
       console.log(`Export:  ${exportPath}`);
       console.log(`Output:  ${outputPath}`);
+      console.log(`Target:  ${target}`);
       if (logFilePath) {
         console.log(`Log:     ${logFilePath}`);
       }
       console.log(`Skip existing: ${options.skipExisting}`);
+      if (options.dryRun) {
+        console.log('Dry run: nothing will be written or downloaded');
+      }
+      if (options.coverImages === false) {
+        console.log('Cover images: remote');
+      }
+      if (concurrency !== undefined) {
+        console.log(`Concurrency: ${concurrency}`);
+      }
+      if (options.embeds !== undefined) {
+        console.log(`Embeds:  ${options.embeds}`);
+      }
+      if (downloadOptions?.allowedHosts) {
+        console.log(`Image hosts: ${downloadOptions.allowedHosts.join(', ')}`);
+      }
+      if (downloadOptions?.deniedHosts) {
+        console.log(`Excluded image hosts: ${downloadOptions.deniedHosts.join(', ')}`);
+      }
+      if (sharedAssets) {
+        console.log(`Shared assets: ${sharedAssets === true ? 'assets' : sharedAssets.dir}`);
+      }
+      if (downloadOptions?.cache) {
+        console.log(`Cache:   ${downloadOptions.cache.dir}`);
+      }
+      if (downloadOptions?.transportOptions?.proxy) {
+        // Print the origin only, never the credentials
+        console.log(`Proxy:   ${new URL(downloadOptions.transportOptions.proxy).origin}`);
+      }
+      if (downloadOptions?.offline) {
+        console.log('Offline: no images will be downloaded');
+        if (downloadOptions.prefetchedDir) {
+          console.log(`Pre-fetched images: ${downloadOptions.prefetchedDir}`);
+        }
+      }
       console.log('');
     }
 
     // Build conversion options
     const conversionOptions: ConversionOptions = {
       skipExisting: options.skipExisting,
+      downloadCoverImages: options.coverImages !== false,
+      target,
     };
 
+    if (concurrency !== undefined) {
+      conversionOptions.concurrency = concurrency;
+    }
+
+    if (markdownOptions) {
+      conversionOptions.markdownOptions = markdownOptions;
+    }
+
+    if (downloadOptions) {
+      conversionOptions.downloadOptions = downloadOptions;
+    }
+
+    if (sharedAssets) {
+      conversionOptions.sharedAssets = sharedAssets;
+    }
+
+    if (options.dryRun) {
+      conversionOptions.dryRun = true;
+    }
+
     // Add logger config if log file specified
     if (logFilePath) {
       const loggerConfig: LoggerConfig = {
@@ -286,12 +914,19 @@ async function runConvert(options: CLIOptions): Promise<void> {
     // Create converter with progress callback
     const progressCallback = createProgressCallback(options.quiet, options.verbose);
     const converter = Converter.withProgress(progressCallback);
+    if (options.verbose) {
+      converter.on('image-retry', (event) => console.log(formatImageRetry(event)));
+    }
 
     // Run conversion
     const result = await converter.convertAllPosts(exportPath, outputPath, conversionOptions);
 
     // Display results
-    displayResult(result, options.verbose);
+    if (options.dryRun) {
+      displayPlan(result, options.verbose);
+    } else {
+      displayResult(result, options.verbose);
+    }
 
     // Exit with appropriate code
     if (result.errors.length > 0) {
@@ -306,6 +941,49 @@ async function runConvert(options: CLIOptions): Promise<void> {
   }
 }
 
+/**
+ * Format a byte count for display (e.g., "1.5 MB")
+ * @param bytes - Size in bytes
+ * @returns Human-readable size
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Run the `cache prune` command: evict least recently used entries until
+ * the cache fits in the size limit and remove orphaned files
+ * @param options - Parsed command options
+ */
+function runCachePrune(options: CachePruneOptions): void {
+  try {
+    const maxSizeBytes = parseByteSize(options.maxSize, '--max-size');
+    const dir = options.dir ? path.resolve(options.dir) : DEFAULT_CACHE_DIR;
+
+    const config: HttpCacheConfig = { dir };
+    if (maxSizeBytes !== undefined) {
+      config.maxSizeBytes = maxSizeBytes;
+    }
+    const result = new HttpCache(config).prune();
+
+    console.log(`Cache:   ${dir}`);
+    console.log(`Removed: ${result.removed} files (${formatBytes(result.freedBytes)})`);
+    console.log(`Kept:    ${result.entries} entries (${formatBytes(result.sizeBytes)})`);
+    process.exit(0);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`\nError: ${message}`);
+    process.exit(1);
+  }
+}
+
 // =============================================================================
 // CLI Program Setup
 // =============================================================================
@@ -334,15 +1012,65 @@ program
   .requiredOption('-o, --output <path>', 'Output directory for converted posts')
   .option('-l, --log-file <path>', 'Path to log file (optional)')
   .option('--no-skip-existing', 'Overwrite posts that already exist')
+  .option('--dry-run', 'Show which posts would be written and which images fetched, without changing anything')
+  .option('--no-cover-images', 'Keep remote cover image URLs instead of downloading them')
+  .option('-t, --target <name>', `Output target: ${OUTPUT_TARGETS.join(', ')} (default: markdown)`)
+  .option('-c, --concurrency <number>', 'Number of posts to convert in parallel (default: 1)')
+  .option('--embeds <mode>', `Rewrite %[url] embeds: ${Object.keys(EMBED_MODES).join(', ')} (default: none)`)
+  .option(
+    '--image-hosts <hosts>',
+    'Comma-separated hosts to download images from, or * for any (default: cdn.hashnode.com)'
+  )
+  .option('--exclude-image-hosts <hosts>', 'Comma-separated hosts never to download images from')
+  .option(
+    '--image-filenames <strategy>',
+    `Filenames for non-Hashnode images: ${IMAGE_FILENAME_STRATEGIES.join(', ')} (default: hash)`
+  )
+  .option(
+    '--shared-assets [dir]',
+    'Store images once in a shared content-addressed directory (default dir: assets, static/assets for Hugo)'
+  )
+  .option('--cache [dir]', 'Cache downloaded images across runs (default dir: ~/.cache/hashnode-converter)')
+  .option('--cache-max-size <size>', 'Maximum cache size, e.g. 500MB or 2GB (default: 512MB)')
+  .option('--offline', 'Never download images; use the cache and pre-fetched images only')
+  .option('--prefetched-images <dir>', 'Directory of pre-fetched images (by local filename) for --offline')
+  .option('--proxy <url>', 'Proxy for image downloads (default: HTTPS_PROXY/HTTP_PROXY, honoring NO_PROXY)')
+  .option('--ca-file <path>', 'PEM bundle of extra certificate authorities to trust for HTTPS downloads')
+  .option('--max-image-size <size>', 'Abort image downloads larger than this, e.g. 10MB (default: 50MB)')
+  .option('--optimize-images', 'Re-encode downloaded JPEG/PNG images without metadata (requires sharp)')
+  .option('--max-image-width <px>', 'Scale optimized images down to this width (enables --optimize-images)')
+  .option('--image-quality <1-100>', 'Quality of optimized images (default: 80; enables --optimize-images)')
+  .option(
+    '--image-formats <formats>',
+    `Write copies of optimized images in: ${MODERN_IMAGE_FORMATS.join(', ')} (enables --optimize-images)`
+  )
+  .option('--picture', 'Link optimized images through <picture> elements (requires --image-formats)')
+  .option('--image-dimensions', 'Write image width and height into the posts to prevent layout shift')
+  .option('--audit-alt-text', 'Report images with empty, filename-like or placeholder alt text')
+  .option(
+    '--fill-alt-text [sources]',
+    `Fill missing alt text from: ${ALT_TEXT_SOURCES.join(', ')} (default: all, in this order; enables --audit-alt-text)`
+  )
   .option('-v, --verbose', 'Enable verbose output', false)
   .option('-q, --quiet', 'Suppress progress output (only show summary)', false)
   .action(async (options: CLIOptions) => {
     await runConvert(options);
   });
 
+const cacheCommand = program.command('cache').description('Manage the HTTP image cache');
+
+cacheCommand
+  .command('prune')
+  .description('Evict least recently used images until the cache fits its size limit')
+  .option('--dir <dir>', 'Cache directory (default: ~/.cache/hashnode-converter)')
+  .option('--max-size <size>', 'Size to shrink the cache to, e.g. 200MB; 0 empties it (default: 512MB)')
+  .action((options: CachePruneOptions) => {
+    runCachePrune(options);
+  });
+
 // Export for testing
-export { program, runConvert };
-export type { CLIOptions, ValidatedOptions };
+export { program, runConvert, runCachePrune };
+export type { CLIOptions, ValidatedOptions, CachePruneOptions };
 
 // Parse arguments and execute only when run directly (not imported)
 // ESM equivalent of require.main === module
@@ -8,10 +8,23 @@ import { ImageProcessor } from './processors/image-processor.js';
 import { FrontmatterGenerator } from './processors/frontmatter-generator.js';
 import { FileWriter } from './services/file-writer.js';
 import { Logger } from './services/logger.js';
+import { AssetStore } from './services/asset-store.js';
+import { DownloadManifest, LEGACY_MARKERS_DIR } from './services/download-manifest.js';
+import { MarkdownTarget } from './targets/markdown-target.js';
+import { HugoTarget } from './targets/hugo-target.js';
+import { JekyllTarget } from './targets/jekyll-target.js';
+import { AstroTarget } from './targets/astro-target.js';
+import { MdxTarget } from './targets/mdx-target.js';
 
 import type { HashnodePost, HashnodeExport } from './types/hashnode-schema.js';
-import type { ConversionOptions } from './types/converter-options.js';
-import type { ConversionResult, ConvertedPost, ConversionError } from './types/conversion-result.js';
+import type { ConversionOptions, ImageDownloadOptions } from './types/converter-options.js';
+import type {
+  ConversionResult,
+  ConvertedPost,
+  ConversionError,
+  PostAccessibilityReport,
+  PlannedPost,
+} from './types/conversion-result.js';
 import type {
   ConverterEventMap,
   ConversionStartingEvent,
@@ -19,6 +32,9 @@ import type {
   ImageDownloadedEvent,
   ConversionErrorEvent,
 } from './types/converter-events.js';
+import type { OutputTarget } from './types/output-target.js';
+import type { PostLayoutContext } from './types/post-layout.js';
+import type { CoverImageResult, ImageProcessingResult, SharedAssetContext } from './types/image-processor.js';
 
 /**
  * Optional dependencies for testing via dependency injection
@@ -32,6 +48,18 @@ export interface ConverterDependencies {
   logger?: Logger;
 }
 
+/**
+ * Outcome of processing a single post within a batch.
+ * Collected per post index and aggregated once the batch completes.
+ */
+interface PostOutcome {
+  converted: boolean;
+  skipped: boolean;
+  error?: ConversionError;
+  accessibility?: PostAccessibilityReport;
+  plan?: PlannedPost;
+}
+
 /**
  * Converter orchestrates the Hashnode export conversion pipeline.
  *
@@ -39,9 +67,14 @@ export interface ConverterDependencies {
  * 1. PostParser - Extract and validate metadata from Hashnode post
  * 2. MarkdownTransformer - Clean Hashnode-specific markdown quirks
  * 3. ImageProcessor - Download images and replace CDN URLs with local paths
- * 4. FrontmatterGenerator - Generate YAML frontmatter from metadata
+ * 4. FrontmatterGenerator - Generate frontmatter from metadata (YAML, or the
+ *    output target's format)
  * 5. FileWriter - Write the final markdown file to disk
  *
+ * Where posts are written, which frontmatter format is used and any
+ * target-specific body changes (such as MDX embed components) are decided by
+ * the output target (see {@link ConversionOptions.target}).
+ *
  * The Converter extends EventEmitter to provide observable progress tracking.
  * Consumers can subscribe to events for progress bars, custom logging, or
  * integration with external systems.
@@ -76,6 +109,24 @@ export class Converter extends EventEmitter {
   private fileWriter: FileWriter;
   private logger: Logger | null = null;
 
+  /**
+   * ImageProcessors created for custom download options, keyed by the options
+   * object so every post of a run shares one download queue.
+   */
+  private imageProcessorsByOptions = new WeakMap<ImageDownloadOptions, ImageProcessor>();
+
+  /**
+   * Shared asset stores keyed by their absolute directory, so every post
+   * written to the same store updates one manifest.
+   */
+  private assetStores = new Map<string, AssetStore>();
+
+  /**
+   * Download manifests keyed by absolute output directory, so every post
+   * written to the same directory updates one manifest.
+   */
+  private downloadManifests = new Map<string, DownloadManifest>();
+
   /**
    * Create a new Converter instance.
    *
@@ -212,6 +263,13 @@ export class Converter extends EventEmitter {
    * and writes the results to the output directory. Posts that already exist
    * are skipped by default (configurable via `skipExisting` option).
    *
+   * Posts are converted one at a time unless `concurrency` is set. With a higher
+   * concurrency, event `index` values and the order of `errors` in the result
+   * still follow the order of posts in the export file.
+   *
+   * With `dryRun`, posts are only parsed and transformed: the result's `plan`
+   * lists what a run would write and download, and nothing is written to disk.
+   *
    * @param exportPath - Path to the Hashnode export JSON file
    * @param outputDir - Directory to write converted posts
    * @param options - Conversion options
@@ -222,9 +280,12 @@ export class Converter extends EventEmitter {
    * @fires image-downloaded - After each image download attempt
    * @fires conversion-error - When any error occurs during conversion
    *
+   * @throws {Error} If concurrency is not a positive integer
+   * @throws {Error} If the output target is unknown
    * @throws {Error} If export file doesn't exist or is invalid JSON
    * @throws {Error} If posts array is missing from export
    * @throws {Error} If output directory cannot be created
+   * @throws {Error} If a target support file cannot be written
    */
   async convertAllPosts(
     exportPath: string,
@@ -239,123 +300,82 @@ export class Converter extends EventEmitter {
       skipExisting: options?.skipExisting ?? true,
     };
 
-    // Initialize Logger (always create by default)
-    this.initializeLogger(effectiveOptions);
+    // Initialize Logger (always create by default, except in a dry run, which writes no log file)
+    if (!effectiveOptions.dryRun) {
+      this.initializeLogger(effectiveOptions);
+    }
+
+    // Validate concurrency and target before touching the filesystem (throws on invalid values)
+    const concurrency = this.resolveConcurrency(effectiveOptions.concurrency);
+    const target = this.resolveOutputTargetOrFail(effectiveOptions.target);
 
     // Load and validate export file (throws on fatal errors)
     const posts = this.loadAndValidateExport(exportPath);
 
-    // Ensure output directory exists (throws on fatal errors)
-    this.ensureOutputDirectory(outputDir);
+    const supportFiles: string[] = [];
+    if (effectiveOptions.dryRun) {
+      // List the support files instead of writing them
+      for (const file of target.supportFiles?.() ?? []) {
+        supportFiles.push(path.resolve(outputDir, file.path));
+      }
+    } else {
+      // Ensure output directory exists (throws on fatal errors)
+      this.ensureOutputDirectory(outputDir);
+
+      // Write target support files such as content schemas (throws on fatal errors)
+      await this.writeSupportFiles(outputDir, target);
+    }
+
+    const total = posts.length;
+    this.logger?.info(`Found ${total} posts to convert`);
+
+    // Process posts with error isolation, up to `concurrency` at a time.
+    // Outcomes are stored by post index so statistics and error ordering
+    // don't depend on which post finishes first.
+    const outcomes: PostOutcome[] = new Array(total);
+    await this.runWithConcurrency(total, concurrency, async (i) => {
+      outcomes[i] = effectiveOptions.dryRun
+        ? this.planPostAt(posts[i], i, outputDir, effectiveOptions)
+        : await this.processPostAt(posts[i], i, total, outputDir, effectiveOptions);
+    });
 
-    // Initialize result tracking
+    // Aggregate results in export order
     const errors: ConversionError[] = [];
+    const accessibility: PostAccessibilityReport[] = [];
+    const plannedPosts: PlannedPost[] = [];
     let converted = 0;
     let skipped = 0;
 
-    this.logger?.info(`Found ${posts.length} posts to convert`);
-
-    // Process each post with error isolation
-    for (let i = 0; i < posts.length; i++) {
-      const post = posts[i];
-      const index = i + 1;
-      const total = posts.length;
-      const postStartTime = Date.now();
-
-      // Extract slug safely for error tracking (handles malformed posts)
-      const slug = this.extractSlugSafely(post, i);
-
-      // Emit conversion-starting event
-      const startEvent: ConversionStartingEvent = { post, index, total };
-      this.emit('conversion-starting', startEvent);
-
-      try {
-        // Check if post should be skipped (already exists)
-        if (effectiveOptions.skipExisting && this.fileWriter.postExists(outputDir, slug)) {
-          skipped++;
-          this.logger?.info(`[${index}/${total}] Skipped: "${post.title || slug}" (already exists)`);
-
-          // Emit completion event for skipped post
-          const skipResult: ConvertedPost = {
-            slug,
-            title: post.title || slug,
-            outputPath: path.join(outputDir, slug, 'index.md'),
-            success: true,
-          };
-          const completeEvent: ConversionCompletedEvent = {
-            result: skipResult,
-            index,
-            total,
-            durationMs: Date.now() - postStartTime,
-          };
-          this.emit('conversion-completed', completeEvent);
-          continue;
-        }
-
-        // Convert the post through the pipeline
-        const result = await this.convertPost(post, outputDir, effectiveOptions);
-
-        if (result.success) {
-          converted++;
-          this.logger?.success(`[${index}/${total}] Converted: "${result.title}"`);
-        } else {
-          errors.push({ slug: result.slug, error: result.error || 'Unknown error' });
-          this.logger?.error(`[${index}/${total}] Failed: "${result.title}" - ${result.error}`);
-        }
-
-        // Emit completion event
-        const completeEvent: ConversionCompletedEvent = {
-          result,
-          index,
-          total,
-          durationMs: Date.now() - postStartTime,
-        };
-        this.emit('conversion-completed', completeEvent);
-      } catch (error) {
-        // Catch any unhandled errors, log, and continue
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        errors.push({ slug, error: errorMessage });
-        this.logger?.error(`[${index}/${total}] Error processing "${slug}": ${errorMessage}`);
-
-        // Emit error event
-        const errorEvent: ConversionErrorEvent = {
-          type: 'fatal',
-          slug,
-          message: errorMessage,
-        };
-        this.emit('conversion-error', errorEvent);
-
-        // Emit completion event with failure
-        const failResult: ConvertedPost = {
-          slug,
-          title: post.title || slug,
-          outputPath: '',
-          success: false,
-          error: errorMessage,
-        };
-        const completeEvent: ConversionCompletedEvent = {
-          result: failResult,
-          index,
-          total,
-          durationMs: Date.now() - postStartTime,
-        };
-        this.emit('conversion-completed', completeEvent);
-      }
+    for (const outcome of outcomes) {
+      if (outcome.converted) converted++;
+      if (outcome.skipped) skipped++;
+      if (outcome.error) errors.push(outcome.error);
+      if (outcome.accessibility) accessibility.push(outcome.accessibility);
+      if (outcome.plan) plannedPosts.push(outcome.plan);
     }
 
     // Calculate duration
     const duration = this.formatDuration(Date.now() - startTime);
 
-    // Write summary and close logger
-    this.logger?.writeSummary(converted, skipped, errors.length);
+    // Write summary (except in a dry run, which writes nothing) and close logger
+    if (!effectiveOptions.dryRun) {
+      this.logger?.writeSummary(converted, skipped, errors.length);
+    }
     await this.logger?.close();
 
-    return {
+    const result: ConversionResult = {
       converted,
       skipped,
       errors,
       duration,
     };
+    if (effectiveOptions.dryRun) {
+      const planned = plannedPosts.filter((post) => post.action === 'create' || post.action === 'overwrite').length;
+      result.plan = { posts: plannedPosts, planned, supportFiles };
+    } else if (effectiveOptions.downloadOptions?.altText) {
+      result.accessibility = accessibility;
+    }
+    return result;
   }
 
   /**
@@ -380,49 +400,101 @@ export class Converter extends EventEmitter {
     const slug = this.extractSlugSafely(post, 0);
 
     try {
+      const target = this.resolveOutputTarget(options?.target);
+
       // Step 1: Parse post metadata
       const metadata = this.postParser.parse(post);
+      const layoutContext: PostLayoutContext = {
+        slug: metadata.slug,
+        dateAdded: metadata.dateAdded,
+      };
 
       // Step 2: Transform markdown (remove Hashnode quirks)
-      const transformedMarkdown = this.markdownTransformer.transform(metadata.contentMarkdown);
-
-      // Step 3: Create post directory (required by ImageProcessor)
-      const postDir = path.join(outputDir, metadata.slug);
-      if (!fs.existsSync(postDir)) {
-        fs.mkdirSync(postDir, { recursive: true });
+      const markdownTransformer = options?.markdownOptions
+        ? new MarkdownTransformer(options.markdownOptions)
+        : this.markdownTransformer;
+      const transformedMarkdown = markdownTransformer.transform(metadata.contentMarkdown);
+
+      // Step 3: Create image directory (required by ImageProcessor)
+      const imageDir = path.join(outputDir, target.imageDir(layoutContext));
+      if (!fs.existsSync(imageDir)) {
+        fs.mkdirSync(imageDir, { recursive: true });
       }
 
-      // Step 4: Process images (download and replace URLs)
-      const imageProcessor =
-        options?.downloadOptions
-          ? new ImageProcessor(options.downloadOptions)
-          : this.imageProcessor;
-
-      const imageResult = await imageProcessor.process(transformedMarkdown, postDir);
+      // Step 4: Process images (download and replace URLs with the target's links)
+      const imageProcessor = this.resolveImageProcessor(options?.downloadOptions);
+
+      const coverImageUrl = options?.downloadCoverImages === false ? undefined : metadata.coverImage;
+
+      const assetStore = this.resolveAssetStore(outputDir, options?.sharedAssets, target);
+      const sharedAssets: SharedAssetContext | undefined = assetStore
+        ? {
+            store: assetStore,
+            postSlug: metadata.slug,
+            link: (assetPath) =>
+              target.sharedAssetLink
+                ? target.sharedAssetLink(assetPath, layoutContext)
+                : this.relativeAssetLink(target.postPath(layoutContext), assetPath),
+          }
+        : undefined;
+
+      const imageResult = await imageProcessor.process(transformedMarkdown, imageDir, {
+        imageLink: (filename) => target.imageLink(filename, layoutContext),
+        coverImageUrl,
+        sharedAssets,
+        downloadManifest: this.resolveDownloadManifest(outputDir),
+        onRetry: (retry) => this.emit('image-retry', { ...retry, postSlug: metadata.slug }),
+        imageMarkup: target.imageMarkup,
+        renderPicture: target.renderPicture?.bind(target),
+        renderImage: target.renderImage?.bind(target),
+      });
 
       // Emit image-downloaded events
       this.emitImageDownloadedEvents(imageResult, metadata.slug);
 
       // Track HTTP 403 errors with Logger
-      this.trackHttp403Errors(imageResult.errors, metadata.slug);
+      const coverError = imageResult.coverImage?.error;
+      this.trackHttp403Errors(coverError ? [...imageResult.errors, coverError] : imageResult.errors, metadata.slug);
+
+      // Track images offline mode left remote
+      this.trackOfflineMisses(imageResult, metadata.slug);
+
+      // Report images kept unoptimized
+      imageResult.optimizationErrors?.forEach((failure) => {
+        this.logger?.warn(`Could not optimize ${failure.filename} in ${metadata.slug}: ${failure.error}`);
+      });
+
+      // Track images with missing or meaningless alt text
+      this.trackAltTextIssues(imageResult, metadata.slug);
 
-      // Step 5: Generate frontmatter
-      const frontmatter = this.frontmatterGenerator.generate(metadata);
+      // Step 5: Generate frontmatter (pointing at the local cover image when
+      // available) and apply target-specific body changes
+      const localCoverImage = imageResult.coverImage?.localPath;
+      const postMetadata = localCoverImage ? { ...metadata, coverImage: localCoverImage } : metadata;
+      const frontmatter = target.generateFrontmatter(postMetadata);
+      const content = target.transformContent
+        ? target.transformContent(imageResult.markdown, postMetadata)
+        : imageResult.markdown;
 
       // Step 6: Write file
       const outputPath = await this.fileWriter.writePost(
         outputDir,
         metadata.slug,
         frontmatter,
-        imageResult.markdown
+        content,
+        { layout: target, dateAdded: metadata.dateAdded }
       );
 
-      return {
+      const converted: ConvertedPost = {
         slug: metadata.slug,
         title: metadata.title,
         outputPath,
         success: true,
       };
+      if (imageResult.altTextIssues) {
+        converted.altTextIssues = imageResult.altTextIssues;
+      }
+      return converted;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -456,6 +528,361 @@ export class Converter extends EventEmitter {
 
   // ==================== Private Helper Methods ====================
 
+  /**
+   * Run a single post through the skip check and conversion pipeline.
+   * Never throws: every failure is logged, emitted, and returned as an outcome.
+   *
+   * @param post - The Hashnode post to process
+   * @param i - 0-based position of the post in the export
+   * @param total - Total number of posts being converted
+   * @param outputDir - Directory to write converted posts
+   * @param options - Effective conversion options
+   * @returns Outcome used to aggregate the batch result
+   */
+  private async processPostAt(
+    post: HashnodePost,
+    i: number,
+    total: number,
+    outputDir: string,
+    options: ConversionOptions
+  ): Promise<PostOutcome> {
+    const index = i + 1;
+    const postStartTime = Date.now();
+    const outcome: PostOutcome = { converted: false, skipped: false };
+
+    // Extract slug safely for error tracking (handles malformed posts)
+    const slug = this.extractSlugSafely(post, i);
+
+    // Emit conversion-starting event
+    const startEvent: ConversionStartingEvent = { post, index, total };
+    this.emit('conversion-starting', startEvent);
+
+    try {
+      const target = this.resolveOutputTarget(options.target);
+      const writeOptions = { layout: target, dateAdded: post.dateAdded };
+
+      // Check if post should be skipped (already exists)
+      if (options.skipExisting && this.fileWriter.postExists(outputDir, slug, writeOptions)) {
+        outcome.skipped = true;
+        this.logger?.info(`[${index}/${total}] Skipped: "${post.title || slug}" (already exists)`);
+        this.migrateDownloadMarkers(post, outputDir, target, options);
+
+        // Emit completion event for skipped post
+        const skipResult: ConvertedPost = {
+          slug,
+          title: post.title || slug,
+          outputPath: path.join(outputDir, target.postPath({ slug, dateAdded: post.dateAdded })),
+          success: true,
+        };
+        const completeEvent: ConversionCompletedEvent = {
+          result: skipResult,
+          index,
+          total,
+          durationMs: Date.now() - postStartTime,
+        };
+        this.emit('conversion-completed', completeEvent);
+        return outcome;
+      }
+
+      // Convert the post through the pipeline
+      const result = await this.convertPost(post, outputDir, options);
+
+      if (result.success) {
+        outcome.converted = true;
+        if (result.altTextIssues && result.altTextIssues.length > 0) {
+          outcome.accessibility = { slug: result.slug, altTextIssues: result.altTextIssues };
+        }
+        this.logger?.success(`[${index}/${total}] Converted: "${result.title}"`);
+      } else {
+        outcome.error = { slug: result.slug, error: result.error || 'Unknown error' };
+        this.logger?.error(`[${index}/${total}] Failed: "${result.title}" - ${result.error}`);
+      }
+
+      // Emit completion event
+      const completeEvent: ConversionCompletedEvent = {
+        result,
+        index,
+        total,
+        durationMs: Date.now() - postStartTime,
+      };
+      this.emit('conversion-completed', completeEvent);
+      return outcome;
+    } catch (error) {
+      // Catch any unhandled errors, log, and continue
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      outcome.error = { slug, error: errorMessage };
+      this.logger?.error(`[${index}/${total}] Error processing "${slug}": ${errorMessage}`);
+
+      // Emit error event
+      const errorEvent: ConversionErrorEvent = {
+        type: 'fatal',
+        slug,
+        message: errorMessage,
+      };
+      this.emit('conversion-error', errorEvent);
+
+      // Emit completion event with failure
+      const failResult: ConvertedPost = {
+        slug,
+        title: post.title || slug,
+        outputPath: '',
+        success: false,
+        error: errorMessage,
+      };
+      const completeEvent: ConversionCompletedEvent = {
+        result: failResult,
+        index,
+        total,
+        durationMs: Date.now() - postStartTime,
+      };
+      this.emit('conversion-completed', completeEvent);
+      return outcome;
+    }
+  }
+
+  /**
+   * Plan a single post for a dry run: run the skip check, parsing and
+   * transformation, and list the images that would be fetched, without
+   * writing or downloading anything.
+   * Never throws: every failure is returned as an `error` plan.
+   *
+   * @param post - The Hashnode post to plan
+   * @param i - 0-based position of the post in the export
+   * @param outputDir - Directory converted posts would be written to
+   * @param options - Effective conversion options
+   * @returns Outcome carrying the post's plan; skips and errors are counted like a real run
+   */
+  private planPostAt(post: HashnodePost, i: number, outputDir: string, options: ConversionOptions): PostOutcome {
+    const slug = this.extractSlugSafely(post, i);
+    const plan: PlannedPost = { slug, action: 'create', images: [] };
+    const outcome: PostOutcome = { converted: false, skipped: false, plan };
+
+    try {
+      const target = this.resolveOutputTarget(options.target);
+      const writeOptions = { layout: target, dateAdded: post.dateAdded };
+
+      // Same skip check as a real run
+      if (options.skipExisting && this.fileWriter.postExists(outputDir, slug, writeOptions)) {
+        outcome.skipped = true;
+        plan.action = 'skip';
+        plan.outputPath = path.resolve(outputDir, target.postPath({ slug, dateAdded: post.dateAdded }));
+        return outcome;
+      }
+
+      // Parse and transform the post
+      const metadata = this.postParser.parse(post);
+      const layoutContext: PostLayoutContext = { slug: metadata.slug, dateAdded: metadata.dateAdded };
+      plan.slug = metadata.slug;
+      const markdownTransformer = options.markdownOptions
+        ? new MarkdownTransformer(options.markdownOptions)
+        : this.markdownTransformer;
+      const transformedMarkdown = markdownTransformer.transform(metadata.contentMarkdown);
+
+      // Resolve the post file (throws when it exists and can't be overwritten)
+      const { filePath, exists } = this.fileWriter.planPost(outputDir, metadata.slug, {
+        layout: target,
+        dateAdded: metadata.dateAdded,
+      });
+      plan.outputPath = filePath;
+      plan.action = exists ? 'overwrite' : 'create';
+
+      // List the images that would be fetched
+      plan.images = this.resolveImageProcessor(options.downloadOptions).plan(
+        transformedMarkdown,
+        path.join(outputDir, target.imageDir(layoutContext)),
+        options.downloadCoverImages === false ? undefined : metadata.coverImage,
+        this.resolveDownloadManifest(outputDir),
+        this.resolveAssetStore(outputDir, options.sharedAssets, target)
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      plan.action = 'error';
+      plan.error = errorMessage;
+      plan.images = [];
+      outcome.error = { slug: plan.slug, error: errorMessage };
+    }
+    return outcome;
+  }
+
+  /**
+   * Run `task` for every index in `[0, count)` with at most `concurrency`
+   * tasks in flight. Indices are handed out in ascending order, so a
+   * concurrency of 1 processes items strictly sequentially.
+   */
+  private async runWithConcurrency(
+    count: number,
+    concurrency: number,
+    task: (index: number) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < count) {
+        const index = next++;
+        await task(index);
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(concurrency, count) }, () => worker());
+    await Promise.all(workers);
+  }
+
+  /**
+   * Resolve the output target from conversion options.
+   * Built-in targets are referenced by name; custom targets are used as-is.
+   * The default Markdown target uses the injected FrontmatterGenerator.
+   * @throws {Error} If the target name is unknown
+   */
+  private resolveOutputTarget(target: ConversionOptions['target']): OutputTarget {
+    if (target === undefined || target === 'markdown') {
+      return new MarkdownTarget(this.frontmatterGenerator);
+    }
+    if (target === 'hugo') {
+      return new HugoTarget();
+    }
+    if (target === 'jekyll') {
+      return new JekyllTarget();
+    }
+    if (target === 'astro') {
+      return new AstroTarget();
+    }
+    if (target === 'mdx') {
+      return new MdxTarget({ frontmatterGenerator: this.frontmatterGenerator });
+    }
+    if (typeof target === 'object') {
+      return target;
+    }
+    throw new Error(`Unknown output target: ${String(target)}`);
+  }
+
+  /**
+   * Resolve the output target, emitting a fatal error if it is invalid.
+   * @throws {Error} If the target name is unknown
+   */
+  private resolveOutputTargetOrFail(target: ConversionOptions['target']): OutputTarget {
+    try {
+      return this.resolveOutputTarget(target);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emitFatalError(message);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ImageProcessor for the given download options.
+   * Processors are reused per options object so that concurrent posts share
+   * the same download queue and its connection/rate limits.
+   */
+  private resolveImageProcessor(downloadOptions?: ImageDownloadOptions): ImageProcessor {
+    if (!downloadOptions) {
+      return this.imageProcessor;
+    }
+
+    let processor = this.imageProcessorsByOptions.get(downloadOptions);
+    if (!processor) {
+      processor = new ImageProcessor(downloadOptions);
+      this.imageProcessorsByOptions.set(downloadOptions, processor);
+    }
+    return processor;
+  }
+
+  /**
+   * Get the shared asset store for an output directory, if enabled.
+   * Stores are reused per directory so concurrent posts share one manifest.
+   * Without a configured directory, the target's `sharedAssetDir` is used.
+   */
+  private resolveAssetStore(
+    outputDir: string,
+    sharedAssets: ConversionOptions['sharedAssets'],
+    target: OutputTarget
+  ): AssetStore | undefined {
+    if (!sharedAssets) {
+      return undefined;
+    }
+
+    const configured = sharedAssets === true ? {} : sharedAssets;
+    const config = { ...configured, dir: configured.dir ?? target.sharedAssetDir ?? 'assets' };
+    const key = path.resolve(outputDir, config.dir);
+    let store = this.assetStores.get(key);
+    if (!store) {
+      store = new AssetStore(outputDir, config);
+      this.assetStores.set(key, store);
+    }
+    return store;
+  }
+
+  /**
+   * Get the download manifest for an output directory.
+   * Manifests are reused per directory so concurrent posts share one file.
+   */
+  private resolveDownloadManifest(outputDir: string): DownloadManifest {
+    const key = path.resolve(outputDir);
+    let manifest = this.downloadManifests.get(key);
+    if (!manifest) {
+      manifest = new DownloadManifest(outputDir);
+      this.downloadManifests.set(key, manifest);
+    }
+    return manifest;
+  }
+
+  /**
+   * Import the `.downloaded-markers/` directory of a skipped post into the
+   * download manifest. Posts that are converted are migrated by
+   * ImageProcessor. Failures are logged as warnings and don't fail the post.
+   */
+  private migrateDownloadMarkers(
+    post: HashnodePost,
+    outputDir: string,
+    target: OutputTarget,
+    options: ConversionOptions
+  ): void {
+    try {
+      const imageDir = path.join(outputDir, target.imageDir({ slug: post.slug, dateAdded: post.dateAdded }));
+      if (!fs.existsSync(path.join(imageDir, LEGACY_MARKERS_DIR))) {
+        return;
+      }
+
+      this.resolveImageProcessor(options.downloadOptions).migrateMarkers(
+        post.contentMarkdown,
+        imageDir,
+        this.resolveDownloadManifest(outputDir),
+        options.downloadCoverImages === false ? undefined : post.coverImage
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn(`Could not migrate download markers of "${post.slug}": ${message}`);
+    }
+  }
+
+  /**
+   * Build a link to a shared asset relative to the post's markdown file.
+   *
+   * @param postPath - Post file path relative to the output directory
+   * @param assetPath - Asset path relative to the output directory
+   */
+  private relativeAssetLink(postPath: string, assetPath: string): string {
+    const postDir = path.dirname(postPath).split(path.sep).join('/');
+    return path.posix.relative(postDir, assetPath);
+  }
+
+  /**
+   * Validate the concurrency option, defaulting to sequential conversion.
+   * @throws {Error} If concurrency is not a positive integer
+   */
+  private resolveConcurrency(concurrency: number | undefined): number {
+    if (concurrency === undefined) {
+      return 1;
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      const error = `Invalid concurrency: ${concurrency} (must be a positive integer)`;
+      this.emitFatalError(error);
+      throw new Error(error);
+    }
+
+    return concurrency;
+  }
+
   /**
    * Initialize Logger service.
    * Always creates a logger by default (matches reference implementation).
@@ -530,6 +957,22 @@ export class Converter extends EventEmitter {
     }
   }
 
+  /**
+   * Write the support files generated by the output target.
+   * @throws {Error} If a support file cannot be written
+   */
+  private async writeSupportFiles(outputDir: string, target: OutputTarget): Promise<void> {
+    for (const file of target.supportFiles?.() ?? []) {
+      try {
+        await this.fileWriter.writeSupportFile(outputDir, file.path, file.content);
+      } catch (error) {
+        const message = `Cannot write ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        this.emitFatalError(message);
+        throw new Error(message, { cause: error });
+      }
+    }
+  }
+
   /**
    * Extract slug safely from post for error tracking.
    * Falls back to index-based identifier if slug extraction fails.
@@ -577,6 +1020,7 @@ export class Converter extends EventEmitter {
       imagesDownloaded: number;
       imagesSkipped: number;
       errors: Array<{ filename: string; url: string; error: string; is403: boolean }>;
+      coverImage?: CoverImageResult;
     },
     postSlug: string
   ): void {
@@ -601,6 +1045,22 @@ export class Converter extends EventEmitter {
       };
       this.emit('image-downloaded', event);
     });
+
+    // Emit the cover image outcome
+    const cover = imageResult.coverImage;
+    if (cover?.status === 'downloaded') {
+      const event: ImageDownloadedEvent = { filename: cover.filename, postSlug, success: true };
+      this.emit('image-downloaded', event);
+    } else if (cover?.error) {
+      const event: ImageDownloadedEvent = {
+        filename: cover.error.filename,
+        postSlug,
+        success: false,
+        error: cover.error.error,
+        is403: cover.error.is403,
+      };
+      this.emit('image-downloaded', event);
+    }
   }
 
   /**
@@ -616,4 +1076,26 @@ export class Converter extends EventEmitter {
         this.logger?.trackHttp403(slug, err.filename, err.url);
       });
   }
+
+  /**
+   * Track images that offline mode could not resolve via Logger for summary reporting.
+   */
+  private trackOfflineMisses(imageResult: ImageProcessingResult, slug: string): void {
+    imageResult.offlineMisses?.forEach((miss) => {
+      this.logger?.trackOfflineMiss(slug, miss.filename, miss.url);
+    });
+    const cover = imageResult.coverImage;
+    if (cover?.status === 'offline-miss') {
+      this.logger?.trackOfflineMiss(slug, 'cover image', cover.url);
+    }
+  }
+
+  /**
+   * Track images with missing or meaningless alt text via Logger for summary reporting.
+   */
+  private trackAltTextIssues(imageResult: ImageProcessingResult, slug: string): void {
+    imageResult.altTextIssues?.forEach((issue) => {
+      this.logger?.trackAltTextIssue(slug, issue);
+    });
+  }
 }
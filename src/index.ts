@@ -43,6 +43,8 @@ export * from './types/hashnode-schema.js';
 export * from './types/converter-options.js';
 export * from './types/conversion-result.js';
 export * from './types/converter-events.js';
+export * from './types/output-target.js';
+export * from './types/post-layout.js';
 
 // -----------------------------------------------------------------------------
 // Services (for advanced users)
@@ -51,10 +53,64 @@ export { ImageDownloader } from './services/image-downloader.js';
 export type {
   ImageDownloadConfig,
   DownloadResult,
+  RedirectPolicy,
+  CircuitBreakerConfig,
+  DownloadRetryEvent,
+  DownloadFailureReason,
 } from './services/image-downloader.js';
 
+export { DownloadQueue } from './services/download-queue.js';
+export type { DownloadQueueConfig, RateLimitConfig } from './services/download-queue.js';
+
+export { HostFilter, DEFAULT_ALLOWED_HOSTS } from './services/host-filter.js';
+export type { HostFilterConfig } from './services/host-filter.js';
+
+export { ImageFilenamer } from './services/image-filenamer.js';
+export type { ImageFilenameStrategy } from './services/image-filenamer.js';
+
+export { AssetStore } from './services/asset-store.js';
+export type { AssetStoreConfig, AssetManifest, AssetManifestEntry } from './services/asset-store.js';
+
+export {
+  DownloadManifest,
+  DOWNLOAD_MANIFEST_FILENAME,
+  LEGACY_MARKERS_DIR,
+} from './services/download-manifest.js';
+export type {
+  DownloadStatus,
+  DownloadRecord,
+  DownloadSuccessDetails,
+  DownloadManifestData,
+} from './services/download-manifest.js';
+
+export { HttpCache, DEFAULT_CACHE_DIR, DEFAULT_CACHE_MAX_SIZE } from './services/http-cache.js';
+
+export { NodeHttpTransport, HttpTimeoutError } from './services/http-transport.js';
+export type { HttpTransport, HttpRequestOptions, NodeHttpTransportConfig } from './services/http-transport.js';
+export type {
+  HttpCacheConfig,
+  HttpCacheValidators,
+  HttpCacheEntry,
+  HttpCacheIndex,
+  CachePruneResult,
+} from './services/http-cache.js';
+
+export { ImageOptimizer, SharpImageCodec, MODERN_IMAGE_TYPES } from './services/image-optimizer.js';
+export type {
+  ImageOptimizerConfig,
+  ImageCodec,
+  ImageEncodeOptions,
+  ImageEncodeFormat,
+  ModernImageFormat,
+  ImageVariant,
+  OptimizedImage,
+} from './services/image-optimizer.js';
+
+export { ImageDimensionReader } from './services/image-dimensions.js';
+export type { ImageDimensions } from './services/image-dimensions.js';
+
 export { FileWriter, FileWriteError } from './services/file-writer.js';
-export type { FileWriterConfig } from './services/file-writer.js';
+export type { FileWriterConfig, PostWriteOptions, PostWritePlan } from './services/file-writer.js';
 
 export { Logger } from './services/logger.js';
 
@@ -64,11 +120,86 @@ export { Logger } from './services/logger.js';
 export { PostParser } from './processors/post-parser.js';
 export { MarkdownTransformer } from './processors/markdown-transformer.js';
 export type { MarkdownTransformerOptions } from './processors/markdown-transformer.js';
+export { MarkdownPipeline } from './processors/markdown-pipeline.js';
+export { CodeMasker } from './processors/code-masker.js';
+export type { CodeRange, MaskedMarkdown } from './processors/code-masker.js';
+export { ImageUrlExtractor } from './processors/image-url-extractor.js';
+export type {
+  ImageOccurrence,
+  ImageSyntax,
+  InlineImage,
+  ReferenceImage,
+  HtmlImageTag,
+  ImageUrlExtractorOptions,
+} from './processors/image-url-extractor.js';
+export { AltTextAuditor } from './processors/alt-text-auditor.js';
+export type {
+  AltTextAudit,
+  AltTextAuditOptions,
+  AltTextIssue,
+  AltTextProblem,
+  AltTextSource,
+} from './processors/alt-text-auditor.js';
+export { PictureRenderer } from './processors/picture-renderer.js';
+export type {
+  ImageElement,
+  PictureElement,
+  PictureSource,
+  PictureRendererOptions,
+} from './processors/picture-renderer.js';
+export type {
+  MarkdownPluginContext,
+  MarkdownReplacement,
+  MarkdownTransformPlugin,
+} from './types/markdown-plugin.js';
 export { ImageProcessor } from './processors/image-processor.js';
 export { FrontmatterGenerator } from './processors/frontmatter-generator.js';
+export { HugoFrontmatterGenerator } from './processors/hugo-frontmatter-generator.js';
+export { JekyllFrontmatterGenerator } from './processors/jekyll-frontmatter-generator.js';
+export type { JekyllFrontmatterOptions } from './processors/jekyll-frontmatter-generator.js';
+export { EmbedParser } from './processors/embed-parser.js';
+export type { Embed, EmbedKind, EmbedReplacer } from './processors/embed-parser.js';
+export { MdxEmbedRenderer, DEFAULT_MDX_EMBED_COMPONENTS } from './processors/mdx-embed-renderer.js';
+export { MdxEscaper } from './processors/mdx-escaper.js';
+export type {
+  MdxEmbedComponent,
+  MdxEmbedComponentMap,
+  MdxPropValue,
+} from './processors/mdx-embed-renderer.js';
+export { AstroFrontmatterGenerator } from './processors/astro-frontmatter-generator.js';
+export { CalloutConverter, DEFAULT_CALLOUT_ALERT_TYPES } from './processors/callout-converter.js';
+export type { CalloutAlertType, CalloutAlertTypes } from './processors/callout-converter.js';
+export type {
+  AstroField,
+  AstroFieldType,
+  AstroFieldValue,
+} from './processors/astro-frontmatter-generator.js';
 
 export type {
   ImageProcessorOptions,
   ImageProcessingResult,
   ImageProcessingError,
+  ImageOfflineMiss,
+  ImageLinkResolver,
+  ImageMarkup,
+  ImageOptimizationOptions,
+  PictureRenderFunction,
+  ImageRenderFunction,
+  CoverImageResult,
+  PlannedImage,
+  SharedAssetContext,
+  ImageProcessOptions,
 } from './types/image-processor.js';
+
+// -----------------------------------------------------------------------------
+// Output Targets
+// -----------------------------------------------------------------------------
+export { MarkdownTarget } from './targets/markdown-target.js';
+export { HugoTarget } from './targets/hugo-target.js';
+export { JekyllTarget } from './targets/jekyll-target.js';
+export type { JekyllTargetOptions } from './targets/jekyll-target.js';
+export { AstroTarget } from './targets/astro-target.js';
+export type { AstroTargetOptions } from './targets/astro-target.js';
+export { MdxTarget } from './targets/mdx-target.js';
+export type { MdxTargetOptions, MdxImageComponent } from './targets/mdx-target.js';
+export { DirectoryLayout } from './targets/directory-layout.js';
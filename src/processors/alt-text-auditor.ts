@@ -0,0 +1,387 @@
+import { CodeMasker } from './code-masker.js';
+import { ImageUrlExtractor } from './image-url-extractor.js';
+import type { MaskedMarkdown } from './code-masker.js';
+import type { HtmlImageTag } from './image-url-extractor.js';
+
+/**
+ * Why an image's alt text does not describe it:
+ * - `empty`: no alt text (or an HTML `<img>` without an `alt` attribute)
+ * - `filename`: a filename, hash or URL (e.g., "IMG_2041.jpg", "Screenshot 2023-04-01 at 10.12.33")
+ * - `generic`: a placeholder word such as "image", "screenshot" or "photo 2"
+ */
+export type AltTextProblem = 'empty' | 'filename' | 'generic';
+
+/**
+ * Context alt text can be filled from:
+ * - `caption`: an emphasized line or a `Figure 1:` line right below the
+ *   image, or the `<figcaption>` of its `<figure>`
+ * - `title`: the image's title (`![](url "title")` or the `title` attribute)
+ * - `heading`: the nearest heading above the image
+ */
+export type AltTextSource = 'caption' | 'title' | 'heading';
+
+/**
+ * An image whose alt text is missing or meaningless
+ */
+export interface AltTextIssue {
+  /** Image URL, as written in the markdown */
+  url: string;
+
+  /** Alt text, as written in the markdown */
+  alt: string;
+
+  /** What is wrong with the alt text */
+  problem: AltTextProblem;
+
+  /** Alt text written in its place, when filling is enabled and context was found */
+  filledAlt?: string;
+
+  /** Context the alt text was filled from */
+  filledFrom?: AltTextSource;
+}
+
+/**
+ * Configuration for AltTextAuditor
+ */
+export interface AltTextAuditOptions {
+  /**
+   * Replace missing or meaningless alt text with text from the image's
+   * context. Images without usable context are only reported.
+   * @default false
+   */
+  fill?: boolean;
+
+  /**
+   * Context to fill alt text from, in order of preference.
+   * @default ['caption', 'title', 'heading']
+   */
+  sources?: AltTextSource[];
+}
+
+/**
+ * Audited markdown and the images with missing or meaningless alt text
+ */
+export interface AltTextAudit {
+  /** Markdown with filled alt text (unchanged unless filling is enabled) */
+  markdown: string;
+
+  /** Images with missing or meaningless alt text, in document order */
+  issues: AltTextIssue[];
+}
+
+/**
+ * An image found in the masked markdown
+ */
+interface AuditedImage {
+  /** Source range of the whole image */
+  start: number;
+  end: number;
+  url: string;
+  alt: string;
+  title?: string;
+  /** Builds the image source with new alt text */
+  withAlt: (alt: string) => string;
+}
+
+const ALT_TEXT_SOURCES: readonly AltTextSource[] = ['caption', 'title', 'heading'];
+
+/**
+ * Matches an ATX heading, capturing its text
+ */
+const HEADING_PATTERN = /^[ \t>]*#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/gm;
+
+/**
+ * Matches the line right below an image, or the line after one blank line
+ */
+const NEXT_LINE_PATTERN = /^[ \t]*\r?\n(?:[ \t>]*\r?\n)?[ \t>]*(.*)/;
+
+/**
+ * Matches a caption line that is emphasized as a whole
+ */
+const EMPHASIZED_CAPTION_PATTERN = /^(\*\*?|__?)(?!\s)(.+?)\1$/;
+
+/**
+ * Matches a numbered figure caption (`Figure 1: ...`, `Fig. 2 - ...`),
+ * capturing the text after the number
+ */
+const FIGURE_CAPTION_PATTERN = /^(?:fig(?:ure)?\.?)[ \t]*\d+[ \t]*[:.\-–—][ \t]*(.+)$/i;
+
+/**
+ * Matches the `<figcaption>` of the `<figure>` an image is in
+ */
+const FIGCAPTION_PATTERN = /^(?:(?!<\/figure>)[\s\S])*?<figcaption\b[^>]*>([\s\S]*?)<\/figcaption>/i;
+
+const IMAGE_EXTENSION_PATTERN = /\.(?:png|jpe?g|gif|webp|avif|svg|bmp|ico|tiff?|heic)$/i;
+
+/**
+ * Matches names given by cameras, phones and screenshot tools, UUIDs, hashes
+ * and URLs
+ */
+const FILENAME_PATTERN =
+  /^(?:(?:img|dsc|dscn|dscf|pxl|mvimg|screenshot|screen shot|capture|snip)[ _-]*\d[\w .:-]*|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|https?:\/\/\S+)$/i;
+
+/**
+ * Matches placeholder words, optionally numbered ("Image 3", "photo-2")
+ */
+const GENERIC_PATTERN =
+  /^(?:an? )?(?:image|img|picture|pic|photo|photograph|screenshot|screen shot|screen capture|figure|fig|graphic|illustration|icon|banner|thumbnail|untitled|alt|alt text|placeholder|enter image description here)s?[\s#:._-]*\d*$/i;
+
+/**
+ * AltTextAuditor finds images whose alt text is missing or meaningless and,
+ * optionally, fills it from the text around the image.
+ *
+ * Inline images, reference images and HTML `<img>` tags are found with an
+ * {@link ImageUrlExtractor} and audited whatever their URL. Images in code blocks and inline code are ignored.
+ * Filled alt text is written in plain text: inline markdown and HTML tags
+ * are stripped from captions, titles and headings.
+ *
+ * @example
+ * ```typescript
+ * const auditor = new AltTextAuditor({ fill: true });
+ * auditor.audit('![](./uuid.png)\n*Request flow between services*');
+ * // {
+ * //   markdown: '![Request flow between services](./uuid.png)\n*Request flow between services*',
+ * //   issues: [{ url: './uuid.png', alt: '', problem: 'empty', filledAlt: 'Request flow between services', filledFrom: 'caption' }]
+ * // }
+ * ```
+ */
+export class AltTextAuditor {
+  private fill: boolean;
+  private sources: AltTextSource[];
+  private codeMasker = new CodeMasker();
+  private urlExtractor = new ImageUrlExtractor({ relativeUrls: true });
+
+  /**
+   * Create a new AltTextAuditor instance.
+   *
+   * @param options - Whether and from where alt text is filled
+   * @throws {Error} If a source is not one of `caption`, `title` or `heading`
+   */
+  constructor(options?: AltTextAuditOptions) {
+    this.fill = options?.fill ?? false;
+    this.sources = options?.sources ?? [...ALT_TEXT_SOURCES];
+    for (const source of this.sources) {
+      if (!ALT_TEXT_SOURCES.includes(source)) {
+        throw new Error(`Invalid alt text source: ${source}`);
+      }
+    }
+  }
+
+  /**
+   * Classify alt text.
+   *
+   * @param alt - Alt text as written (markdown or HTML)
+   * @param url - Image URL, to recognize alt text repeating the filename
+   * @returns The problem, or undefined if the alt text looks descriptive
+   */
+  static check(alt: string, url = ''): AltTextProblem | undefined {
+    const text = alt.trim();
+    if (!text) {
+      return 'empty';
+    }
+
+    const basename = decodeBasename(url);
+    if (
+      IMAGE_EXTENSION_PATTERN.test(text) ||
+      FILENAME_PATTERN.test(text) ||
+      (basename !== '' && text.toLowerCase() === basename.replace(IMAGE_EXTENSION_PATTERN, '').toLowerCase())
+    ) {
+      return 'filename';
+    }
+
+    return GENERIC_PATTERN.test(text) ? 'generic' : undefined;
+  }
+
+  /**
+   * Audit the alt text of the images in markdown.
+   *
+   * @param markdown - Markdown content
+   * @returns Markdown with filled alt text and the images' issues
+   */
+  audit(markdown: string): AltTextAudit {
+    const masked = this.codeMasker.mask(markdown);
+    const issues: AltTextIssue[] = [];
+    const parts: string[] = [];
+    let cursor = 0;
+
+    for (const image of this.findImages(masked.markdown)) {
+      const problem = AltTextAuditor.check(image.alt, image.url);
+      if (!problem) {
+        continue;
+      }
+
+      const issue: AltTextIssue = { url: image.url, alt: image.alt, problem };
+      if (this.fill) {
+        const filled = this.fillFromContext(image, masked);
+        if (filled) {
+          issue.filledAlt = filled.alt;
+          issue.filledFrom = filled.source;
+          parts.push(masked.markdown.slice(cursor, image.start), image.withAlt(filled.alt));
+          cursor = image.end;
+        }
+      }
+      issues.push(issue);
+    }
+
+    if (parts.length === 0) {
+      return { markdown, issues };
+    }
+    return { markdown: masked.restore(parts.join('') + masked.markdown.slice(cursor)), issues };
+  }
+
+  /**
+   * Find the first source with usable alt text.
+   */
+  private fillFromContext(
+    image: AuditedImage,
+    masked: MaskedMarkdown
+  ): { alt: string; source: AltTextSource } | undefined {
+    for (const source of this.sources) {
+      const raw =
+        source === 'caption'
+          ? this.caption(masked.markdown, image)
+          : source === 'title'
+            ? image.title
+            : this.heading(masked.markdown, image.start);
+      if (raw === undefined) {
+        continue;
+      }
+
+      const alt = plainText(masked.restore(raw));
+      if (AltTextAuditor.check(alt, image.url) === undefined) {
+        return { alt, source };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Caption below an image: the `<figcaption>` of its figure, or an
+   * emphasized or numbered figure line right below the image's line
+   */
+  private caption(markdown: string, image: AuditedImage): string | undefined {
+    const rest = markdown.slice(image.end);
+
+    const before = markdown.slice(0, image.start).toLowerCase();
+    const figure = before.lastIndexOf('<figure');
+    if (figure !== -1 && !before.includes('</figure>', figure)) {
+      const figcaption = FIGCAPTION_PATTERN.exec(rest);
+      if (figcaption) {
+        return figcaption[1];
+      }
+    }
+
+    const line = NEXT_LINE_PATTERN.exec(rest)?.[1].trim();
+    if (!line) {
+      return undefined;
+    }
+    return EMPHASIZED_CAPTION_PATTERN.exec(line)?.[2] ?? FIGURE_CAPTION_PATTERN.exec(line)?.[1];
+  }
+
+  /**
+   * Text of the nearest heading above an image
+   */
+  private heading(markdown: string, start: number): string | undefined {
+    let text: string | undefined;
+    for (const match of markdown.slice(0, start).matchAll(HEADING_PATTERN)) {
+      text = match[1];
+    }
+    return text;
+  }
+
+  /**
+   * Every image of the masked markdown, with the source that rewrites its alt text
+   */
+  private findImages(markdown: string): AuditedImage[] {
+    const images: AuditedImage[] = [];
+    for (const occurrence of this.urlExtractor.extract(markdown)) {
+      const { url, image, references, tag } = occurrence;
+      if (image) {
+        // The destination follows the alt text: `](url "title")`
+        const destination = markdown.slice(image.start + image.alt.length + 2, image.end);
+        images.push({ ...image, url, withAlt: (alt) => `![${markdownAlt(alt)}${destination}` });
+      }
+      for (const reference of references ?? []) {
+        images.push({
+          start: reference.start,
+          end: reference.end,
+          url,
+          alt: reference.alt,
+          title: occurrence.title,
+          withAlt: (alt) => `![${markdownAlt(alt)}][${reference.label}]`,
+        });
+      }
+      if (tag) {
+        images.push({
+          start: tag.start,
+          end: tag.end,
+          url,
+          alt: tag.alt ?? '',
+          title: tag.title,
+          withAlt: (alt) => this.withHtmlAlt(markdown, tag, alt),
+        });
+      }
+    }
+    return images.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Rewrite the `alt` attribute of an `<img>` tag, or add one after `<img`
+   */
+  private withHtmlAlt(markdown: string, tag: HtmlImageTag, alt: string): string {
+    const attribute = `alt="${htmlAlt(alt)}"`;
+    if (tag.altAttribute) {
+      const { start, end } = tag.altAttribute;
+      return markdown.slice(tag.start, start) + attribute + markdown.slice(end, tag.end);
+    }
+    const name = tag.start + '<img'.length;
+    return `${markdown.slice(tag.start, name)} ${attribute}${markdown.slice(name, tag.end)}`;
+  }
+}
+
+/**
+ * Last path segment of a URL, percent-decoded when possible
+ */
+function decodeBasename(url: string): string {
+  const segment = url.split(/[?#]/)[0].split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Reduce a caption, title or heading to plain text
+ */
+function plainText(text: string): string {
+  let plain = text
+    .replace(/<[^>]+>/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`+/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+  // Unwrap emphasis from the outside in; underscores only mark emphasis at word boundaries
+  let previous: string;
+  do {
+    previous = plain;
+    plain = plain
+      .replace(/(\*\*|~~|\*)(?!\s)(.+?)(?<!\s)\1/g, '$2')
+      .replace(/(^|\W)(__|_)(?!\s)(.+?)(?<!\s)\2(?!\w)/g, '$1$3');
+  } while (plain !== previous);
+  return plain.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Alt text for markdown images: brackets would end the alt text
+ */
+function markdownAlt(alt: string): string {
+  return alt.replace(/[[\]]/g, '');
+}
+
+function htmlAlt(alt: string): string {
+  return alt.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
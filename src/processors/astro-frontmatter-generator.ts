@@ -0,0 +1,226 @@
+import type { PostMetadata } from '../types/hashnode-schema.js';
+
+/**
+ * Value types supported in Astro frontmatter fields.
+ * Each type maps to one YAML representation and one zod schema.
+ */
+export type AstroFieldType = 'string' | 'number' | 'boolean' | 'date' | 'string[]';
+
+/**
+ * Value produced for an Astro frontmatter field
+ */
+export type AstroFieldValue = string | number | boolean | Date | string[] | undefined;
+
+/**
+ * Describes one frontmatter field of an Astro content collection.
+ *
+ * The same descriptor drives both the emitted frontmatter and the generated
+ * zod schema, so the two cannot disagree.
+ */
+export interface AstroField {
+  /** Frontmatter key (must be a valid identifier) */
+  name: string;
+
+  /** Value type, used for validation and the zod schema */
+  type: AstroFieldType;
+
+  /**
+   * Whether the field may be missing from a post.
+   * Required fields that resolve to `undefined` fail the conversion.
+   * @default false
+   */
+  optional?: boolean;
+
+  /**
+   * Compute the field value for a post.
+   * Return `undefined` to omit an optional field.
+   */
+  value: (metadata: PostMetadata) => AstroFieldValue;
+}
+
+/**
+ * Fields emitted for every post, derived from {@link PostMetadata}.
+ * `slug` is not emitted: Astro reserves it and derives it from the filename.
+ */
+const BUILT_IN_FIELDS: readonly AstroField[] = [
+  { name: 'title', type: 'string', value: (m) => m.title },
+  { name: 'description', type: 'string', optional: true, value: (m) => m.brief || undefined },
+  { name: 'pubDate', type: 'date', value: (m) => m.dateAdded },
+  { name: 'updatedDate', type: 'date', optional: true, value: (m) => m.updatedAt },
+  {
+    name: 'draft',
+    type: 'boolean',
+    optional: true,
+    value: (m) => (m.isActive === undefined ? undefined : !m.isActive),
+  },
+  {
+    name: 'tags',
+    type: 'string[]',
+    optional: true,
+    value: (m) => (m.tags && m.tags.length > 0 ? m.tags : undefined),
+  },
+  { name: 'heroImage', type: 'string', optional: true, value: (m) => m.coverImage },
+];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const ZOD_TYPES: Record<AstroFieldType, string> = {
+  string: 'z.string()',
+  number: 'z.number()',
+  boolean: 'z.boolean()',
+  date: 'z.coerce.date()',
+  'string[]': 'z.array(z.string())',
+};
+
+/**
+ * AstroFrontmatterGenerator creates YAML frontmatter for Astro content
+ * collections, together with the matching zod schema for
+ * `src/content/config.ts`.
+ *
+ * Field mapping:
+ * - `title` - copied as-is
+ * - `description` - from `brief` (omitted if empty)
+ * - `pubDate` - from `dateAdded`
+ * - `updatedDate` - from `updatedAt` (omitted if unavailable)
+ * - `draft` - inverse of `isActive` (omitted if unknown)
+ * - `tags` - from `tags` (omitted if empty)
+ * - `heroImage` - from `coverImage` (omitted if unavailable)
+ * - any configured extra fields, in order
+ *
+ * Values are checked against their declared type before being emitted, so
+ * a post that would not pass the generated schema fails during conversion
+ * instead of during the Astro build.
+ *
+ * @example
+ * ```typescript
+ * const generator = new AstroFrontmatterGenerator([
+ *   { name: 'author', type: 'string', value: () => 'Jane Doe' },
+ * ]);
+ * generator.generate(metadata);
+ * generator.generateSchema('blog'); // contents of src/content/config.ts
+ * ```
+ */
+export class AstroFrontmatterGenerator {
+  private readonly fields: readonly AstroField[];
+
+  /**
+   * @param extraFields - Additional fields appended after the built-in ones
+   * @throws {Error} If an extra field name is invalid or duplicates another field
+   */
+  constructor(extraFields: readonly AstroField[] = []) {
+    const names = new Set(BUILT_IN_FIELDS.map((field) => field.name));
+    for (const field of extraFields) {
+      if (!FIELD_NAME_PATTERN.test(field.name)) {
+        throw new Error(`Invalid Astro field name: ${field.name}`);
+      }
+      if (names.has(field.name) || field.name === 'slug') {
+        throw new Error(`Duplicate or reserved Astro field name: ${field.name}`);
+      }
+      names.add(field.name);
+    }
+    this.fields = [...BUILT_IN_FIELDS, ...extraFields];
+  }
+
+  /**
+   * Generates a YAML frontmatter string from the provided metadata.
+   *
+   * @param metadata - The metadata to convert to frontmatter
+   * @returns The formatted YAML string (including --- delimiters)
+   * @throws {Error} If a required field is missing or a value does not match its type
+   */
+  generate(metadata: PostMetadata): string {
+    const lines = ['---'];
+
+    for (const field of this.fields) {
+      const value = field.value(metadata);
+      if (value === undefined) {
+        if (!field.optional) {
+          throw new Error(`Missing required Astro field: ${field.name}`);
+        }
+        continue;
+      }
+      lines.push(...this.formatField(field, value));
+    }
+
+    lines.push('---');
+    return lines.join('\n');
+  }
+
+  /**
+   * Generates the `src/content/config.ts` module defining the collection
+   * schema for the emitted frontmatter.
+   *
+   * @param collection - Collection name (must be a valid identifier)
+   * @returns TypeScript source for the content config
+   */
+  generateSchema(collection: string): string {
+    const schemaLines = this.fields.map((field) => {
+      const optional = field.optional ? '.optional()' : '';
+      return `    ${field.name}: ${ZOD_TYPES[field.type]}${optional},`;
+    });
+
+    return [
+      '// Generated by hashnode-content-converter. Changes will be overwritten.',
+      "import { defineCollection, z } from 'astro:content';",
+      '',
+      `const ${collection} = defineCollection({`,
+      "  type: 'content',",
+      '  schema: z.object({',
+      ...schemaLines,
+      '  }),',
+      '});',
+      '',
+      `export const collections = { ${collection} };`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Format a field as YAML lines, validating the value against its type.
+   * @throws {Error} If the value does not match the declared type
+   */
+  private formatField(field: AstroField, value: Exclude<AstroFieldValue, undefined>): string[] {
+    const mismatch = () =>
+      new Error(`Invalid value for Astro field "${field.name}": expected ${field.type}`);
+
+    switch (field.type) {
+      case 'string':
+        if (typeof value !== 'string') throw mismatch();
+        return [`${field.name}: "${this.escapeString(value)}"`];
+
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw mismatch();
+        return [`${field.name}: ${value}`];
+
+      case 'boolean':
+        if (typeof value !== 'boolean') throw mismatch();
+        return [`${field.name}: ${value}`];
+
+      case 'date': {
+        const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+        if (!date || Number.isNaN(date.getTime())) throw mismatch();
+        return [`${field.name}: ${date.toISOString()}`];
+      }
+
+      case 'string[]':
+        if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) throw mismatch();
+        if (value.length === 0) {
+          return [`${field.name}: []`];
+        }
+        return [`${field.name}:`, ...value.map((item) => `  - "${this.escapeString(item)}"`)];
+    }
+  }
+
+  /**
+   * Escapes a string for use inside a double-quoted YAML scalar.
+   * Backslashes are escaped first to avoid double-escaping issues.
+   */
+  private escapeString(str: string): string {
+    return str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * GitHub-style alert types
+ */
+export type CalloutAlertType = 'NOTE' | 'TIP' | 'IMPORTANT' | 'WARNING' | 'CAUTION';
+
+/**
+ * Alert type used for each callout emoji.
+ * Keys are compared without emoji variation selectors, so `⚠` and `⚠️` match.
+ */
+export type CalloutAlertTypes = Record<string, CalloutAlertType>;
+
+/**
+ * Default emoji mapping. Callouts with any other emoji (or none) become NOTE alerts.
+ */
+export const DEFAULT_CALLOUT_ALERT_TYPES: Readonly<CalloutAlertTypes> = {
+  'ℹ️': 'NOTE',
+  '📝': 'NOTE',
+  '💡': 'TIP',
+  '✅': 'TIP',
+  '❗': 'IMPORTANT',
+  '📌': 'IMPORTANT',
+  '🔥': 'IMPORTANT',
+  '⚠️': 'WARNING',
+  '🚧': 'WARNING',
+  '🚨': 'CAUTION',
+  '❌': 'CAUTION',
+  '⛔': 'CAUTION',
+};
+
+/**
+ * Opening tag of a callout, at the start of a line
+ */
+const CALLOUT_OPEN_PATTERN = /^([ \t]*)<div\s+data-node-type="callout"\s*>/;
+const CALLOUT_TAG_PATTERN = /<div\s+data-node-type="callout"\s*>/y;
+
+const EMOJI_PATTERN = /<div\s+data-node-type="callout-emoji"\s*>([\s\S]*?)<\/div\s*>/;
+const TEXT_OPEN_PATTERN = /<div\s+data-node-type="callout-text"\s*>/;
+const DIV_TAG_PATTERN = /<div\b[^>]*>|<\/div\s*>/g;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * A callout found by {@link CalloutConverter.match}
+ */
+export interface CalloutMatch {
+  /** Offset of the end of the callout's last line (excluding the newline) */
+  end: number;
+
+  /** The rendered alert, without indentation */
+  alert: string;
+}
+
+/**
+ * Position of a closing `</div>` tag
+ */
+interface TagRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * CalloutConverter rewrites Hashnode callout blocks into GitHub-style alerts.
+ *
+ * Hashnode writes callouts as nested HTML divs around markdown content:
+ *
+ * ```html
+ * <div data-node-type="callout">
+ * <div data-node-type="callout-emoji">💡</div>
+ * <div data-node-type="callout-text">Markdown content</div>
+ * </div>
+ * ```
+ *
+ * The emoji selects the alert type and the content is kept verbatim, with
+ * every line prefixed by `> `, so lists and code blocks inside the callout
+ * survive. Callouts inside fenced code blocks, and callouts that share a line
+ * with other content, are left unchanged.
+ *
+ * @example
+ * ```typescript
+ * const converter = new CalloutConverter();
+ * converter.convert(callout);
+ * // > [!TIP]
+ * // > Markdown content
+ * ```
+ */
+export class CalloutConverter {
+  private readonly alertTypes: Map<string, CalloutAlertType>;
+
+  /**
+   * @param alertTypes - Emoji mapping merged over {@link DEFAULT_CALLOUT_ALERT_TYPES}
+   */
+  constructor(alertTypes?: CalloutAlertTypes) {
+    this.alertTypes = new Map(
+      Object.entries({ ...DEFAULT_CALLOUT_ALERT_TYPES, ...alertTypes }).map(([emoji, type]) => [
+        CalloutConverter.normalizeEmoji(emoji),
+        type,
+      ])
+    );
+  }
+
+  /**
+   * Convert every callout in markdown into an alert.
+   *
+   * @param markdown - Markdown content
+   * @returns Markdown with callouts converted
+   */
+  convert(markdown: string): string {
+    const output: string[] = [];
+    let fence: string | null = null;
+    let lineStart = 0;
+
+    while (lineStart <= markdown.length) {
+      let lineEnd = markdown.indexOf('\n', lineStart);
+      if (lineEnd === -1) {
+        lineEnd = markdown.length;
+      }
+      const line = markdown.slice(lineStart, lineEnd);
+
+      const fenceMatch = FENCE_PATTERN.exec(line);
+      if (fenceMatch) {
+        fence = CalloutConverter.toggleFence(fence, fenceMatch[1]);
+      } else if (fence === null) {
+        const open = CALLOUT_OPEN_PATTERN.exec(line);
+        const callout = open ? this.match(markdown, lineStart + open[1].length) : null;
+
+        if (open && callout) {
+          output.push(callout.alert.split('\n').map((alertLine) => open[1] + alertLine).join('\n'));
+          lineStart = callout.end + 1;
+          continue;
+        }
+      }
+
+      output.push(line);
+      lineStart = lineEnd + 1;
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Match a callout whose opening tag starts at an offset.
+   *
+   * Only callouts that occupy whole lines match: the opening tag may only be
+   * preceded by indentation, and nothing but whitespace may follow the
+   * closing tag.
+   *
+   * @param markdown - Markdown content
+   * @param start - Offset of the `<div data-node-type="callout">` tag
+   * @returns The callout's end and rendered alert, or null if there is no callout
+   */
+  match(markdown: string, start: number): CalloutMatch | null {
+    const lineStart = markdown.lastIndexOf('\n', start - 1) + 1;
+    const indent = markdown.slice(lineStart, start);
+    if (indent.trim() !== '') {
+      return null;
+    }
+
+    CALLOUT_TAG_PATTERN.lastIndex = start;
+    const open = CALLOUT_TAG_PATTERN.exec(markdown);
+    const close = open ? this.findClosingDiv(markdown, start + open[0].length) : null;
+    if (!open || !close) {
+      return null;
+    }
+
+    let end = markdown.indexOf('\n', close.end);
+    if (end === -1) {
+      end = markdown.length;
+    }
+    if (markdown.slice(close.end, end).trim() !== '') {
+      return null;
+    }
+
+    // Content lines carry the callout's indentation (e.g. inside list items)
+    const inner = markdown
+      .slice(start + open[0].length, close.start)
+      .split('\n')
+      .map((line) => (line.startsWith(indent) ? line.slice(indent.length) : line))
+      .join('\n');
+
+    return { end, alert: this.renderAlert(inner) };
+  }
+
+  /**
+   * Render the inside of a callout as an alert blockquote.
+   *
+   * @param inner - Content between the callout's opening and closing tags
+   */
+  private renderAlert(inner: string): string {
+    const emoji = EMOJI_PATTERN.exec(inner);
+    const type = this.alertTypes.get(CalloutConverter.normalizeEmoji(emoji?.[1].trim() ?? '')) ?? 'NOTE';
+
+    let content = emoji ? inner.replace(emoji[0], '') : inner;
+    const textOpen = TEXT_OPEN_PATTERN.exec(content);
+    if (textOpen) {
+      const textStart = textOpen.index + textOpen[0].length;
+      const textClose = this.findClosingDiv(content, textStart);
+      content = content.slice(textStart, textClose ? textClose.start : content.length);
+    }
+
+    const body = CalloutConverter.dedent(content);
+    return [`> [!${type}]`, ...body.map((line) => (line.trim() === '' ? '>' : `> ${line}`))].join('\n');
+  }
+
+  /**
+   * Find the `</div>` closing a div whose opening tag ends at `from`.
+   * Nested divs are counted; tags inside fenced code blocks are ignored.
+   *
+   * @returns Range of the closing tag, or null if the div is never closed
+   */
+  private findClosingDiv(text: string, from: number): TagRange | null {
+    let depth = 1;
+    let fence: string | null = null;
+    let lineStart = from;
+    let firstLine = true;
+
+    while (lineStart <= text.length) {
+      let lineEnd = text.indexOf('\n', lineStart);
+      if (lineEnd === -1) {
+        lineEnd = text.length;
+      }
+      const line = text.slice(lineStart, lineEnd);
+
+      const fenceMatch = firstLine ? null : FENCE_PATTERN.exec(line);
+      if (fenceMatch) {
+        fence = CalloutConverter.toggleFence(fence, fenceMatch[1]);
+      } else if (fence === null) {
+        for (const tag of line.matchAll(DIV_TAG_PATTERN)) {
+          depth += tag[0].startsWith('</') ? -1 : 1;
+          if (depth === 0) {
+            const start = lineStart + (tag.index ?? 0);
+            return { start, end: start + tag[0].length };
+          }
+        }
+      }
+
+      firstLine = false;
+      lineStart = lineEnd + 1;
+    }
+
+    return null;
+  }
+
+  /**
+   * Open a fence, or close it if the marker matches the open fence.
+   * @returns The fence left open after this marker
+   */
+  private static toggleFence(fence: string | null, marker: string): string | null {
+    if (fence === null) {
+      return marker;
+    }
+    return marker[0] === fence[0] && marker.length >= fence.length ? null : fence;
+  }
+
+  /**
+   * Split content into lines without surrounding blank lines or common indentation.
+   */
+  private static dedent(content: string): string[] {
+    const lines = content.split('\n');
+    while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+    const indents = lines
+      .filter((line) => line.trim() !== '')
+      .map((line) => line.length - line.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return lines.map((line) => line.slice(Math.min(common, line.length - line.trimStart().length)).trimEnd());
+  }
+
+  /**
+   * Remove emoji variation selectors so text and emoji presentations match.
+   */
+  private static normalizeEmoji(emoji: string): string {
+    return emoji.replace(/\uFE0F/g, '');
+  }
+}
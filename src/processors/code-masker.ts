@@ -0,0 +1,148 @@
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import type { Nodes, Root } from 'mdast';
+
+/**
+ * Source range of a fenced code block, indented code block or inline code span
+ */
+export interface CodeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Markdown with its code regions replaced by placeholders
+ */
+export interface MaskedMarkdown {
+  /** Markdown with every code region replaced by a placeholder */
+  markdown: string;
+
+  /**
+   * Put the original code back into masked markdown (or a transformed copy).
+   * Multi-line code takes the container prefix (indentation, `>` markers) of
+   * the line its placeholder ends up on.
+   */
+  restore(masked: string): string;
+}
+
+/**
+ * Placeholders use private-use characters that never appear in Hashnode exports
+ * and that no transformation pattern matches.
+ */
+const PLACEHOLDER_PATTERN = /\uE000(\d+)\uE001/g;
+
+/**
+ * Leading list indentation and blockquote markers of a line
+ */
+const CONTAINER_PREFIX_PATTERN = /^[ \t>]*/;
+
+/**
+ * CodeMasker hides code from string-based transformations.
+ *
+ * Code regions are found with the CommonMark tokenizer behind the markdown
+ * pipeline, so fenced code (``` and ~~~, any fence length), indented code and
+ * inline code spans (including multi-backtick spans) are all recognized the
+ * way renderers see them.
+ *
+ * @example
+ * ```typescript
+ * const masker = new CodeMasker();
+ * const masked = masker.mask(markdown);
+ * const rewritten = masked.markdown.replace(pattern, replacement);
+ * return masked.restore(rewritten);
+ * ```
+ */
+export class CodeMasker {
+  /**
+   * Find the code regions of a parsed document, in document order.
+   *
+   * @param tree - mdast tree with position offsets
+   * @returns Source ranges of code blocks and inline code
+   */
+  static findCodeRanges(tree: Root): CodeRange[] {
+    const ranges: CodeRange[] = [];
+    const walk = (node: Nodes): void => {
+      if (node.type === 'code' || node.type === 'inlineCode') {
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        if (start !== undefined && end !== undefined) {
+          ranges.push({ start, end });
+        }
+        return;
+      }
+      if ('children' in node) {
+        node.children.forEach(walk);
+      }
+    };
+    walk(tree);
+    return ranges;
+  }
+
+  /**
+   * Replace every code region with a placeholder.
+   *
+   * @param markdown - Markdown content
+   * @returns Masked markdown and the function that restores it
+   */
+  mask(markdown: string): MaskedMarkdown {
+    if (!markdown) {
+      return { markdown, restore: (text) => text };
+    }
+
+    const regions: Array<{ code: string; prefix: string }> = [];
+    let masked = '';
+    let position = 0;
+
+    for (const { start, end } of CodeMasker.findCodeRanges(fromMarkdown(markdown))) {
+      masked += markdown.slice(position, start) + `\uE000${regions.length}\uE001`;
+      regions.push({ code: markdown.slice(start, end), prefix: CodeMasker.containerPrefix(markdown, start) });
+      position = end;
+    }
+    masked += markdown.slice(position);
+
+    if (regions.length === 0) {
+      return { markdown, restore: (text) => text };
+    }
+
+    return {
+      markdown: masked,
+      restore: (text) =>
+        text.replace(PLACEHOLDER_PATTERN, (token: string, index: string, offset: number) => {
+          const region = regions[Number(index)];
+          if (!region) {
+            return token;
+          }
+          return CodeMasker.reprefix(region.code, region.prefix, CodeMasker.containerPrefix(text, offset));
+        }),
+    };
+  }
+
+  /**
+   * Container prefix of the line containing an offset, up to that offset
+   */
+  private static containerPrefix(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return CONTAINER_PREFIX_PATTERN.exec(text.slice(lineStart, offset))?.[0] ?? '';
+  }
+
+  /**
+   * Swap the container prefix of a code region's continuation lines
+   */
+  private static reprefix(code: string, from: string, to: string): string {
+    if (from === to || !code.includes('\n')) {
+      return code;
+    }
+    return code
+      .split('\n')
+      .map((line, index) => {
+        if (index === 0) {
+          return line;
+        }
+        // Blank lines carry at most the prefix, often without its trailing whitespace
+        if (line.trim() === from.trim()) {
+          return to.trimEnd();
+        }
+        return line.startsWith(from) ? to + line.slice(from.length) : line;
+      })
+      .join('\n');
+  }
+}
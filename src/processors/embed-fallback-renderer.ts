@@ -0,0 +1,201 @@
+import { EmbedParser } from './embed-parser.js';
+import type { Embed, EmbedKind } from './embed-parser.js';
+
+/**
+ * How embed directives are rewritten for plain Markdown output.
+ * - `none`: leave `%[url]` directives untouched
+ * - `iframe`: raw HTML embed (iframe, or the provider's script embed for gists and tweets)
+ * - `link`: blockquote link card with a title and the URL
+ * - `shortcode`: static site generator shortcode from {@link EmbedShortcodes}
+ */
+export type EmbedFallbackStyle = 'none' | 'iframe' | 'link' | 'shortcode';
+
+/**
+ * Shortcode templates per embed kind.
+ * Templates may use the `:id`, `:user` and `:url` placeholders; the `generic`
+ * template is used for kinds without their own template.
+ */
+export type EmbedShortcodeTemplates = Partial<Record<EmbedKind, string>>;
+
+/**
+ * Shortcode templates, or the name of a built-in preset.
+ * - `hugo`: Hugo's built-in `youtube`, `gist` and `tweet` shortcodes
+ * - `liquid`: `{% embed url %}` for every embed
+ */
+export type EmbedShortcodes = 'hugo' | 'liquid' | EmbedShortcodeTemplates;
+
+const SHORTCODE_PRESETS: Record<'hugo' | 'liquid', EmbedShortcodeTemplates> = {
+  hugo: {
+    youtube: '{{< youtube :id >}}',
+    gist: '{{< gist :user :id >}}',
+    tweet: '{{< tweet user=":user" id=":id" >}}',
+  },
+  liquid: {
+    generic: '{% embed :url %}',
+  },
+};
+
+/**
+ * Hostname of a URL without `www.`, or the URL itself if it cannot be parsed
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Human-readable titles used by link cards
+ */
+const LINK_TITLES: Record<EmbedKind, (embed: Embed) => string> = {
+  youtube: () => 'YouTube video',
+  codepen: (embed) => `CodePen: ${embed.user}/${embed.id}`,
+  codesandbox: (embed) => `CodeSandbox: ${embed.id}`,
+  gist: (embed) => `GitHub Gist: ${embed.user}/${embed.id}`,
+  tweet: (embed) => `Tweet by @${embed.user}`,
+  generic: (embed) => hostOf(embed.url),
+};
+
+/**
+ * Ids and users that are safe to insert into a shortcode
+ */
+const SHORTCODE_VALUE_PATTERN = /^[\w-]+$/;
+
+const IFRAME_ATTRIBUTES =
+  'width="100%" height="400" frameborder="0" loading="lazy" allowfullscreen';
+
+/**
+ * EmbedFallbackRenderer rewrites Hashnode `%[url]` embed directives into
+ * output that works without MDX: raw HTML, a link card, or a shortcode.
+ *
+ * Embeds a shortcode style cannot express (no template for the kind, a
+ * template placeholder the embed has no value for, or an id or user with
+ * characters other than letters, digits, `_` and `-`) fall back to a link
+ * card, so no directive is left behind.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new EmbedFallbackRenderer('shortcode', 'hugo');
+ * renderer.render('%[https://youtu.be/dQw4w9WgXcQ]');
+ * // '{{< youtube dQw4w9WgXcQ >}}'
+ * ```
+ */
+export class EmbedFallbackRenderer {
+  private readonly templates: EmbedShortcodeTemplates;
+  private readonly embedParser = new EmbedParser();
+
+  /**
+   * @param style - How directives are rewritten
+   * @param shortcodes - Templates or preset used by the `shortcode` style
+   */
+  constructor(
+    private readonly style: EmbedFallbackStyle,
+    shortcodes: EmbedShortcodes = 'hugo'
+  ) {
+    this.templates = typeof shortcodes === 'string' ? SHORTCODE_PRESETS[shortcodes] : shortcodes;
+  }
+
+  /**
+   * Rewrite every embed directive in markdown.
+   *
+   * @param markdown - Markdown content
+   * @returns Markdown with directives replaced (unchanged for the `none` style)
+   */
+  render(markdown: string): string {
+    if (this.style === 'none') {
+      return markdown;
+    }
+    return this.embedParser.replaceDirectives(markdown, (embed) => this.renderEmbed(embed));
+  }
+
+  /**
+   * Render a single embed in the configured style.
+   *
+   * @param embed - Classified embed
+   * @returns Replacement markdown for the embed's directive
+   */
+  renderEmbed(embed: Embed): string {
+    switch (this.style) {
+      case 'iframe':
+        return this.renderHtml(embed);
+      case 'shortcode':
+        return this.renderShortcode(embed) ?? this.renderLinkCard(embed);
+      default:
+        return this.renderLinkCard(embed);
+    }
+  }
+
+  /**
+   * Render the provider's HTML embed.
+   */
+  private renderHtml(embed: Embed): string {
+    const url = this.escapeAttribute(embed.url);
+
+    switch (embed.kind) {
+      case 'youtube':
+        return this.iframe(`https://www.youtube-nocookie.com/embed/${embed.id}`, 'YouTube video');
+      case 'codepen':
+        return this.iframe(
+          `https://codepen.io/${embed.user}/embed/${embed.id}?default-tab=result`,
+          `CodePen ${embed.user}/${embed.id}`
+        );
+      case 'codesandbox':
+        return this.iframe(`https://codesandbox.io/embed/${embed.id}`, `CodeSandbox ${embed.id}`);
+      case 'gist':
+        return `<script src="https://gist.github.com/${embed.user}/${embed.id}.js"></script>`;
+      case 'tweet':
+        return [
+          `<blockquote class="twitter-tweet"><a href="${url}">${url}</a></blockquote>`,
+          '<script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>',
+        ].join('\n');
+      default:
+        return this.iframe(embed.url, LINK_TITLES.generic(embed));
+    }
+  }
+
+  private iframe(src: string, title: string): string {
+    return `<iframe src="${this.escapeAttribute(src)}" title="${this.escapeAttribute(title)}" ${IFRAME_ATTRIBUTES}></iframe>`;
+  }
+
+  /**
+   * Render a blockquote link card: a bold title link followed by the URL.
+   */
+  private renderLinkCard(embed: Embed): string {
+    const title = LINK_TITLES[embed.kind](embed).replace(/[[\]]/g, '\\$&');
+    return `> **[${title}](<${embed.url}>)**  \n> ${embed.url}`;
+  }
+
+  /**
+   * Fill the shortcode template for an embed.
+   * @returns The shortcode, or undefined if no template applies or a value can't be inserted safely
+   */
+  private renderShortcode(embed: Embed): string | undefined {
+    const template = this.templates[embed.kind] ?? this.templates.generic;
+    if (!template) {
+      return undefined;
+    }
+
+    const values: Record<string, string | undefined> = { id: embed.id, user: embed.user, url: embed.url };
+    let complete = true;
+    const shortcode = template.replace(/:(id|user|url)\b/g, (_match, name: string) => {
+      const value = values[name];
+      if (value === undefined || (name !== 'url' && !SHORTCODE_VALUE_PATTERN.test(value))) {
+        complete = false;
+        return '';
+      }
+      return value;
+    });
+
+    return complete ? shortcode : undefined;
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
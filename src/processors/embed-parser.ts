@@ -0,0 +1,208 @@
+/**
+ * Kinds of Hashnode embeds recognized by {@link EmbedParser}
+ */
+export type EmbedKind = 'youtube' | 'codepen' | 'codesandbox' | 'gist' | 'tweet' | 'generic';
+
+/**
+ * A classified Hashnode embed
+ */
+export interface Embed {
+  /** Embed provider, or `generic` for unrecognized URLs */
+  kind: EmbedKind;
+
+  /** Original embed URL */
+  url: string;
+
+  /**
+   * Provider-specific identifier: video ID, pen ID, sandbox ID, gist ID or
+   * tweet ID. Undefined for generic embeds.
+   */
+  id?: string;
+
+  /** Account that owns the embedded content (CodePen, Gist and Tweet embeds) */
+  user?: string;
+}
+
+/**
+ * Builds the replacement for an embed directive.
+ * Return `undefined` to leave the directive unchanged.
+ */
+export type EmbedReplacer = (embed: Embed) => string | undefined;
+
+/**
+ * Matches a Hashnode embed directive occupying a whole line: `%[https://...]`
+ */
+const DIRECTIVE_PATTERN = /^[ \t]*%\[(https?:\/\/[^\]\s]+)\][ \t]*$/;
+
+/**
+ * Matches the opening or closing line of a fenced code block
+ */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * EmbedParser recognizes Hashnode `%[url]` embed directives and classifies
+ * the embedded URL by provider.
+ *
+ * Directives must occupy a whole line, as Hashnode's editor writes them.
+ * Directives inside fenced code blocks are left alone.
+ *
+ * Recognized providers:
+ * - YouTube: `youtube.com/watch?v=ID`, `youtu.be/ID`, `/embed/ID`, `/shorts/ID`
+ * - CodePen: `codepen.io/<user>/pen/<id>`
+ * - CodeSandbox: `codesandbox.io/s/<id>`, `/embed/<id>`, `/p/sandbox/<id>`
+ * - Gist: `gist.github.com/<user>/<id>`
+ * - Tweet: `twitter.com/<user>/status/<id>` and `x.com/<user>/status/<id>`
+ *
+ * Any other URL is classified as `generic`.
+ *
+ * @example
+ * ```typescript
+ * const parser = new EmbedParser();
+ * parser.parse('https://youtu.be/dQw4w9WgXcQ');
+ * // { kind: 'youtube', url: 'https://youtu.be/dQw4w9WgXcQ', id: 'dQw4w9WgXcQ' }
+ *
+ * parser.replaceDirectives('%[https://youtu.be/dQw4w9WgXcQ]', (embed) => `<YouTube id="${embed.id}" />`);
+ * // '<YouTube id="dQw4w9WgXcQ" />'
+ * ```
+ */
+export class EmbedParser {
+  /**
+   * Classify an embed URL.
+   *
+   * @param url - URL from an embed directive
+   * @returns The classified embed (`generic` when the provider is unknown)
+   */
+  parse(url: string): Embed {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { kind: 'generic', url };
+    }
+
+    const host = parsed.hostname.replace(/^(www|m|mobile)\./, '');
+    const segments = parsed.pathname.split('/').filter(Boolean);
+
+    switch (host) {
+      case 'youtube.com':
+      case 'youtube-nocookie.com': {
+        const id =
+          parsed.searchParams.get('v') ??
+          (['embed', 'shorts', 'live', 'v'].includes(segments[0]) ? segments[1] : undefined);
+        return id ? { kind: 'youtube', url, id } : { kind: 'generic', url };
+      }
+
+      case 'youtu.be':
+        return segments[0] ? { kind: 'youtube', url, id: segments[0] } : { kind: 'generic', url };
+
+      case 'codepen.io':
+        if (segments.length >= 3 && ['pen', 'embed', 'full', 'details'].includes(segments[1])) {
+          return { kind: 'codepen', url, user: segments[0], id: segments[2] };
+        }
+        return { kind: 'generic', url };
+
+      case 'codesandbox.io': {
+        const id =
+          segments[0] === 's' || segments[0] === 'embed'
+            ? segments[1]
+            : segments[0] === 'p' && segments[1] === 'sandbox'
+              ? segments[2]
+              : undefined;
+        return id ? { kind: 'codesandbox', url, id } : { kind: 'generic', url };
+      }
+
+      case 'gist.github.com':
+        if (segments.length >= 2) {
+          return { kind: 'gist', url, user: segments[0], id: segments[1].replace(/\.js$/, '') };
+        }
+        return { kind: 'generic', url };
+
+      case 'twitter.com':
+      case 'x.com':
+        if (segments.length >= 3 && segments[1] === 'status') {
+          return { kind: 'tweet', url, user: segments[0], id: segments[2] };
+        }
+        return { kind: 'generic', url };
+
+      default:
+        return { kind: 'generic', url };
+    }
+  }
+
+  /**
+   * Classify the embed referenced by a directive line.
+   *
+   * @param line - A single line, e.g. `%[https://youtu.be/dQw4w9WgXcQ]`
+   * @returns The classified embed, or undefined if the line is not a directive
+   */
+  parseDirective(line: string): Embed | undefined {
+    const directive = DIRECTIVE_PATTERN.exec(line);
+    return directive ? this.parse(directive[1]) : undefined;
+  }
+
+  /**
+   * Find the embeds referenced by directives in markdown, in document order.
+   *
+   * @param markdown - Markdown content
+   * @returns Classified embeds
+   */
+  findAll(markdown: string): Embed[] {
+    const embeds: Embed[] = [];
+    this.replaceDirectives(markdown, (embed) => {
+      embeds.push(embed);
+      return undefined;
+    });
+    return embeds;
+  }
+
+  /**
+   * Replace embed directives in markdown.
+   *
+   * The replacement is written in place of the directive line, keeping the
+   * directive's indentation on every replacement line. Directives inside
+   * fenced code blocks are not passed to the replacer.
+   *
+   * @param markdown - Markdown content
+   * @param replacer - Builds the replacement (or `undefined` to keep the directive)
+   * @returns Markdown with directives replaced
+   */
+  replaceDirectives(markdown: string, replacer: EmbedReplacer): string {
+    let fence: string | null = null;
+
+    return markdown
+      .split('\n')
+      .map((line) => {
+        const fenceMatch = FENCE_PATTERN.exec(line);
+        if (fenceMatch) {
+          const marker = fenceMatch[1];
+          if (fence === null) {
+            fence = marker;
+          } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+            fence = null;
+          }
+          return line;
+        }
+
+        if (fence !== null) {
+          return line;
+        }
+
+        const embed = this.parseDirective(line);
+        if (!embed) {
+          return line;
+        }
+
+        const replacement = replacer(embed);
+        if (replacement === undefined) {
+          return line;
+        }
+
+        const indent = line.slice(0, line.length - line.trimStart().length);
+        return replacement
+          .split('\n')
+          .map((replacementLine) => (replacementLine ? indent + replacementLine : replacementLine))
+          .join('\n');
+      })
+      .join('\n');
+  }
+}
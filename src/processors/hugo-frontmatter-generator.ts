@@ -0,0 +1,97 @@
+import type { PostMetadata } from '../types/hashnode-schema.js';
+
+/**
+ * HugoFrontmatterGenerator creates TOML frontmatter (`+++` delimited)
+ * using Hugo's front matter keys.
+ *
+ * Field mapping:
+ * - `title`, `slug` - copied as-is
+ * - `date` - from `dateAdded`
+ * - `lastmod` - from `updatedAt` (omitted if unavailable)
+ * - `draft` - inverse of `isActive` (omitted if unknown)
+ * - `description` - from `brief`
+ * - `tags` - from `tags`
+ * - `images` - from `coverImage` (used by Hugo's OpenGraph/Twitter templates)
+ *
+ * @example
+ * ```typescript
+ * const generator = new HugoFrontmatterGenerator();
+ * generator.generate(metadata);
+ * // +++
+ * // title = "My Post"
+ * // slug = "my-post"
+ * // date = 2024-01-15T10:30:00.000Z
+ * // draft = false
+ * // +++
+ * ```
+ */
+export class HugoFrontmatterGenerator {
+  /**
+   * Generates a TOML frontmatter string from the provided metadata.
+   *
+   * @param metadata - The metadata to convert to frontmatter
+   * @returns The formatted TOML string (including +++ delimiters)
+   */
+  generate(metadata: PostMetadata): string {
+    const lines = ['+++'];
+
+    lines.push(`title = ${this.quote(metadata.title)}`);
+    lines.push(`slug = ${this.quote(metadata.slug)}`);
+
+    if (metadata.dateAdded) {
+      lines.push(`date = ${this.formatDate(metadata.dateAdded)}`);
+    }
+
+    if (metadata.updatedAt) {
+      lines.push(`lastmod = ${this.formatDate(metadata.updatedAt)}`);
+    }
+
+    if (metadata.isActive !== undefined) {
+      lines.push(`draft = ${!metadata.isActive}`);
+    }
+
+    if (metadata.brief) {
+      lines.push(`description = ${this.quote(metadata.brief)}`);
+    }
+
+    if (metadata.tags && metadata.tags.length > 0) {
+      lines.push(`tags = [${metadata.tags.map((tag) => this.quote(tag)).join(', ')}]`);
+    }
+
+    if (metadata.coverImage) {
+      lines.push(`images = [${this.quote(metadata.coverImage)}]`);
+    }
+
+    lines.push('+++');
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a date as a TOML offset date-time literal.
+   * Falls back to a quoted string if the date cannot be parsed, so the
+   * output always remains valid TOML.
+   */
+  private formatDate(value: string): string {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return this.quote(value);
+    }
+    return date.toISOString();
+  }
+
+  /**
+   * Quote a string as a TOML basic string.
+   *
+   * Backslashes are escaped first to avoid double-escaping, followed by
+   * double quotes and the control characters TOML does not allow unescaped.
+   */
+  private quote(str: string): string {
+    const escaped = str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+  }
+}
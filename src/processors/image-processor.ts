@@ -1,30 +1,164 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { ImageDownloader } from '../services/image-downloader.js';
+import { DownloadQueue } from '../services/download-queue.js';
+import { HostFilter } from '../services/host-filter.js';
+import { ImageFilenamer } from '../services/image-filenamer.js';
+import { DownloadManifest } from '../services/download-manifest.js';
+import { HttpCache } from '../services/http-cache.js';
+import { NodeHttpTransport } from '../services/http-transport.js';
+import { ImageOptimizer, MODERN_IMAGE_TYPES } from '../services/image-optimizer.js';
+import { ImageDimensionReader } from '../services/image-dimensions.js';
+import { CodeMasker } from './code-masker.js';
+import { ImageUrlExtractor } from './image-url-extractor.js';
+import { PictureRenderer } from './picture-renderer.js';
+import { AltTextAuditor } from './alt-text-auditor.js';
+import type { ImageOccurrence } from './image-url-extractor.js';
+import type { ImageElement, PictureSource } from './picture-renderer.js';
+import type { RateLimitConfig } from '../services/download-queue.js';
+import type { DownloadRetryEvent } from '../services/image-downloader.js';
+import type { ModernImageFormat } from '../services/image-optimizer.js';
+import type { ImageDimensions } from '../services/image-dimensions.js';
+import type { DownloadRecord } from '../services/download-manifest.js';
 import type {
   ImageProcessorOptions,
   ImageProcessingResult,
   ImageProcessingError,
+  ImageOfflineMiss,
+  ImageLinkResolver,
+  ImageMarkup,
+  PictureRenderFunction,
+  ImageRenderFunction,
+  CoverImageResult,
+  SharedAssetContext,
+  ImageRetryListener,
+  ImageProcessOptions,
+  PlannedImage,
 } from '../types/image-processor.js';
+import type { AssetStore } from '../services/asset-store.js';
 
 /**
- * ImageProcessor handles downloading images from Hashnode CDN and updating
- * markdown references to use local file paths.
+ * Result of processing a single image occurrence.
+ * Collected per occurrence and aggregated in document order.
+ */
+type ImageOutcome =
+  | {
+      status: 'downloaded' | 'skipped';
+      localPath?: string;
+      /** Local filename, when the extension was corrected */
+      filename?: string;
+      /** Links to the modern-format copies of an optimized image */
+      sources?: PictureSource[];
+      /** Bytes saved by optimizing a download */
+      savedBytes?: number;
+      optimizationError?: ImageProcessingError;
+      /** Pixel dimensions of the local image, when they could be read */
+      dimensions?: ImageDimensions;
+    }
+  | { status: 'failed'; error: ImageProcessingError }
+  | { status: 'offline-miss'; miss: ImageOfflineMiss };
+
+/**
+ * Per-post settings shared by every image of a {@link ImageProcessor.process} call.
+ */
+interface PostImageContext {
+  /** Blog post directory where images are saved */
+  blogDir: string;
+  /** Builds the markdown link for a local file */
+  imageLink: ImageLinkResolver;
+  /** Download manifest */
+  manifest: DownloadManifest;
+  /** Shared asset store, when enabled */
+  sharedAssets?: SharedAssetContext;
+  /** Called before each download retry */
+  onRetry?: ImageRetryListener;
+}
+
+/**
+ * How a post's localized images are written into its markdown
+ */
+interface ImageRendering {
+  /** Markup for images with modern-format copies */
+  markup: ImageMarkup;
+  /** Builds the `<picture>` element in `picture` markup */
+  renderPicture: PictureRenderFunction;
+  /** Builds the image element with dimensions */
+  renderImage: ImageRenderFunction;
+}
+
+/**
+ * An image to download as part of a group handled sequentially
+ */
+interface QueuedImage {
+  /** Image URL */
+  url: string;
+  /** Local filename assigned to the URL */
+  filename: string;
+  /** Index of the occurrence in the markdown, or undefined for the cover image */
+  index?: number;
+}
+
+/**
+ * Default link for a localized image: relative to the markdown file,
+ * which lives in the same directory as its images.
+ */
+const relativeImageLink: ImageLinkResolver = (filename) => `./${filename}`;
+
+/**
+ * Default `<picture>` and `<img>` markup: plain HTML
+ */
+const htmlPictureRenderer = new PictureRenderer();
+const htmlPicture: PictureRenderFunction = (picture) => htmlPictureRenderer.render(picture);
+const htmlImage: ImageRenderFunction = (image) => htmlPictureRenderer.renderImage(image);
+
+/**
+ * ImageProcessor handles downloading images from Hashnode CDN (and any other
+ * allowed host) and updating markdown references to use local file paths.
  *
  * This processor:
- * - Extracts image URLs from markdown syntax
+ * - Extracts image URLs from inline images, reference images and HTML
+ *   `<img>` tags with an {@link ImageUrlExtractor}, ignoring code blocks and
+ *   inline code (tutorials often show CDN URLs in code samples)
+ * - Keeps only URLs whose host passes the allow/deny lists
+ *   (`cdn.hashnode.com` by default)
+ * - Names local files with an {@link ImageFilenamer}: Hashnode UUID
+ *   filenames are kept, other URLs follow the `filenameStrategy`
  * - Downloads images using the ImageDownloader service
- * - Replaces CDN URLs with local relative paths
- * - Skips already-downloaded images using marker-based tracking
+ * - Replaces remote URLs with local paths (relative `./<filename>` by default,
+ *   or whatever the supplied {@link ImageLinkResolver} returns), keeping
+ *   alt text, titles and other `<img>` attributes
+ * - Downloads the post's cover image as `cover.<ext>` when its URL is passed
+ * - Optionally moves downloads into a shared, content-addressed
+ *   {@link AssetStore} so images reused across posts are stored once
+ * - Skips already-downloaded images using a {@link DownloadManifest}
  * - Tracks download failures and HTTP 403 errors
  * - Implements intelligent retry: skips permanent 403s, retries transient failures
+ * - Downloads distinct images in parallel through a bounded {@link DownloadQueue}
+ * - Optionally serves images from a persistent {@link HttpCache} shared
+ *   across runs and output directories
+ * - In offline mode, never opens a connection: images come from the cache or
+ *   a pre-fetched directory, and the rest keep their remote URLs
+ * - Optionally optimizes downloaded JPEG/PNG images with an
+ *   {@link ImageOptimizer} and links their WebP/AVIF copies, either directly
+ *   or through a `<picture>` element
+ * - Reads the pixel dimensions of localized images from their headers with
+ *   an {@link ImageDimensionReader}, records them in the manifest and
+ *   optionally writes them into the markdown as `width`/`height`
+ *
+ * Parallel Downloads:
+ * - A single queue is shared by every `process()` call on this instance, so
+ *   the global, per-host and rate limits apply across all posts of a run
+ * - An explicit `downloadDelayMs` is converted into a token-bucket rate
+ *   unless `rateLimit` is provided
  *
- * Marker-Based Retry Strategy:
- * - Creates `.downloaded-markers/` directory in each blog post directory
- * - Tracks download attempts with marker files:
- *   - Success: Empty `.marker` file (e.g., `uuid.png.marker`)
- *   - Transient failure: `.marker` file with error message (will retry)
- *   - Permanent failure (403): `.marker.403` file (won't retry)
+ * Manifest-Based Retry Strategy:
+ * - Records every download attempt by image URL in a {@link DownloadManifest}
+ *   (`.image-downloads.json` in the output directory):
+ *   - `ok`: Skipped on re-run while the local file exists
+ *   - `transient`: Failure with an error message (will retry)
+ *   - `403`: Permanent failure (won't retry)
+ * - Imports and removes the `.downloaded-markers/` directory written into
+ *   post directories by earlier versions
  *
  * @example
  * ```typescript
@@ -47,45 +181,104 @@ import type {
  */
 export class ImageProcessor {
   private downloader: ImageDownloader;
-  private options: Required<ImageProcessorOptions>;
+  private queue: DownloadQueue;
+  private hostFilter: HostFilter;
+  private filenamer: ImageFilenamer;
+  private cache?: HttpCache;
+  private prefetchedDir?: string;
+  private optimizer?: ImageOptimizer;
+  private imageMarkup?: ImageMarkup;
+  private writeDimensions: boolean;
+  private dimensionReader = new ImageDimensionReader();
+  private altTextAuditor?: AltTextAuditor;
+  private codeMasker = new CodeMasker();
+  private urlExtractor = new ImageUrlExtractor();
+  private offline: boolean;
+  private maxConcurrentDownloads: number;
 
   /**
    * Create a new ImageProcessor instance.
    *
    * @param options - Configuration options for image downloading
+   * @throws {Error} If a host pattern in `allowedHosts` or `deniedHosts` is invalid,
+   *   the cache limits, `maxRedirects`, `maxBytes`, a retry option or an optimization option are out
+   *   of range, the proxy or CA file is invalid, or an alt text source is unknown
    */
   constructor(options?: ImageProcessorOptions) {
-    // Set defaults matching reference implementation
-    this.options = {
+    this.offline = options?.offline ?? false;
+    this.maxConcurrentDownloads = options?.maxConcurrentDownloads ?? 4;
+
+    if (options?.cache) {
+      this.cache = new HttpCache(options.cache);
+    }
+    this.prefetchedDir = options?.prefetchedDir;
+
+    if (options?.optimize) {
+      this.optimizer = new ImageOptimizer(options.optimize);
+    }
+    this.imageMarkup = options?.optimize?.markup;
+    this.writeDimensions = options?.writeDimensions ?? false;
+    if (options?.altText) {
+      this.altTextAuditor = new AltTextAuditor(options.altText);
+    }
+
+    // Create ImageDownloader with configuration (defaults matching reference implementation)
+    this.downloader = new ImageDownloader({
       maxRetries: options?.maxRetries ?? 3,
       retryDelayMs: options?.retryDelayMs ?? 1000,
       timeoutMs: options?.timeoutMs ?? 30000,
-      downloadDelayMs: options?.downloadDelayMs ?? 200,
-    };
+      cache: this.cache,
+      transport:
+        options?.transport ??
+        (options?.transportOptions ? new NodeHttpTransport(options.transportOptions) : undefined),
+      maxRedirects: options?.maxRedirects,
+      redirectPolicy: options?.redirectPolicy,
+      backoffMultiplier: options?.backoffMultiplier,
+      maxRetryDelayMs: options?.maxRetryDelayMs,
+      jitter: options?.jitter,
+      retryBudget: options?.retryBudget,
+      circuitBreaker: options?.circuitBreaker,
+      maxBytes: options?.maxBytes,
+      validateImages: options?.validateImages,
+    });
 
-    // Create ImageDownloader with configuration
-    this.downloader = new ImageDownloader({
-      maxRetries: this.options.maxRetries,
-      retryDelayMs: this.options.retryDelayMs,
-      timeoutMs: this.options.timeoutMs,
-      downloadDelayMs: this.options.downloadDelayMs,
+    this.hostFilter = new HostFilter({ allow: options?.allowedHosts, deny: options?.deniedHosts });
+    this.filenamer = new ImageFilenamer(options?.filenameStrategy);
+
+    // Create the download queue shared by all posts processed by this instance
+    this.queue = new DownloadQueue({
+      maxConcurrent: this.maxConcurrentDownloads,
+      maxPerHost: options?.maxConnectionsPerHost ?? 2,
+      rateLimit: options?.rateLimit ?? this.rateLimitFromDelay(options?.downloadDelayMs),
     });
   }
 
   /**
    * Process markdown content: extract image URLs, download images,
-   * and replace CDN URLs with local relative paths.
+   * and replace CDN URLs with local image links.
+   *
+   * Uses the download manifest to enable intelligent retry:
+   * - Skips successfully downloaded images (file exists + `ok` record)
+   * - Skips permanent HTTP 403 failures (`403` record)
+   * - Retries transient failures (`transient` record or no record)
+   *
+   * In offline mode, images that would be downloaded are copied from the
+   * HTTP cache or the pre-fetched directory instead; images found in neither
+   * are reported in `offlineMisses`.
    *
-   * Uses marker-based tracking to enable intelligent retry:
-   * - Skips successfully downloaded images (file + success marker exist)
-   * - Skips permanent HTTP 403 failures (403 marker exists)
-   * - Retries transient failures (error marker or no marker)
+   * With the `altText` option, images with missing or meaningless alt text
+   * are reported in `altTextIssues` (and their alt text filled) before any
+   * image is downloaded.
    *
-   * Only replaces CDN URLs with local paths on successful download.
-   * Failed images keep CDN URLs, making missing images visible in rendered markdown.
+   * Only replaces remote URLs with local paths on successful download.
+   * Failed images keep remote URLs, making missing images visible in rendered markdown.
+   * Images from hosts that are not allowed are left untouched and not counted.
+   * Code blocks and inline code are never scanned or rewritten.
    *
    * @param markdown - Markdown content from MarkdownTransformer
    * @param blogDir - Absolute path to blog post directory where images should be saved
+   * @param options - How the post's images are linked, the cover image, shared
+   *   store, download manifest and retry listener (see {@link ImageProcessOptions})
    * @returns Processing result with updated markdown and statistics
    * @throws {Error} If blogDir doesn't exist or isn't accessible
    *
@@ -99,10 +292,8 @@ export class ImageProcessor {
    * // result.imagesDownloaded === 1
    * ```
    */
-  async process(
-    markdown: string,
-    blogDir: string
-  ): Promise<ImageProcessingResult> {
+  async process(markdown: string, blogDir: string, options: ImageProcessOptions = {}): Promise<ImageProcessingResult> {
+    const { coverImageUrl, sharedAssets } = options;
     // Validate directory exists (DECISION 3)
     if (!fs.existsSync(blogDir)) {
       throw new Error(
@@ -111,185 +302,608 @@ export class ImageProcessor {
       );
     }
 
-    const imageMatches = this.extractImageUrls(markdown);
+    // Audit (and fill) alt text first, so filled alt text is also used in rendered elements
+    const altTextAudit = this.altTextAuditor?.audit(markdown);
+
+    // Hide code so URLs in code samples are neither downloaded nor rewritten
+    const masked = this.codeMasker.mask(altTextAudit ? altTextAudit.markdown : markdown);
+    const { images, coverFilename, filenames } = this.planImages(masked.markdown, coverImageUrl);
+    const outcomes: ImageOutcome[] = new Array(images.length);
+
+    // Carry over the retry state of a marker directory from earlier versions
+    const manifest = options.downloadManifest ?? new DownloadManifest(blogDir);
+    manifest.importMarkers(blogDir, this.withCover(filenames, coverImageUrl, coverFilename));
+    const post: PostImageContext = {
+      blogDir,
+      imageLink: options.imageLink ?? relativeImageLink,
+      manifest,
+      sharedAssets,
+      onRetry: options.onRetry,
+    };
+
+    // Group occurrences by filename. Each group is handled sequentially (so a
+    // repeated image sees the record written by its first occurrence, exactly
+    // as in a sequential run), while different images download in parallel
+    // through the shared download queue. The cover image joins the group of
+    // the post image with the same URL, since both share its manifest record.
+    const groups = new Map<string, QueuedImage[]>();
+    const addToGroup = (key: string, image: QueuedImage): void => {
+      groups.set(key, [...(groups.get(key) ?? []), image]);
+    };
+    images.forEach(({ url }, index) => {
+      const filename = filenames.get(url)!;
+      addToGroup(filename, { url, filename, index });
+    });
+    if (coverImageUrl !== undefined && coverFilename) {
+      addToGroup(filenames.get(coverImageUrl) ?? coverFilename, { url: coverImageUrl, filename: coverFilename });
+    }
+
+    const groupCoverOutcomes = await Promise.all(
+      Array.from(groups.values(), async (occurrences) => {
+        let groupCoverOutcome: ImageOutcome | undefined;
+        for (const { url, filename, index } of occurrences) {
+          const outcome = await this.processImage(url, filename, post);
+          if (index === undefined) {
+            groupCoverOutcome = outcome;
+          } else {
+            outcomes[index] = outcome;
+          }
+        }
+        return groupCoverOutcome;
+      })
+    );
+    const coverOutcome = groupCoverOutcomes.find((outcome) => outcome !== undefined);
+
+    manifest.save();
+    this.cache?.save();
+    if (sharedAssets && (images.length > 0 || coverFilename)) {
+      sharedAssets.store.save();
+    }
+
+    // Aggregate in document order so counts, errors and replacements are
+    // identical to a sequential run. Each URL is replaced at its own source
+    // range, leaving the surrounding syntax untouched.
     const errors: ImageProcessingError[] = [];
+    const offlineMisses: ImageOfflineMiss[] = [];
+    const optimizationErrors: ImageProcessingError[] = [];
     let imagesDownloaded = 0;
     let imagesSkipped = 0;
-    let updatedMarkdown = markdown;
-
-    for (const [_fullMatch, url] of imageMatches) {
-      // Extract filename hash using ImageDownloader static method
-      const filename = ImageDownloader.extractHash(url);
-
-      if (!filename) {
-        errors.push({
-          filename: 'unknown',
-          url,
-          error: 'Could not extract hash from URL',
-          is403: false,
-        });
-        continue;
-      }
+    let bytesSaved = 0;
+    const parts: string[] = [];
+    let cursor = 0;
 
-      const filepath = path.join(blogDir, filename);
-
-      // DECISION 6: Marker-based retry strategy
-      const markerPath = this.getMarkerPath(blogDir, filename);
-      const marker403Path = markerPath + '.403';
-
-      // Check if download succeeded previously (file exists + success marker exists)
-      if (fs.existsSync(filepath) && fs.existsSync(markerPath)) {
-        // Verify it's a success marker (empty file or very small)
-        const stats = fs.statSync(markerPath);
-        if (stats.size === 0) {
-          imagesSkipped++;
-          // Replace URL since file exists
-          updatedMarkdown = updatedMarkdown.replace(url, `./${filename}`);
-          continue;
+    for (const outcome of [...outcomes, coverOutcome]) {
+      if (outcome?.status === 'downloaded') {
+        bytesSaved += outcome.savedBytes ?? 0;
+        if (outcome.optimizationError) {
+          optimizationErrors.push(outcome.optimizationError);
         }
-        // If marker has content, it's a transient failure marker - fall through to retry
       }
+    }
 
-      // Check if 403 error occurred previously (permanent failure - don't retry)
-      if (fs.existsSync(marker403Path)) {
-        imagesSkipped++;
-        // Keep CDN URL (shows what's missing in rendered markdown)
+    for (const [index, outcome] of outcomes.entries()) {
+      if (outcome.status === 'failed') {
+        errors.push(outcome.error);
+        continue;
+      }
+      if (outcome.status === 'offline-miss') {
+        offlineMisses.push(outcome.miss);
         continue;
       }
 
-      // Attempt download (either never attempted OR transient failure from previous run)
-      try {
-        const result = await this.downloader.download(url, filepath);
-
-        if (result.success) {
-          // Success: create empty marker file
-          fs.writeFileSync(markerPath, '');
-          imagesDownloaded++;
-          // Replace URL only on successful download
-          updatedMarkdown = updatedMarkdown.replace(url, `./${filename}`);
-        } else if (result.is403) {
-          // HTTP 403: permanent failure, create 403 marker (don't retry)
-          this.recordDownloadFailure(
-            filename,
-            url,
-            result.error || 'HTTP 403 Forbidden',
-            true,
-            blogDir,
-            errors
-          );
-        } else {
-          // Transient failure: create marker with error message (will retry)
-          this.recordDownloadFailure(
-            filename,
-            url,
-            result.error || 'Download failed',
-            false,
-            blogDir,
-            errors
-          );
-        }
-      } catch (error) {
-        // Unexpected error during download: treat as transient failure
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        this.recordDownloadFailure(filename, url, errorMsg, false, blogDir, errors);
+      if (outcome.status === 'downloaded') {
+        imagesDownloaded++;
+      } else {
+        imagesSkipped++;
+      }
+
+      if (outcome.localPath) {
+        const { start, end, text } = this.replacement(
+          images[index],
+          outcome.localPath,
+          outcome,
+          masked.markdown,
+          {
+            markup: this.imageMarkup ?? options.imageMarkup ?? 'file',
+            renderPicture: options.renderPicture ?? htmlPicture,
+            renderImage: options.renderImage ?? htmlImage,
+          }
+        );
+        parts.push(masked.markdown.slice(cursor, start), text);
+        cursor = end;
       }
     }
+    const updatedMarkdown = parts.length > 0 ? parts.join('') + masked.markdown.slice(cursor) : masked.markdown;
 
     // DECISION 5: Return detailed results
-    return {
-      markdown: updatedMarkdown,
-      imagesProcessed: imageMatches.length,
+    const result: ImageProcessingResult = {
+      markdown: masked.restore(updatedMarkdown),
+      imagesProcessed: images.length,
       imagesDownloaded,
       imagesSkipped,
       errors,
     };
+    if (this.offline) {
+      result.offlineMisses = offlineMisses;
+    }
+    if (this.optimizer) {
+      result.bytesSaved = bytesSaved;
+      result.optimizationErrors = optimizationErrors;
+    }
+    if (altTextAudit) {
+      result.altTextIssues = altTextAudit.issues;
+    }
+    if (coverImageUrl !== undefined && coverOutcome) {
+      result.coverImage = this.coverImageResult(coverImageUrl, coverFilename!, coverOutcome);
+    }
+    return result;
   }
 
   /**
-   * Extract all Hashnode CDN image URLs from markdown content.
+   * List the images {@link process} would fetch for a post, without
+   * downloading, copying or writing anything. Images already downloaded (or
+   * kept in the shared asset store) and previous HTTP 403 failures are left
+   * out, as are images from hosts that are not allowed. Legacy
+   * `.downloaded-markers/` are taken into account like in {@link process},
+   * but not imported or removed.
    *
-   * @param markdown - Markdown content to parse
-   * @returns Array of [fullMatch, imageUrl] tuples
+   * @param markdown - Markdown content from MarkdownTransformer
+   * @param blogDir - Blog post directory the images would be saved in (need not exist)
+   * @param coverImageUrl - Cover image that would be downloaded as `cover.<ext>`
+   * @param downloadManifest - Manifest of earlier downloads. Defaults to a manifest in `blogDir`.
+   * @param sharedStore - Shared asset store the images would be kept in
+   * @returns Images that would be fetched, in document order with each URL once
+   *   and the cover image first
+   */
+  plan(
+    markdown: string,
+    blogDir: string,
+    coverImageUrl?: string,
+    downloadManifest?: DownloadManifest,
+    sharedStore?: AssetStore
+  ): PlannedImage[] {
+    const masked = this.codeMasker.mask(markdown);
+    const { images, coverFilename, filenames } = this.planImages(masked.markdown, coverImageUrl);
+    const manifest = downloadManifest ?? new DownloadManifest(blogDir);
+    const markers = manifest.readMarkers(blogDir, this.withCover(filenames, coverImageUrl, coverFilename));
+
+    const planned = new Map<string, PlannedImage>();
+    const candidates = images.map(({ url }) => ({ url, filename: filenames.get(url)! }));
+    if (coverImageUrl !== undefined && coverFilename) {
+      candidates.unshift({ url: coverImageUrl, filename: coverFilename });
+    }
+
+    for (const { url, filename } of candidates) {
+      if (planned.has(url) || sharedStore?.find(url)) {
+        continue;
+      }
+
+      // Same manifest checks as processImage(), after importing markers
+      const record = manifest.get(url) ?? markers.get(url);
+      const downloaded =
+        !sharedStore && record?.status === 'ok' && fs.existsSync(path.join(blogDir, record.filename ?? filename));
+      if (!downloaded && record?.status !== '403') {
+        planned.set(url, { url, filename, filepath: path.join(blogDir, filename) });
+      }
+    }
+    return Array.from(planned.values());
+  }
+
+  /**
+   * Import a post's legacy `.downloaded-markers/` directory into the download
+   * manifest and remove it, without downloading anything. {@link process}
+   * does this automatically; use this for posts that are not re-converted.
    *
-   * @example
-   * ```typescript
-   * const matches = this.extractImageUrls('![alt](https://cdn.hashnode.com/.../image.png)');
-   * // Returns: [['![alt](https://...)', 'https://...']]
-   * ```
+   * @param markdown - Markdown content of the post (to map markers to image URLs)
+   * @param blogDir - Blog post directory containing the marker directory
+   * @param downloadManifest - Manifest to import into (saved if markers were found)
+   * @param coverImageUrl - Cover image URL of the post
+   * @returns Number of image URLs imported
+   */
+  migrateMarkers(
+    markdown: string,
+    blogDir: string,
+    downloadManifest: DownloadManifest,
+    coverImageUrl?: string
+  ): number {
+    const { filenames, coverFilename } = this.planImages(this.codeMasker.mask(markdown).markdown, coverImageUrl);
+    const imported = downloadManifest.importMarkers(blogDir, this.withCover(filenames, coverImageUrl, coverFilename));
+    downloadManifest.save();
+    return imported;
+  }
+
+  /**
+   * Find the images to localize and assign their local filenames.
+   *
+   * @param maskedMarkdown - Markdown with code masked
+   * @param coverImageUrl - Cover image URL, if it should be downloaded
+   */
+  private planImages(
+    maskedMarkdown: string,
+    coverImageUrl: string | undefined
+  ): { images: ImageOccurrence[]; coverFilename?: string; filenames: Map<string, string> } {
+    const images = this.urlExtractor
+      .extract(maskedMarkdown)
+      .filter((image) => this.hostFilter.accepts(image.url));
+
+    // The cover image filename is reserved so no post image can overwrite it
+    const coverFilename =
+      coverImageUrl !== undefined && this.hostFilter.accepts(coverImageUrl)
+        ? `cover${path.extname(this.filenamer.filename(coverImageUrl))}`
+        : undefined;
+    const filenames = this.filenamer.assign(
+      images.map((image) => image.url),
+      coverFilename ? [coverFilename] : []
+    );
+
+    return { images, coverFilename, filenames };
+  }
+
+  /**
+   * Add the cover image to a post's filename assignments.
+   */
+  private withCover(
+    filenames: Map<string, string>,
+    coverImageUrl: string | undefined,
+    coverFilename: string | undefined
+  ): Map<string, string> {
+    return coverImageUrl !== undefined && coverFilename
+      ? new Map([...filenames, [coverImageUrl, coverFilename]])
+      : filenames;
+  }
+
+  /**
+   * Describe the outcome of a post's cover image, downloaded as
+   * `cover.<ext>` with the same manifest-based retry strategy as images in
+   * the markdown. The cover is always linked as the downloaded file.
+   *
+   * @param url - Cover image URL
+   * @param filename - Local filename assigned to the cover image
+   * @param outcome - Outcome of the cover image download
+   * @returns Outcome of the cover image download
    */
-  private extractImageUrls(markdown: string): Array<[string, string]> {
-    // Regex pattern from reference implementation (convert-hashnode.js:245)
-    // Matches: ![any-text](https://cdn.hashnode.com/any-path)
-    const imageRegex = /!\[[^\]]*\]\((https:\/\/cdn\.hashnode\.com[^)]+)\)/g;
+  private coverImageResult(url: string, filename: string, outcome: ImageOutcome): CoverImageResult {
+    if (outcome.status === 'failed') {
+      return { url, filename, status: 'failed', error: outcome.error };
+    }
+    if (outcome.status === 'offline-miss') {
+      return { url, filename, status: 'offline-miss' };
+    }
+
+    const result: CoverImageResult = { url, filename: outcome.filename ?? filename, status: outcome.status };
+    if (outcome.localPath) {
+      result.localPath = outcome.localPath;
+    }
+    return result;
+  }
 
-    const matches: Array<[string, string]> = [];
-    let match: RegExpExecArray | null;
+  /**
+   * Text replacing an image URL: the local link or the link of the first
+   * modern-format copy (`file` markup). For inline images, a `<picture>`
+   * element (`picture` markup) or an image element with its dimensions
+   * (`writeDimensions`) replaces the whole image; HTML `<img>` tags without
+   * dimensions get `width` and `height` attributes.
+   *
+   * @param image - Image occurrence
+   * @param localPath - Link to the downloaded image
+   * @param outcome - Modern-format copies and dimensions of the local image
+   * @param markdown - Markdown the occurrence was found in
+   * @param rendering - Markup of the post and the functions building its elements
+   * @returns Source range to replace and its replacement
+   */
+  private replacement(
+    image: ImageOccurrence,
+    localPath: string,
+    outcome: { sources?: PictureSource[]; dimensions?: ImageDimensions },
+    markdown: string,
+    rendering: ImageRendering
+  ): { start: number; end: number; text: string } {
+    const sources = outcome.sources ?? [];
+    const dimensions = this.writeDimensions ? outcome.dimensions : undefined;
+    const picture = sources.length > 0 && rendering.markup === 'picture';
 
-    while ((match = imageRegex.exec(markdown)) !== null) {
-      matches.push([match[0], match[1]]);
+    if (image.image && (dimensions || picture)) {
+      const { start, end, alt, title } = image.image;
+      const element: ImageElement = { src: localPath, alt };
+      if (title !== undefined) {
+        element.title = title;
+      }
+      if (dimensions) {
+        element.width = dimensions.width;
+        element.height = dimensions.height;
+      }
+      if (picture) {
+        return { start, end, text: rendering.renderPicture({ ...element, sources }) };
+      }
+      element.src = sources.length > 0 ? sources[0].srcset : localPath;
+      return { start, end, text: rendering.renderImage(element) };
     }
 
-    return matches;
+    // Reference definitions and <img> tags can't hold alternatives
+    const link = sources.length > 0 && rendering.markup === 'file' ? sources[0].srcset : localPath;
+
+    if (dimensions && image.tag) {
+      const tag = markdown.slice(image.tag.start, image.tag.end);
+      if (!/\s(?:width|height)\s*=/i.test(tag)) {
+        // Attributes go before the closing `>` or `/>`
+        const insertAt = image.tag.start + tag.search(/\s*\/?>$/);
+        const attributes = ` width="${dimensions.width}" height="${dimensions.height}"`;
+        return { start: image.start, end: insertAt, text: link + markdown.slice(image.end, insertAt) + attributes };
+      }
+    }
+    return { start: image.start, end: image.end, text: link };
   }
 
   /**
-   * Get path to marker file for tracking download status.
-   * Creates .downloaded-markers/ directory if it doesn't exist.
+   * Process a single image occurrence using the manifest-based retry strategy.
    *
-   * Marker types:
-   * - Empty file: Successful download (skip on re-run)
-   * - File with content: Transient failure (retry on re-run)
-   * - File with .403 extension: Permanent HTTP 403 failure (skip on re-run)
+   * @param url - Original image URL
+   * @param filename - Local filename assigned to the URL
+   * @param post - Per-post settings
+   * @returns Outcome describing how the occurrence should be counted and rewritten
+   */
+  private async processImage(url: string, filename: string, post: PostImageContext): Promise<ImageOutcome> {
+    const { blogDir, imageLink, manifest, sharedAssets, onRetry } = post;
+    const filepath = path.join(blogDir, filename);
+
+    // With a shared store, a URL stored before (by any post) is reused
+    const storedAsset = sharedAssets?.store.find(url);
+    if (sharedAssets && storedAsset) {
+      sharedAssets.store.reference(storedAsset, sharedAssets.postSlug);
+      const outcome: ImageOutcome = { status: 'skipped', localPath: sharedAssets.link(storedAsset) };
+      const dimensions = this.recordedDimensions(manifest.get(url));
+      if (dimensions) {
+        outcome.dimensions = dimensions;
+      }
+      return outcome;
+    }
+
+    // DECISION 6: Manifest-based retry strategy
+    const record = manifest.get(url);
+
+    // Check if download succeeded previously (ok record + file exists). A
+    // download saved under a corrected extension is found by its recorded filename.
+    const savedFilename = record?.filename ?? filename;
+    if (!sharedAssets && record?.status === 'ok' && fs.existsSync(path.join(blogDir, savedFilename))) {
+      // Replace URL since file exists, along with the copies optimization wrote
+      const variants = (record.variants ?? []).filter((variant) => fs.existsSync(path.join(blogDir, variant)));
+      const outcome: ImageOutcome = { status: 'skipped', localPath: imageLink(savedFilename) };
+      if (record.filename) {
+        outcome.filename = record.filename;
+      }
+      if (variants.length > 0) {
+        outcome.sources = this.pictureSources(variants, imageLink);
+      }
+      // Records written before dimensions were recorded fall back to the file
+      const dimensions = this.recordedDimensions(record) ?? this.measure(path.join(blogDir, savedFilename));
+      if (dimensions) {
+        outcome.dimensions = dimensions;
+      }
+      return outcome;
+    }
+
+    // Check if 403 error occurred previously (permanent failure - don't retry)
+    if (record?.status === '403') {
+      // Keep CDN URL (shows what's missing in rendered markdown)
+      return { status: 'skipped' };
+    }
+
+    // Attempt download (either never attempted OR transient failure from previous run)
+    try {
+      // Offline mode never opens a connection: only local copies are used
+      if (this.offline) {
+        return await this.resolveOffline(url, filename, filepath, post);
+      }
+
+      // Fresh cache hits make no request, so they skip the download queue
+      const cached = this.cache?.lookup(url);
+      const onDownloadRetry = onRetry && ((retry: DownloadRetryEvent) => onRetry({ ...retry, filename }));
+      const result =
+        cached && this.cache?.isFresh(cached)
+          ? await this.downloader.download(url, filepath, onDownloadRetry)
+          : await this.queue.run(url, () => this.downloader.download(url, filepath, onDownloadRetry));
+
+      if (result.success && result.correctedPath) {
+        // Saved with the extension of the format the server actually sent
+        const correctedFilename = path.basename(result.correctedPath);
+        return await this.recordDownloadSuccess(url, correctedFilename, result.correctedPath, post, correctedFilename);
+      } else if (result.success) {
+        // Replace URL only on successful download
+        return await this.recordDownloadSuccess(url, filename, filepath, post);
+      } else if (result.is403) {
+        // HTTP 403: permanent failure, recorded as 403 (don't retry)
+        return this.recordDownloadFailure(filename, url, result.error || 'HTTP 403 Forbidden', true, manifest);
+      } else {
+        // Transient failure: recorded with the error message (will retry)
+        return this.recordDownloadFailure(filename, url, result.error || 'Download failed', false, manifest);
+      }
+    } catch (error) {
+      // Unexpected error during download: treat as transient failure
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return this.recordDownloadFailure(filename, url, errorMsg, false, manifest);
+    }
+  }
+
+  /**
+   * Resolve an image without the network: copy it from the HTTP cache
+   * (whatever its age, since it can't be revalidated) or from the
+   * pre-fetched directory.
    *
-   * @param blogDir - Blog post directory
-   * @param filename - Image filename (e.g., "uuid.png")
-   * @returns Path to marker file
+   * @param url - Original image URL
+   * @param filename - Local filename assigned to the URL
+   * @param filepath - Path the image is copied to
+   * @param post - Per-post settings
+   * @returns Downloaded outcome, or an offline miss when no local copy exists
    */
-  private getMarkerPath(blogDir: string, filename: string): string {
-    const markersDir = path.join(blogDir, '.downloaded-markers');
+  private async resolveOffline(
+    url: string,
+    filename: string,
+    filepath: string,
+    post: PostImageContext
+  ): Promise<ImageOutcome> {
+    const prefetched = this.prefetchedDir ? path.join(this.prefetchedDir, filename) : undefined;
 
-    // Ensure markers directory exists
-    if (!fs.existsSync(markersDir)) {
-      fs.mkdirSync(markersDir, { recursive: true });
+    if (!this.cache?.copyTo(url, filepath)) {
+      if (!prefetched || !fs.existsSync(prefetched)) {
+        return { status: 'offline-miss', miss: { filename, url } };
+      }
+      fs.copyFileSync(prefetched, filepath);
     }
 
-    return path.join(markersDir, `${filename}.marker`);
+    return this.recordDownloadSuccess(url, filename, filepath, post);
   }
 
   /**
-   * Record a download failure by creating a marker file and tracking the error.
+   * Derive a token-bucket rate limit from an explicitly configured
+   * `downloadDelayMs`: one request per delay interval, with an initial burst
+   * up to the concurrency limit. Without an explicit delay (or with a delay
+   * of 0) only the concurrency limits apply.
+   */
+  private rateLimitFromDelay(downloadDelayMs: number | undefined): RateLimitConfig | undefined {
+    if (downloadDelayMs === undefined || downloadDelayMs <= 0) {
+      return undefined;
+    }
+    return {
+      requestsPerSecond: 1000 / downloadDelayMs,
+      burst: this.maxConcurrentDownloads,
+    };
+  }
+
+  /**
+   * Optimize a download when optimization is enabled, record it (size and
+   * checksum of the optimized file) in the manifest and, with a shared
+   * store, move the file into the store.
    *
-   * This method centralizes error handling for failed image downloads. It creates
-   * the appropriate marker file (regular or .403) and adds the error to the tracking array.
+   * @param url - Original image URL
+   * @param filename - Local filename of the download
+   * @param filepath - Downloaded file
+   * @param post - Per-post settings
+   * @param correctedFilename - Filename to record in the manifest when the
+   *   downloader corrected the extension derived from the URL
+   * @returns Downloaded outcome with the link to use in the markdown
+   */
+  private async recordDownloadSuccess(
+    url: string,
+    filename: string,
+    filepath: string,
+    post: PostImageContext,
+    correctedFilename?: string
+  ): Promise<ImageOutcome> {
+    const { imageLink, manifest, sharedAssets } = post;
+
+    // The shared store keeps one file per URL, so it gets no modern-format copies
+    const outcome: ImageOutcome = { status: 'downloaded' };
+    if (correctedFilename) {
+      outcome.filename = correctedFilename;
+    }
+    const variants: string[] = [];
+    if (this.optimizer) {
+      try {
+        const optimized = await this.optimizer.optimize(filepath, !sharedAssets);
+        variants.push(...optimized.variants.map((variant) => path.basename(variant.filepath)));
+        outcome.savedBytes = optimized.savedBytes;
+      } catch (error) {
+        // The image is kept as downloaded
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        outcome.optimizationError = { filename, url, error: errorMsg, is403: false };
+      }
+    }
+
+    // Measured after optimization, which may have scaled the image down
+    const dimensions = this.measure(filepath);
+    if (dimensions) {
+      outcome.dimensions = dimensions;
+    }
+    manifest.recordSuccess(url, filepath, {
+      filename: correctedFilename,
+      variants,
+      width: dimensions?.width,
+      height: dimensions?.height,
+    });
+
+    if (sharedAssets) {
+      // Move the download into the store (or drop it if the bytes are already there)
+      const assetPath = sharedAssets.store.add(filepath, filename, url, sharedAssets.postSlug);
+      outcome.localPath = sharedAssets.link(assetPath);
+      return outcome;
+    }
+
+    outcome.localPath = imageLink(filename);
+    if (variants.length > 0) {
+      outcome.sources = this.pictureSources(variants, imageLink);
+    }
+    return outcome;
+  }
+
+  /**
+   * Read the pixel dimensions of a local image.
    *
-   * Marker paths:
-   * - Permanent (403): `{filename}.marker.403` - won't retry on re-run
-   * - Transient: `{filename}.marker` with error message - will retry on re-run
+   * @param filepath - Image file
+   * @returns Dimensions, or undefined if the format is unknown or the file can't be read
+   */
+  private measure(filepath: string): ImageDimensions | undefined {
+    try {
+      return this.dimensionReader.read(filepath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Pixel dimensions recorded in the manifest for an image.
+   */
+  private recordedDimensions(record: DownloadRecord | undefined): ImageDimensions | undefined {
+    return record?.width !== undefined && record.height !== undefined
+      ? { width: record.width, height: record.height }
+      : undefined;
+  }
+
+  /**
+   * Links and MIME types of an image's modern-format copies.
+   *
+   * @param variants - Filenames of the copies (e.g., `uuid.png.webp`)
+   * @param imageLink - Builds the markdown link for a local file
+   */
+  private pictureSources(variants: string[], imageLink: ImageLinkResolver): PictureSource[] {
+    return variants.map((variant) => ({
+      srcset: imageLink(variant),
+      type: MODERN_IMAGE_TYPES[path.extname(variant).slice(1) as ModernImageFormat],
+    }));
+  }
+
+  /**
+   * Record a download failure in the manifest and describe the error.
+   *
+   * This method centralizes error handling for failed image downloads. It
+   * records the failure (`403` or `transient`) and returns the failed outcome.
+   *
+   * Record statuses:
+   * - Permanent (403): `403` - won't retry on re-run
+   * - Transient: `transient` with the error message - will retry on re-run
    *
    * @param filename - Image filename (e.g., "uuid.png")
    * @param url - Original CDN URL that failed
-   * @param errorMessage - Error description to store in marker
-   * @param isPermanent403 - If true, creates .403 marker; if false, creates regular marker
-   * @param blogDir - Blog post directory
-   * @param errors - Error collection array to append to
+   * @param errorMessage - Error description to store in the manifest
+   * @param isPermanent403 - If true, records a 403; if false, a transient failure
+   * @param manifest - Download manifest
+   * @returns Failed outcome carrying the error details
    */
   private recordDownloadFailure(
     filename: string,
     url: string,
     errorMessage: string,
     isPermanent403: boolean,
-    blogDir: string,
-    errors: ImageProcessingError[]
-  ): void {
-    const markerPath = this.getMarkerPath(blogDir, filename);
-    const filePath = isPermanent403 ? `${markerPath}.403` : markerPath;
-
-    fs.writeFileSync(filePath, errorMessage);
-    errors.push({
-      filename,
-      url,
-      error: errorMessage,
-      is403: isPermanent403,
-    });
+    manifest: DownloadManifest
+  ): ImageOutcome {
+    manifest.recordFailure(url, errorMessage, isPermanent403);
+    return {
+      status: 'failed',
+      error: {
+        filename,
+        url,
+        error: errorMessage,
+        is403: isPermanent403,
+      },
+    };
   }
 }
@@ -0,0 +1,302 @@
+/**
+ * Markdown syntax an image URL was found in:
+ * - `inline`: `![alt](url "title")`
+ * - `reference`: the definition (`[ref]: url`) used by `![alt][ref]`,
+ *   `![ref][]` or `![ref]` images
+ * - `html`: the `src` attribute of an `<img>` tag
+ */
+export type ImageSyntax = 'inline' | 'reference' | 'html';
+
+/**
+ * The full source of an inline image (`![alt](url "title")`)
+ */
+export interface InlineImage {
+  /** Offset of the `!` that opens the image */
+  start: number;
+
+  /** Offset just past the closing `)` */
+  end: number;
+
+  /** Alt text, as written in the source */
+  alt: string;
+
+  /** Title, without its quotes */
+  title?: string;
+}
+
+/**
+ * An image using a reference definition (`![alt][label]`, `![alt][]` or `![alt]`)
+ */
+export interface ReferenceImage {
+  /** Offset of the `!` that opens the image */
+  start: number;
+
+  /** Offset just past the last `]` */
+  end: number;
+
+  /** Alt text, as written in the source */
+  alt: string;
+
+  /** Label of the definition, as written in the source (the alt text for collapsed and shortcut references) */
+  label: string;
+}
+
+/**
+ * Source range of an HTML `<img>` tag, with its `alt` and `title` attributes
+ */
+export interface HtmlImageTag {
+  /** Offset of the `<` that opens the tag */
+  start: number;
+
+  /** Offset just past the closing `>` */
+  end: number;
+
+  /** Value of the `alt` attribute, as written in the source */
+  alt?: string;
+
+  /** Source range of the whole `alt` attribute (name, `=` and value) */
+  altAttribute?: { start: number; end: number };
+
+  /** Value of the `title` attribute, as written in the source */
+  title?: string;
+}
+
+/**
+ * An image URL and where it appears in the markdown
+ */
+export interface ImageOccurrence {
+  /** Absolute image URL (HTML `&amp;` entities decoded) */
+  url: string;
+
+  /** Offset of the first character of the URL in the source */
+  start: number;
+
+  /** Offset just past the last character of the URL in the source */
+  end: number;
+
+  /** Syntax the URL was found in */
+  syntax: ImageSyntax;
+
+  /** The whole image, for inline images */
+  image?: InlineImage;
+
+  /** The images using the definition, for reference images */
+  references?: ReferenceImage[];
+
+  /** Title of the definition, without its quotes or parentheses, for reference images */
+  title?: string;
+
+  /** The whole tag, for HTML images */
+  tag?: HtmlImageTag;
+}
+
+/**
+ * Configuration for ImageUrlExtractor
+ */
+export interface ImageUrlExtractorOptions {
+  /**
+   * Also report relative and non-http(s) URLs (e.g., `./diagram.png`).
+   * @default false - only absolute http(s) URLs
+   */
+  relativeUrls?: boolean;
+}
+
+/**
+ * Matches an inline image, capturing the alt text, the URL (which may be
+ * wrapped in angle brackets) and an optional double- or single-quoted title.
+ */
+const INLINE_IMAGE_PATTERN = /!\[([^\]]*)\]\([ \t]*<?([^)\s>]*)>?(?:\s+(?:"([^"]*)"|'([^']*)'))?[^)]*\)/g;
+
+/**
+ * Matches a reference image: `![alt][label]`, `![alt][]` or `![alt]`.
+ * Inline images (followed by `(`) are excluded.
+ */
+const REFERENCE_IMAGE_PATTERN = /!\[([^\]]*)\](?:\[([^\]]*)\])?(?!\()/g;
+
+/**
+ * Matches a link reference definition, capturing the label, the URL (which
+ * may be wrapped in angle brackets) and an optional title in double quotes,
+ * single quotes or parentheses. Container prefixes (blockquote markers, list
+ * indentation) are allowed before the label.
+ */
+const DEFINITION_PATTERN = /^[ \t>]*\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?/gm;
+
+/**
+ * Matches an HTML `<img>` tag
+ */
+const IMG_TAG_PATTERN = /<img\b[^>]*>/gi;
+
+/**
+ * Matches an attribute of an HTML tag, capturing its name and its quoted or
+ * unquoted value
+ */
+const ATTRIBUTE_PATTERN = /\s([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Matches an absolute http(s) URL
+ */
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//i;
+
+/**
+ * ImageUrlExtractor finds the absolute http(s) image URLs in markdown (or,
+ * with `relativeUrls`, every image URL), across every image syntax Hashnode
+ * posts use: inline images, reference images and raw HTML `<img>` tags.
+ *
+ * Each occurrence records the exact source range of the URL, so callers can
+ * rewrite the URL without touching alt text, titles or other HTML
+ * attributes (`width`, `align`, ...), along with the alt text, title and
+ * source range of the images using it. For reference images the definition
+ * holds the URL, so a definition used by several images is reported once
+ * (with each image in `references`), and definitions only used by links are
+ * ignored.
+ *
+ * The extractor does not know about code: mask code regions first (see
+ * {@link CodeMasker}) so URLs in code samples are not reported.
+ *
+ * @example
+ * ```typescript
+ * const extractor = new ImageUrlExtractor();
+ * extractor.extract('<img src="https://example.com/a.png" width="300">');
+ * // [{ url: 'https://example.com/a.png', start: 10, end: 35, syntax: 'html', tag: { start: 0, end: 49 } }]
+ * ```
+ */
+export class ImageUrlExtractor {
+  private relativeUrls: boolean;
+
+  /**
+   * @param options - Which URLs are reported
+   */
+  constructor(options?: ImageUrlExtractorOptions) {
+    this.relativeUrls = options?.relativeUrls ?? false;
+  }
+
+  /**
+   * Find image URLs in markdown.
+   *
+   * @param markdown - Markdown content (with code masked)
+   * @returns Image URL occurrences in document order
+   */
+  extract(markdown: string): ImageOccurrence[] {
+    if (!markdown) {
+      return [];
+    }
+
+    const occurrences = [
+      ...this.extractInline(markdown),
+      ...this.extractReferences(markdown),
+      ...this.extractHtml(markdown),
+    ];
+    return occurrences.sort((a, b) => a.start - b.start);
+  }
+
+  private extractInline(markdown: string): ImageOccurrence[] {
+    const occurrences: ImageOccurrence[] = [];
+    for (const match of markdown.matchAll(INLINE_IMAGE_PATTERN)) {
+      const url = match[2];
+      if (!this.accepts(url)) {
+        continue;
+      }
+      const start = match.index + match[0].indexOf(url, match[1].length + 3);
+      const image: InlineImage = { start: match.index, end: match.index + match[0].length, alt: match[1] };
+      const title = match[3] ?? match[4];
+      if (title !== undefined) {
+        image.title = title;
+      }
+      occurrences.push({ url, start, end: start + url.length, syntax: 'inline', image });
+    }
+    return occurrences;
+  }
+
+  private extractReferences(markdown: string): ImageOccurrence[] {
+    const definitions = new Map<string, ImageOccurrence>();
+    for (const match of markdown.matchAll(DEFINITION_PATTERN)) {
+      const label = ImageUrlExtractor.normalizeLabel(match[1]);
+      // The first definition of a label wins
+      if (!label || definitions.has(label)) {
+        continue;
+      }
+      const url = match[2];
+      const start = match.index + match[0].indexOf(url, match[0].indexOf(']:') + 2);
+      const definition: ImageOccurrence = { url, start, end: start + url.length, syntax: 'reference' };
+      const title = match[3] ?? match[4] ?? match[5];
+      if (title !== undefined) {
+        definition.title = title;
+      }
+      definitions.set(label, definition);
+    }
+    if (definitions.size === 0) {
+      return [];
+    }
+
+    const used = new Set<ImageOccurrence>();
+    for (const match of markdown.matchAll(REFERENCE_IMAGE_PATTERN)) {
+      // Full references name the label; collapsed and shortcut references use the alt text
+      const label = match[2] || match[1];
+      const definition = definitions.get(ImageUrlExtractor.normalizeLabel(label));
+      if (definition && this.accepts(definition.url)) {
+        definition.references = definition.references ?? [];
+        definition.references.push({ start: match.index, end: match.index + match[0].length, alt: match[1], label });
+        used.add(definition);
+      }
+    }
+
+    return Array.from(used);
+  }
+
+  private extractHtml(markdown: string): ImageOccurrence[] {
+    const occurrences: ImageOccurrence[] = [];
+    for (const match of markdown.matchAll(IMG_TAG_PATTERN)) {
+      const attributes = new Map<string, { value: string; start: number; end: number }>();
+      for (const attribute of match[0].matchAll(ATTRIBUTE_PATTERN)) {
+        const name = attribute[1].toLowerCase();
+        // The first attribute of a name wins, as in browsers
+        if (!attributes.has(name)) {
+          attributes.set(name, {
+            value: attribute[2] ?? attribute[3] ?? attribute[4] ?? '',
+            start: match.index + attribute.index + 1,
+            end: match.index + attribute.index + attribute[0].length,
+          });
+        }
+      }
+
+      const src = attributes.get('src');
+      if (!src || !src.value || !this.accepts(src.value)) {
+        continue;
+      }
+      const start = src.end - src.value.length - (/["']$/.test(markdown.slice(src.start, src.end)) ? 1 : 0);
+      const tag: HtmlImageTag = { start: match.index, end: match.index + match[0].length };
+      const alt = attributes.get('alt');
+      if (alt) {
+        tag.alt = alt.value;
+        tag.altAttribute = { start: alt.start, end: alt.end };
+      }
+      const title = attributes.get('title');
+      if (title) {
+        tag.title = title.value;
+      }
+      occurrences.push({
+        url: src.value.replace(/&amp;/g, '&'),
+        start,
+        end: start + src.value.length,
+        syntax: 'html',
+        tag,
+      });
+    }
+    return occurrences;
+  }
+
+  /**
+   * Check whether a URL is reported: absolute http(s) URLs, or any URL with `relativeUrls`
+   */
+  private accepts(url: string): boolean {
+    return this.relativeUrls || ABSOLUTE_URL_PATTERN.test(url);
+  }
+
+  /**
+   * Normalize a reference label for matching: case-insensitive, with runs
+   * of whitespace collapsed (as CommonMark does).
+   */
+  private static normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+}
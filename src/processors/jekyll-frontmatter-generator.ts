@@ -0,0 +1,116 @@
+import type { PostMetadata } from '../types/hashnode-schema.js';
+
+/**
+ * Configuration options for JekyllFrontmatterGenerator
+ */
+export interface JekyllFrontmatterOptions {
+  /**
+   * Jekyll layout applied to every post
+   * @default 'post'
+   */
+  layout?: string;
+
+  /**
+   * Categories applied to every post.
+   * When omitted, the post's tags are used as its categories.
+   */
+  categories?: string[];
+}
+
+/**
+ * JekyllFrontmatterGenerator creates YAML frontmatter using Jekyll's
+ * front matter keys.
+ *
+ * Field mapping:
+ * - `layout` - from the configured layout
+ * - `title` - copied as-is
+ * - `date` - from `dateAdded`
+ * - `permalink` - resolved by the caller (omitted if not provided)
+ * - `categories` - configured categories, or the post's tags
+ * - `tags` - from `tags`
+ * - `description` - from `brief`
+ * - `image` - from `coverImage`
+ *
+ * @example
+ * ```typescript
+ * const generator = new JekyllFrontmatterGenerator({ layout: 'post' });
+ * generator.generate(metadata, '/my-post/');
+ * // ---
+ * // layout: "post"
+ * // title: "My Post"
+ * // date: 2024-01-15T10:30:00.000Z
+ * // permalink: "/my-post/"
+ * // ---
+ * ```
+ */
+export class JekyllFrontmatterGenerator {
+  private readonly layout: string;
+  private readonly categories?: string[];
+
+  constructor(options?: JekyllFrontmatterOptions) {
+    this.layout = options?.layout ?? 'post';
+    this.categories = options?.categories;
+  }
+
+  /**
+   * Generates a YAML frontmatter string from the provided metadata.
+   *
+   * @param metadata - The metadata to convert to frontmatter
+   * @param permalink - Resolved permalink for the post (omitted when undefined)
+   * @returns The formatted YAML string (including --- delimiters)
+   */
+  generate(metadata: PostMetadata, permalink?: string): string {
+    const lines = ['---'];
+
+    lines.push(`layout: "${this.escapeString(this.layout)}"`);
+    lines.push(`title: "${this.escapeString(metadata.title)}"`);
+
+    if (metadata.dateAdded) {
+      const date = new Date(metadata.dateAdded);
+      lines.push(
+        Number.isNaN(date.getTime())
+          ? `date: "${this.escapeString(metadata.dateAdded)}"`
+          : `date: ${date.toISOString()}`
+      );
+    }
+
+    if (permalink) {
+      lines.push(`permalink: "${this.escapeString(permalink)}"`);
+    }
+
+    this.pushList(lines, 'categories', this.categories ?? metadata.tags ?? []);
+    this.pushList(lines, 'tags', metadata.tags ?? []);
+
+    if (metadata.brief) {
+      lines.push(`description: "${this.escapeString(metadata.brief)}"`);
+    }
+
+    if (metadata.coverImage) {
+      lines.push(`image: "${this.escapeString(metadata.coverImage)}"`);
+    }
+
+    lines.push('---');
+    return lines.join('\n');
+  }
+
+  /**
+   * Append a YAML block sequence, skipping empty lists.
+   */
+  private pushList(lines: string[], key: string, values: string[]): void {
+    if (values.length === 0) {
+      return;
+    }
+    lines.push(`${key}:`);
+    values.forEach((value) => {
+      lines.push(`  - "${this.escapeString(value)}"`);
+    });
+  }
+
+  /**
+   * Escapes backslashes and double quotes in a string to ensure valid YAML.
+   * Backslashes must be escaped first to avoid double-escaping issues.
+   */
+  private escapeString(str: string): string {
+    return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+}
@@ -0,0 +1,182 @@
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import type { Nodes, Root } from 'mdast';
+import { CodeMasker } from './code-masker.js';
+import type { CodeRange } from './code-masker.js';
+import type {
+  MarkdownPluginContext,
+  MarkdownReplacement,
+  MarkdownTransformPlugin,
+} from '../types/markdown-plugin.js';
+
+/**
+ * A pending source edit
+ */
+interface MarkdownEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * MarkdownPipeline runs transform plugins over markdown, one after another.
+ *
+ * Each plugin receives the current markdown and its mdast syntax tree, and
+ * describes its changes as edits to source ranges. Text outside those ranges
+ * is never rewritten, so formatting the plugins don't touch (list markers,
+ * escapes, spacing) survives exactly.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = new MarkdownPipeline([myPlugin]);
+ * const output = pipeline.run(markdown);
+ * ```
+ */
+export class MarkdownPipeline {
+  /**
+   * @param plugins - Plugins in the order they run
+   */
+  constructor(private readonly plugins: readonly MarkdownTransformPlugin[]) {}
+
+  /**
+   * Run every plugin over markdown.
+   *
+   * @param markdown - Markdown content
+   * @returns Markdown with every plugin's edits applied
+   * @throws {Error} If a plugin makes an invalid, overlapping or code-cutting edit
+   */
+  run(markdown: string): string {
+    let result = markdown;
+    for (const plugin of this.plugins) {
+      const context = new PluginContext(plugin.name, result);
+      plugin.transform(context);
+      result = context.applyEdits();
+    }
+    return result;
+  }
+}
+
+/**
+ * Context handed to a single plugin run
+ */
+class PluginContext implements MarkdownPluginContext {
+  readonly tree: Root;
+  private readonly codeRanges: CodeRange[];
+  private readonly edits: MarkdownEdit[] = [];
+
+  constructor(
+    private readonly pluginName: string,
+    readonly markdown: string
+  ) {
+    this.tree = fromMarkdown(markdown);
+    this.codeRanges = CodeMasker.findCodeRanges(this.tree);
+  }
+
+  visit<T extends Nodes['type']>(type: T, visitor: (node: Extract<Nodes, { type: T }>) => void): void {
+    this.walk(this.tree, (node) => {
+      if (node.type === type) {
+        visitor(node as Extract<Nodes, { type: T }>);
+      }
+    });
+  }
+
+  replace(start: number, end: number, text: string): void {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end > this.markdown.length) {
+      throw new Error(`Markdown plugin "${this.pluginName}" made an invalid edit: ${start}-${end}`);
+    }
+
+    const cut = [start, end].find((offset) => this.cutsCode(offset));
+    if (cut !== undefined) {
+      throw new Error(`Markdown plugin "${this.pluginName}" cannot edit inside code (offset ${cut})`);
+    }
+
+    this.edits.push({ start, end, text });
+  }
+
+  replaceNode(node: Nodes, text: string): void {
+    const [start, end] = this.offsets(node);
+    this.replace(start, end, text);
+  }
+
+  replaceBlock(start: number, end: number, text: string): void {
+    const lineStart = this.markdown.lastIndexOf('\n', start - 1) + 1;
+    const prefix = this.markdown.slice(lineStart, start).replace(/[^\s>]/g, ' ');
+
+    const lines = text.split('\n').map((line, index) => {
+      if (index === 0) {
+        return line;
+      }
+      return line === '' ? prefix.trimEnd() : prefix + line;
+    });
+    this.replace(start, end, lines.join('\n'));
+  }
+
+  replaceOutsideCode(pattern: RegExp, replacement: MarkdownReplacement): void {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+    let segmentStart = 0;
+    for (const range of [...this.codeRanges, { start: this.markdown.length, end: this.markdown.length }]) {
+      const segment = this.markdown.slice(segmentStart, range.start);
+      for (const match of segment.matchAll(global)) {
+        if (match[0] === '') {
+          continue;
+        }
+        const start = segmentStart + (match.index ?? 0);
+        const text = typeof replacement === 'string' ? replacement : replacement(match as RegExpExecArray);
+        this.replace(start, start + match[0].length, text);
+      }
+      segmentStart = Math.max(segmentStart, range.end);
+    }
+  }
+
+  isInCode(offset: number): boolean {
+    return this.codeRanges.some((range) => offset >= range.start && offset < range.end);
+  }
+
+  /**
+   * Apply the collected edits to the markdown.
+   * @throws {Error} If two edits overlap
+   */
+  applyEdits(): string {
+    if (this.edits.length === 0) {
+      return this.markdown;
+    }
+
+    const edits = [...this.edits].sort((a, b) => a.start - b.start);
+    let result = '';
+    let position = 0;
+    for (const edit of edits) {
+      if (edit.start < position) {
+        throw new Error(`Markdown plugin "${this.pluginName}" made overlapping edits at offset ${edit.start}`);
+      }
+      result += this.markdown.slice(position, edit.start) + edit.text;
+      position = edit.end;
+    }
+    return result + this.markdown.slice(position);
+  }
+
+  /**
+   * Whether an offset falls strictly inside a code range, so an edit
+   * starting or ending there would cut the code apart.
+   */
+  private cutsCode(offset: number): boolean {
+    return this.codeRanges.some((range) => offset > range.start && offset < range.end);
+  }
+
+  private offsets(node: Nodes): [number, number] {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) {
+      throw new Error(`Markdown plugin "${this.pluginName}" used a node without a source position`);
+    }
+    return [start, end];
+  }
+
+  private walk(node: Nodes, callback: (node: Nodes) => void): void {
+    callback(node);
+    if ('children' in node) {
+      for (const child of node.children) {
+        this.walk(child, callback);
+      }
+    }
+  }
+}
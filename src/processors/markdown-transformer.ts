@@ -1,3 +1,12 @@
+import type { Nodes } from 'mdast';
+import { EmbedFallbackRenderer } from './embed-fallback-renderer.js';
+import type { EmbedFallbackStyle, EmbedShortcodes } from './embed-fallback-renderer.js';
+import { CalloutConverter } from './callout-converter.js';
+import type { CalloutAlertTypes } from './callout-converter.js';
+import { EmbedParser } from './embed-parser.js';
+import { MarkdownPipeline } from './markdown-pipeline.js';
+import type { MarkdownPluginContext, MarkdownTransformPlugin } from '../types/markdown-plugin.js';
+
 /**
  * Configuration options for markdown transformation.
  *
@@ -23,11 +32,22 @@ export interface MarkdownTransformerOptions {
    *
    * @remarks
    * Hashnode exports may contain `<div data-node-type="callout">` structures for
-   * highlighting content. Enable this to convert them to standard markdown blockquotes.
+   * highlighting content. Enable this to convert them to GitHub-style alerts
+   * (`> [!NOTE]`, `> [!TIP]`, `> [!WARNING]`, ...) chosen by the callout's emoji.
    * Leave disabled if your target framework can style HTML in markdown.
    */
   convertCalloutsToBlockquotes?: boolean;
 
+  /**
+   * Alert type for each callout emoji, merged over the built-in mapping.
+   * @defaultValue `{}`
+   *
+   * @remarks
+   * For example `{ '🐛': 'CAUTION' }`. Callouts whose emoji has no mapping
+   * become `NOTE` alerts.
+   */
+  calloutAlertTypes?: CalloutAlertTypes;
+
   /**
    * Whether to trim trailing whitespace from lines.
    * @defaultValue false
@@ -39,6 +59,40 @@ export interface MarkdownTransformerOptions {
    * Note: Preserves exactly two trailing spaces (markdown hard line break syntax).
    */
   trimTrailingWhitespace?: boolean;
+
+  /**
+   * How to rewrite Hashnode `%[url]` embed directives.
+   * @defaultValue 'none'
+   *
+   * @remarks
+   * Hashnode embeds (YouTube, CodePen, CodeSandbox, Gist, Tweet, any URL) are
+   * written as `%[url]` lines, which no static site generator understands.
+   * Choose `iframe` for raw HTML, `link` for a link card, or `shortcode` for
+   * the templates in `embedShortcodes`. Leave as `none` when the output target
+   * converts embeds itself (e.g., the MDX target).
+   */
+  embedFallback?: EmbedFallbackStyle;
+
+  /**
+   * Shortcode templates (or a preset name) used when `embedFallback` is `shortcode`.
+   * @defaultValue 'hugo'
+   *
+   * @remarks
+   * Templates may use `:id`, `:user` and `:url`. Embeds without a matching
+   * template are written as link cards.
+   */
+  embedShortcodes?: EmbedShortcodes;
+
+  /**
+   * Custom transform plugins.
+   * @defaultValue []
+   *
+   * @remarks
+   * Plugins run in order after the built-in transformations and before
+   * trailing whitespace trimming. Each plugin sees the markdown's mdast syntax
+   * tree and edits the source by position; see {@link MarkdownTransformPlugin}.
+   */
+  plugins?: MarkdownTransformPlugin[];
 }
 
 /**
@@ -46,7 +100,11 @@ export interface MarkdownTransformerOptions {
  *
  * Based on analysis of 48 real Hashnode blog posts, this processor removes
  * the align attributes that Hashnode adds to images. Optional transformations
- * for callouts and whitespace are available but not enabled by default.
+ * for embeds, callouts and whitespace are available but not enabled by default.
+ *
+ * Transformations run on the markdown's syntax tree (see {@link MarkdownPipeline}),
+ * so they never change code blocks or inline code, and custom plugins can be
+ * added through the `plugins` option.
  *
  * @remarks
  * This processor preserves valid markdown syntax including:
@@ -76,6 +134,10 @@ export interface MarkdownTransformerOptions {
  */
 export class MarkdownTransformer {
   private options: Required<MarkdownTransformerOptions>;
+  private embedRenderer: EmbedFallbackRenderer;
+  private embedParser = new EmbedParser();
+  private calloutConverter: CalloutConverter;
+  private pipeline: MarkdownPipeline;
 
   /**
    * Creates a new MarkdownTransformer with optional configuration.
@@ -87,8 +149,18 @@ export class MarkdownTransformer {
       removeAlignAttributes: true,
       convertCalloutsToBlockquotes: false,
       trimTrailingWhitespace: false,
+      embedFallback: 'none',
+      embedShortcodes: 'hugo',
+      calloutAlertTypes: {},
+      plugins: [],
       ...options,
     };
+    this.embedRenderer = new EmbedFallbackRenderer(
+      this.options.embedFallback,
+      this.options.embedShortcodes
+    );
+    this.calloutConverter = new CalloutConverter(this.options.calloutAlertTypes);
+    this.pipeline = new MarkdownPipeline(this.buildPlugins());
   }
 
   /**
@@ -104,6 +176,7 @@ export class MarkdownTransformer {
    * @param markdown - Raw markdown content from Hashnode export
    * @returns Cleaned markdown with Hashnode-specific quirks removed
    * @throws {Error} If markdown is not a string
+   * @throws {Error} If a plugin makes an invalid, overlapping or code-cutting edit
    *
    * @example
    * ```typescript
@@ -123,34 +196,50 @@ export class MarkdownTransformer {
       throw new Error('Markdown must be a string');
     }
 
-    let result = markdown;
+    return this.pipeline.run(markdown);
+  }
+
+  /**
+   * Builds the plugin list for the enabled transformations, in the order they run.
+   */
+  private buildPlugins(): MarkdownTransformPlugin[] {
+    const plugins: MarkdownTransformPlugin[] = [];
 
     // Remove align attributes from images (core transformation)
     if (this.options.removeAlignAttributes) {
-      result = this.removeAlignAttributes(result);
+      plugins.push({ name: 'remove-align-attributes', transform: (context) => this.removeAlignAttributes(context) });
+    }
+
+    // Optional: Rewrite %[url] embed directives
+    if (this.options.embedFallback !== 'none') {
+      plugins.push({ name: 'embed-fallback', transform: (context) => this.renderEmbeds(context) });
     }
 
     // Optional: Convert callout divs to blockquotes
     if (this.options.convertCalloutsToBlockquotes) {
-      result = this.convertCalloutsToBlockquotes(result);
+      plugins.push({ name: 'callouts', transform: (context) => this.convertCalloutsToBlockquotes(context) });
     }
 
+    plugins.push(...this.options.plugins);
+
     // Optional: Trim trailing whitespace
     if (this.options.trimTrailingWhitespace) {
-      result = this.trimTrailingWhitespace(result);
+      plugins.push({ name: 'trim-trailing-whitespace', transform: (context) => this.trimTrailingWhitespace(context) });
     }
 
-    return result;
+    return plugins;
   }
 
   /**
    * Removes align attributes from markdown images.
    *
    * Hashnode exports include align="center", align="left", and align="right"
-   * on image markdown. These are not standard markdown syntax.
+   * after image markdown. These are not standard markdown syntax. Only an
+   * attribute directly following an `image` or `imageReference` node, or an
+   * inline `<img>` tag (`html` node), is removed, so code blocks, inline code
+   * and attributes inside HTML tags (`<img align="left">`) are left unchanged.
    *
-   * @param markdown - Markdown content
-   * @returns Markdown with align attributes removed
+   * @param context - Plugin context for the current markdown
    *
    * @example
    * ```typescript
@@ -158,43 +247,99 @@ export class MarkdownTransformer {
    * // Output: ![](image.png)
    * ```
    */
-  private removeAlignAttributes(markdown: string): string {
-    return markdown.replace(/ align="[^"]*"/g, '');
+  private removeAlignAttributes(context: MarkdownPluginContext): void {
+    const removeAfter = (node: Nodes): void => {
+      const end = node.position?.end.offset ?? 0;
+      const align = / align="[^"]*"/y;
+      align.lastIndex = end;
+      const match = align.exec(context.markdown);
+      if (match) {
+        context.replace(end, end + match[0].length, '');
+      }
+    };
+
+    context.visit('image', removeAfter);
+    context.visit('imageReference', removeAfter);
+    context.visit('html', (html) => {
+      if (/^<img\b/i.test(html.value)) {
+        removeAfter(html);
+      }
+    });
   }
 
   /**
-   * Converts Hashnode callout divs to markdown blockquotes.
+   * Rewrites `%[url]` embed directives with the configured fallback.
    *
-   * @param markdown - Markdown content
-   * @returns Markdown with callouts converted to blockquotes
+   * @param context - Plugin context for the current markdown
+   *
+   * @remarks
+   * Directives are whole lines of a paragraph, so directives inside code are
+   * never matched. Multi-line replacements keep the directive's list or
+   * blockquote prefix.
+   */
+  private renderEmbeds(context: MarkdownPluginContext): void {
+    context.visit('paragraph', (paragraph) => {
+      let lineStart = paragraph.position?.start.offset ?? 0;
+      const end = paragraph.position?.end.offset ?? lineStart;
+
+      for (const line of context.markdown.slice(lineStart, end).split('\n')) {
+        const prefix = /^[ \t>]*/.exec(line)?.[0] ?? '';
+        const embed = this.embedParser.parseDirective(line.slice(prefix.length));
+        if (embed) {
+          context.replaceBlock(lineStart + prefix.length, lineStart + line.length, this.embedRenderer.renderEmbed(embed));
+        }
+        lineStart += line.length + 1;
+      }
+    });
+  }
+
+  /**
+   * Converts Hashnode callout divs to GitHub-style alert blockquotes.
+   *
+   * @param context - Plugin context for the current markdown
    *
    * @remarks
    * This is an optional transformation. Many frameworks can style HTML in markdown,
-   * so this may not be necessary.
+   * so this may not be necessary. Content inside the callout (lists, code blocks)
+   * is kept line for line.
    *
    * @example
    * ```typescript
-   * // TODO: Implement if needed
-   * // Pattern: <div data-node-type="callout">...</div>
-   * // Convert to: > [!NOTE]\n> content
+   * // Input:
+   * // <div data-node-type="callout">
+   * // <div data-node-type="callout-emoji">💡</div>
+   * // <div data-node-type="callout-text">Use a cache</div>
+   * // </div>
+   * // Output:
+   * // > [!TIP]
+   * // > Use a cache
    * ```
    */
-  private convertCalloutsToBlockquotes(markdown: string): string {
-    // TODO: Implement if needed
-    // Pattern: <div data-node-type="callout">...</div>
-    // Convert to: > [!NOTE]\n> content
-    return markdown;
+  private convertCalloutsToBlockquotes(context: MarkdownPluginContext): void {
+    let convertedUntil = 0;
+    context.visit('html', (html) => {
+      const start = html.position?.start.offset ?? 0;
+      if (start < convertedUntil) {
+        return;
+      }
+
+      const callout = this.calloutConverter.match(context.markdown, start);
+      if (callout) {
+        context.replaceBlock(start, callout.end, callout.alert);
+        convertedUntil = callout.end;
+      }
+    });
   }
 
   /**
    * Trims trailing whitespace from each line while preserving markdown line breaks.
    *
-   * @param markdown - Markdown content
-   * @returns Markdown with trailing whitespace removed, except for markdown hard line breaks
+   * @param context - Plugin context for the current markdown
    *
    * @remarks
    * Preserves exactly two trailing spaces (markdown hard line break syntax).
    * Removes all other trailing whitespace including tabs and excessive spaces.
+   * Lines ending inside code blocks are left unchanged.
    *
    * @example
    * ```typescript
@@ -207,16 +352,14 @@ export class MarkdownTransformer {
    * // Output: 'Line 1  \nLine 2\n'
    * ```
    */
-  private trimTrailingWhitespace(markdown: string): string {
-    return markdown
-      .split('\n')
-      .map(line => {
-        // Preserve exactly 2 trailing spaces (markdown hard line break)
-        if (line.endsWith('  ') && !line.endsWith('   ')) {
-          return line;
-        }
-        return line.trimEnd();
-      })
-      .join('\n');
+  private trimTrailingWhitespace(context: MarkdownPluginContext): void {
+    for (const match of context.markdown.matchAll(/[ \t]+(?=\n|$)/g)) {
+      const start = match.index ?? 0;
+      // Preserve exactly 2 trailing spaces (markdown hard line break)
+      if ((match[0].endsWith('  ') && !match[0].endsWith('   ')) || context.isInCode(start)) {
+        continue;
+      }
+      context.replace(start, start + match[0].length, '');
+    }
   }
 }
@@ -0,0 +1,169 @@
+import { EmbedParser } from './embed-parser.js';
+import type { Embed, EmbedKind } from './embed-parser.js';
+
+/**
+ * Value of a JSX prop rendered for an embed component
+ */
+export type MdxPropValue = string | number | boolean;
+
+/**
+ * Describes the JSX component used for one kind of embed
+ */
+export interface MdxEmbedComponent {
+  /** Component name used in the JSX call (e.g., 'YouTube') */
+  component: string;
+
+  /**
+   * Module the component is imported from (e.g., '@/components/YouTube.astro').
+   * Omit for components provided globally (e.g., through an MDXProvider).
+   */
+  from?: string;
+
+  /**
+   * Import the component as a named export instead of the default export
+   * @default false
+   */
+  named?: boolean;
+
+  /**
+   * Build the props for the component call.
+   * Defaults to the embed's `id` and `user` (when known) followed by `url`.
+   */
+  props?: (embed: Embed) => Record<string, MdxPropValue | undefined>;
+}
+
+/**
+ * Components used for each embed kind.
+ * Kinds without an entry use the `generic` component; embeds without any
+ * matching component are left as directives.
+ */
+export type MdxEmbedComponentMap = Partial<Record<EmbedKind, MdxEmbedComponent>>;
+
+/**
+ * Default mapping to globally provided components (no imports).
+ */
+export const DEFAULT_MDX_EMBED_COMPONENTS: MdxEmbedComponentMap = {
+  youtube: { component: 'YouTube' },
+  codepen: { component: 'CodePen' },
+  codesandbox: { component: 'CodeSandbox' },
+  gist: { component: 'Gist' },
+  tweet: { component: 'Tweet' },
+  generic: { component: 'Embed' },
+};
+
+const COMPONENT_NAME_PATTERN = /^[A-Z][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+const PROP_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * MdxEmbedRenderer converts Hashnode `%[url]` embed directives into JSX
+ * component calls and adds the import lines the components need.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new MdxEmbedRenderer({
+ *   youtube: { component: 'YouTube', from: '@/components/YouTube.astro' },
+ * });
+ * renderer.render('%[https://youtu.be/dQw4w9WgXcQ]');
+ * // import YouTube from '@/components/YouTube.astro';
+ * //
+ * // <YouTube id="dQw4w9WgXcQ" url="https://youtu.be/dQw4w9WgXcQ" />
+ * ```
+ */
+export class MdxEmbedRenderer {
+  private readonly components: MdxEmbedComponentMap;
+  private readonly embedParser = new EmbedParser();
+
+  /**
+   * @param components - Component mapping (defaults to {@link DEFAULT_MDX_EMBED_COMPONENTS})
+   * @throws {Error} If a component name is not a valid JSX component name
+   */
+  constructor(components: MdxEmbedComponentMap = DEFAULT_MDX_EMBED_COMPONENTS) {
+    for (const mapping of Object.values(components)) {
+      if (mapping && !COMPONENT_NAME_PATTERN.test(mapping.component)) {
+        throw new Error(`Invalid MDX component name: ${mapping.component}`);
+      }
+    }
+    this.components = components;
+  }
+
+  /**
+   * Replace embed directives with component calls and prepend import lines.
+   *
+   * @param markdown - Markdown body (without frontmatter)
+   * @param imported - Other components the body uses (e.g., an image
+   *   component), imported before the embed components
+   * @returns MDX body
+   * @throws {Error} If a props function returns an invalid prop name
+   */
+  render(markdown: string, imported: Omit<MdxEmbedComponent, 'props'>[] = []): string {
+    const used: Omit<MdxEmbedComponent, 'props'>[] = [...imported];
+
+    const body = this.embedParser.replaceDirectives(markdown, (embed) => {
+      const mapping = this.components[embed.kind] ?? this.components.generic;
+      if (!mapping) {
+        return undefined;
+      }
+      if (!used.includes(mapping)) {
+        used.push(mapping);
+      }
+      return this.renderCall(mapping, embed);
+    });
+
+    const imports = this.renderImports(used);
+    return imports.length > 0 ? `${imports.join('\n')}\n\n${body}` : body;
+  }
+
+  /**
+   * Render a self-closing JSX element for an embed.
+   */
+  private renderCall(mapping: MdxEmbedComponent, embed: Embed): string {
+    const props = mapping.props
+      ? mapping.props(embed)
+      : { id: embed.id, user: embed.user, url: embed.url };
+
+    const attributes = Object.entries(props)
+      .filter((entry): entry is [string, MdxPropValue] => entry[1] !== undefined)
+      .map(([name, value]) => {
+        if (!PROP_NAME_PATTERN.test(name)) {
+          throw new Error(`Invalid MDX prop name: ${name}`);
+        }
+        return ` ${name}=${this.renderPropValue(value)}`;
+      });
+
+    return `<${mapping.component}${attributes.join('')} />`;
+  }
+
+  /**
+   * Render a prop value as a JSX attribute value.
+   * Strings use a plain attribute when possible, otherwise a JS string literal.
+   */
+  private renderPropValue(value: MdxPropValue): string {
+    if (typeof value !== 'string') {
+      return `{${String(value)}}`;
+    }
+    if (/^[^"\\{}<>\n]*$/.test(value)) {
+      return `"${value}"`;
+    }
+    return `{${JSON.stringify(value)}}`;
+  }
+
+  /**
+   * Render one import line per imported module binding, in order of first use.
+   */
+  private renderImports(used: Omit<MdxEmbedComponent, 'props'>[]): string[] {
+    const lines: string[] = [];
+    for (const mapping of used) {
+      if (!mapping.from) {
+        continue;
+      }
+      const binding = mapping.component.split('.')[0];
+      const specifier = mapping.named ? `{ ${binding} }` : binding;
+      const source = mapping.from.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+      const line = `import ${specifier} from '${source}';`;
+      if (!lines.includes(line)) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+}
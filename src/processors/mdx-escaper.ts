@@ -0,0 +1,180 @@
+import { CodeMasker } from './code-masker.js';
+
+/**
+ * HTML elements without content, which JSX requires to be self-closed
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/**
+ * One attribute of an HTML or JSX tag: a name with an optional quoted,
+ * braced (JSX expression) or unquoted value
+ */
+const ATTRIBUTE = String.raw`[A-Za-z_:][\w:.-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|\{[^{}]*\}|[^\s"'=<>\x60{}]+))?`;
+
+/**
+ * CommonMark autolink: `<scheme:...>` or `<user@example.com>`
+ */
+const AUTOLINK = String.raw`<(?:[A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*|[\w.!#$%&'*+/=?^\x60{|}~-]+@[A-Za-z0-9.-]+)>`;
+const AUTOLINK_PATTERN = new RegExp(`^${AUTOLINK}$`);
+
+/**
+ * Syntax MDX treats differently from markdown, in the order it is matched:
+ * backslash escapes (kept), HTML comments, autolinks, complete tags (kept or
+ * made valid JSX), and stray braces and `<` characters.
+ */
+const MDX_SYNTAX_PATTERN = new RegExp(
+  [
+    String.raw`\\[\s\S]`,
+    String.raw`<!--[\s\S]*?-->`,
+    AUTOLINK,
+    String.raw`<\/?[A-Za-z][\w.:-]*(?:\s+${ATTRIBUTE})*\s*\/?>`,
+    '[{}<]',
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Start of an opening or closing tag, with the `/` and the tag name captured
+ */
+const TAG_NAME_PATTERN = /^<(\/?)([A-Za-z][\w.:-]*)/;
+
+/**
+ * Attribute of a complete tag, with its name, `=` and value captured
+ */
+const ATTRIBUTE_PATTERN = /([A-Za-z_:][\w:.-]*)(\s*=\s*)("[^"]*"|'[^']*'|\{[^{}]*\}|[^\s"'=<>`{}]+)?/g;
+
+/**
+ * MdxEscaper makes ordinary markdown safe to compile as MDX.
+ *
+ * MDX reads `{` as the start of a JavaScript expression and `<` as the start
+ * of a JSX element, and has no HTML comments, autolinks or void elements.
+ * Outside code, this escaper:
+ * - Escapes braces and `<` characters that don't start a tag (`\{`, `\<`)
+ * - Turns `<!-- comments -->` into `{/* comments *\/}`
+ * - Turns autolinks (`<https://...>`, `<user@example.com>`) into links
+ * - Self-closes void elements (`<br>`, `<img ...>`) and quotes unquoted
+ *   attribute values
+ *
+ * Other complete tags are kept when they are closed, so JSX written into the
+ * markdown (such as `<picture>` elements for optimized images) passes
+ * through unchanged; unclosed tags are escaped like text.
+ * Code blocks and inline code are never changed.
+ *
+ * @example
+ * ```typescript
+ * new MdxEscaper().escape('Use {braces} <br> and `{code}`');
+ * // 'Use \\{braces\\} <br /> and `{code}`'
+ * ```
+ */
+export class MdxEscaper {
+  private codeMasker = new CodeMasker();
+
+  /**
+   * Escape markdown for MDX.
+   *
+   * @param markdown - Markdown body (without frontmatter)
+   * @returns Markdown that compiles as MDX and renders the same text
+   */
+  escape(markdown: string): string {
+    const masked = this.codeMasker.mask(markdown);
+    const unpaired = this.unpairedTags(Array.from(masked.markdown.matchAll(MDX_SYNTAX_PATTERN), ([match]) => match));
+
+    let index = 0;
+    const escaped = masked.markdown.replace(MDX_SYNTAX_PATTERN, (match) =>
+      unpaired.has(index++) ? match.replace(/[{}<]/g, '\\$&') : this.escapeMatch(match)
+    );
+    return masked.restore(escaped);
+  }
+
+  /**
+   * Find the opening tags without a closing tag and the closing tags without
+   * an opening tag (such as `Array<string>` in prose), which JSX rejects.
+   *
+   * @param matches - Matches of {@link MDX_SYNTAX_PATTERN}, in document order
+   * @returns Indexes of the unpaired tags in `matches`
+   */
+  private unpairedTags(matches: string[]): Set<number> {
+    const unpaired = new Set<number>();
+    const open: Array<{ name: string; index: number }> = [];
+
+    matches.forEach((match, index) => {
+      const tag = TAG_NAME_PATTERN.exec(match);
+      if (!tag || AUTOLINK_PATTERN.test(match) || VOID_ELEMENTS.has(tag[2].toLowerCase()) || match.endsWith('/>')) {
+        return;
+      }
+      if (!tag[1]) {
+        open.push({ name: tag[2], index });
+        return;
+      }
+
+      // Elements left open inside the closed one are unpaired
+      const opener = open.map((element) => element.name).lastIndexOf(tag[2]);
+      if (opener === -1) {
+        unpaired.add(index);
+      } else {
+        open.splice(opener).slice(1).forEach((element) => unpaired.add(element.index));
+      }
+    });
+    open.forEach((element) => unpaired.add(element.index));
+    return unpaired;
+  }
+
+  /**
+   * Replacement for one match of {@link MDX_SYNTAX_PATTERN}.
+   */
+  private escapeMatch(match: string): string {
+    if (match.length === 1) {
+      return `\\${match}`;
+    }
+    if (match.startsWith('\\')) {
+      return match;
+    }
+    if (match.startsWith('<!--')) {
+      // `*/` would end the JavaScript comment early
+      return `{/*${match.slice(4, -3).replace(/\*\//g, '* /')}*/}`;
+    }
+    if (AUTOLINK_PATTERN.test(match)) {
+      // Autolink: email addresses get a mailto link, like in CommonMark
+      const target = match.slice(1, -1);
+      const href = /^[A-Za-z][A-Za-z0-9+.-]{1,31}:/.test(target) ? target : `mailto:${target}`;
+      return `[${target.replace(/[[\]\\*_`]/g, '\\$&')}](<${href}>)`;
+    }
+    return this.escapeTag(match);
+  }
+
+  /**
+   * Make a complete tag valid JSX: quote unquoted attribute values and
+   * self-close void elements (dropping their closing tags).
+   */
+  private escapeTag(tag: string): string {
+    const [, slash, name] = TAG_NAME_PATTERN.exec(tag)!;
+    const isVoid = VOID_ELEMENTS.has(name.toLowerCase());
+    if (slash) {
+      return isVoid ? '' : tag;
+    }
+
+    const start = name.length + 1;
+    const attributes = tag.slice(start).replace(ATTRIBUTE_PATTERN, (attribute, attributeName, equals, value?: string) =>
+      value && !/^["'{]/.test(value) ? `${attributeName}${equals}"${value}"` : attribute
+    );
+    const escaped = tag.slice(0, start) + attributes;
+    if (isVoid && !escaped.endsWith('/>')) {
+      return `${escaped.slice(0, -1).trimEnd()} />`;
+    }
+    return escaped;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * A `<source>` of a `<picture>` element
+ */
+export interface PictureSource {
+  /** Link to the image file */
+  srcset: string;
+
+  /** MIME type of the file (e.g., 'image/webp') */
+  type: string;
+}
+
+/**
+ * An image rendered as an `<img>` element (or a framework image component)
+ */
+export interface ImageElement {
+  /** Link to the image */
+  src: string;
+
+  /** Alt text */
+  alt: string;
+
+  /** Title, if the image had one */
+  title?: string;
+
+  /** Pixel width, when known */
+  width?: number;
+
+  /** Pixel height, when known */
+  height?: number;
+}
+
+/**
+ * An image with modern-format alternatives, rendered as a `<picture>` element.
+ * `src` links the fallback image (JPEG or PNG).
+ */
+export interface PictureElement extends ImageElement {
+  /** Alternatives in order of preference */
+  sources: PictureSource[];
+}
+
+/**
+ * Configuration options for PictureRenderer
+ */
+export interface PictureRendererOptions {
+  /**
+   * Render JSX (`srcSet`, self-closing tags) for MDX instead of HTML
+   * @default false
+   */
+  jsx?: boolean;
+
+  /**
+   * Element rendered for standalone images, e.g. a framework `Image`
+   * component in JSX. The `<img>` inside `<picture>` elements is not affected.
+   * @default 'img'
+   */
+  imageComponent?: string;
+}
+
+const ELEMENT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * PictureRenderer writes the `<picture>` element that replaces an inline
+ * image when optimized images are linked with their modern-format copies,
+ * and the `<img>` element that replaces it when its dimensions are written.
+ *
+ * Elements are kept on one line so they stay inline HTML wherever the image
+ * appeared in the markdown. In JSX, dimensions are written as numbers
+ * (`width={800}`).
+ *
+ * @example
+ * ```typescript
+ * new PictureRenderer().render({
+ *   src: './uuid.png',
+ *   alt: 'Diagram',
+ *   sources: [{ srcset: './uuid.png.webp', type: 'image/webp' }],
+ * });
+ * // <picture><source srcset="./uuid.png.webp" type="image/webp"><img src="./uuid.png" alt="Diagram"></picture>
+ * ```
+ */
+export class PictureRenderer {
+  private readonly jsx: boolean;
+  private readonly imageComponent: string;
+
+  /**
+   * @param options - Output syntax
+   * @throws {Error} If `imageComponent` is not a valid element name
+   */
+  constructor(options?: PictureRendererOptions) {
+    this.jsx = options?.jsx ?? false;
+    this.imageComponent = options?.imageComponent ?? 'img';
+
+    if (!ELEMENT_NAME_PATTERN.test(this.imageComponent)) {
+      throw new Error(`Invalid image component name: ${this.imageComponent}`);
+    }
+  }
+
+  /**
+   * Render a `<picture>` element.
+   *
+   * @param picture - Fallback image and its alternatives
+   * @returns Single-line `<picture>` markup
+   */
+  render(picture: PictureElement): string {
+    const close = this.jsx ? ' />' : '>';
+    const srcset = this.jsx ? 'srcSet' : 'srcset';
+
+    const sources = picture.sources.map(
+      (source) => `<source ${srcset}="${this.escapeAttribute(source.srcset)}" type="${source.type}"${close}`
+    );
+
+    return `<picture>${sources.join('')}${this.element('img', picture)}</picture>`;
+  }
+
+  /**
+   * Render a standalone image with the configured image component.
+   *
+   * @param image - Image link, text and dimensions
+   * @returns Single-line `<img>` (or component) markup
+   */
+  renderImage(image: ImageElement): string {
+    return this.element(this.imageComponent, image);
+  }
+
+  private element(name: string, image: ImageElement): string {
+    const close = this.jsx ? ' />' : '>';
+    const title = image.title !== undefined ? ` title="${this.escapeAttribute(image.title)}"` : '';
+    const size =
+      image.width !== undefined && image.height !== undefined
+        ? ` width=${this.dimension(image.width)} height=${this.dimension(image.height)}`
+        : '';
+    return `<${name} src="${this.escapeAttribute(image.src)}" alt="${this.escapeAttribute(image.alt)}"${title}${size}${close}`;
+  }
+
+  private dimension(value: number): string {
+    return this.jsx ? `{${value}}` : `"${value}"`;
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -1,5 +1,11 @@
 import type { HashnodePost, PostMetadata } from '../types/hashnode-schema.js';
 
+/**
+ * ISO 8601 format (basic check)
+ * Format: YYYY-MM-DDTHH:mm:ss.sssZ or YYYY-MM-DDTHH:mm:ssZ
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
 /**
  * PostParser extracts and validates metadata from Hashnode posts
  *
@@ -33,6 +39,8 @@ export class PostParser {
       contentMarkdown: this.extractContentMarkdown(post),
       coverImage: this.extractCoverImage(post),
       tags: this.extractTags(post),
+      updatedAt: this.extractUpdatedAt(post),
+      isActive: this.extractIsActive(post),
     };
 
     return metadata;
@@ -92,10 +100,7 @@ export class PostParser {
       throw new Error('Invalid field: dateAdded cannot be empty');
     }
 
-    // Validate ISO 8601 format (basic check)
-    // Format: YYYY-MM-DDTHH:mm:ss.sssZ or YYYY-MM-DDTHH:mm:ssZ
-    const isoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
-    if (!isoDatePattern.test(dateAdded)) {
+    if (!ISO_DATE_PATTERN.test(dateAdded)) {
       throw new Error('Invalid field: dateAdded must be a valid ISO 8601 date string');
     }
 
@@ -156,4 +161,25 @@ export class PostParser {
     // Return undefined if no valid tags remain
     return validTags.length > 0 ? validTags : undefined;
   }
+
+  /**
+   * Extract optional updatedAt field
+   *
+   * Unlike dateAdded, an invalid or missing updatedAt is not an error:
+   * it is only used for "last modified" metadata and is dropped if unusable.
+   */
+  private extractUpdatedAt(post: HashnodePost): string | undefined {
+    if (typeof post.updatedAt !== 'string') {
+      return undefined;
+    }
+    const updatedAt = post.updatedAt.trim();
+    return ISO_DATE_PATTERN.test(updatedAt) ? updatedAt : undefined;
+  }
+
+  /**
+   * Extract optional isActive (published) flag
+   */
+  private extractIsActive(post: HashnodePost): boolean | undefined {
+    return typeof post.isActive === 'boolean' ? post.isActive : undefined;
+  }
 }
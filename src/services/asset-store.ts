@@ -0,0 +1,210 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Configuration options for the shared asset store
+ */
+export interface AssetStoreConfig {
+  /**
+   * Store directory, relative to the conversion output directory.
+   * @default 'assets' (the Converter uses the output target's `sharedAssetDir` when it has one)
+   */
+  dir?: string;
+}
+
+/**
+ * A stored asset recorded in the manifest
+ */
+export interface AssetManifestEntry {
+  /** SHA-256 of the file contents (hex) */
+  sha256: string;
+
+  /** File size in bytes */
+  size: number;
+
+  /** Image URLs whose downloads produced these bytes */
+  sources: string[];
+
+  /** Slugs of the posts that reference the asset */
+  posts: string[];
+}
+
+/**
+ * Contents of the store's `manifest.json`
+ */
+export interface AssetManifest {
+  /** Manifest format version */
+  version: 1;
+
+  /** Stored assets keyed by path relative to the output directory (e.g., `assets/3f2a9c0d1b7e4a65/diagram.png`) */
+  assets: Record<string, AssetManifestEntry>;
+}
+
+/**
+ * Hex digits of the content hash used for the asset directory
+ */
+const HASH_PREFIX_LENGTH = 16;
+
+/**
+ * AssetStore keeps downloaded images in a single content-addressed
+ * directory shared by all posts of an output directory, so an image reused
+ * across posts is stored once.
+ *
+ * Layout:
+ * - Assets live at `<dir>/<sha256-prefix>/<name>` (e.g., `assets/3f2a9c0d1b7e4a65/diagram.png`)
+ * - Identical bytes are stored once, whatever their URL or name
+ * - `<dir>/manifest.json` records each asset's hash, size, source URLs and
+ *   the posts that reference it
+ *
+ * The manifest is loaded when the store is created and written by
+ * {@link AssetStore.save}. Asset paths are relative to the output directory
+ * and always use `/` separators.
+ *
+ * @example
+ * ```typescript
+ * const store = new AssetStore('./blog');
+ * const assetPath = store.add('./blog/my-post/diagram.png', 'diagram.png', url, 'my-post');
+ * // 'assets/3f2a9c0d1b7e4a65/diagram.png'
+ * store.save();
+ * ```
+ */
+export class AssetStore {
+  private readonly rootDir: string;
+  private readonly dir: string;
+  private readonly manifest: AssetManifest;
+
+  /**
+   * @param rootDir - Conversion output directory
+   * @param config - Store options
+   * @throws {Error} If the store directory is invalid or the manifest can't be read
+   */
+  constructor(rootDir: string, config?: AssetStoreConfig) {
+    this.rootDir = rootDir;
+    this.dir = AssetStore.normalizeDir(config?.dir ?? 'assets');
+    this.manifest = this.loadManifest();
+  }
+
+  /**
+   * Normalize a store directory to a `/`-separated path inside the output
+   * directory.
+   *
+   * @param dir - Store directory relative to the output directory
+   * @returns Normalized directory (e.g., `static/assets`)
+   * @throws {Error} If the directory is empty, absolute or outside the output directory
+   */
+  static normalizeDir(dir: string): string {
+    const normalized = path.posix.normalize(dir.split(path.sep).join('/')).replace(/\/+$/, '');
+    if (!dir.trim() || path.isAbsolute(dir) || normalized === '.' || normalized.split('/')[0] === '..') {
+      throw new Error(`Invalid shared asset directory: "${dir}" (must be a subdirectory of the output directory)`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Absolute path of the store's manifest file
+   */
+  get manifestPath(): string {
+    return path.join(this.rootDir, this.dir, 'manifest.json');
+  }
+
+  /**
+   * Find the stored asset previously downloaded from a URL.
+   *
+   * @param url - Image URL
+   * @returns Asset path, or undefined if the URL was never stored or its file is gone
+   */
+  find(url: string): string | undefined {
+    return Object.keys(this.manifest.assets).find(
+      (assetPath) =>
+        this.manifest.assets[assetPath].sources.includes(url) &&
+        fs.existsSync(path.join(this.rootDir, assetPath))
+    );
+  }
+
+  /**
+   * Move a downloaded file into the store, or delete it when the store
+   * already holds the same bytes.
+   *
+   * @param filePath - Downloaded file (removed by this call)
+   * @param name - Filename to store the asset under (e.g., `diagram.png`)
+   * @param url - URL the file was downloaded from
+   * @param postSlug - Post that references the asset
+   * @returns Asset path relative to the output directory
+   */
+  add(filePath: string, name: string, url: string, postSlug: string): string {
+    const contents = fs.readFileSync(filePath);
+    const sha256 = createHash('sha256').update(contents).digest('hex');
+
+    let assetPath = Object.keys(this.manifest.assets).find(
+      (existing) =>
+        this.manifest.assets[existing].sha256 === sha256 && fs.existsSync(path.join(this.rootDir, existing))
+    );
+
+    if (assetPath) {
+      fs.unlinkSync(filePath);
+    } else {
+      assetPath = `${this.dir}/${sha256.slice(0, HASH_PREFIX_LENGTH)}/${name}`;
+      // Different bytes that share a hash prefix and name fall back to the full hash
+      if (this.manifest.assets[assetPath] && this.manifest.assets[assetPath].sha256 !== sha256) {
+        assetPath = `${this.dir}/${sha256}/${name}`;
+      }
+
+      const target = path.join(this.rootDir, assetPath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.renameSync(filePath, target);
+      this.manifest.assets[assetPath] = { sha256, size: contents.length, sources: [], posts: [] };
+    }
+
+    const entry = this.manifest.assets[assetPath];
+    if (!entry.sources.includes(url)) {
+      entry.sources.push(url);
+    }
+    this.reference(assetPath, postSlug);
+    return assetPath;
+  }
+
+  /**
+   * Record that a post references a stored asset.
+   *
+   * @param assetPath - Asset path returned by {@link AssetStore.add} or {@link AssetStore.find}
+   * @param postSlug - Post that references the asset
+   */
+  reference(assetPath: string, postSlug: string): void {
+    const entry = this.manifest.assets[assetPath];
+    if (entry && !entry.posts.includes(postSlug)) {
+      entry.posts.push(postSlug);
+      entry.posts.sort();
+    }
+  }
+
+  /**
+   * Snapshot of the manifest.
+   */
+  getManifest(): AssetManifest {
+    return structuredClone(this.manifest);
+  }
+
+  /**
+   * Write the manifest to `<dir>/manifest.json` (via a temp file and rename).
+   */
+  save(): void {
+    const manifestPath = this.manifestPath;
+    const tempPath = `${manifestPath}.tmp`;
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(this.manifest, null, 2) + '\n', 'utf8');
+    fs.renameSync(tempPath, manifestPath);
+  }
+
+  private loadManifest(): AssetManifest {
+    if (!fs.existsSync(this.manifestPath)) {
+      return { version: 1, assets: {} };
+    }
+
+    const manifest = JSON.parse(fs.readFileSync(this.manifestPath, 'utf8')) as AssetManifest;
+    if (manifest.version !== 1 || typeof manifest.assets !== 'object' || manifest.assets === null) {
+      throw new Error(`Unsupported asset manifest: ${this.manifestPath}`);
+    }
+    return manifest;
+  }
+}
@@ -0,0 +1,312 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Outcome of the last download attempt for an image URL:
+ * - `ok`: downloaded (skipped on re-runs while the local file exists)
+ * - `403`: HTTP 403 Forbidden, a permanent failure (never retried)
+ * - `transient`: any other failure (retried on the next run)
+ */
+export type DownloadStatus = 'ok' | '403' | 'transient';
+
+/**
+ * Download state recorded for an image URL
+ */
+export interface DownloadRecord {
+  /** Outcome of the last attempt */
+  status: DownloadStatus;
+
+  /** Number of download attempts across runs */
+  attempts: number;
+
+  /** Error message of the last failed attempt */
+  lastError?: string;
+
+  /** Size of the downloaded file in bytes */
+  size?: number;
+
+  /** SHA-256 of the downloaded file (hex) */
+  sha256?: string;
+
+  /** Local filename, when the served format changed the extension derived from the URL */
+  filename?: string;
+
+  /** Filenames of the modern-format copies written by image optimization (e.g., `uuid.png.webp`) */
+  variants?: string[];
+
+  /** Pixel width of the image, as displayed */
+  width?: number;
+
+  /** Pixel height of the image, as displayed */
+  height?: number;
+
+  /** Time of the last attempt (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * Details recorded with a successful download
+ */
+export type DownloadSuccessDetails = Pick<DownloadRecord, 'filename' | 'variants' | 'width' | 'height'>;
+
+/**
+ * Contents of the download manifest file
+ */
+export interface DownloadManifestData {
+  /** Manifest format version */
+  version: 1;
+
+  /** Download records keyed by image URL */
+  downloads: Record<string, DownloadRecord>;
+}
+
+/**
+ * Name of the manifest file in the output directory
+ */
+export const DOWNLOAD_MANIFEST_FILENAME = '.image-downloads.json';
+
+/**
+ * Per-post marker directory used by earlier versions
+ */
+export const LEGACY_MARKERS_DIR = '.downloaded-markers';
+
+/**
+ * DownloadManifest records the download state of every image URL of an
+ * output directory in a single JSON file (`.image-downloads.json`), replacing
+ * the `.downloaded-markers/` directories earlier versions wrote into each
+ * post directory.
+ *
+ * Each URL records its status (`ok`, `403` or `transient`), the number of
+ * attempts, the last error and, for successful downloads, the file's size,
+ * SHA-256 and pixel dimensions. The file is read on first use and written by
+ * {@link DownloadManifest.save}.
+ *
+ * @example
+ * ```typescript
+ * const manifest = new DownloadManifest('./blog');
+ * manifest.recordSuccess(url, './blog/my-post/uuid.png');
+ * manifest.get(url)?.status; // 'ok'
+ * manifest.save();
+ * ```
+ */
+export class DownloadManifest {
+  private readonly rootDir: string;
+  private data?: DownloadManifestData;
+
+  /**
+   * @param rootDir - Conversion output directory holding the manifest file
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Absolute path of the manifest file
+   */
+  get manifestPath(): string {
+    return path.join(this.rootDir, DOWNLOAD_MANIFEST_FILENAME);
+  }
+
+  /**
+   * Download state of an image URL.
+   *
+   * @param url - Image URL
+   * @returns Copy of the record, or undefined if the URL was never attempted
+   * @throws {Error} If the manifest file can't be read
+   */
+  get(url: string): DownloadRecord | undefined {
+    const record = this.load().downloads[url];
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * Record a successful download, with the size and checksum of the file.
+   *
+   * @param url - Image URL
+   * @param filePath - Downloaded file
+   * @param details - Local filename to remember (when it differs from the one
+   *   derived from the URL), the modern-format copies of the image and its
+   *   pixel dimensions
+   */
+  recordSuccess(url: string, filePath: string, details?: DownloadSuccessDetails): void {
+    const contents = fs.readFileSync(filePath);
+    this.record(url, {
+      status: 'ok',
+      size: contents.length,
+      sha256: createHash('sha256').update(contents).digest('hex'),
+      filename: details?.filename,
+      variants: details?.variants,
+      width: details?.width,
+      height: details?.height,
+    });
+  }
+
+  /**
+   * Record a failed download.
+   *
+   * @param url - Image URL
+   * @param error - Error message
+   * @param is403 - True for HTTP 403 (permanent) failures
+   */
+  recordFailure(url: string, error: string, is403: boolean): void {
+    this.record(url, { status: is403 ? '403' : 'transient', lastError: error });
+  }
+
+  /**
+   * Import a post's legacy `.downloaded-markers/` directory, then remove it.
+   *
+   * Markers are named after local filenames, so the post's URLs and their
+   * filenames are needed to map them to URLs. Empty `.marker` files become
+   * `ok`, `.marker` files with an error message become `transient` and
+   * `.marker.403` files become `403`. URLs already in the manifest keep
+   * their record, and markers that match none of the URLs are dropped.
+   *
+   * @param blogDir - Post directory containing the marker directory
+   * @param filenames - Local filename of each of the post's image URLs
+   * @returns Number of URLs imported (0 if there was no marker directory)
+   * @throws {Error} If the manifest file can't be read
+   */
+  importMarkers(blogDir: string, filenames: Map<string, string>): number {
+    const markersDir = path.join(blogDir, LEGACY_MARKERS_DIR);
+    if (!fs.existsSync(markersDir)) {
+      return 0;
+    }
+
+    const records = this.readMarkers(blogDir, filenames);
+    Object.assign(this.load().downloads, Object.fromEntries(records));
+    fs.rmSync(markersDir, { recursive: true, force: true });
+    return records.size;
+  }
+
+  /**
+   * Read a post's legacy `.downloaded-markers/` directory the way
+   * {@link importMarkers} would, without changing the manifest or removing
+   * the directory.
+   *
+   * @param blogDir - Post directory containing the marker directory
+   * @param filenames - Local filename of each of the post's image URLs
+   * @returns Record each marker would import, by URL (empty if there is no marker directory)
+   * @throws {Error} If the manifest file can't be read
+   */
+  readMarkers(blogDir: string, filenames: Map<string, string>): Map<string, DownloadRecord> {
+    const records = new Map<string, DownloadRecord>();
+    if (!fs.existsSync(path.join(blogDir, LEGACY_MARKERS_DIR))) {
+      return records;
+    }
+
+    const downloads = this.load().downloads;
+    for (const [url, filename] of filenames) {
+      const record = downloads[url] ? undefined : DownloadManifest.readMarker(blogDir, filename);
+      if (record) {
+        records.set(url, record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Write the manifest (via a temp file and rename). Does nothing if the
+   * manifest was never used.
+   */
+  save(): void {
+    if (!this.data) {
+      return;
+    }
+
+    const manifestPath = this.manifestPath;
+    const tempPath = `${manifestPath}.tmp`;
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2) + '\n', 'utf8');
+    fs.renameSync(tempPath, manifestPath);
+  }
+
+  /**
+   * Convert a legacy marker (and its image, for successful downloads) into
+   * a download record.
+   */
+  private static readMarker(blogDir: string, filename: string): DownloadRecord | undefined {
+    const markerPath = path.join(blogDir, LEGACY_MARKERS_DIR, `${filename}.marker`);
+    const marker403Path = `${markerPath}.403`;
+
+    if (fs.existsSync(marker403Path)) {
+      return {
+        status: '403',
+        attempts: 1,
+        lastError: fs.readFileSync(marker403Path, 'utf8'),
+        updatedAt: fs.statSync(marker403Path).mtime.toISOString(),
+      };
+    }
+    if (!fs.existsSync(markerPath)) {
+      return undefined;
+    }
+
+    const error = fs.readFileSync(markerPath, 'utf8');
+    const updatedAt = fs.statSync(markerPath).mtime.toISOString();
+    if (error) {
+      return { status: 'transient', attempts: 1, lastError: error, updatedAt };
+    }
+
+    const record: DownloadRecord = { status: 'ok', attempts: 1, updatedAt };
+    const imagePath = path.join(blogDir, filename);
+    if (fs.existsSync(imagePath)) {
+      const contents = fs.readFileSync(imagePath);
+      record.size = contents.length;
+      record.sha256 = createHash('sha256').update(contents).digest('hex');
+    }
+    return record;
+  }
+
+  private record(
+    url: string,
+    update: Pick<
+      DownloadRecord,
+      'status' | 'lastError' | 'size' | 'sha256' | 'filename' | 'variants' | 'width' | 'height'
+    >
+  ): void {
+    const downloads = this.load().downloads;
+    const record: DownloadRecord = {
+      status: update.status,
+      attempts: (downloads[url]?.attempts ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    if (update.lastError !== undefined) {
+      record.lastError = update.lastError;
+    }
+    if (update.size !== undefined) {
+      record.size = update.size;
+    }
+    if (update.sha256 !== undefined) {
+      record.sha256 = update.sha256;
+    }
+    if (update.filename !== undefined) {
+      record.filename = update.filename;
+    }
+    if (update.variants !== undefined && update.variants.length > 0) {
+      record.variants = update.variants;
+    }
+    if (update.width !== undefined && update.height !== undefined) {
+      record.width = update.width;
+      record.height = update.height;
+    }
+    downloads[url] = record;
+  }
+
+  private load(): DownloadManifestData {
+    if (this.data) {
+      return this.data;
+    }
+
+    if (!fs.existsSync(this.manifestPath)) {
+      this.data = { version: 1, downloads: {} };
+      return this.data;
+    }
+
+    const data = JSON.parse(fs.readFileSync(this.manifestPath, 'utf8')) as DownloadManifestData;
+    if (data.version !== 1 || typeof data.downloads !== 'object' || data.downloads === null) {
+      throw new Error(`Unsupported download manifest: ${this.manifestPath}`);
+    }
+    this.data = data;
+    return data;
+  }
+}
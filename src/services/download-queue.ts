@@ -0,0 +1,230 @@
+/**
+ * Token bucket rate limit configuration
+ */
+export interface RateLimitConfig {
+  /** Number of tokens added to the bucket per second (sustained request rate) */
+  requestsPerSecond: number;
+  /** Maximum number of tokens the bucket can hold (burst size) */
+  burst?: number;
+}
+
+/**
+ * Configuration options for the download queue
+ */
+export interface DownloadQueueConfig {
+  /** Maximum number of downloads in flight across all hosts */
+  maxConcurrent?: number;
+  /** Maximum number of downloads in flight for a single host */
+  maxPerHost?: number;
+  /** Token bucket rate limit (omit to disable rate limiting) */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * A task waiting for a free connection slot
+ */
+interface QueuedTask {
+  host: string;
+  start: () => void;
+}
+
+/**
+ * Token bucket used to smooth out request bursts.
+ * Tokens refill continuously at `requestsPerSecond` up to `burst`.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly capacity: number;
+  private readonly ratePerMs: number;
+
+  constructor(config: RateLimitConfig) {
+    if (!(config.requestsPerSecond > 0)) {
+      throw new Error(
+        `Invalid rate limit: requestsPerSecond must be greater than 0 (got ${config.requestsPerSecond})`
+      );
+    }
+    this.capacity = Math.max(1, config.burst ?? 1);
+    this.ratePerMs = config.requestsPerSecond / 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Take a token if one is available.
+   * @returns True if a token was consumed
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Milliseconds until the next token becomes available
+   */
+  msUntilNextToken(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.ratePerMs);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerMs);
+      this.lastRefill = now;
+    }
+  }
+}
+
+/**
+ * Bounded-parallel queue for image downloads.
+ *
+ * Limits the number of downloads in flight globally and per host, and
+ * optionally paces request starts with a token bucket. Tasks start in
+ * FIFO order as soon as a slot (and a token) is available; a task whose
+ * host is saturated does not block tasks for other hosts.
+ *
+ * A single queue is meant to be shared by every post in a conversion run,
+ * so the limits apply to the whole run rather than to each post.
+ *
+ * @example
+ * ```typescript
+ * const queue = new DownloadQueue({
+ *   maxConcurrent: 6,
+ *   maxPerHost: 2,
+ *   rateLimit: { requestsPerSecond: 5, burst: 6 },
+ * });
+ *
+ * const result = await queue.run(url, () => downloader.download(url, filepath));
+ * ```
+ */
+export class DownloadQueue {
+  private readonly maxConcurrent: number;
+  private readonly maxPerHost: number;
+  private readonly bucket: TokenBucket | null;
+  private readonly pending: QueuedTask[] = [];
+  private readonly activeByHost = new Map<string, number>();
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config?: DownloadQueueConfig) {
+    this.maxConcurrent = DownloadQueue.positiveInteger('maxConcurrent', config?.maxConcurrent ?? 4);
+    this.maxPerHost = DownloadQueue.positiveInteger('maxPerHost', config?.maxPerHost ?? 2);
+    this.bucket = config?.rateLimit ? new TokenBucket(config.rateLimit) : null;
+  }
+
+  /**
+   * Schedule a download task.
+   *
+   * @param url - URL being downloaded (used for per-host limits)
+   * @param task - Function that performs the download
+   * @returns Promise resolving or rejecting with the task's result
+   */
+  run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = DownloadQueue.hostOf(url);
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        host,
+        start: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => this.release(host));
+        },
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Number of downloads currently in flight
+   */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of downloads waiting for a slot
+   */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Start as many pending tasks as the limits allow.
+   */
+  private drain(): void {
+    while (this.active < this.maxConcurrent) {
+      const index = this.pending.findIndex(
+        (queued) => (this.activeByHost.get(queued.host) ?? 0) < this.maxPerHost
+      );
+      if (index === -1) {
+        return;
+      }
+
+      if (this.bucket && !this.bucket.tryTake()) {
+        this.scheduleDrain(this.bucket.msUntilNextToken());
+        return;
+      }
+
+      const [queued] = this.pending.splice(index, 1);
+      this.active++;
+      this.activeByHost.set(queued.host, (this.activeByHost.get(queued.host) ?? 0) + 1);
+      queued.start();
+    }
+  }
+
+  /**
+   * Retry draining once the token bucket has refilled.
+   */
+  private scheduleDrain(delayMs: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delayMs);
+  }
+
+  /**
+   * Free the slot held by a finished task and start the next ones.
+   */
+  private release(host: string): void {
+    this.active--;
+    const hostCount = (this.activeByHost.get(host) ?? 1) - 1;
+    if (hostCount > 0) {
+      this.activeByHost.set(host, hostCount);
+    } else {
+      this.activeByHost.delete(host);
+    }
+    this.drain();
+  }
+
+  /**
+   * Extract the host used for per-host limits.
+   * Unparseable URLs share a single bucket.
+   */
+  private static hostOf(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return '';
+    }
+  }
+
+  private static positiveInteger(name: string, value: number): number {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid ${name}: ${value} (must be a positive integer)`);
+    }
+    return value;
+  }
+}
@@ -1,5 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { DirectoryLayout } from '../targets/directory-layout.js';
+import type { PostLayout, PostLayoutContext } from '../types/post-layout.js';
 
 /**
  * Configuration options for FileWriter service
@@ -25,6 +27,37 @@ export interface FileWriterConfig {
   atomicWrites?: boolean;
 }
 
+/**
+ * Per-post options controlling where a post is written
+ */
+export interface PostWriteOptions {
+  /**
+   * Layout deciding the post's file path
+   * @default DirectoryLayout - `<outputDir>/<slug>/index.md`
+   */
+  layout?: PostLayout;
+
+  /**
+   * Post publish date, for layouts that use it in the file path
+   */
+  dateAdded?: string;
+}
+
+/**
+ * Where a post would be written, as resolved by {@link FileWriter.planPost}
+ */
+export interface PostWritePlan {
+  /**
+   * Absolute path of the post file
+   */
+  filePath: string;
+
+  /**
+   * Whether the file already exists (and would be overwritten)
+   */
+  exists: boolean;
+}
+
 /**
  * Custom error class for file writing operations
  * Provides additional context about the failure
@@ -52,6 +85,8 @@ export class FileWriteError extends Error {
  * Handles directory creation, file writing, path validation, and error handling
  */
 export class FileWriter {
+  private static readonly defaultLayout = new DirectoryLayout();
+
   private readonly overwrite: boolean;
   private readonly encoding: BufferEncoding;
   private readonly atomicWrites: boolean;
@@ -174,19 +209,53 @@ export class FileWriter {
     }
   }
 
+  /**
+   * Resolve a path relative to the output directory
+   * @param outputDir - Base output directory
+   * @param relativePath - Path returned by the post layout or output target
+   * @returns Resolved path inside the output directory
+   * @throws FileWriteError if the path escapes the output directory
+   */
+  private resolveLayoutPath(outputDir: string, relativePath: string): string {
+    const resolved = path.join(outputDir, relativePath);
+    const relative = path.relative(outputDir, resolved);
+
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new FileWriteError(
+        `Invalid output path: must be inside the output directory (${relativePath})`,
+        resolved,
+        'validate_path'
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Build the layout context for a post
+   * @param slug - Raw slug from post metadata
+   * @param options - Per-post write options
+   * @returns Context with a sanitized slug
+   * @throws FileWriteError if slug is invalid
+   */
+  private layoutContext(slug: string, options?: PostWriteOptions): PostLayoutContext {
+    return { slug: this.sanitizeSlug(slug), dateAdded: options?.dateAdded };
+  }
+
   /**
    * Check if a post already exists in the output directory
    * @param outputDir - Base output directory
    * @param slug - Post slug to check
-   * @returns True if post directory exists, false otherwise
+   * @param options - Layout used to locate the post (defaults to directory-per-slug)
+   * @returns True if the post's directory (or file, depending on layout) exists, false otherwise
    */
-  postExists(outputDir: string, slug: string): boolean {
+  postExists(outputDir: string, slug: string, options?: PostWriteOptions): boolean {
     try {
-      const sanitized = this.sanitizeSlug(slug);
-      const postDir = path.join(outputDir, sanitized);
-      return fs.existsSync(postDir);
+      const layout = options?.layout ?? FileWriter.defaultLayout;
+      const context = this.layoutContext(slug, options);
+      return fs.existsSync(this.resolveLayoutPath(outputDir, layout.existencePath(context)));
     } catch {
-      // If sanitization fails, the post doesn't exist (invalid slug)
+      // If sanitization or layout resolution fails, the post doesn't exist (invalid slug or date)
       return false;
     }
   }
@@ -194,22 +263,82 @@ export class FileWriter {
   /**
    * Write a blog post with frontmatter and content to the filesystem
    * @param outputDir - Base output directory (e.g., './blog')
-   * @param slug - Post slug (used as subdirectory name)
-   * @param frontmatter - YAML frontmatter string (includes --- markers)
+   * @param slug - Post slug (used as subdirectory name by the default layout)
+   * @param frontmatter - Frontmatter string (includes delimiters)
    * @param content - Markdown content body
+   * @param options - Layout deciding the file path (defaults to `<slug>/index.md`)
    * @returns Absolute path to the written file
    * @throws FileWriteError if write fails or file exists (when overwrite=false)
    */
-  async writePost(outputDir: string, slug: string, frontmatter: string, content: string): Promise<string> {
+  async writePost(
+    outputDir: string,
+    slug: string,
+    frontmatter: string,
+    content: string,
+    options?: PostWriteOptions
+  ): Promise<string> {
+    const { filePath } = this.planPost(outputDir, slug, options);
+    const postDir = path.dirname(filePath);
+
+    // Create post directory (recursive)
+    try {
+      await fs.promises.mkdir(postDir, { recursive: true });
+    } catch (error) {
+      throw new FileWriteError(
+        `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`,
+        postDir,
+        'create_dir',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    // Combine frontmatter + content
+    const markdown = frontmatter + '\n' + content;
+
+    // Write to file using selected strategy
+    if (this.atomicWrites) {
+      await this.writeFileAtomic(filePath, markdown);
+    } else {
+      await this.writeFileDirect(filePath, markdown);
+    }
+
+    // Return absolute path to written file
+    return filePath;
+  }
+
+  /**
+   * Resolve where writePost() would write a post, without touching the filesystem
+   * @param outputDir - Base output directory (e.g., './blog')
+   * @param slug - Post slug (used as subdirectory name by the default layout)
+   * @param options - Layout deciding the file path (defaults to `<slug>/index.md`)
+   * @returns Absolute path of the post file and whether it already exists
+   * @throws FileWriteError if the slug or path is invalid, or the file exists and overwrite is disabled
+   */
+  planPost(outputDir: string, slug: string, options?: PostWriteOptions): PostWritePlan {
+    const layout = options?.layout ?? FileWriter.defaultLayout;
+
     // Sanitize slug for filesystem safety
-    const sanitized = this.sanitizeSlug(slug);
+    const context = this.layoutContext(slug, options);
 
     // Construct paths
-    const postDir = path.join(outputDir, sanitized);
-    const filePath = path.join(postDir, 'index.md');
+    let filePath: string;
+    try {
+      filePath = this.resolveLayoutPath(outputDir, layout.postPath(context));
+    } catch (error) {
+      if (error instanceof FileWriteError) {
+        throw error;
+      }
+      throw new FileWriteError(
+        `Failed to resolve post path: ${error instanceof Error ? error.message : String(error)}`,
+        context.slug,
+        'validate_path',
+        error instanceof Error ? error : undefined
+      );
+    }
 
     // Check if file exists and handle overwrite behavior
-    if (!this.overwrite && fs.existsSync(filePath)) {
+    const exists = fs.existsSync(filePath);
+    if (!this.overwrite && exists) {
       throw new FileWriteError(
         `File already exists and overwrite is disabled: ${filePath}`,
         filePath,
@@ -217,29 +346,40 @@ export class FileWriter {
       );
     }
 
-    // Create post directory (recursive)
+    return { filePath: path.resolve(filePath), exists };
+  }
+
+  /**
+   * Write a generated site file (e.g., a content schema) into the output directory.
+   * Support files are always overwritten, regardless of the overwrite setting,
+   * so they stay in sync with the converted posts.
+   * @param outputDir - Base output directory
+   * @param relativePath - File path relative to the output directory
+   * @param content - Full file contents
+   * @returns Absolute path to the written file
+   * @throws FileWriteError if the path is invalid or the write fails
+   */
+  async writeSupportFile(outputDir: string, relativePath: string, content: string): Promise<string> {
+    const filePath = this.resolveLayoutPath(outputDir, relativePath);
+    const fileDir = path.dirname(filePath);
+
     try {
-      await fs.promises.mkdir(postDir, { recursive: true });
+      await fs.promises.mkdir(fileDir, { recursive: true });
     } catch (error) {
       throw new FileWriteError(
         `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`,
-        postDir,
+        fileDir,
         'create_dir',
         error instanceof Error ? error : undefined
       );
     }
 
-    // Combine frontmatter + content
-    const markdown = frontmatter + '\n' + content;
-
-    // Write to file using selected strategy
     if (this.atomicWrites) {
-      await this.writeFileAtomic(filePath, markdown);
+      await this.writeFileAtomic(filePath, content);
     } else {
-      await this.writeFileDirect(filePath, markdown);
+      await this.writeFileDirect(filePath, content);
     }
 
-    // Return absolute path to written file
     return path.resolve(filePath);
   }
 }
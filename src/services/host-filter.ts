@@ -0,0 +1,108 @@
+/**
+ * Configuration options for the host filter
+ */
+export interface HostFilterConfig {
+  /**
+   * Hosts whose URLs are accepted. Entries are exact hostnames
+   * (`i.imgur.com`), subdomain wildcards (`*.cloudinary.com`) or `*` for
+   * any host.
+   */
+  allow?: string[];
+  /** Hosts whose URLs are rejected, using the same patterns. Takes precedence over `allow`. */
+  deny?: string[];
+}
+
+/**
+ * Hosts accepted when no allow list is configured
+ */
+export const DEFAULT_ALLOWED_HOSTS: readonly string[] = ['cdn.hashnode.com'];
+
+/**
+ * Decides which hosts images may be downloaded from, using an allow list
+ * and a deny list of host patterns.
+ *
+ * Patterns:
+ * - `*` matches any host
+ * - `*.example.com` matches subdomains of example.com (not example.com itself)
+ * - Anything else must equal the URL's hostname
+ *
+ * Matching is case-insensitive and ignores ports. Only `http:` and `https:`
+ * URLs are ever accepted.
+ *
+ * @example
+ * ```typescript
+ * const filter = new HostFilter({ allow: ['*'], deny: ['*.tracking.example'] });
+ * filter.accepts('https://i.imgur.com/abc.png');           // true
+ * filter.accepts('https://pixel.tracking.example/a.gif');  // false
+ * ```
+ */
+export class HostFilter {
+  private readonly allow: string[];
+  private readonly deny: string[];
+
+  /**
+   * @param config - Allow and deny lists (defaults to {@link DEFAULT_ALLOWED_HOSTS})
+   * @throws {Error} If a pattern is not valid (see {@link HostFilter.isValidPattern})
+   */
+  constructor(config?: HostFilterConfig) {
+    this.allow = HostFilter.normalize(config?.allow ?? DEFAULT_ALLOWED_HOSTS, 'allow');
+    this.deny = HostFilter.normalize(config?.deny ?? [], 'deny');
+  }
+
+  /**
+   * Check whether a URL's host is allowed and not denied.
+   *
+   * @param url - Absolute image URL
+   * @returns True if images may be downloaded from the URL
+   */
+  accepts(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return false;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    return (
+      this.allow.some((pattern) => HostFilter.matches(pattern, host)) &&
+      !this.deny.some((pattern) => HostFilter.matches(pattern, host))
+    );
+  }
+
+  /**
+   * Check whether a host pattern is well-formed: `*`, `*.domain` or a
+   * hostname without wildcards.
+   *
+   * @param pattern - Host pattern from an allow or deny list
+   * @returns True if the pattern can be used in a {@link HostFilterConfig}
+   */
+  static isValidPattern(pattern: string): boolean {
+    const normalized = pattern.trim();
+    const hostname = normalized.startsWith('*.') ? normalized.slice(2) : normalized;
+    return normalized === '*' || (hostname !== '' && !hostname.includes('*'));
+  }
+
+  private static matches(pattern: string, host: string): boolean {
+    if (pattern === '*') {
+      return true;
+    }
+    if (pattern.startsWith('*.')) {
+      return host.endsWith(pattern.slice(1));
+    }
+    return host === pattern;
+  }
+
+  private static normalize(patterns: readonly string[], list: string): string[] {
+    return patterns.map((pattern) => {
+      if (!HostFilter.isValidPattern(pattern)) {
+        throw new Error(`Invalid ${list} host pattern: "${pattern}"`);
+      }
+      return pattern.trim().toLowerCase();
+    });
+  }
+}
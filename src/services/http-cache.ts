@@ -0,0 +1,354 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/**
+ * Configuration options for the HTTP cache
+ */
+export interface HttpCacheConfig {
+  /**
+   * Cache directory. Can be shared by any number of output directories.
+   * @default DEFAULT_CACHE_DIR (`~/.cache/hashnode-converter`)
+   */
+  dir?: string;
+
+  /**
+   * Maximum total size of the cached files in bytes. Least recently used
+   * entries are evicted when a new download would exceed it.
+   * @default DEFAULT_CACHE_MAX_SIZE (512 MiB)
+   */
+  maxSizeBytes?: number;
+
+  /**
+   * How long a cached response is served without asking the server, in
+   * milliseconds. Older entries are revalidated with their ETag or
+   * Last-Modified header.
+   * @default 86400000 (24 hours)
+   */
+  maxAgeMs?: number;
+}
+
+/**
+ * Response headers used to revalidate a cached response
+ */
+export interface HttpCacheValidators {
+  /** `ETag` response header */
+  etag?: string;
+
+  /** `Last-Modified` response header */
+  lastModified?: string;
+}
+
+/**
+ * A cached response recorded in the cache index
+ */
+export interface HttpCacheEntry extends HttpCacheValidators {
+  /** Name of the cached file in `<dir>/objects` */
+  key: string;
+
+  /** File size in bytes */
+  size: number;
+
+  /** Time the response was downloaded or last revalidated (ISO 8601) */
+  validatedAt: string;
+
+  /** Time the entry was last served or stored (ISO 8601) */
+  usedAt: string;
+}
+
+/**
+ * Contents of the cache's `index.json`
+ */
+export interface HttpCacheIndex {
+  /** Index format version */
+  version: 1;
+
+  /** Cached responses keyed by URL */
+  entries: Record<string, HttpCacheEntry>;
+}
+
+/**
+ * Outcome of {@link HttpCache.prune}
+ */
+export interface CachePruneResult {
+  /** Number of entries and orphaned files removed */
+  removed: number;
+
+  /** Bytes freed */
+  freedBytes: number;
+
+  /** Number of entries left */
+  entries: number;
+
+  /** Total size of the entries left in bytes */
+  sizeBytes: number;
+}
+
+/**
+ * Default cache directory
+ */
+export const DEFAULT_CACHE_DIR = path.join(os.homedir(), '.cache', 'hashnode-converter');
+
+/**
+ * Default maximum cache size (512 MiB)
+ */
+export const DEFAULT_CACHE_MAX_SIZE = 512 * 1024 * 1024;
+
+/**
+ * HttpCache keeps downloaded images in a directory shared across runs and
+ * output directories, so converting the same export into several targets
+ * downloads each image once.
+ *
+ * Layout:
+ * - `<dir>/objects/<sha256 of the URL>` holds each cached response body
+ * - `<dir>/index.json` records each URL's validators (`ETag`,
+ *   `Last-Modified`), size and last use
+ *
+ * Entries younger than `maxAgeMs` are served without a request; older ones
+ * are revalidated with a conditional request. The total size is kept under
+ * `maxSizeBytes` by evicting the least recently used entries.
+ *
+ * The index is read on first use and written by {@link HttpCache.save}.
+ *
+ * @example
+ * ```typescript
+ * const cache = new HttpCache({ dir: '/tmp/hashnode-cache', maxSizeBytes: 100 * 1024 * 1024 });
+ * const downloader = new ImageDownloader({ cache });
+ * await downloader.download(url, './blog/my-post/uuid.png');
+ * cache.save();
+ * ```
+ */
+export class HttpCache {
+  private readonly dir: string;
+  private readonly maxSizeBytes: number;
+  private readonly maxAgeMs: number;
+  private index?: HttpCacheIndex;
+
+  /**
+   * @param config - Cache options
+   * @throws {Error} If `maxSizeBytes` or `maxAgeMs` is negative
+   */
+  constructor(config?: HttpCacheConfig) {
+    this.dir = config?.dir ?? DEFAULT_CACHE_DIR;
+    this.maxSizeBytes = config?.maxSizeBytes ?? DEFAULT_CACHE_MAX_SIZE;
+    this.maxAgeMs = config?.maxAgeMs ?? 24 * 60 * 60 * 1000;
+
+    if (this.maxSizeBytes < 0 || this.maxAgeMs < 0) {
+      throw new Error('Cache maxSizeBytes and maxAgeMs must not be negative');
+    }
+  }
+
+  /**
+   * Absolute path of the cache index file
+   */
+  get indexPath(): string {
+    return path.join(this.dir, 'index.json');
+  }
+
+  /**
+   * Find the cached response for a URL.
+   *
+   * @param url - Image URL
+   * @returns Copy of the entry, or undefined if the URL is not cached or its file is gone
+   * @throws {Error} If the cache index can't be read
+   */
+  lookup(url: string): HttpCacheEntry | undefined {
+    const entry = this.load().entries[url];
+    return entry && fs.existsSync(this.objectPath(entry.key)) ? { ...entry } : undefined;
+  }
+
+  /**
+   * Check whether an entry can be served without revalidating it.
+   *
+   * @param entry - Entry returned by {@link HttpCache.lookup}
+   */
+  isFresh(entry: HttpCacheEntry): boolean {
+    return Date.now() - Date.parse(entry.validatedAt) < this.maxAgeMs;
+  }
+
+  /**
+   * Conditional request headers for revalidating a cached URL.
+   *
+   * @param url - Image URL
+   * @returns `If-None-Match` / `If-Modified-Since` headers (empty if the URL
+   *   is not cached or has no validators)
+   */
+  conditionalHeaders(url: string): Record<string, string> {
+    const entry = this.lookup(url);
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Copy a cached response to a file.
+   *
+   * @param url - Image URL
+   * @param filepath - Destination file
+   * @param revalidated - True when the server just confirmed the entry (HTTP 304)
+   * @returns True if the URL was cached and copied
+   */
+  copyTo(url: string, filepath: string, revalidated = false): boolean {
+    const entry = this.load().entries[url];
+    if (!entry || !fs.existsSync(this.objectPath(entry.key))) {
+      return false;
+    }
+
+    fs.copyFileSync(this.objectPath(entry.key), filepath);
+    const now = new Date().toISOString();
+    entry.usedAt = now;
+    if (revalidated) {
+      entry.validatedAt = now;
+    }
+    return true;
+  }
+
+  /**
+   * Cache a downloaded file, evicting least recently used entries if the
+   * cache would exceed its size limit. Files larger than the limit are not
+   * cached.
+   *
+   * @param url - URL the file was downloaded from
+   * @param filepath - Downloaded file (left in place)
+   * @param validators - Validators from the response headers
+   */
+  store(url: string, filepath: string, validators: HttpCacheValidators): void {
+    const size = fs.statSync(filepath).size;
+    if (size > this.maxSizeBytes) {
+      return;
+    }
+
+    const key = createHash('sha256').update(url).digest('hex');
+    fs.mkdirSync(path.join(this.dir, 'objects'), { recursive: true });
+    fs.copyFileSync(filepath, this.objectPath(key));
+
+    const now = new Date().toISOString();
+    const entry: HttpCacheEntry = { key, size, validatedAt: now, usedAt: now };
+    if (validators.etag) {
+      entry.etag = validators.etag;
+    }
+    if (validators.lastModified) {
+      entry.lastModified = validators.lastModified;
+    }
+    this.load().entries[url] = entry;
+
+    this.evict(this.maxSizeBytes, url);
+  }
+
+  /**
+   * Evict least recently used entries until the cache fits in `maxSizeBytes`,
+   * drop entries whose file is gone and delete files no entry refers to
+   * (e.g., left by an interrupted run). Saves the index.
+   *
+   * @param maxSizeBytes - Size to shrink the cache to (defaults to the configured limit; 0 empties it)
+   * @returns What was removed and what is left
+   */
+  prune(maxSizeBytes = this.maxSizeBytes): CachePruneResult {
+    const entries = this.load().entries;
+    let removed = 0;
+    let freedBytes = 0;
+
+    for (const [url, entry] of Object.entries(entries)) {
+      if (!fs.existsSync(this.objectPath(entry.key))) {
+        delete entries[url];
+        removed++;
+      }
+    }
+
+    const objectsDir = path.join(this.dir, 'objects');
+    if (fs.existsSync(objectsDir)) {
+      const keys = new Set(Object.values(entries).map((entry) => entry.key));
+      for (const name of fs.readdirSync(objectsDir)) {
+        if (!keys.has(name)) {
+          const file = path.join(objectsDir, name);
+          freedBytes += fs.statSync(file).size;
+          fs.rmSync(file, { force: true });
+          removed++;
+        }
+      }
+    }
+
+    const evicted = this.evict(maxSizeBytes);
+    this.save();
+
+    return {
+      removed: removed + evicted.count,
+      freedBytes: freedBytes + evicted.bytes,
+      entries: Object.keys(entries).length,
+      sizeBytes: this.sizeBytes(),
+    };
+  }
+
+  /**
+   * Write the index (via a temp file and rename). Does nothing if the cache
+   * was never used.
+   */
+  save(): void {
+    if (!this.index) {
+      return;
+    }
+
+    const tempPath = `${this.indexPath}.tmp`;
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(this.index, null, 2) + '\n', 'utf8');
+    fs.renameSync(tempPath, this.indexPath);
+  }
+
+  /**
+   * Remove least recently used entries (except `keepUrl`) until the total
+   * size is at most `maxSizeBytes`.
+   */
+  private evict(maxSizeBytes: number, keepUrl?: string): { count: number; bytes: number } {
+    const entries = this.load().entries;
+    const candidates = Object.entries(entries)
+      .filter(([url]) => url !== keepUrl)
+      .sort(([, a], [, b]) => Date.parse(a.usedAt) - Date.parse(b.usedAt));
+
+    let size = this.sizeBytes();
+    let count = 0;
+    let bytes = 0;
+    for (const [url, entry] of candidates) {
+      if (size <= maxSizeBytes) {
+        break;
+      }
+      fs.rmSync(this.objectPath(entry.key), { force: true });
+      delete entries[url];
+      size -= entry.size;
+      bytes += entry.size;
+      count++;
+    }
+    return { count, bytes };
+  }
+
+  private sizeBytes(): number {
+    return Object.values(this.load().entries).reduce((total, entry) => total + entry.size, 0);
+  }
+
+  private objectPath(key: string): string {
+    return path.join(this.dir, 'objects', key);
+  }
+
+  private load(): HttpCacheIndex {
+    if (this.index) {
+      return this.index;
+    }
+
+    if (!fs.existsSync(this.indexPath)) {
+      this.index = { version: 1, entries: {} };
+      return this.index;
+    }
+
+    const index = JSON.parse(fs.readFileSync(this.indexPath, 'utf8')) as HttpCacheIndex;
+    if (index.version !== 1 || typeof index.entries !== 'object' || index.entries === null) {
+      throw new Error(`Unsupported cache index: ${this.indexPath}`);
+    }
+    this.index = index;
+    return index;
+  }
+}
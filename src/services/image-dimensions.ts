@@ -0,0 +1,441 @@
+import * as fs from 'node:fs';
+
+/**
+ * Pixel dimensions of an image, as displayed
+ */
+export interface ImageDimensions {
+  /** Width in pixels */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+}
+
+/**
+ * Reads `length` bytes at `offset`; returns fewer bytes at the end of the data
+ */
+type ByteSource = (offset: number, length: number) => Buffer;
+
+/**
+ * Leading bytes read to recognize the format (and to find the root element of SVG files)
+ */
+const HEADER_BYTES = 4096;
+
+/**
+ * Maximum number of JPEG segments or ISO-BMFF boxes walked before giving up
+ * on a malformed file
+ */
+const MAX_STRUCTURES = 1024;
+
+/**
+ * JPEG start-of-frame markers (SOF0-SOF15, except DHT, JPG and DAC)
+ */
+const JPEG_SOF_MARKERS: ReadonlySet<number> = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+/**
+ * ImageDimensionReader reads the pixel dimensions of an image from its
+ * header, without decoding it or depending on native modules.
+ *
+ * Supported formats: PNG, JPEG, GIF, WebP (lossy, lossless and extended),
+ * AVIF, BMP, ICO (largest icon), TIFF and SVG (`width`/`height` in pixels,
+ * or the `viewBox`).
+ *
+ * Dimensions are reported as displayed: JPEG images whose EXIF orientation
+ * rotates them by 90 degrees, and AVIF images with a 90 degree `irot`
+ * rotation, have their width and height swapped.
+ *
+ * @example
+ * ```typescript
+ * const reader = new ImageDimensionReader();
+ * reader.read('./blog/my-post/uuid.png'); // { width: 1600, height: 900 }
+ * ```
+ */
+export class ImageDimensionReader {
+  /**
+   * Read the dimensions of an image file.
+   *
+   * @param filepath - Image file
+   * @returns Dimensions, or undefined if the format is not recognized or the
+   *   header is malformed
+   * @throws {Error} If the file can't be read
+   */
+  read(filepath: string): ImageDimensions | undefined {
+    const fd = fs.openSync(filepath, 'r');
+    try {
+      return this.measure((offset, length) => {
+        const buffer = Buffer.alloc(length);
+        const bytesRead = fs.readSync(fd, buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+      });
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Read the dimensions of an image held in memory.
+   *
+   * @param data - Image file contents (the header is enough for most formats)
+   * @returns Dimensions, or undefined if the format is not recognized or the
+   *   header is malformed
+   */
+  parse(data: Buffer): ImageDimensions | undefined {
+    return this.measure((offset, length) => data.subarray(offset, offset + length));
+  }
+
+  private measure(source: ByteSource): ImageDimensions | undefined {
+    const head = source(0, HEADER_BYTES);
+    const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+
+    let dimensions: ImageDimensions | undefined;
+    if (ascii(1, 4) === 'PNG' && head[0] === 0x89) {
+      dimensions = this.png(head);
+    } else if (head[0] === 0xff && head[1] === 0xd8) {
+      dimensions = this.jpeg(source);
+    } else if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+      dimensions = this.gif(head);
+    } else if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+      dimensions = this.webp(head);
+    } else if (ascii(4, 8) === 'ftyp') {
+      dimensions = this.isoBmff(source);
+    } else if (ascii(0, 2) === 'BM') {
+      dimensions = this.bmp(head);
+    } else if (head.length >= 6 && head.readUInt32BE(0) === 0x00000100) {
+      dimensions = this.ico(head);
+    } else if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+      dimensions = this.tiff(source);
+    } else {
+      dimensions = this.svg(head.toString('utf8'));
+    }
+
+    if (!dimensions || !(dimensions.width > 0) || !(dimensions.height > 0)) {
+      return undefined;
+    }
+    return dimensions;
+  }
+
+  /**
+   * Read the size from the `IHDR` chunk, which must come first in a PNG file.
+   */
+  private png(head: Buffer): ImageDimensions | undefined {
+    if (head.length < 24 || head.toString('latin1', 12, 16) !== 'IHDR') {
+      return undefined;
+    }
+    return { width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+  }
+
+  /**
+   * Read the logical screen size of a GIF file.
+   */
+  private gif(head: Buffer): ImageDimensions | undefined {
+    if (head.length < 10) {
+      return undefined;
+    }
+    return { width: head.readUInt16LE(6), height: head.readUInt16LE(8) };
+  }
+
+  /**
+   * Walk the JPEG segments up to the first start-of-frame, noting the EXIF
+   * orientation on the way.
+   */
+  private jpeg(source: ByteSource): ImageDimensions | undefined {
+    let offset = 2;
+    let orientation = 1;
+
+    for (let count = 0; count < MAX_STRUCTURES; count++) {
+      const header = source(offset, 4);
+      if (header.length < 4 || header[0] !== 0xff) {
+        return undefined;
+      }
+      const marker = header[1];
+      if (marker === 0xff) {
+        // Fill byte before a marker
+        offset += 1;
+        continue;
+      }
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        // Standalone markers carry no length
+        offset += 2;
+        continue;
+      }
+      if (marker === 0xd9 || marker === 0xda) {
+        // End of image or start of scan before any frame header
+        return undefined;
+      }
+
+      const length = header.readUInt16BE(2);
+      if (length < 2) {
+        return undefined;
+      }
+      if (JPEG_SOF_MARKERS.has(marker)) {
+        const frame = source(offset + 5, 4);
+        if (frame.length < 4) {
+          return undefined;
+        }
+        const height = frame.readUInt16BE(0);
+        const width = frame.readUInt16BE(2);
+        // Orientations 5-8 rotate the image by 90 degrees
+        return orientation >= 5 ? { width: height, height: width } : { width, height };
+      }
+      if (marker === 0xe1) {
+        const segment = source(offset + 4, length - 2);
+        if (segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+          orientation = this.exifOrientation(segment.subarray(6)) ?? orientation;
+        }
+      }
+      offset += 2 + length;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the Orientation tag (0x0112) from the first IFD of an EXIF block.
+   */
+  private exifOrientation(exif: Buffer): number | undefined {
+    const tags = this.tiffTags((offset, length) => exif.subarray(offset, offset + length), [0x0112]);
+    return tags?.get(0x0112);
+  }
+
+  /**
+   * Read the image width and length tags of a TIFF file.
+   */
+  private tiff(source: ByteSource): ImageDimensions | undefined {
+    const tags = this.tiffTags(source, [0x0100, 0x0101]);
+    const width = tags?.get(0x0100);
+    const height = tags?.get(0x0101);
+    return width !== undefined && height !== undefined ? { width, height } : undefined;
+  }
+
+  /**
+   * Read SHORT and LONG tag values from the first IFD of a TIFF structure.
+   *
+   * @param source - Data starting at the TIFF header
+   * @param wanted - Tags to read
+   * @returns Values by tag, or undefined if the structure is malformed
+   */
+  private tiffTags(source: ByteSource, wanted: number[]): Map<number, number> | undefined {
+    const header = source(0, 8);
+    if (header.length < 8) {
+      return undefined;
+    }
+    const littleEndian = header.toString('latin1', 0, 2) === 'II';
+    const u16 = (data: Buffer, at: number) => (littleEndian ? data.readUInt16LE(at) : data.readUInt16BE(at));
+    const u32 = (data: Buffer, at: number) => (littleEndian ? data.readUInt32LE(at) : data.readUInt32BE(at));
+
+    // The first IFD may be anywhere in the file (often after the image data)
+    const ifd = u32(header, 4);
+    const countBytes = source(ifd, 2);
+    if (countBytes.length < 2) {
+      return undefined;
+    }
+    const count = u16(countBytes, 0);
+    const entries = source(ifd + 2, count * 12);
+
+    const values = new Map<number, number>();
+    for (let entry = 0; entry + 12 <= entries.length; entry += 12) {
+      const tag = u16(entries, entry);
+      const type = u16(entries, entry + 2);
+      if (!wanted.includes(tag)) {
+        continue;
+      }
+      // Type 3 is SHORT, type 4 is LONG; both fit in the value field
+      if (type === 3) {
+        values.set(tag, u16(entries, entry + 8));
+      } else if (type === 4) {
+        values.set(tag, u32(entries, entry + 8));
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Read the canvas size of a lossy (`VP8 `), lossless (`VP8L`) or extended
+   * (`VP8X`) WebP image.
+   */
+  private webp(head: Buffer): ImageDimensions | undefined {
+    if (head.length < 30) {
+      return undefined;
+    }
+    const chunk = head.toString('latin1', 12, 16);
+    if (chunk === 'VP8 ' && head[23] === 0x9d && head[24] === 0x01 && head[25] === 0x2a) {
+      return { width: head.readUInt16LE(26) & 0x3fff, height: head.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L' && head[20] === 0x2f) {
+      const bits = head.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: head.readUIntLE(24, 3) + 1, height: head.readUIntLE(27, 3) + 1 };
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the image spatial extents (`ispe`) of an AVIF (or HEIF) file from
+   * `meta` > `iprp` > `ipco`. The largest extent is the primary image;
+   * smaller ones belong to thumbnails and grid tiles.
+   */
+  private isoBmff(source: ByteSource): ImageDimensions | undefined {
+    const meta = this.findBox(source, 0, Infinity, 'meta');
+    // `meta` is a full box: version and flags precede its children
+    const iprp = meta && this.findBox(source, meta.start + 4, meta.end, 'iprp');
+    const ipco = iprp && this.findBox(source, iprp.start, iprp.end, 'ipco');
+    if (!ipco) {
+      return undefined;
+    }
+
+    let dimensions: ImageDimensions | undefined;
+    let rotated = false;
+    let offset = ipco.start;
+    for (let count = 0; count < MAX_STRUCTURES && offset + 8 <= ipco.end; count++) {
+      const box = this.box(source, offset);
+      if (!box) {
+        break;
+      }
+      if (box.type === 'ispe') {
+        const extent = source(box.start + 4, 8);
+        if (extent.length === 8) {
+          const width = extent.readUInt32BE(0);
+          const height = extent.readUInt32BE(4);
+          if (!dimensions || width * height > dimensions.width * dimensions.height) {
+            dimensions = { width, height };
+          }
+        }
+      } else if (box.type === 'irot') {
+        rotated = ((source(box.start, 1)[0] ?? 0) & 0x03) % 2 === 1;
+      }
+      offset = box.end;
+    }
+
+    return dimensions && rotated ? { width: dimensions.height, height: dimensions.width } : dimensions;
+  }
+
+  /**
+   * Find the first box of a type among the boxes between two offsets.
+   */
+  private findBox(
+    source: ByteSource,
+    start: number,
+    end: number,
+    type: string
+  ): { start: number; end: number } | undefined {
+    let offset = start;
+    for (let count = 0; count < MAX_STRUCTURES && offset + 8 <= end; count++) {
+      const box = this.box(source, offset);
+      if (!box) {
+        return undefined;
+      }
+      if (box.type === type) {
+        return box;
+      }
+      offset = box.end;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the box header at an offset.
+   *
+   * @returns Box type and the range of its contents, or undefined at the end
+   *   of the data or for a malformed box
+   */
+  private box(source: ByteSource, offset: number): { type: string; start: number; end: number } | undefined {
+    const header = source(offset, 16);
+    if (header.length < 8) {
+      return undefined;
+    }
+    let size = header.readUInt32BE(0);
+    let start = offset + 8;
+    if (size === 1) {
+      // 64-bit size follows the type
+      if (header.length < 16) {
+        return undefined;
+      }
+      size = Number(header.readBigUInt64BE(8));
+      start = offset + 16;
+    } else if (size === 0) {
+      // Box extends to the end of the file
+      size = Infinity;
+    }
+    if (offset + size < start) {
+      return undefined;
+    }
+    return { type: header.toString('latin1', 4, 8), start, end: offset + size };
+  }
+
+  /**
+   * Read a BMP info header. Bottom-up bitmaps have a negative height.
+   */
+  private bmp(head: Buffer): ImageDimensions | undefined {
+    if (head.length < 26) {
+      return undefined;
+    }
+    // BITMAPCOREHEADER (12 bytes) stores 16-bit dimensions
+    if (head.readUInt32LE(14) === 12) {
+      return { width: head.readUInt16LE(18), height: head.readUInt16LE(20) };
+    }
+    return { width: Math.abs(head.readInt32LE(18)), height: Math.abs(head.readInt32LE(22)) };
+  }
+
+  /**
+   * Read the largest icon of an ICO file. A stored size of 0 means 256.
+   */
+  private ico(head: Buffer): ImageDimensions | undefined {
+    let dimensions: ImageDimensions | undefined;
+    const count = head.readUInt16LE(4);
+    for (let index = 0; index < count && 6 + index * 16 + 2 <= head.length; index++) {
+      const entry = 6 + index * 16;
+      const width = head[entry] || 256;
+      const height = head[entry + 1] || 256;
+      if (!dimensions || width * height > dimensions.width * dimensions.height) {
+        dimensions = { width, height };
+      }
+    }
+    return dimensions;
+  }
+
+  /**
+   * Read the `width` and `height` of an SVG root element, in pixels (or
+   * unitless), falling back to the `viewBox` size. Relative sizes (`%`, `em`)
+   * have no intrinsic pixel size.
+   */
+  private svg(text: string): ImageDimensions | undefined {
+    const root = /<svg\b([^>]*)>/i.exec(text.replace(/<!--[\s\S]*?-->/g, ''));
+    if (!root) {
+      return undefined;
+    }
+    const attribute = (name: string) => {
+      const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(root[1]);
+      return match ? (match[1] ?? match[2]) : undefined;
+    };
+    const pixels = (value: string | undefined) => {
+      const match = value !== undefined ? /^\s*(\d+(?:\.\d+)?)(?:px)?\s*$/.exec(value) : null;
+      return match ? Math.round(Number(match[1])) : undefined;
+    };
+
+    const viewBox = attribute('viewBox')
+      ?.trim()
+      .split(/[\s,]+/)
+      .map(Number);
+    const box = viewBox?.length === 4 && viewBox.every(Number.isFinite) ? viewBox : undefined;
+
+    const width = pixels(attribute('width'));
+    const height = pixels(attribute('height'));
+    if (width !== undefined && height !== undefined) {
+      return { width, height };
+    }
+    if (!box || !(box[2] > 0) || !(box[3] > 0)) {
+      return undefined;
+    }
+    // One explicit size scales the other by the viewBox aspect ratio
+    if (width !== undefined) {
+      return { width, height: Math.round((width * box[3]) / box[2]) };
+    }
+    if (height !== undefined) {
+      return { width: Math.round((height * box[2]) / box[3]), height };
+    }
+    return { width: Math.round(box[2]), height: Math.round(box[3]) };
+  }
+}
@@ -1,6 +1,156 @@
-import * as https from 'node:https';
+import type * as http from 'node:http';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { NodeHttpTransport, HttpTimeoutError } from './http-transport.js';
+import type { HttpCache, HttpCacheValidators } from './http-cache.js';
+import type { HttpTransport } from './http-transport.js';
+
+/**
+ * Which redirects {@link ImageDownloader} follows
+ */
+export interface RedirectPolicy {
+  /** Follow redirects to another host (default: true) */
+  allowCrossHost?: boolean;
+  /** Follow redirects from `https:` to `http:` (default: true) */
+  allowDowngrade?: boolean;
+}
+
+/**
+ * Circuit breaker configuration: when a host fails `failureThreshold` times
+ * in a row, its downloads fail immediately for `cooldownMs`, then one trial
+ * request decides whether it closes again
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failed attempts that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long an open circuit rejects downloads, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+}
+
+/**
+ * A retry about to be scheduled by {@link ImageDownloader}
+ */
+export interface DownloadRetryEvent {
+  /** URL being downloaded */
+  url: string;
+  /** 1-based number of the retry */
+  retry: number;
+  /** Maximum number of retries */
+  maxRetries: number;
+  /** Delay before the retry in milliseconds */
+  delayMs: number;
+  /** Error of the failed attempt */
+  error: string;
+}
+
+/**
+ * HTTP status codes of redirects that are followed
+ */
+const REDIRECT_STATUS_CODES: ReadonlySet<number> = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * HTTP status codes whose `Retry-After` header is honored
+ */
+const THROTTLE_STATUS_CODES: ReadonlySet<number> = new Set([429, 503]);
+
+/**
+ * Why a downloaded response was rejected:
+ * - `content-type`: the `Content-Type` header is not an image type
+ * - `magic-bytes`: the body does not start with a known image signature
+ * - `too-large`: the body is larger than `maxBytes`
+ */
+export type DownloadFailureReason = 'content-type' | 'magic-bytes' | 'too-large';
+
+/**
+ * Default maximum size of a downloaded image (50 MiB)
+ */
+export const DEFAULT_MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Extensions of the image formats kept on local filenames. Any other
+ * extension is treated as part of the name, and the file is saved without one.
+ */
+export const IMAGE_EXTENSIONS: ReadonlySet<string> = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.svg',
+  '.avif',
+  '.bmp',
+  '.ico',
+  '.tif',
+  '.tiff',
+]);
+
+/**
+ * Content types accepted besides `image/*` (generic binary, as served by
+ * some object stores); the file signature decides
+ */
+const BINARY_CONTENT_TYPES: ReadonlySet<string> = new Set(['application/octet-stream', 'binary/octet-stream']);
+
+/**
+ * Number of leading bytes inspected to recognize the image format
+ */
+const SIGNATURE_BYTES = 512;
+
+/**
+ * Recognize an image format from the first bytes of a file
+ * @param head - Leading bytes of the file
+ * @returns File extension of the format (e.g., ".png"), or undefined if unknown
+ */
+function detectImageExtension(head: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+
+  if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return '.png';
+  }
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return '.jpg';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return '.gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return '.webp';
+  }
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) {
+    return '.avif';
+  }
+  if (ascii(0, 2) === 'BM') {
+    return '.bmp';
+  }
+  if (head.subarray(0, 4).equals(Buffer.from([0x00, 0x00, 0x01, 0x00]))) {
+    return '.ico';
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return '.tiff';
+  }
+
+  // SVG is XML: an <svg> root, possibly after a declaration, comments or a doctype
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE svg[^>]*>\s*)*<svg[\s>]/i.test(text)) {
+    return '.svg';
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a file extension names a detected format (`.jpeg` for JPEG, `.tif` for TIFF)
+ */
+function sameImageFormat(extension: string, detected: string): boolean {
+  const aliases: Record<string, string> = { '.jpeg': '.jpg', '.tif': '.tiff' };
+  const normalized = extension.toLowerCase();
+  return (aliases[normalized] ?? normalized) === detected;
+}
+
+/**
+ * Check whether two files hold the same bytes
+ */
+function sameContents(a: string, b: string): boolean {
+  return fs.statSync(a).size === fs.statSync(b).size && fs.readFileSync(a).equals(fs.readFileSync(b));
+}
 
 /**
  * Configuration options for image downloads
@@ -8,12 +158,35 @@ import * as path from 'node:path';
 export interface ImageDownloadConfig {
   /** Maximum number of retry attempts for transient failures */
   maxRetries?: number;
-  /** Delay in milliseconds between retry attempts */
+  /** Delay in milliseconds before the first retry; later retries back off exponentially */
   retryDelayMs?: number;
+  /** Factor applied to the retry delay after each retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound of a retry delay, including `Retry-After` waits (default: 30000) */
+  maxRetryDelayMs?: number;
+  /** Randomize each backoff delay between 50% and 100% of its value (default: true) */
+  jitter?: boolean;
+  /** Maximum number of retries across all downloads of this instance (default: unlimited) */
+  retryBudget?: number;
+  /** Per-host circuit breaker, or false to disable it (default: enabled) */
+  circuitBreaker?: CircuitBreakerConfig | false;
   /** Timeout in milliseconds for each download attempt */
   timeoutMs?: number;
-  /** Delay in milliseconds between downloads (rate limiting) */
-  downloadDelayMs?: number;
+  /** Persistent cache consulted before the network */
+  cache?: HttpCache;
+  /** Sends the requests (default: a {@link NodeHttpTransport} using the proxy environment variables) */
+  transport?: HttpTransport;
+  /** Maximum number of redirects followed per request (default: 10) */
+  maxRedirects?: number;
+  /** Restrictions on the redirects followed (default: any http(s) redirect) */
+  redirectPolicy?: RedirectPolicy;
+  /** Maximum size of a downloaded file in bytes; larger downloads are aborted (default: 50 MiB) */
+  maxBytes?: number;
+  /**
+   * Check the `Content-Type` header and the file signature of downloads, and
+   * correct file extensions that don't match the served format (default: true)
+   */
+  validateImages?: boolean;
 }
 
 /**
@@ -23,22 +196,156 @@ export interface DownloadResult {
   success: boolean;
   error?: string;
   is403?: boolean;
+  /** True when the file was served from the HTTP cache (fresh or revalidated) */
+  fromCache?: boolean;
+  /** URL that finally answered after following redirects (set when a request succeeded) */
+  finalUrl?: string;
+  /** Why the response was rejected, when it failed validation */
+  failureReason?: DownloadFailureReason;
+  /**
+   * Path the file was saved to instead of the requested one, when its
+   * extension was corrected to the served format (e.g., `uuid.png` served as WebP is saved as `uuid.webp`)
+   */
+  correctedPath?: string;
+}
+
+/**
+ * Result of a single HTTP request
+ */
+interface FetchResult extends DownloadResult {
+  /** HTTP 304: the cached response is still valid (no file written) */
+  notModified?: boolean;
+  /** Validators of a successful response, for the cache */
+  validators?: HttpCacheValidators;
+  /** Failure that retrying can't fix (e.g., a redirect loop) */
+  permanent?: boolean;
+  /** Wait requested by a `Retry-After` header on HTTP 429/503, in milliseconds */
+  retryAfterMs?: number;
 }
 
 /**
- * Service for downloading images from URLs with retry logic and error handling
+ * Consecutive failure counts and open circuits per host.
+ * After the cooldown a single failure opens the circuit again.
+ */
+class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly failures = new Map<string, number>();
+  private readonly openUntil = new Map<string, number>();
+
+  constructor(config: CircuitBreakerConfig) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    if (!(this.failureThreshold >= 1) || this.cooldownMs < 0) {
+      throw new Error('Circuit breaker failureThreshold must be at least 1 and cooldownMs must not be negative');
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit lets requests through again (0 when closed)
+   */
+  msUntilClosed(host: string): number {
+    return Math.max(0, (this.openUntil.get(host) ?? 0) - Date.now());
+  }
+
+  recordSuccess(host: string): void {
+    this.failures.delete(host);
+    this.openUntil.delete(host);
+  }
+
+  recordFailure(host: string): void {
+    const failures = (this.failures.get(host) ?? 0) + 1;
+    if (failures >= this.failureThreshold) {
+      this.openUntil.set(host, Date.now() + this.cooldownMs);
+      // Half-open: the next failure after the cooldown opens it again
+      this.failures.set(host, this.failureThreshold - 1);
+    } else {
+      this.failures.set(host, failures);
+    }
+  }
+}
+
+/**
+ * Service for downloading images from URLs with retry logic and error handling.
+ * Requests are sent through an {@link HttpTransport}, by default a
+ * {@link NodeHttpTransport} honoring `HTTPS_PROXY`/`HTTP_PROXY`/`NO_PROXY`.
+ *
+ * Transient failures are retried up to `maxRetries` times with exponential
+ * backoff (`retryDelayMs`, multiplied by `backoffMultiplier` after each
+ * retry, capped at `maxRetryDelayMs`, with jitter). A `Retry-After` header
+ * on HTTP 429/503 replaces the backoff delay and pauses the whole host;
+ * waits longer than `maxRetryDelayMs` end the retries. A `retryBudget` caps
+ * the retries of all downloads together, and a per-host circuit breaker
+ * fails downloads immediately while a host keeps failing.
+ *
+ * Downloads are validated before they count as successful: the
+ * `Content-Type` must be an image (or generic binary) type, the file must
+ * start with a known image signature (PNG, JPEG, GIF, WebP, AVIF, BMP, ICO,
+ * TIFF or SVG), and bodies larger than `maxBytes` are aborted. Rejected
+ * downloads are deleted, report a `failureReason` and are not retried. A
+ * file whose extension doesn't match its format is renamed (`correctedPath`).
+ *
+ * Redirects (301, 302, 303, 307, 308) are followed up to `maxRedirects`
+ * times, with relative `Location` headers resolved against the current URL.
+ * Redirect loops, non-http(s) targets and redirects rejected by the
+ * {@link RedirectPolicy} fail without retrying.
+ *
+ * With an {@link HttpCache}, fresh cached responses are copied without a
+ * request, stale ones are revalidated with `If-None-Match` /
+ * `If-Modified-Since`, and new downloads are added to the cache.
  */
 export class ImageDownloader {
   private maxRetries: number;
   private retryDelayMs: number;
   private timeoutMs: number;
-  private downloadDelayMs: number;
+  private cache?: HttpCache;
+  private transport: HttpTransport;
+  private maxRedirects: number;
+  private redirectPolicy: Required<RedirectPolicy>;
+  private backoffMultiplier: number;
+  private maxRetryDelayMs: number;
+  private jitter: boolean;
+  private retryBudget: number;
+  private breaker?: CircuitBreaker;
+  private readonly pausedUntil = new Map<string, number>();
+  private maxBytes: number;
+  private validateImages: boolean;
 
+  /**
+   * @param config - Download options
+   * @throws {Error} If `maxRedirects`, `maxBytes`, a retry option or a circuit breaker option is out of range
+   */
   constructor(config?: ImageDownloadConfig) {
     this.maxRetries = config?.maxRetries ?? 3;
     this.retryDelayMs = config?.retryDelayMs ?? 1000;
     this.timeoutMs = config?.timeoutMs ?? 30000;
-    this.downloadDelayMs = config?.downloadDelayMs ?? 0;
+    this.cache = config?.cache;
+    this.transport = config?.transport ?? new NodeHttpTransport();
+    this.maxRedirects = config?.maxRedirects ?? 10;
+    this.redirectPolicy = {
+      allowCrossHost: config?.redirectPolicy?.allowCrossHost ?? true,
+      allowDowngrade: config?.redirectPolicy?.allowDowngrade ?? true,
+    };
+
+    this.backoffMultiplier = config?.backoffMultiplier ?? 2;
+    this.maxRetryDelayMs = config?.maxRetryDelayMs ?? 30000;
+    this.jitter = config?.jitter ?? true;
+    this.retryBudget = config?.retryBudget ?? Infinity;
+    if (config?.circuitBreaker !== false) {
+      this.breaker = new CircuitBreaker(config?.circuitBreaker ?? {});
+    }
+    this.maxBytes = config?.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    this.validateImages = config?.validateImages ?? true;
+
+    if (this.maxRedirects < 0) {
+      throw new Error('maxRedirects must not be negative');
+    }
+    if (this.backoffMultiplier < 1 || this.maxRetryDelayMs < 0 || this.retryBudget < 0) {
+      throw new Error('backoffMultiplier must be at least 1, maxRetryDelayMs and retryBudget must not be negative');
+    }
+    if (!(this.maxBytes > 0)) {
+      throw new Error('maxBytes must be greater than 0');
+    }
   }
 
   /**
@@ -47,10 +354,22 @@ export class ImageDownloader {
    *
    * @param url - The URL to download from
    * @param filepath - The local path where the file will be saved
+   * @param onRetry - Called before each retry is scheduled
    * @returns Download result with success status, error details, and 403 flag
    */
-  async download(url: string, filepath: string): Promise<DownloadResult> {
-    return this.downloadWithRetry(url, filepath, 0);
+  async download(
+    url: string,
+    filepath: string,
+    onRetry?: (event: DownloadRetryEvent) => void
+  ): Promise<DownloadResult> {
+    const cached = this.cache?.lookup(url);
+    if (cached && this.cache?.isFresh(cached)) {
+      this.ensureDirectory(filepath);
+      this.cache.copyTo(url, filepath);
+      return this.withCorrectedExtension({ success: true, fromCache: true }, filepath);
+    }
+
+    return this.downloadWithRetry(url, filepath, 0, onRetry);
   }
 
   /**
@@ -58,22 +377,38 @@ export class ImageDownloader {
    * @param url - The URL to download
    * @param filepath - The destination file path
    * @param attemptNumber - Current attempt number (for retry logic)
+   * @param onRetry - Called before each retry is scheduled
    * @returns Download result with success status and error details
    */
   private async downloadWithRetry(
     url: string,
     filepath: string,
-    attemptNumber: number
+    attemptNumber: number,
+    onRetry?: (event: DownloadRetryEvent) => void
   ): Promise<DownloadResult> {
-    const dir = path.dirname(filepath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+    this.ensureDirectory(filepath);
+
+    const host = new URL(url).host;
+    const openMs = this.breaker?.msUntilClosed(host) ?? 0;
+    if (openMs > 0) {
+      return {
+        success: false,
+        error: `Circuit open for ${host} after repeated failures (retry in ${Math.ceil(openMs / 1000)}s): ${url}`,
+        is403: false,
+      };
+    }
+
+    // Honor a Retry-After received by any download from this host
+    const pausedMs = (this.pausedUntil.get(host) ?? 0) - Date.now();
+    if (pausedMs > 0) {
+      await this.delay(pausedMs);
     }
 
-    const result = await this.downloadFile(url, filepath);
+    const result = await this.downloadFile(url, filepath, this.cache?.conditionalHeaders(url) ?? {});
 
     if (result.success) {
-      return result;
+      this.breaker?.recordSuccess(host);
+      return this.completeDownload(url, filepath, result);
     }
 
     if (result.is403) {
@@ -84,11 +419,33 @@ export class ImageDownloader {
       return result;
     }
 
-    // Retry on transient failures (timeout, network errors) up to maxRetries times.
+    if (result.permanent) {
+      const failure: DownloadResult = { success: false, error: result.error, is403: false };
+      if (result.failureReason) {
+        failure.failureReason = result.failureReason;
+      }
+      return failure;
+    }
+
+    // Retry on transient failures (timeout, network errors, 5xx, 429) up to maxRetries times.
     // 403/404 errors are permanent and skipped above, so we only reach here for recoverable failures.
-    if (attemptNumber < this.maxRetries) {
-      await this.delay(this.retryDelayMs);
-      return this.downloadWithRetry(url, filepath, attemptNumber + 1);
+    this.breaker?.recordFailure(host);
+    const delayMs = result.retryAfterMs ?? this.backoffDelay(attemptNumber);
+    if (result.retryAfterMs !== undefined && result.retryAfterMs <= this.maxRetryDelayMs) {
+      this.pausedUntil.set(host, Math.max(this.pausedUntil.get(host) ?? 0, Date.now() + result.retryAfterMs));
+    }
+
+    if (attemptNumber < this.maxRetries && this.retryBudget > 0 && delayMs <= this.maxRetryDelayMs) {
+      this.retryBudget--;
+      onRetry?.({
+        url,
+        retry: attemptNumber + 1,
+        maxRetries: this.maxRetries,
+        delayMs,
+        error: result.error ?? 'Download failed',
+      });
+      await this.delay(delayMs);
+      return this.downloadWithRetry(url, filepath, attemptNumber + 1, onRetry);
     }
 
     return {
@@ -99,96 +456,350 @@ export class ImageDownloader {
   }
 
   /**
-   * Perform the actual file download via HTTPS
+   * Exponential backoff delay before a retry, with jitter
+   * @param attemptNumber - Number of the failed attempt (0-based)
+   * @returns Delay in milliseconds
+   */
+  private backoffDelay(attemptNumber: number): number {
+    const delayMs = Math.min(this.retryDelayMs * this.backoffMultiplier ** attemptNumber, this.maxRetryDelayMs);
+    return this.jitter ? Math.round(delayMs / 2 + (Math.random() * delayMs) / 2) : delayMs;
+  }
+
+  /**
+   * Serve a revalidated response from the cache, or add a new download to it.
+   * Cache write errors don't fail the download.
+   * @param url - The downloaded URL
+   * @param filepath - The destination file path
+   * @param result - Successful request result
+   * @returns Download result
+   */
+  private completeDownload(url: string, filepath: string, result: FetchResult): DownloadResult {
+    if (result.notModified) {
+      if (this.cache?.copyTo(url, filepath, true)) {
+        return this.withCorrectedExtension({ success: true, fromCache: true, finalUrl: result.finalUrl }, filepath);
+      }
+      return { success: false, error: `Cached response missing for HTTP 304: ${url}` };
+    }
+
+    try {
+      this.cache?.store(url, result.correctedPath ?? filepath, result.validators ?? {});
+    } catch {
+      // The download itself succeeded; it just won't be cached
+    }
+    const download: DownloadResult = { success: true, finalUrl: result.finalUrl };
+    if (result.correctedPath) {
+      download.correctedPath = result.correctedPath;
+    }
+    return download;
+  }
+
+  /**
+   * Correct the extension of a file copied from the cache (its contents were
+   * validated when they were downloaded)
+   * @param result - Successful download result
+   * @param filepath - Copied file
+   * @returns The result, with `correctedPath` if the file was renamed
+   */
+  private withCorrectedExtension(result: DownloadResult, filepath: string): DownloadResult {
+    if (!this.validateImages) {
+      return result;
+    }
+
+    const head = Buffer.alloc(SIGNATURE_BYTES);
+    const fd = fs.openSync(filepath, 'r');
+    let length: number;
+    try {
+      length = fs.readSync(fd, head, 0, SIGNATURE_BYTES, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const extension = detectImageExtension(head.subarray(0, length));
+    const correctedPath = extension ? this.correctExtension(filepath, extension) : undefined;
+    if (correctedPath) {
+      result.correctedPath = correctedPath;
+    }
+    return result;
+  }
+
+  /**
+   * Rename a file whose extension doesn't match its detected format. A file
+   * that already has the corrected name is replaced when it holds the same
+   * bytes (an earlier download of the same image); otherwise a numeric suffix
+   * keeps it from being overwritten (`image-2.webp`).
+   * @param filepath - File to check
+   * @param extension - Extension of the detected format
+   * @returns New path, or undefined if the extension was already right
+   */
+  private correctExtension(filepath: string, extension: string): string | undefined {
+    const current = path.extname(filepath);
+    if (sameImageFormat(current, extension)) {
+      return undefined;
+    }
+
+    // Files saved without a known image extension get one appended
+    const stem = IMAGE_EXTENSIONS.has(current.toLowerCase()) ? filepath.slice(0, -current.length) : filepath;
+    let correctedPath = stem + extension;
+    for (let suffix = 2; fs.existsSync(correctedPath) && !sameContents(filepath, correctedPath); suffix++) {
+      correctedPath = `${stem}-${suffix}${extension}`;
+    }
+    fs.renameSync(filepath, correctedPath);
+    return correctedPath;
+  }
+
+  /**
+   * Perform the actual file download through the transport, following redirects
    * @param url - The URL to download
    * @param filepath - The destination file path
+   * @param headers - Extra request headers (conditional headers for cached URLs)
    * @returns Download result
    */
-  private downloadFile(url: string, filepath: string): Promise<DownloadResult> {
-    return new Promise((resolve) => {
-      const request = https.get(url, { timeout: this.timeoutMs }, (response) => {
-        if (response.statusCode === 301 || response.statusCode === 302) {
-          const redirectUrl = response.headers.location;
-          if (!redirectUrl) {
-            resolve({
-              success: false,
-              error: `Redirect without location header: HTTP ${response.statusCode}`,
-            });
-            return;
-          }
-
-          this.downloadFile(redirectUrl, filepath)
-            .then(resolve)
-            .catch((err) => {
-              resolve({
-                success: false,
-                error: err.message,
-              });
-            });
-          return;
+  private async downloadFile(url: string, filepath: string, headers: Record<string, string>): Promise<FetchResult> {
+    const visited = new Set([url]);
+    let currentUrl = url;
+
+    for (;;) {
+      let response: http.IncomingMessage;
+      try {
+        response = await this.transport.request(currentUrl, { timeoutMs: this.timeoutMs, headers });
+      } catch (error) {
+        if (error instanceof HttpTimeoutError) {
+          return { success: false, error: `Download timeout (${this.timeoutMs}ms): ${currentUrl}` };
         }
+        const message = error instanceof Error ? error.message : String(error);
+        return { success: false, error: `Request error: ${message}` };
+      }
 
-        if (response.statusCode !== 200) {
-          resolve({
+      const statusCode = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUS_CODES.has(statusCode)) {
+        response.resume();
+        const location = response.headers.location;
+        if (!location) {
+          return {
             success: false,
-            error: `HTTP ${response.statusCode}: ${url}`,
-            is403: response.statusCode === 403,
-          });
-          return;
+            error: `Redirect without location header: HTTP ${statusCode}`,
+          };
         }
 
-        const fileStream = fs.createWriteStream(filepath);
-        response.pipe(fileStream);
+        const next = this.redirectTarget(currentUrl, location, visited);
+        if (typeof next !== 'string') {
+          return next;
+        }
+        visited.add(next);
+        currentUrl = next;
+        continue;
+      }
 
-        fileStream.on('finish', () => {
-          fileStream.close();
-          resolve({ success: true });
-        });
+      if (statusCode === 304 && Object.keys(headers).length > 0) {
+        response.resume();
+        return { success: true, notModified: true, finalUrl: currentUrl };
+      }
 
-        fileStream.on('error', (err) => {
-          // Clean up partial file to avoid disk waste and orphaned files
-          try {
-            fs.unlinkSync(filepath);
-          } catch {
-            // Ignore cleanup errors - we're already in an error state
-          }
-          resolve({
-            success: false,
-            error: `File write error: ${err.message}`,
-          });
-        });
+      if (statusCode !== 200) {
+        response.resume();
+        const result: FetchResult = {
+          success: false,
+          error: `HTTP ${statusCode}: ${currentUrl}`,
+          is403: statusCode === 403,
+        };
+        const retryAfterMs = THROTTLE_STATUS_CODES.has(statusCode)
+          ? ImageDownloader.parseRetryAfter(response.headers['retry-after'])
+          : undefined;
+        if (retryAfterMs !== undefined) {
+          result.retryAfterMs = retryAfterMs;
+        }
+        return result;
+      }
+
+      return this.writeResponse(response, filepath, currentUrl);
+    }
+  }
+
+  /**
+   * Resolve and check the target of a redirect
+   * @param from - URL that answered with the redirect
+   * @param location - `Location` header (absolute or relative)
+   * @param visited - URLs requested so far for this download
+   * @returns Absolute URL to request next, or a permanent failure
+   */
+  private redirectTarget(from: string, location: string, visited: Set<string>): string | FetchResult {
+    const fail = (error: string): FetchResult => ({ success: false, error, permanent: true });
+
+    if (visited.size > this.maxRedirects) {
+      return fail(`Too many redirects (max ${this.maxRedirects}): ${from}`);
+    }
+
+    let target: URL;
+    try {
+      target = new URL(location, from);
+    } catch {
+      return fail(`Invalid redirect location: ${location}`);
+    }
+
+    const source = new URL(from);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return fail(`Unsupported redirect protocol: ${target.protocol} (${target.href})`);
+    }
+    if (visited.has(target.href)) {
+      return fail(`Redirect loop: ${target.href}`);
+    }
+    if (!this.redirectPolicy.allowDowngrade && source.protocol === 'https:' && target.protocol === 'http:') {
+      return fail(`Redirect from HTTPS to HTTP blocked: ${target.href}`);
+    }
+    if (!this.redirectPolicy.allowCrossHost && source.host !== target.host) {
+      return fail(`Cross-host redirect blocked: ${source.host} -> ${target.host}`);
+    }
+    return target.href;
+  }
+
+  /**
+   * Stream a successful response body to a file, validating it against the
+   * image checks and the size limit
+   * @param response - Response with an unread body
+   * @param filepath - The destination file path
+   * @param finalUrl - URL that served the response
+   * @returns Download result with the response's cache validators
+   */
+  private writeResponse(response: http.IncomingMessage, filepath: string, finalUrl: string): Promise<FetchResult> {
+    const rejected = this.checkHeaders(response.headers, finalUrl);
+    if (rejected) {
+      response.resume();
+      return Promise.resolve(rejected);
+    }
+
+    return new Promise((resolve) => {
+      const fileStream = fs.createWriteStream(filepath);
+      let received = 0;
+      let head = Buffer.alloc(0);
+      let aborted = false;
 
-        response.on('error', (err) => {
+      const removePartialFile = () => {
+        try {
+          fs.unlinkSync(filepath);
+        } catch {
+          // Ignore cleanup errors - we're already in an error state
+        }
+      };
+
+      response.pipe(fileStream);
+
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (head.length < SIGNATURE_BYTES) {
+          head = Buffer.concat([head, chunk]).subarray(0, SIGNATURE_BYTES);
+        }
+        if (received > this.maxBytes && !aborted) {
+          aborted = true;
+          response.destroy();
           fileStream.destroy();
-          try {
-            fs.unlinkSync(filepath);
-          } catch {
-            // Ignore cleanup errors - we're already in an error state
-          }
-          resolve({
-            success: false,
-            error: `Stream error: ${err.message}`,
-          });
-        });
+          removePartialFile();
+          resolve(this.rejection('too-large', `Image larger than ${this.maxBytes} bytes: ${finalUrl}`));
+        }
+      });
+
+      fileStream.on('finish', () => {
+        fileStream.close();
+        if (aborted) {
+          return;
+        }
+
+        const extension = detectImageExtension(head);
+        if (this.validateImages && !extension) {
+          removePartialFile();
+          resolve(this.rejection('magic-bytes', `Response is not a recognized image format: ${finalUrl}`));
+          return;
+        }
+
+        const result: FetchResult = { success: true, finalUrl, validators: this.validators(response.headers) };
+        const correctedPath = this.validateImages && extension ? this.correctExtension(filepath, extension) : undefined;
+        if (correctedPath) {
+          result.correctedPath = correctedPath;
+        }
+        resolve(result);
       });
 
-      request.on('timeout', () => {
-        request.destroy();
+      fileStream.on('error', (err) => {
+        if (aborted) {
+          return;
+        }
+        // Clean up partial file to avoid disk waste and orphaned files
+        removePartialFile();
         resolve({
           success: false,
-          error: `Download timeout (${this.timeoutMs}ms): ${url}`,
+          error: `File write error: ${err.message}`,
         });
       });
 
-      request.on('error', (err) => {
+      response.on('error', (err) => {
+        if (aborted) {
+          return;
+        }
+        fileStream.destroy();
+        removePartialFile();
         resolve({
           success: false,
-          error: `Request error: ${err.message}`,
+          error: `Stream error: ${err.message}`,
         });
       });
     });
   }
 
+  /**
+   * Reject a response by its headers before reading the body
+   * @param headers - Response headers
+   * @param url - URL that served the response
+   * @returns Failure for a non-image `Content-Type` or a `Content-Length` over the limit, or undefined
+   */
+  private checkHeaders(headers: http.IncomingHttpHeaders, url: string): FetchResult | undefined {
+    const contentType = headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (
+      this.validateImages &&
+      contentType &&
+      !contentType.startsWith('image/') &&
+      !BINARY_CONTENT_TYPES.has(contentType)
+    ) {
+      return this.rejection('content-type', `Unexpected content type ${contentType}: ${url}`);
+    }
+
+    const contentLength = Number(headers['content-length']);
+    if (contentLength > this.maxBytes) {
+      return this.rejection('too-large', `Image larger than ${this.maxBytes} bytes (${contentLength}): ${url}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Failure of a response that failed validation (not retried)
+   */
+  private rejection(failureReason: DownloadFailureReason, error: string): FetchResult {
+    return { success: false, error, failureReason, permanent: true };
+  }
+
+  /**
+   * Read the cache validators from response headers
+   */
+  private validators(headers: http.IncomingHttpHeaders): HttpCacheValidators {
+    const validators: HttpCacheValidators = {};
+    if (headers.etag) {
+      validators.etag = headers.etag;
+    }
+    if (headers['last-modified']) {
+      validators.lastModified = headers['last-modified'];
+    }
+    return validators;
+  }
+
+  /**
+   * Create the parent directory of a file if it does not exist
+   */
+  private ensureDirectory(filepath: string): void {
+    const dir = path.dirname(filepath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
   /**
    * Extract image hash from Hashnode CDN URL
    * Pattern: UUID.extension (e.g., 550e8400-e29b-41d4-a716-446655440000.png)
@@ -206,20 +817,26 @@ export class ImageDownloader {
   }
 
   /**
-   * Helper method to create a promise-based delay
-   * @param ms - Milliseconds to delay
+   * Parse a `Retry-After` header (delay in seconds or an HTTP date)
+   * @param value - Header value
+   * @returns Wait in milliseconds, or undefined if absent or invalid
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private static parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
   }
 
   /**
-   * Apply rate limiting delay between downloads
-   * @returns Promise that resolves after the configured delay
+   * Helper method to create a promise-based delay
+   * @param ms - Milliseconds to delay
    */
-  async applyRateLimit(): Promise<void> {
-    if (this.downloadDelayMs > 0) {
-      await this.delay(this.downloadDelayMs);
-    }
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
@@ -0,0 +1,135 @@
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+import { ImageDownloader, IMAGE_EXTENSIONS } from './image-downloader.js';
+
+/**
+ * How local filenames are chosen for images whose URL is not a Hashnode
+ * UUID filename:
+ * - `hash`: first 16 hex digits of the URL's SHA-256 (e.g., `3f2a9c0d1b7e4a65.png`)
+ * - `basename`: sanitized last path segment of the URL (e.g., `diagram.png`)
+ */
+export type ImageFilenameStrategy = 'hash' | 'basename';
+
+/**
+ * Longest stem kept by the `basename` strategy
+ */
+const MAX_STEM_LENGTH = 80;
+
+/**
+ * Chooses local filenames for downloaded images.
+ *
+ * Hashnode CDN URLs with a UUID filename keep that filename (see
+ * {@link ImageDownloader.extractHash}), so existing downloads and markers
+ * are reused. Other URLs are named by the configured
+ * {@link ImageFilenameStrategy}.
+ *
+ * Names are deterministic: the same URLs in the same order always get the
+ * same filenames, so re-runs find the files downloaded before.
+ *
+ * @example
+ * ```typescript
+ * const filenamer = new ImageFilenamer('basename');
+ * filenamer.assign([
+ *   'https://i.imgur.com/photo.png',
+ *   'https://example.com/images/photo.png',
+ * ]);
+ * // Map { 'https://i.imgur.com/photo.png' => 'photo.png',
+ * //       'https://example.com/images/photo.png' => 'photo-2.png' }
+ * ```
+ */
+export class ImageFilenamer {
+  private strategy: ImageFilenameStrategy;
+
+  constructor(strategy?: ImageFilenameStrategy) {
+    this.strategy = strategy ?? 'hash';
+  }
+
+  /**
+   * Local filename for a single image URL, without collision handling.
+   *
+   * @param url - Absolute image URL
+   * @returns Filename such as `uuid.png`, `3f2a9c0d1b7e4a65.png` or `diagram.png`
+   */
+  filename(url: string): string {
+    return ImageDownloader.extractHash(url) ?? this.strategyFilename(url);
+  }
+
+  /**
+   * Assign unique local filenames to a post's image URLs.
+   *
+   * A URL seen more than once gets the same filename. When two different
+   * URLs would share a filename, later ones get a numeric suffix
+   * (`photo-2.png`, `photo-3.png`). Names are compared case-insensitively so
+   * they stay distinct on case-insensitive file systems. Hashnode UUID
+   * filenames identify the image itself and are shared by every URL that
+   * contains them (e.g., the same image with different resize parameters).
+   *
+   * @param urls - Image URLs in document order
+   * @param reserved - Filenames already taken in the directory (e.g., the cover image)
+   * @returns Filename for each distinct URL
+   */
+  assign(urls: string[], reserved: string[] = []): Map<string, string> {
+    const filenames = new Map<string, string>();
+    const taken = new Set(reserved.map((name) => name.toLowerCase()));
+
+    for (const url of urls) {
+      if (filenames.has(url)) {
+        continue;
+      }
+
+      const hash = ImageDownloader.extractHash(url);
+      if (hash) {
+        filenames.set(url, hash);
+        taken.add(hash.toLowerCase());
+        continue;
+      }
+
+      const filename = this.strategyFilename(url);
+      const extension = path.extname(filename);
+      const stem = filename.slice(0, filename.length - extension.length);
+      let candidate = filename;
+      for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+        candidate = `${stem}-${suffix}${extension}`;
+      }
+
+      filenames.set(url, candidate);
+      taken.add(candidate.toLowerCase());
+    }
+
+    return filenames;
+  }
+
+  private strategyFilename(url: string): string {
+    const segment = ImageFilenamer.lastPathSegment(url);
+    const extension = path.extname(segment).toLowerCase();
+    const imageExtension = IMAGE_EXTENSIONS.has(extension) ? extension : '';
+
+    if (this.strategy === 'hash') {
+      return createHash('sha256').update(url).digest('hex').slice(0, 16) + imageExtension;
+    }
+
+    const stem = (imageExtension ? segment.slice(0, -imageExtension.length) : segment)
+      .replace(/[^A-Za-z0-9_-]+/g, '-')
+      .replace(/-{2,}/g, '-')
+      .replace(/^[-_]+|[-_]+$/g, '')
+      .slice(0, MAX_STEM_LENGTH);
+
+    return (stem || 'image') + imageExtension;
+  }
+
+  private static lastPathSegment(url: string): string {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return '';
+    }
+
+    const segment = pathname.split('/').filter(Boolean).pop() ?? '';
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+}
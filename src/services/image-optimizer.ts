@@ -0,0 +1,294 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Formats an image can be re-encoded to
+ */
+export type ImageEncodeFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+/**
+ * Modern formats emitted as siblings of the optimized image
+ */
+export type ModernImageFormat = 'webp' | 'avif';
+
+/**
+ * Options of a single re-encode
+ */
+export interface ImageEncodeOptions {
+  /** Output format */
+  format: ImageEncodeFormat;
+
+  /** Images wider than this are scaled down (keeping the aspect ratio) */
+  maxWidth?: number;
+
+  /** Lossy quality (1-100); PNG output is compressed losslessly */
+  quality: number;
+
+  /** Drop EXIF, XMP and ICC metadata (orientation is applied to the pixels first) */
+  stripMetadata: boolean;
+}
+
+/**
+ * Re-encodes image files for {@link ImageOptimizer}.
+ *
+ * Implementations read `input`, write `output` (never the same file) and
+ * resolve with the size of the written file.
+ *
+ * @example
+ * ```typescript
+ * const codec: ImageCodec = {
+ *   encode: async (input, output) => {
+ *     fs.copyFileSync(input, output);
+ *     return { size: fs.statSync(output).size };
+ *   },
+ * };
+ * const optimizer = new ImageOptimizer({ codec });
+ * ```
+ */
+export interface ImageCodec {
+  /**
+   * Re-encode an image.
+   *
+   * @param input - Source image file
+   * @param output - File to write
+   * @param options - Format, width cap, quality and metadata handling
+   * @returns Size of the written file in bytes
+   */
+  encode(input: string, output: string, options: ImageEncodeOptions): Promise<{ size: number }>;
+}
+
+/**
+ * Configuration options for ImageOptimizer
+ */
+export interface ImageOptimizerConfig {
+  /**
+   * Maximum image width in pixels. Wider images are scaled down; narrower
+   * ones are never enlarged.
+   * @default undefined (no width cap)
+   */
+  maxWidth?: number;
+
+  /**
+   * Quality of JPEG, WebP and AVIF output (1-100).
+   * @default 80
+   */
+  quality?: number;
+
+  /**
+   * Modern formats to write next to each optimized image, named
+   * `<filename>.<format>` (e.g., `uuid.png.webp`).
+   * @default []
+   */
+  formats?: ModernImageFormat[];
+
+  /**
+   * Remove EXIF metadata (camera details, GPS position) and other metadata.
+   * @default true
+   */
+  stripMetadata?: boolean;
+
+  /**
+   * Re-encodes the images, e.g. a stub in tests.
+   * @default a SharpImageCodec
+   */
+  codec?: ImageCodec;
+}
+
+/**
+ * A modern-format copy of an optimized image
+ */
+export interface ImageVariant {
+  /** Format of the copy */
+  format: ModernImageFormat;
+
+  /** Path of the copy (next to the image) */
+  filepath: string;
+
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Outcome of {@link ImageOptimizer.optimize}
+ */
+export interface OptimizedImage {
+  /** True if the image was re-encoded in place */
+  recompressed: boolean;
+
+  /** Bytes saved by re-encoding the image in place */
+  savedBytes: number;
+
+  /** Modern-format copies written next to the image, in the configured order */
+  variants: ImageVariant[];
+}
+
+/**
+ * Formats re-encoded in place, by file extension. Other images (GIF
+ * animations, SVG, ICO, ...) are left untouched.
+ */
+const OPTIMIZED_FORMATS: Record<string, ImageEncodeFormat> = {
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.png': 'png',
+};
+
+/**
+ * MIME types of the modern formats
+ */
+export const MODERN_IMAGE_TYPES: Record<ModernImageFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+type SharpFactory = typeof import('sharp');
+
+/**
+ * Default {@link ImageCodec} built on the optional `sharp` package (libvips,
+ * CPU only). `sharp` is loaded on first use, so it only has to be installed
+ * when image optimization is enabled.
+ *
+ * - Orientation from EXIF is applied to the pixels before metadata is removed
+ * - JPEG output uses mozjpeg; PNG output uses maximum zlib compression
+ */
+export class SharpImageCodec implements ImageCodec {
+  private sharp?: Promise<SharpFactory>;
+
+  async encode(input: string, output: string, options: ImageEncodeOptions): Promise<{ size: number }> {
+    const sharp = await this.load();
+
+    let pipeline = sharp(input).rotate();
+    if (options.maxWidth !== undefined) {
+      pipeline = pipeline.resize({ width: options.maxWidth, withoutEnlargement: true });
+    }
+    if (!options.stripMetadata) {
+      pipeline = pipeline.keepMetadata();
+    }
+
+    if (options.format === 'jpeg') {
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+    } else if (options.format === 'png') {
+      pipeline = pipeline.png({ compressionLevel: 9, adaptiveFiltering: true });
+    } else if (options.format === 'webp') {
+      pipeline = pipeline.webp({ quality: options.quality });
+    } else {
+      pipeline = pipeline.avif({ quality: options.quality });
+    }
+
+    const info = await pipeline.toFile(output);
+    return { size: info.size };
+  }
+
+  /**
+   * Import `sharp` once.
+   * @throws {Error} If `sharp` is not installed
+   */
+  private load(): Promise<SharpFactory> {
+    this.sharp ??= import('sharp').then(
+      (module) => module.default,
+      (error: unknown) => {
+        this.sharp = undefined;
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Image optimization requires the optional "sharp" package (npm install sharp): ${reason}`);
+      }
+    );
+    return this.sharp;
+  }
+}
+
+/**
+ * ImageOptimizer shrinks localized images after they are downloaded.
+ *
+ * For JPEG and PNG images it:
+ * - writes each configured modern format (WebP, AVIF) next to the image as
+ *   `<filename>.<format>`, encoded from the original
+ * - re-encodes the image in place, scaled down to `maxWidth` and without
+ *   metadata, keeping the result only if it is smaller than the original
+ *
+ * Other formats are left as they are. Files are written through a temp file,
+ * so a failed encode never leaves a truncated image behind.
+ *
+ * @example
+ * ```typescript
+ * const optimizer = new ImageOptimizer({ maxWidth: 1600, quality: 80, formats: ['webp'] });
+ * const result = await optimizer.optimize('./blog/my-post/uuid.jpg');
+ * // result.variants[0].filepath === './blog/my-post/uuid.jpg.webp'
+ * ```
+ */
+export class ImageOptimizer {
+  private readonly maxWidth?: number;
+  private readonly quality: number;
+  private readonly formats: ModernImageFormat[];
+  private readonly stripMetadata: boolean;
+  private readonly codec: ImageCodec;
+
+  /**
+   * @param config - Optimization options
+   * @throws {Error} If `maxWidth` is not a positive integer or `quality` is not between 1 and 100
+   */
+  constructor(config?: ImageOptimizerConfig) {
+    this.maxWidth = config?.maxWidth;
+    this.quality = config?.quality ?? 80;
+    this.formats = Array.from(new Set(config?.formats ?? []));
+    this.stripMetadata = config?.stripMetadata ?? true;
+    this.codec = config?.codec ?? new SharpImageCodec();
+
+    if (this.maxWidth !== undefined && (!Number.isInteger(this.maxWidth) || this.maxWidth <= 0)) {
+      throw new Error(`maxWidth must be a positive integer, got ${this.maxWidth}`);
+    }
+    if (!Number.isInteger(this.quality) || this.quality < 1 || this.quality > 100) {
+      throw new Error(`quality must be an integer between 1 and 100, got ${this.quality}`);
+    }
+  }
+
+  /**
+   * Optimize an image in place and write its modern-format copies.
+   *
+   * @param filepath - Downloaded image
+   * @param withVariants - Write the modern-format copies (false only re-encodes the image)
+   * @returns What was written; nothing for unsupported formats
+   * @throws {Error} If the image can't be decoded or encoded (the original is kept)
+   */
+  async optimize(filepath: string, withVariants = true): Promise<OptimizedImage> {
+    const format = OPTIMIZED_FORMATS[path.extname(filepath).toLowerCase()];
+    if (!format) {
+      return { recompressed: false, savedBytes: 0, variants: [] };
+    }
+
+    const options = { maxWidth: this.maxWidth, quality: this.quality, stripMetadata: this.stripMetadata };
+
+    // Copies are encoded from the original so they don't inherit a second round of loss
+    const variants: ImageVariant[] = [];
+    for (const variantFormat of withVariants ? this.formats : []) {
+      const variantPath = `${filepath}.${variantFormat}`;
+      const size = await this.encodeToTemp(filepath, variantPath, { ...options, format: variantFormat });
+      fs.renameSync(`${variantPath}.tmp`, variantPath);
+      variants.push({ format: variantFormat, filepath: variantPath, size });
+    }
+
+    const originalSize = fs.statSync(filepath).size;
+    const size = await this.encodeToTemp(filepath, filepath, { ...options, format });
+
+    // Re-encoding an already optimized image can make it larger
+    if (size >= originalSize) {
+      fs.unlinkSync(`${filepath}.tmp`);
+      return { recompressed: false, savedBytes: 0, variants };
+    }
+    fs.renameSync(`${filepath}.tmp`, filepath);
+    return { recompressed: true, savedBytes: originalSize - size, variants };
+  }
+
+  /**
+   * Encode an image into `<output>.tmp`, removing the temp file on failure.
+   *
+   * @returns Size of the temp file in bytes
+   */
+  private async encodeToTemp(input: string, output: string, options: ImageEncodeOptions): Promise<number> {
+    const tempPath = `${output}.tmp`;
+    try {
+      return (await this.codec.encode(input, tempPath, options)).size;
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { AltTextIssue } from '../processors/alt-text-auditor.js';
 
 /**
  * Logger configuration options
@@ -31,6 +32,24 @@ export interface Http403Error {
   timestamp: string;
 }
 
+/**
+ * Image left remote by offline mode (no cached or pre-fetched copy)
+ */
+export interface OfflineMiss {
+  slug: string;
+  filename: string;
+  url: string;
+  timestamp: string;
+}
+
+/**
+ * Image with missing or meaningless alt text
+ */
+export interface AltTextWarning extends AltTextIssue {
+  slug: string;
+  timestamp: string;
+}
+
 /**
  * Logger service for dual-output logging (console + file)
  * Tracks conversion progress, errors, and generates summaries
@@ -39,6 +58,8 @@ export class Logger {
   private logFilePath: string | null;
   private fileStream: fs.WriteStream | null;
   private http403Errors: Http403Error[];
+  private offlineMisses: OfflineMiss[];
+  private altTextWarnings: AltTextWarning[];
   private startTime: number;
   private verbosity: 'quiet' | 'normal' | 'verbose';
 
@@ -51,6 +72,8 @@ export class Logger {
     // Note: 'verbose' mode is reserved for future enhancements
     // Currently behaves identically to 'normal' mode
     this.http403Errors = [];
+    this.offlineMisses = [];
+    this.altTextWarnings = [];
     this.startTime = Date.now();
     this.fileStream = null;
     this.logFilePath = null;
@@ -194,12 +217,56 @@ export class Logger {
   }
 
   /**
-   * Write detailed HTTP 403 error section
+   * Track an image that offline mode could not resolve locally
+   * @param slug - Post slug containing the image
+   * @param filename - Local filename the image would have had
+   * @param url - Image URL left in the post
    */
-  private writeHttp403Section(): void {
+  trackOfflineMiss(slug: string, filename: string, url: string): void {
+    this.offlineMisses.push({
+      slug,
+      filename,
+      url,
+      timestamp: this.getTimestamp(),
+    });
+  }
+
+  /**
+   * Track an image with missing or meaningless alt text
+   * @param slug - Post slug containing the image
+   * @param issue - Alt text problem, and the alt text filled in if any
+   */
+  trackAltTextIssue(slug: string, issue: AltTextIssue): void {
+    this.altTextWarnings.push({
+      ...issue,
+      slug,
+      timestamp: this.getTimestamp(),
+    });
+  }
+
+  /**
+   * Describe an alt text problem for the summary
+   * @param warning - Tracked alt text issue
+   * @returns Description (e.g., 'filename alt text "IMG_2041.jpg" (filled from caption: "Request flow")')
+   */
+  private describeAltText(warning: AltTextWarning): string {
+    const description =
+      warning.problem === 'empty' ? 'empty alt text' : `${warning.problem} alt text "${warning.alt}"`;
+    return warning.filledAlt !== undefined
+      ? `${description} (filled from ${warning.filledFrom}: "${warning.filledAlt}")`
+      : description;
+  }
+
+  /**
+   * Write detailed image section (HTTP 403 failures, offline misses or alt
+   * text issues), grouped by post
+   * @param title - Section title
+   * @param images - Tracked images
+   */
+  private writeImageSection(title: string, images: Array<Http403Error | OfflineMiss | AltTextWarning>): void {
     const divider = '='.repeat(80);
-    const uniquePosts = new Set(this.http403Errors.map((e) => e.slug)).size;
-    const header = `\n${divider}\nHTTP 403 IMAGE FAILURES (${this.http403Errors.length} images across ${uniquePosts} posts)\n${divider}\n`;
+    const uniquePosts = new Set(images.map((e) => e.slug)).size;
+    const header = `\n${divider}\n${title} (${images.length} images across ${uniquePosts} posts)\n${divider}\n`;
 
     console.log(header);
     if (this.fileStream) {
@@ -207,8 +274,8 @@ export class Logger {
     }
 
     // Group errors by slug
-    const errorsBySlug: Record<string, Http403Error[]> = {};
-    this.http403Errors.forEach((error) => {
+    const errorsBySlug: Record<string, Array<Http403Error | OfflineMiss | AltTextWarning>> = {};
+    images.forEach((error) => {
       if (!errorsBySlug[error.slug]) {
         errorsBySlug[error.slug] = [];
       }
@@ -224,8 +291,9 @@ export class Logger {
       }
 
       errors.forEach((error, index) => {
-        const errorLine = `  ✗ [${index + 1}/${errors.length}] ${error.filename}\n    ${error.url}\n`;
-        console.log(`  ✗ [${index + 1}/${errors.length}] ${error.filename}`);
+        const label = 'filename' in error ? error.filename : this.describeAltText(error);
+        const errorLine = `  ✗ [${index + 1}/${errors.length}] ${label}\n    ${error.url}\n`;
+        console.log(`  ✗ [${index + 1}/${errors.length}] ${label}`);
         console.log(`    ${error.url}`);
         if (this.fileStream) {
           this.fileStream.write(errorLine);
@@ -248,6 +316,10 @@ export class Logger {
    */
   writeSummary(converted: number, skipped: number, errors: number): void {
     const divider = '='.repeat(80);
+    const offlineLine =
+      this.offlineMisses.length > 0 ? `⚠ Image Offline Misses: ${this.offlineMisses.length} images\n` : '';
+    const altTextLine =
+      this.altTextWarnings.length > 0 ? `⚠ Alt Text Issues: ${this.altTextWarnings.length} images\n` : '';
     const summary = `
 ${divider}
 CONVERSION SUMMARY
@@ -258,7 +330,7 @@ ${divider}
 ⏭  Skipped: ${skipped} posts
 ✗ Post Errors: ${errors}
 ✗ Image 403 Failures: ${this.http403Errors.length} images
-${divider}
+${offlineLine}${altTextLine}${divider}
 `;
 
     console.log(summary);
@@ -268,7 +340,17 @@ ${divider}
 
     // Write 403 error section if any exist
     if (this.http403Errors.length > 0) {
-      this.writeHttp403Section();
+      this.writeImageSection('HTTP 403 IMAGE FAILURES', this.http403Errors);
+    }
+
+    // Write offline miss section if any exist
+    if (this.offlineMisses.length > 0) {
+      this.writeImageSection('OFFLINE MISSES', this.offlineMisses);
+    }
+
+    // Write alt text section if any issues were found
+    if (this.altTextWarnings.length > 0) {
+      this.writeImageSection('ALT TEXT ISSUES', this.altTextWarnings);
     }
   }
 
@@ -0,0 +1,90 @@
+import * as path from 'node:path';
+import { AstroFrontmatterGenerator } from '../processors/astro-frontmatter-generator.js';
+import type { AstroField } from '../processors/astro-frontmatter-generator.js';
+import type { PostMetadata } from '../types/hashnode-schema.js';
+import type { OutputTarget, SupportFile } from '../types/output-target.js';
+import type { PostLayoutContext } from '../types/post-layout.js';
+
+/**
+ * Configuration options for AstroTarget
+ */
+export interface AstroTargetOptions {
+  /**
+   * Content collection name (used as the directory under `src/content/`
+   * and as the collection key in `config.ts`)
+   * @default 'blog'
+   */
+  collection?: string;
+
+  /**
+   * Additional frontmatter fields, added to both the posts and the schema
+   */
+  extraFields?: AstroField[];
+}
+
+const COLLECTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Astro content collections output target.
+ *
+ * Writes each post to `src/content/<collection>/<slug>.md` and generates
+ * `src/content/config.ts` with a zod schema matching the emitted
+ * frontmatter. Images are stored in `src/content/<collection>/<slug>/` and
+ * linked relatively so Astro can optimize them.
+ *
+ * @example
+ * ```typescript
+ * await Converter.fromExportFile('./export.json', './my-astro-site', { target: 'astro' });
+ * // ./my-astro-site/src/content/config.ts
+ * // ./my-astro-site/src/content/blog/my-post.md
+ * // ./my-astro-site/src/content/blog/my-post/<uuid>.png  (linked as ./my-post/<uuid>.png)
+ * ```
+ */
+export class AstroTarget implements OutputTarget {
+  readonly name = 'astro';
+
+  private readonly collection: string;
+  private readonly collectionDir: string;
+  private frontmatterGenerator: AstroFrontmatterGenerator;
+
+  /**
+   * @throws {Error} If the collection name or an extra field is invalid
+   */
+  constructor(options?: AstroTargetOptions) {
+    this.collection = options?.collection ?? 'blog';
+    if (!COLLECTION_NAME_PATTERN.test(this.collection)) {
+      throw new Error(`Invalid Astro collection name: ${this.collection}`);
+    }
+    this.collectionDir = path.join('src', 'content', this.collection);
+    this.frontmatterGenerator = new AstroFrontmatterGenerator(options?.extraFields);
+  }
+
+  postPath(context: PostLayoutContext): string {
+    return path.join(this.collectionDir, `${context.slug}.md`);
+  }
+
+  existencePath(context: PostLayoutContext): string {
+    return this.postPath(context);
+  }
+
+  imageDir(context: PostLayoutContext): string {
+    return path.join(this.collectionDir, context.slug);
+  }
+
+  imageLink(filename: string, context: PostLayoutContext): string {
+    return `./${context.slug}/${filename}`;
+  }
+
+  generateFrontmatter(metadata: PostMetadata): string {
+    return this.frontmatterGenerator.generate(metadata);
+  }
+
+  supportFiles(): SupportFile[] {
+    return [
+      {
+        path: path.join('src', 'content', 'config.ts'),
+        content: this.frontmatterGenerator.generateSchema(this.collection),
+      },
+    ];
+  }
+}
@@ -0,0 +1,39 @@
+import * as path from 'node:path';
+import type { PostLayout, PostLayoutContext } from '../types/post-layout.js';
+
+/**
+ * Directory-per-post layout (page bundle).
+ *
+ * Each post is written to `<contentDir>/<slug>/index.md` (or another
+ * filename, such as `index.mdx`) and its images are
+ * stored next to it, referenced with `./<filename>` links. A post counts as
+ * existing when its directory exists.
+ *
+ * This is the layout used by the default Markdown target and by Hugo.
+ */
+export class DirectoryLayout implements PostLayout {
+  /**
+   * @param contentDir - Directory holding post bundles, relative to the output directory
+   * @param filename - Name of the markdown file inside each bundle
+   */
+  constructor(
+    private readonly contentDir = '',
+    private readonly filename = 'index.md'
+  ) {}
+
+  postPath(context: PostLayoutContext): string {
+    return path.join(this.contentDir, context.slug, this.filename);
+  }
+
+  existencePath(context: PostLayoutContext): string {
+    return path.join(this.contentDir, context.slug);
+  }
+
+  imageDir(context: PostLayoutContext): string {
+    return path.join(this.contentDir, context.slug);
+  }
+
+  imageLink(filename: string): string {
+    return `./${filename}`;
+  }
+}
@@ -0,0 +1,43 @@
+import * as path from 'node:path';
+import { HugoFrontmatterGenerator } from '../processors/hugo-frontmatter-generator.js';
+import { DirectoryLayout } from './directory-layout.js';
+import type { PostMetadata } from '../types/hashnode-schema.js';
+import type { OutputTarget } from '../types/output-target.js';
+
+/**
+ * Hugo output target.
+ *
+ * Writes each post as a leaf page bundle at `content/posts/<slug>/index.md`
+ * with TOML frontmatter. Images are downloaded into the bundle directory so
+ * Hugo can process them as page resources.
+ *
+ * Hugo only publishes files under `static/` as-is, so the shared asset store
+ * defaults to `static/assets`. Its assets are linked by their site path
+ * (`/assets/<hash>/<name>`) rather than relative to the post file, because
+ * Hugo serves pages at their permalink, not at their content path.
+ *
+ * @example
+ * ```typescript
+ * await Converter.fromExportFile('./export.json', './my-hugo-site', { target: 'hugo' });
+ * // ./my-hugo-site/content/posts/my-post/index.md
+ * // ./my-hugo-site/content/posts/my-post/<uuid>.png
+ * ```
+ */
+export class HugoTarget extends DirectoryLayout implements OutputTarget {
+  readonly name = 'hugo';
+  readonly sharedAssetDir = 'static/assets';
+
+  private frontmatterGenerator = new HugoFrontmatterGenerator();
+
+  constructor() {
+    super(path.join('content', 'posts'));
+  }
+
+  sharedAssetLink(assetPath: string): string {
+    return `/${assetPath.replace(/^static\//, '')}`;
+  }
+
+  generateFrontmatter(metadata: PostMetadata): string {
+    return this.frontmatterGenerator.generate(metadata);
+  }
+}
@@ -0,0 +1,141 @@
+import * as path from 'node:path';
+import { JekyllFrontmatterGenerator } from '../processors/jekyll-frontmatter-generator.js';
+import type { PostMetadata } from '../types/hashnode-schema.js';
+import type { OutputTarget } from '../types/output-target.js';
+import type { PostLayoutContext } from '../types/post-layout.js';
+
+/**
+ * Configuration options for JekyllTarget
+ */
+export interface JekyllTargetOptions {
+  /**
+   * Jekyll layout written to each post's frontmatter
+   * @default 'post'
+   */
+  layout?: string;
+
+  /**
+   * Permalink template written to each post's frontmatter.
+   * Supports `:slug`, `:year`, `:month` and `:day` placeholders; set to
+   * `false` to omit the permalink and use the site's permalink setting.
+   * @default '/:slug/'
+   */
+  permalink?: string | false;
+
+  /**
+   * Categories applied to every post.
+   * When omitted, each post's tags are used as its categories.
+   */
+  categories?: string[];
+
+  /**
+   * Site base URL prepended to image links (e.g., '/blog' for a site
+   * served from a subpath). Use '' for sites served from the domain root.
+   * @default ''
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Calendar date of a post in UTC, as used in Jekyll filenames
+ */
+interface PostDate {
+  year: string;
+  month: string;
+  day: string;
+}
+
+/**
+ * Jekyll output target.
+ *
+ * Writes each post to `_posts/YYYY-MM-DD-<slug>.md` (date taken from
+ * `dateAdded`, in UTC) with Jekyll frontmatter. Images are downloaded into
+ * the shared `assets/images/<slug>/` folder and linked with absolute site
+ * paths, since the post file no longer sits next to its images.
+ *
+ * @example
+ * ```typescript
+ * await Converter.fromExportFile('./export.json', './my-jekyll-site', { target: 'jekyll' });
+ * // ./my-jekyll-site/_posts/2024-01-15-my-post.md
+ * // ./my-jekyll-site/assets/images/my-post/<uuid>.png  (linked as /assets/images/my-post/<uuid>.png)
+ * ```
+ */
+export class JekyllTarget implements OutputTarget {
+  readonly name = 'jekyll';
+
+  private readonly permalink: string | false;
+  private readonly baseUrl: string;
+  private frontmatterGenerator: JekyllFrontmatterGenerator;
+
+  constructor(options?: JekyllTargetOptions) {
+    this.permalink = options?.permalink ?? '/:slug/';
+    this.baseUrl = (options?.baseUrl ?? '').replace(/\/+$/, '');
+    this.frontmatterGenerator = new JekyllFrontmatterGenerator({
+      layout: options?.layout,
+      categories: options?.categories,
+    });
+  }
+
+  /**
+   * @throws {Error} If the post has no valid `dateAdded`
+   */
+  postPath(context: PostLayoutContext): string {
+    const { year, month, day } = this.postDate(context.dateAdded);
+    return path.join('_posts', `${year}-${month}-${day}-${context.slug}.md`);
+  }
+
+  existencePath(context: PostLayoutContext): string {
+    return this.postPath(context);
+  }
+
+  imageDir(context: PostLayoutContext): string {
+    return path.join('assets', 'images', context.slug);
+  }
+
+  imageLink(filename: string, context: PostLayoutContext): string {
+    return `${this.baseUrl}/assets/images/${context.slug}/${filename}`;
+  }
+
+  sharedAssetLink(assetPath: string): string {
+    return `${this.baseUrl}/${assetPath}`;
+  }
+
+  generateFrontmatter(metadata: PostMetadata): string {
+    return this.frontmatterGenerator.generate(metadata, this.resolvePermalink(metadata));
+  }
+
+  /**
+   * Fill the permalink template with the post's slug and date.
+   * Date placeholders are left as-is when the date is invalid.
+   */
+  private resolvePermalink(metadata: PostMetadata): string | undefined {
+    if (this.permalink === false) {
+      return undefined;
+    }
+
+    let permalink = this.permalink.replace(/:slug\b/g, metadata.slug);
+    try {
+      const { year, month, day } = this.postDate(metadata.dateAdded);
+      permalink = permalink
+        .replace(/:year\b/g, year)
+        .replace(/:month\b/g, month)
+        .replace(/:day\b/g, day);
+    } catch {
+      // Leave date placeholders for Jekyll to resolve
+    }
+    return permalink;
+  }
+
+  /**
+   * Extract the UTC calendar date from a post's `dateAdded`.
+   * @throws {Error} If the date is missing or cannot be parsed
+   */
+  private postDate(dateAdded: string | undefined): PostDate {
+    const date = new Date(dateAdded ?? '');
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid post date for Jekyll filename: ${dateAdded ?? '(missing)'}`);
+    }
+    const iso = date.toISOString();
+    return { year: iso.slice(0, 4), month: iso.slice(5, 7), day: iso.slice(8, 10) };
+  }
+}
@@ -0,0 +1,28 @@
+import { FrontmatterGenerator } from '../processors/frontmatter-generator.js';
+import { DirectoryLayout } from './directory-layout.js';
+import type { PostMetadata } from '../types/hashnode-schema.js';
+import type { OutputTarget } from '../types/output-target.js';
+
+/**
+ * Default output target: framework-agnostic Markdown.
+ *
+ * Writes `<output>/<slug>/index.md` with YAML frontmatter and stores
+ * images next to the markdown file.
+ */
+export class MarkdownTarget extends DirectoryLayout implements OutputTarget {
+  readonly name = 'markdown';
+
+  private frontmatterGenerator: FrontmatterGenerator;
+
+  /**
+   * @param frontmatterGenerator - YAML generator to use (defaults to a new FrontmatterGenerator)
+   */
+  constructor(frontmatterGenerator?: FrontmatterGenerator) {
+    super();
+    this.frontmatterGenerator = frontmatterGenerator ?? new FrontmatterGenerator();
+  }
+
+  generateFrontmatter(metadata: PostMetadata): string {
+    return this.frontmatterGenerator.generate(metadata);
+  }
+}
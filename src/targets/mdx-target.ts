@@ -0,0 +1,121 @@
+import { FrontmatterGenerator } from '../processors/frontmatter-generator.js';
+import { MdxEmbedRenderer } from '../processors/mdx-embed-renderer.js';
+import { PictureRenderer } from '../processors/picture-renderer.js';
+import { CodeMasker } from '../processors/code-masker.js';
+import { MdxEscaper } from '../processors/mdx-escaper.js';
+import type { ImageElement, PictureElement } from '../processors/picture-renderer.js';
+import type { MdxEmbedComponent, MdxEmbedComponentMap } from '../processors/mdx-embed-renderer.js';
+import { DirectoryLayout } from './directory-layout.js';
+import type { PostMetadata } from '../types/hashnode-schema.js';
+import type { OutputTarget } from '../types/output-target.js';
+
+/**
+ * Component rendering images whose dimensions are written (e.g., `Image`
+ * from `next/image`). It receives `src`, `alt`, `title`, `width` and
+ * `height` props.
+ */
+export type MdxImageComponent = Omit<MdxEmbedComponent, 'props'>;
+
+/**
+ * Configuration options for MdxTarget
+ */
+export interface MdxTargetOptions {
+  /**
+   * Component used for each embed kind.
+   * @default DEFAULT_MDX_EMBED_COMPONENTS - globally provided components, no imports
+   */
+  components?: MdxEmbedComponentMap;
+
+  /**
+   * Component used for images when their dimensions are written
+   * (`writeDimensions`). The import line is added to posts that use it.
+   * @default undefined (JSX `<img>` elements)
+   */
+  imageComponent?: MdxImageComponent;
+
+  /**
+   * Directory holding post bundles, relative to the output directory
+   * @default ''
+   */
+  contentDir?: string;
+
+  /**
+   * YAML generator to use (defaults to a new FrontmatterGenerator)
+   */
+  frontmatterGenerator?: FrontmatterGenerator;
+}
+
+/**
+ * MDX output target.
+ *
+ * Writes `<output>/<slug>/index.mdx` with YAML frontmatter and converts
+ * Hashnode `%[url]` embed directives into JSX component calls, adding the
+ * import lines for the configured components after the frontmatter.
+ * The body is escaped with an {@link MdxEscaper} first, so braces, `<`,
+ * HTML comments and void elements outside code compile as MDX.
+ * Optimized images with modern-format copies are linked through
+ * `<picture>` elements by default (`imageMarkup`). These and images with
+ * their dimensions are written as JSX, the latter optionally with a
+ * framework image component.
+ *
+ * @example
+ * ```typescript
+ * await Converter.fromExportFile('./export.json', './content', {
+ *   target: new MdxTarget({
+ *     components: {
+ *       youtube: { component: 'YouTube', from: '@/components/YouTube' },
+ *       generic: { component: 'LinkCard', from: '@/components/LinkCard', props: (e) => ({ href: e.url }) },
+ *     },
+ *     imageComponent: { component: 'Image', from: 'next/image' },
+ *   }),
+ * });
+ * ```
+ */
+export class MdxTarget extends DirectoryLayout implements OutputTarget {
+  readonly name = 'mdx';
+  readonly imageMarkup = 'picture';
+
+  private frontmatterGenerator: FrontmatterGenerator;
+  private embedRenderer: MdxEmbedRenderer;
+  private pictureRenderer: PictureRenderer;
+  private imageComponent?: MdxImageComponent;
+  private codeMasker = new CodeMasker();
+  private escaper = new MdxEscaper();
+
+  /**
+   * @throws {Error} If a configured component name is invalid
+   */
+  constructor(options?: MdxTargetOptions) {
+    super(options?.contentDir ?? '', 'index.mdx');
+    this.frontmatterGenerator = options?.frontmatterGenerator ?? new FrontmatterGenerator();
+    this.embedRenderer = new MdxEmbedRenderer(options?.components);
+    this.imageComponent = options?.imageComponent;
+    this.pictureRenderer = new PictureRenderer({ jsx: true, imageComponent: this.imageComponent?.component });
+  }
+
+  generateFrontmatter(metadata: PostMetadata): string {
+    return this.frontmatterGenerator.generate(metadata);
+  }
+
+  transformContent(markdown: string): string {
+    const component = this.imageComponent;
+    const imported = component && this.usesComponent(markdown, component.component) ? [component] : [];
+    return this.embedRenderer.render(this.escaper.escape(markdown), imported);
+  }
+
+  renderPicture(picture: PictureElement): string {
+    return this.pictureRenderer.render(picture);
+  }
+
+  renderImage(image: ImageElement): string {
+    return this.pictureRenderer.renderImage(image);
+  }
+
+  /**
+   * Check whether a component is used outside code.
+   */
+  private usesComponent(markdown: string, component: string): boolean {
+    const name = component.replace(/\./g, '\\.');
+    return new RegExp(`<${name}[\\s/>]`).test(this.codeMasker.mask(markdown).markdown);
+  }
+}
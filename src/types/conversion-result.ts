@@ -1,3 +1,6 @@
+import type { AltTextIssue } from '../processors/alt-text-auditor.js';
+import type { PlannedImage } from './image-processor.js';
+
 /**
  * Represents an error that occurred during conversion of a single post
  */
@@ -41,6 +44,27 @@ export interface ConvertedPost {
    * Optional error message if conversion failed (only present if success is false)
    */
   error?: string;
+
+  /**
+   * Images with missing or meaningless alt text (only present when the alt
+   * text audit is enabled)
+   */
+  altTextIssues?: AltTextIssue[];
+}
+
+/**
+ * Accessibility issues found in a single post
+ */
+export interface PostAccessibilityReport {
+  /**
+   * The slug of the post
+   */
+  slug: string;
+
+  /**
+   * Images with empty, filename-like or placeholder alt text, in document order
+   */
+  altTextIssues: AltTextIssue[];
 }
 
 /**
@@ -68,4 +92,78 @@ export interface ConversionResult {
    * Example: "2.5s", "1m 30s"
    */
   duration: string;
+
+  /**
+   * Posts with accessibility issues, in export order. Only present when the
+   * alt text audit is enabled (`downloadOptions.altText`); posts without
+   * issues and skipped posts are not listed.
+   */
+  accessibility?: PostAccessibilityReport[];
+
+  /**
+   * What a run would do. Only present in a dry run (`dryRun: true`), where
+   * nothing is converted: `converted` is 0 and `plan.planned` counts the
+   * posts that would be written.
+   */
+  plan?: ConversionPlan;
+}
+
+/**
+ * What a dry run found a post would need:
+ * - `create`: the post file would be written
+ * - `overwrite`: the post file exists and would be replaced
+ * - `skip`: the post exists and `skipExisting` is enabled
+ * - `error`: the post could not be parsed or transformed, or could not be written
+ */
+export type PlannedPostAction = 'create' | 'overwrite' | 'skip' | 'error';
+
+/**
+ * A post in a dry-run plan
+ */
+export interface PlannedPost {
+  /**
+   * The slug of the post
+   */
+  slug: string;
+
+  /**
+   * What a run would do with the post
+   */
+  action: PlannedPostAction;
+
+  /**
+   * Absolute path of the post file. Not set when the path could not be resolved.
+   */
+  outputPath?: string;
+
+  /**
+   * Images that would be fetched for the post (empty for skipped posts)
+   */
+  images: PlannedImage[];
+
+  /**
+   * Why the post would fail (only present for the `error` action)
+   */
+  error?: string;
+}
+
+/**
+ * Result of a dry run
+ */
+export interface ConversionPlan {
+  /**
+   * Every post of the export, in export order
+   */
+  posts: PlannedPost[];
+
+  /**
+   * Number of posts that would be written (created or overwritten)
+   */
+  planned: number;
+
+  /**
+   * Absolute paths of the support files the output target would write
+   * (e.g., the Astro content schema)
+   */
+  supportFiles: string[];
 }
@@ -103,6 +103,47 @@ export interface ImageDownloadedEvent {
   is403?: boolean;
 }
 
+/**
+ * Event payload emitted before an image download is retried.
+ * Lets consumers see throttling and flaky hosts while a post converts.
+ */
+export interface ImageRetryEvent {
+  /**
+   * Local filename of the image (e.g., "uuid.png")
+   */
+  filename: string;
+
+  /**
+   * Post slug this image belongs to
+   */
+  postSlug: string;
+
+  /**
+   * URL being downloaded
+   */
+  url: string;
+
+  /**
+   * 1-based number of the retry
+   */
+  retry: number;
+
+  /**
+   * Maximum number of retries for the download
+   */
+  maxRetries: number;
+
+  /**
+   * Delay before the retry in milliseconds (backoff or `Retry-After`)
+   */
+  delayMs: number;
+
+  /**
+   * Error of the failed attempt
+   */
+  error: string;
+}
+
 /**
  * Event payload for conversion errors.
  * Emitted for both recoverable and fatal errors.
@@ -137,5 +178,6 @@ export interface ConverterEventMap {
   'conversion-starting': ConversionStartingEvent;
   'conversion-completed': ConversionCompletedEvent;
   'image-downloaded': ImageDownloadedEvent;
+  'image-retry': ImageRetryEvent;
   'conversion-error': ConversionErrorEvent;
 }
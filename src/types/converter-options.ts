@@ -1,3 +1,14 @@
+import type { RateLimitConfig } from '../services/download-queue.js';
+import type { ImageFilenameStrategy } from '../services/image-filenamer.js';
+import type { AssetStoreConfig } from '../services/asset-store.js';
+import type { HttpCacheConfig } from '../services/http-cache.js';
+import type { HttpTransport, NodeHttpTransportConfig } from '../services/http-transport.js';
+import type { CircuitBreakerConfig, RedirectPolicy } from '../services/image-downloader.js';
+import type { MarkdownTransformerOptions } from '../processors/markdown-transformer.js';
+import type { AltTextAuditOptions } from '../processors/alt-text-auditor.js';
+import type { ImageOptimizationOptions } from './image-processor.js';
+import type { OutputTarget, OutputTargetName } from './output-target.js';
+
 /**
  * Configuration options for downloading images
  */
@@ -9,11 +20,43 @@ export interface ImageDownloadOptions {
   maxRetries?: number;
 
   /**
-   * Delay between retry attempts in milliseconds.
+   * Delay before the first retry in milliseconds, multiplied by
+   * `backoffMultiplier` for each further retry.
    * @default 1000
    */
   retryDelayMs?: number;
 
+  /**
+   * Exponential backoff factor between retries.
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Longest retry delay in milliseconds; longer `Retry-After` waits end the retries.
+   * @default 30000
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Randomize retry delays (between 50% and 100% of the backoff).
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Maximum number of retries across the whole conversion run.
+   * @default unlimited
+   */
+  retryBudget?: number;
+
+  /**
+   * Consecutive failures after which a host's downloads fail immediately
+   * for a cooldown (`{ failureThreshold, cooldownMs }`), or false to disable.
+   * @default { failureThreshold: 5, cooldownMs: 30000 }
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+
   /**
    * HTTP request timeout in milliseconds.
    * @default 30000
@@ -22,9 +65,132 @@ export interface ImageDownloadOptions {
 
   /**
    * Delay between sequential downloads (for rate limiting).
+   * Converted into a token-bucket rate unless `rateLimit` is provided.
    * @default 0
    */
   downloadDelayMs?: number;
+
+  /**
+   * Maximum number of image downloads in flight across all posts.
+   * @default 4
+   */
+  maxConcurrentDownloads?: number;
+
+  /**
+   * Maximum number of image downloads in flight for a single host.
+   * @default 2
+   */
+  maxConnectionsPerHost?: number;
+
+  /**
+   * Token-bucket rate limit for starting downloads.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Hosts whose images are downloaded: exact hostnames, `*.domain`
+   * wildcards or `*` for any host.
+   * @default ['cdn.hashnode.com']
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Hosts whose images are never downloaded. Takes precedence over `allowedHosts`.
+   * @default []
+   */
+  deniedHosts?: string[];
+
+  /**
+   * Filename strategy for images without a Hashnode UUID filename.
+   * @default 'hash'
+   */
+  filenameStrategy?: ImageFilenameStrategy;
+
+  /**
+   * Persistent HTTP cache shared across runs and output directories, so
+   * several conversions of the same export download each image once.
+   * An empty object uses `~/.cache/hashnode-converter`.
+   * @default undefined (no cache)
+   */
+  cache?: HttpCacheConfig;
+
+  /**
+   * Convert without network access: images are resolved only from `cache`
+   * and `prefetchedDir`, and images found in neither keep their remote URLs
+   * (reported as offline misses, not failures).
+   * @default false
+   */
+  offline?: boolean;
+
+  /**
+   * Directory of pre-fetched images named by their local filename, used in
+   * offline mode.
+   */
+  prefetchedDir?: string;
+
+  /**
+   * Custom transport for the download requests. Takes precedence over
+   * `transportOptions`.
+   */
+  transport?: HttpTransport;
+
+  /**
+   * Proxy (`proxy`, `noProxy`) and extra CA (`caFile`) options of the
+   * default transport, overriding the `HTTPS_PROXY`, `HTTP_PROXY` and
+   * `NO_PROXY` environment variables.
+   */
+  transportOptions?: NodeHttpTransportConfig;
+
+  /**
+   * Maximum number of redirects followed per image request.
+   * @default 10
+   */
+  maxRedirects?: number;
+
+  /**
+   * Redirects to refuse: set `allowCrossHost: false` to stay on the image's
+   * host, `allowDowngrade: false` to refuse HTTPS to HTTP redirects.
+   */
+  redirectPolicy?: RedirectPolicy;
+
+  /**
+   * Maximum size of a downloaded image in bytes; larger downloads are aborted.
+   * @default 52428800 (50 MiB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Check downloads against their `Content-Type` and file signature, and fix
+   * extensions that don't match the served format.
+   * @default true
+   */
+  validateImages?: boolean;
+
+  /**
+   * Optimize downloaded JPEG/PNG images (`maxWidth`, `quality`,
+   * `stripMetadata`) and write WebP/AVIF copies (`formats`), linked directly
+   * or through `<picture>` elements (`markup`). Needs the optional `sharp`
+   * package unless a custom `codec` is given.
+   * @default undefined (no optimization)
+   */
+  optimize?: ImageOptimizationOptions;
+
+  /**
+   * Write the pixel dimensions of localized images into the post: inline
+   * images become `<img width height>` elements (or the target's image
+   * component) and HTML `<img>` tags without dimensions get both attributes.
+   * @default false
+   */
+  writeDimensions?: boolean;
+
+  /**
+   * Audit the alt text of each post's images and report empty, filename-like
+   * or placeholder alt text in `ConversionResult.accessibility`. With
+   * `fill`, the alt text is taken from the image's caption, title or the
+   * preceding heading (`sources`) where one is found.
+   * @default undefined (no audit)
+   */
+  altText?: AltTextAuditOptions;
 }
 
 /**
@@ -56,6 +222,47 @@ export interface ConversionOptions {
    */
   skipExisting?: boolean;
 
+  /**
+   * Maximum number of posts converted in parallel.
+   * Must be a positive integer. Event indices and result ordering
+   * always follow the order of posts in the export file.
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Output target that decides the on-disk layout and frontmatter format.
+   * Use a built-in target name (`'markdown'`, `'hugo'`, `'jekyll'`, `'astro'`, `'mdx'`) or a custom
+   * {@link OutputTarget} implementation.
+   * @default 'markdown'
+   */
+  target?: OutputTargetName | OutputTarget;
+
+  /**
+   * Download each post's cover image (when its host is allowed) into the
+   * post's image directory and reference the local file in frontmatter.
+   * When false, frontmatter keeps the remote cover image URL.
+   * @default true
+   */
+  downloadCoverImages?: boolean;
+
+  /**
+   * Keep images in a shared, content-addressed store
+   * (`<dir>/<sha256-prefix>/<name>` in the output directory) instead of
+   * each post's image directory. Identical images are stored once and
+   * `<dir>/manifest.json` records which posts reference each asset.
+   * Pass `true` for the target's default directory (`assets`, or
+   * `static/assets` for Hugo).
+   * @default false
+   */
+  sharedAssets?: boolean | AssetStoreConfig;
+
+  /**
+   * Markdown transformation options (e.g., embed fallbacks).
+   * When omitted, the Converter's MarkdownTransformer is used as configured.
+   */
+  markdownOptions?: MarkdownTransformerOptions;
+
   /**
    * Image download configuration options.
    */
@@ -65,4 +272,15 @@ export interface ConversionOptions {
    * Logger configuration options.
    */
   loggerConfig?: LoggerConfig;
+
+  /**
+   * Plan the conversion without changing anything: posts are parsed and
+   * transformed, and `ConversionResult.plan` lists the posts that would be
+   * created, overwritten or skipped and the images that would be fetched.
+   * No file or directory is written (not even the log file or the summary
+   * of an injected logger), nothing is downloaded, and no per-post events
+   * are emitted.
+   * @default false
+   */
+  dryRun?: boolean;
 }
@@ -141,4 +141,10 @@ export interface PostMetadata {
 
   /** Optional array of validated tag strings (undefined if no valid tags) */
   tags?: string[];
+
+  /** Optional ISO 8601 date string of the last update (undefined if missing or invalid) */
+  updatedAt?: string;
+
+  /** Optional published flag (undefined if not a boolean in the export) */
+  isActive?: boolean;
 }
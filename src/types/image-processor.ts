@@ -3,6 +3,21 @@
  * Separated into dedicated file for reusability.
  */
 
+import type { RateLimitConfig } from '../services/download-queue.js';
+import type { ImageFilenameStrategy } from '../services/image-filenamer.js';
+import type { AssetStore } from '../services/asset-store.js';
+import type { DownloadManifest } from '../services/download-manifest.js';
+import type { HttpCacheConfig } from '../services/http-cache.js';
+import type { HttpTransport, NodeHttpTransportConfig } from '../services/http-transport.js';
+import type { ImageOptimizerConfig } from '../services/image-optimizer.js';
+import type { ImageElement, PictureElement } from '../processors/picture-renderer.js';
+import type { AltTextAuditOptions, AltTextIssue } from '../processors/alt-text-auditor.js';
+import type {
+  CircuitBreakerConfig,
+  DownloadRetryEvent,
+  RedirectPolicy,
+} from '../services/image-downloader.js';
+
 /**
  * Configuration options for ImageProcessor.
  * These options are passed through to the ImageDownloader service.
@@ -16,11 +31,44 @@ export interface ImageProcessorOptions {
   maxRetries?: number;
 
   /**
-   * Delay in milliseconds between retry attempts.
+   * Delay in milliseconds before the first retry. Later retries back off
+   * exponentially by `backoffMultiplier`.
    * @default 1000
    */
   retryDelayMs?: number;
 
+  /**
+   * Factor applied to the retry delay after each retry.
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Upper bound of a retry delay in milliseconds. A `Retry-After` header
+   * asking for a longer wait ends the retries.
+   * @default 30000
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Randomize each backoff delay between 50% and 100% of its value.
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Maximum number of retries across all downloads of this ImageProcessor.
+   * @default unlimited
+   */
+  retryBudget?: number;
+
+  /**
+   * Per-host circuit breaker failing downloads immediately while a host
+   * keeps failing, or false to disable it.
+   * @default { failureThreshold: 5, cooldownMs: 30000 }
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+
   /**
    * Timeout in milliseconds for each download attempt.
    * @default 30000 (30 seconds)
@@ -30,9 +78,291 @@ export interface ImageProcessorOptions {
   /**
    * Delay in milliseconds between consecutive downloads.
    * Helps avoid rate limiting from CDN.
-   * @default 200 (matches reference implementation)
+   *
+   * @remarks
+   * Only used to derive the download queue's token-bucket rate of
+   * `1000 / downloadDelayMs` requests per second (see `rateLimitFromDelay`);
+   * the downloader itself never waits between requests. Ignored when
+   * `rateLimit` is provided. No rate limit applies when omitted.
    */
   downloadDelayMs?: number;
+
+  /**
+   * Maximum number of image downloads in flight at once.
+   * Shared across all posts processed by the same ImageProcessor.
+   * @default 4
+   */
+  maxConcurrentDownloads?: number;
+
+  /**
+   * Maximum number of image downloads in flight for a single host.
+   * @default 2
+   */
+  maxConnectionsPerHost?: number;
+
+  /**
+   * Token-bucket rate limit for starting downloads.
+   * Overrides the rate derived from `downloadDelayMs`.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Hosts whose images are downloaded and localized: exact hostnames
+   * (`i.imgur.com`), subdomain wildcards (`*.cloudinary.com`) or `*` for
+   * any host. Images from other hosts keep their remote URLs.
+   * @default ['cdn.hashnode.com']
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Hosts whose images are never downloaded, using the same patterns as
+   * `allowedHosts`. Takes precedence over `allowedHosts`.
+   * @default []
+   */
+  deniedHosts?: string[];
+
+  /**
+   * How local filenames are chosen for images whose URL is not a Hashnode
+   * UUID filename: `hash` (SHA-256 of the URL) or `basename` (sanitized last
+   * path segment, with numeric suffixes when two URLs collide).
+   * @default 'hash'
+   */
+  filenameStrategy?: ImageFilenameStrategy;
+
+  /**
+   * Persistent HTTP cache shared across runs and output directories.
+   * Cached images are copied instead of downloaded; stale entries are
+   * revalidated with their ETag or Last-Modified header.
+   * @default undefined (no cache)
+   */
+  cache?: HttpCacheConfig;
+
+  /**
+   * Never open a network connection. Images are copied from the HTTP
+   * `cache` (whatever their age) or from `prefetchedDir`; images found in
+   * neither keep their remote URLs and are reported in `offlineMisses`.
+   * @default false
+   */
+  offline?: boolean;
+
+  /**
+   * Directory of pre-fetched images, looked up by local filename
+   * (e.g., `<dir>/uuid.png`). Only used in offline mode.
+   * @default undefined
+   */
+  prefetchedDir?: string;
+
+  /**
+   * Sends the download requests, e.g. a stub in tests.
+   * Takes precedence over `transportOptions`.
+   * @default a NodeHttpTransport
+   */
+  transport?: HttpTransport;
+
+  /**
+   * Proxy and CA options of the default NodeHttpTransport. Without them,
+   * the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables apply.
+   */
+  transportOptions?: NodeHttpTransportConfig;
+
+  /**
+   * Maximum number of redirects followed per image request.
+   * @default 10
+   */
+  maxRedirects?: number;
+
+  /**
+   * Restrictions on followed redirects (cross-host, HTTPS to HTTP).
+   * @default any http(s) redirect is followed
+   */
+  redirectPolicy?: RedirectPolicy;
+
+  /**
+   * Maximum size of a downloaded image in bytes. Larger downloads are
+   * aborted and reported as failures.
+   * @default 52428800 (50 MiB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Reject downloads whose `Content-Type` or file signature is not an image,
+   * and correct extensions that don't match the served format (e.g.,
+   * `uuid.png` served as WebP is saved and linked as `uuid.webp`).
+   * @default true
+   */
+  validateImages?: boolean;
+
+  /**
+   * Optimize JPEG and PNG images after they are downloaded: cap their
+   * width, re-encode them without metadata and write WebP/AVIF copies.
+   * Requires the optional `sharp` package unless a `codec` is given.
+   * @default undefined (images are kept as downloaded)
+   */
+  optimize?: ImageOptimizationOptions;
+
+  /**
+   * Write the pixel dimensions of localized images into the markdown, so
+   * pages don't shift while images load. Inline images become an `<img>`
+   * element (or the output target's image component) with `width` and
+   * `height`, and HTML `<img>` tags without dimensions get both attributes.
+   * Reference images are left as they are. Dimensions are always recorded in
+   * the download manifest.
+   * @default false
+   */
+  writeDimensions?: boolean;
+
+  /**
+   * Audit the alt text of every image in the post (whatever its host) and
+   * report images whose alt text is empty, a filename or a placeholder word
+   * in `altTextIssues`. With `fill`, their alt text is replaced by the
+   * image's caption, title or the preceding heading.
+   * @default undefined (no audit)
+   */
+  altText?: AltTextAuditOptions;
+}
+
+/**
+ * How an optimized image with modern-format copies is linked:
+ * - `file`: link the first copy in `formats` order
+ * - `picture`: replace inline images with a `<picture>` element offering
+ *   every copy, falling back to the JPEG/PNG image. Reference images and
+ *   HTML `<img>` tags link the JPEG/PNG image.
+ */
+export type ImageMarkup = 'file' | 'picture';
+
+/**
+ * Image optimization options
+ */
+export interface ImageOptimizationOptions extends ImageOptimizerConfig {
+  /**
+   * How images with modern-format copies are linked, overriding the
+   * `imageMarkup` of the output target. Without `formats`, images are
+   * always linked as they are.
+   * @default The output target's `imageMarkup`, or 'file'
+   */
+  markup?: ImageMarkup;
+}
+
+/**
+ * Builds the link written into the markdown for a downloaded image.
+ *
+ * @param filename - Local image filename (e.g., "uuid.png")
+ * @returns Link used in place of the CDN URL (e.g., "./uuid.png" or
+ *   "/assets/images/my-post/uuid.png")
+ */
+export type ImageLinkResolver = (filename: string) => string;
+
+/**
+ * Builds the markup replacing an inline image with a `<picture>` element.
+ *
+ * @param picture - Local image links and the image's alt text and title
+ * @returns Markup used in place of the whole `![alt](url)` image
+ */
+export type PictureRenderFunction = (picture: PictureElement) => string;
+
+/**
+ * Builds the markup replacing an inline image when its dimensions are written.
+ *
+ * @param image - Local image link, alt text, title and pixel dimensions
+ * @returns Markup used in place of the whole `![alt](url)` image
+ */
+export type ImageRenderFunction = (image: ImageElement) => string;
+
+/**
+ * A download retry of one of the post's images
+ */
+export interface ImageRetryInfo extends DownloadRetryEvent {
+  /**
+   * Local filename of the image (e.g., "uuid.png" or "cover.png")
+   */
+  filename: string;
+}
+
+/**
+ * Called before each download retry is scheduled.
+ */
+export type ImageRetryListener = (retry: ImageRetryInfo) => void;
+
+/**
+ * Shared asset store used for a post's images instead of its image
+ * directory (see {@link AssetStore}).
+ */
+export interface SharedAssetContext {
+  /**
+   * Store that keeps the downloaded images.
+   */
+  store: AssetStore;
+
+  /**
+   * Slug of the post being processed, recorded in the store's manifest.
+   */
+  postSlug: string;
+
+  /**
+   * Builds the link written into the markdown for a stored asset.
+   *
+   * @param assetPath - Asset path relative to the output directory
+   *   (e.g., "assets/3f2a9c0d1b7e4a65/diagram.png")
+   * @returns Link used in place of the remote URL (e.g., "../assets/3f2a9c0d1b7e4a65/diagram.png")
+   */
+  link: (assetPath: string) => string;
+}
+
+/**
+ * Per-post options for {@link ImageProcessor.process}.
+ * Output targets and the Converter use these to control how a post's images
+ * are saved and linked.
+ */
+export interface ImageProcessOptions {
+  /**
+   * Builds the link written into the markdown for a downloaded image.
+   * @default `./<filename>`
+   */
+  imageLink?: ImageLinkResolver;
+
+  /**
+   * Cover image to download alongside the post's images. Saved as
+   * `cover.<ext>` and reported in `coverImage`; URLs from hosts that are not
+   * allowed are left remote.
+   */
+  coverImageUrl?: string;
+
+  /**
+   * Shared asset store to keep the images in instead of the post directory.
+   * Downloads are moved into the store (deduplicated by content) and linked
+   * with `sharedAssets.link`; URLs already in the store are not downloaded again.
+   */
+  sharedAssets?: SharedAssetContext;
+
+  /**
+   * Manifest recording download attempts, shared by every post of the
+   * output directory. Defaults to a manifest in the post directory.
+   */
+  downloadManifest?: DownloadManifest;
+
+  /**
+   * Called before each download retry of the post's images.
+   */
+  onRetry?: ImageRetryListener;
+
+  /**
+   * How images with modern-format copies are linked when `optimize.markup`
+   * is not set (usually the output target's preference).
+   * @default 'file'
+   */
+  imageMarkup?: ImageMarkup;
+
+  /**
+   * Builds the `<picture>` element replacing an inline image in `picture` markup.
+   * @default HTML `<picture>`
+   */
+  renderPicture?: PictureRenderFunction;
+
+  /**
+   * Builds the element replacing an inline image when `writeDimensions` is enabled.
+   * @default HTML `<img>`
+   */
+  renderImage?: ImageRenderFunction;
 }
 
 /**
@@ -41,7 +371,7 @@ export interface ImageProcessorOptions {
  */
 export interface ImageProcessingResult {
   /**
-   * Markdown content with CDN URLs replaced by local relative paths.
+   * Markdown content with CDN URLs replaced by local image links.
    */
   markdown: string;
 
@@ -65,6 +395,109 @@ export interface ImageProcessingResult {
    * Does not include skipped images (those are counted separately).
    */
   errors: ImageProcessingError[];
+
+  /**
+   * Images that offline mode could not resolve locally. They keep their
+   * remote URLs and are neither counted as downloaded/skipped nor reported
+   * in `errors`. Only set in offline mode.
+   */
+  offlineMisses?: ImageOfflineMiss[];
+
+  /**
+   * Bytes saved by re-encoding the images downloaded in this run.
+   * Only set when optimization is enabled.
+   */
+  bytesSaved?: number;
+
+  /**
+   * Images that could not be optimized. They were still localized, as
+   * downloaded. Only set when optimization is enabled.
+   */
+  optimizationErrors?: ImageProcessingError[];
+
+  /**
+   * Images with empty, filename-like or placeholder alt text, with the alt
+   * text filled in for them. Only set when the alt text audit is enabled.
+   */
+  altTextIssues?: AltTextIssue[];
+
+  /**
+   * Outcome for the post's cover image.
+   * Only set when a cover image URL from an allowed host was passed to `process()`;
+   * the cover is not included in the counts or errors above.
+   */
+  coverImage?: CoverImageResult;
+}
+
+/**
+ * An image that would be fetched, as listed by `ImageProcessor.plan()`.
+ */
+export interface PlannedImage {
+  /**
+   * Image URL.
+   */
+  url: string;
+
+  /**
+   * Local filename the image would be saved as (e.g., "uuid.png" or "cover.png").
+   */
+  filename: string;
+
+  /**
+   * Path the image would be downloaded to, in the post's image directory.
+   */
+  filepath: string;
+}
+
+/**
+ * Outcome of downloading a post's cover image.
+ */
+export interface CoverImageResult {
+  /**
+   * Original cover image URL.
+   */
+  url: string;
+
+  /**
+   * Local filename of the cover image (e.g., "cover.png"), with the
+   * corrected extension when the server sent another format.
+   */
+  filename: string;
+
+  /**
+   * How the cover image was handled:
+   * - `downloaded`: Downloaded in this run
+   * - `skipped`: Already downloaded, or a previous HTTP 403 (no `localPath`)
+   * - `failed`: Download failed (see `error`)
+   * - `offline-miss`: Offline mode found no local copy (keeps the remote URL)
+   */
+  status: 'downloaded' | 'skipped' | 'failed' | 'offline-miss';
+
+  /**
+   * Link to the local cover image (e.g., "./cover.png").
+   * Only set when the file is available locally.
+   */
+  localPath?: string;
+
+  /**
+   * Error details when the download failed.
+   */
+  error?: ImageProcessingError;
+}
+
+/**
+ * An image that offline mode could not resolve from a local copy.
+ */
+export interface ImageOfflineMiss {
+  /**
+   * Local filename the image would have had (e.g., "uuid.png").
+   */
+  filename: string;
+
+  /**
+   * Original image URL, left in the markdown.
+   */
+  url: string;
 }
 
 /**
@@ -0,0 +1,92 @@
+/**
+ * Type definitions for markdown transform plugins.
+ *
+ * MarkdownTransformer parses markdown into an mdast syntax tree and lets each
+ * transform (built-in or user plugin) edit the original source by position.
+ * Untouched text is kept byte for byte, and edits can never cut into code
+ * blocks or inline code.
+ */
+
+import type { Nodes, Root } from 'mdast';
+
+/**
+ * Replacement for a regex match in {@link MarkdownPluginContext.replaceOutsideCode}
+ */
+export type MarkdownReplacement = string | ((match: RegExpExecArray) => string);
+
+/**
+ * What a plugin can read and edit while transforming a document.
+ *
+ * Edits are collected during `transform()` and applied together afterwards,
+ * so offsets always refer to `markdown` as given. Edits from one plugin must
+ * not overlap; the next plugin sees the edited markdown, parsed again.
+ */
+export interface MarkdownPluginContext {
+  /** Markdown source before this plugin's edits */
+  readonly markdown: string;
+
+  /** Syntax tree of `markdown`; every node has position offsets */
+  readonly tree: Root;
+
+  /**
+   * Call `visitor` for every node of a type, in document order.
+   */
+  visit<T extends Nodes['type']>(type: T, visitor: (node: Extract<Nodes, { type: T }>) => void): void;
+
+  /**
+   * Replace the source between two offsets.
+   * @throws {Error} If the range starts or ends inside code
+   */
+  replace(start: number, end: number, text: string): void;
+
+  /**
+   * Replace a node's source.
+   * @throws {Error} If the node is inside code
+   */
+  replaceNode(node: Nodes, text: string): void;
+
+  /**
+   * Replace a range that starts a line, repeating that line's container
+   * prefix (indentation, `>` markers) on every following replacement line.
+   * Use this for block-level output inside lists and blockquotes.
+   * @throws {Error} If the range starts or ends inside code
+   */
+  replaceBlock(start: number, end: number, text: string): void;
+
+  /**
+   * Replace every match of `pattern` outside code blocks and inline code.
+   * String replacements are inserted literally (no `$1` expansion).
+   */
+  replaceOutsideCode(pattern: RegExp, replacement: MarkdownReplacement): void;
+
+  /**
+   * Whether an offset falls inside a code block or inline code.
+   */
+  isInCode(offset: number): boolean;
+}
+
+/**
+ * A markdown transformation step.
+ *
+ * @example
+ * ```typescript
+ * const headingLevels: MarkdownTransformPlugin = {
+ *   name: 'shift-headings',
+ *   transform(context) {
+ *     context.visit('heading', (heading) => {
+ *       const start = heading.position!.start.offset!;
+ *       context.replace(start, start, '#');
+ *     });
+ *   },
+ * };
+ * ```
+ */
+export interface MarkdownTransformPlugin {
+  /** Plugin name, used in error messages */
+  name: string;
+
+  /**
+   * Collect edits for the document through the context.
+   */
+  transform(context: MarkdownPluginContext): void;
+}
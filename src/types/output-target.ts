@@ -0,0 +1,105 @@
+/**
+ * Type definitions for output targets.
+ *
+ * An output target describes how converted posts are laid out on disk and
+ * which frontmatter format they use, so the same export can be written for
+ * different static site generators.
+ */
+
+import type { PostMetadata } from './hashnode-schema.js';
+import type { PostLayout } from './post-layout.js';
+import type { ImageElement, PictureElement } from '../processors/picture-renderer.js';
+import type { ImageMarkup } from './image-processor.js';
+
+/**
+ * Names of the built-in output targets.
+ * - `markdown`: `<output>/<slug>/index.md` with YAML frontmatter (default)
+ * - `hugo`: Hugo leaf bundles at `<output>/content/posts/<slug>/index.md` with TOML frontmatter
+ * - `jekyll`: `<output>/_posts/YYYY-MM-DD-<slug>.md` with images under `<output>/assets/images/<slug>/`
+ * - `astro`: content collection entries at `<output>/src/content/blog/<slug>.md` plus a generated
+ *   `<output>/src/content/config.ts` schema
+ * - `mdx`: `<output>/<slug>/index.mdx` with embeds converted into JSX components
+ */
+export type OutputTargetName = 'markdown' | 'hugo' | 'jekyll' | 'astro' | 'mdx';
+
+/**
+ * A site file generated by a target alongside the posts (e.g., a content
+ * schema). Support files are regenerated on every run.
+ */
+export interface SupportFile {
+  /** Path relative to the output directory */
+  path: string;
+
+  /** Full file contents */
+  content: string;
+}
+
+/**
+ * Describes where posts are written and how their frontmatter is generated.
+ *
+ * The {@link PostLayout} methods decide the post file path, the image
+ * directory and the image links written into the markdown. Directory-per-post
+ * targets can extend {@link DirectoryLayout}.
+ *
+ * Implement this interface to plug a custom target into the Converter via
+ * {@link ConversionOptions.target}.
+ */
+export interface OutputTarget extends PostLayout {
+  /**
+   * Target identifier used in logs and CLI output.
+   */
+  readonly name: string;
+
+  /**
+   * Generate the frontmatter block (including delimiters) for a post.
+   *
+   * @param metadata - Parsed post metadata
+   * @returns Frontmatter string placed before the markdown body
+   */
+  generateFrontmatter(metadata: PostMetadata): string;
+
+  /**
+   * Apply target-specific changes to the converted markdown body.
+   * Optional; called after images are localized, before the post is written.
+   *
+   * @param markdown - Converted markdown body (without frontmatter)
+   * @param metadata - Parsed post metadata
+   * @returns Body written after the frontmatter
+   */
+  transformContent?(markdown: string, metadata: PostMetadata): string;
+
+  /**
+   * How optimized images with modern-format copies are linked in this
+   * target's posts. Optional; `file` is used when omitted, and the
+   * `optimize.markup` download option overrides it.
+   */
+  readonly imageMarkup?: ImageMarkup;
+
+  /**
+   * Render the `<picture>` element that replaces an inline image when
+   * optimized images use `picture` markup. Optional; plain HTML is used
+   * when omitted.
+   *
+   * @param picture - Local image links and the image's alt text and title
+   * @returns Markup used in place of the image
+   */
+  renderPicture?(picture: PictureElement): string;
+
+  /**
+   * Render the element that replaces an inline image when image dimensions
+   * are written, e.g. a framework image component with `width` and `height`
+   * props. Optional; an HTML `<img>` is used when omitted.
+   *
+   * @param image - Local image link, alt text, title and pixel dimensions
+   * @returns Markup used in place of the image
+   */
+  renderImage?(image: ImageElement): string;
+
+  /**
+   * Site files to write before any post is converted.
+   * Optional; targets that only write posts can omit it.
+   *
+   * @returns Files to write, with paths relative to the output directory
+   */
+  supportFiles?(): SupportFile[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Type definitions for post layouts.
+ *
+ * A post layout decides where a post's markdown file and images live on
+ * disk, and how converted markdown links to those images. FileWriter and
+ * ImageProcessor both use the layout so the two always agree.
+ */
+
+/**
+ * Post data available to a layout.
+ * Layouts receive a sanitized slug; `dateAdded` is the raw export value
+ * and may be missing or invalid before the post has been parsed.
+ */
+export interface PostLayoutContext {
+  /** Filesystem-safe post slug */
+  slug: string;
+
+  /** ISO 8601 publish date, when known */
+  dateAdded?: string;
+}
+
+/**
+ * Maps a post to its on-disk paths and image links.
+ * All paths are relative to the conversion output directory.
+ */
+export interface PostLayout {
+  /**
+   * Path of the post's markdown file.
+   * @example 'my-post/index.md', '_posts/2024-01-15-my-post.md'
+   */
+  postPath(context: PostLayoutContext): string;
+
+  /**
+   * Path checked to decide whether a post was already converted.
+   * Usually the post's directory (bundle layouts) or its markdown file.
+   */
+  existencePath(context: PostLayoutContext): string;
+
+  /**
+   * Directory where the post's images are downloaded.
+   * @example 'my-post', 'assets/images/my-post'
+   */
+  imageDir(context: PostLayoutContext): string;
+
+  /**
+   * Link written into the markdown for a localized image.
+   * @example './uuid.png', '/assets/images/my-post/uuid.png'
+   */
+  imageLink(filename: string, context: PostLayoutContext): string;
+
+  /**
+   * Shared asset store directory used when `sharedAssets` doesn't name one,
+   * relative to the output directory. Optional; `assets` when omitted.
+   * @example 'static/assets'
+   */
+  readonly sharedAssetDir?: string;
+
+  /**
+   * Link written into the markdown for an image kept in the shared asset
+   * store. When omitted, the link is relative to the post's markdown file.
+   * @param assetPath - Asset path relative to the output directory
+   * @example '../assets/3f2a9c0d1b7e4a65/diagram.png', '/assets/3f2a9c0d1b7e4a65/diagram.png'
+   */
+  sharedAssetLink?(assetPath: string, context: PostLayoutContext): string;
+}
@@ -0,0 +1,75 @@
+/**
+ * Real-world Hashnode posts with markdown that is valid CommonMark but not
+ * valid MDX: braces in prose, HTML comments, void elements, autolinks and
+ * stray `<` characters, next to code that must stay untouched.
+ */
+export interface MdxPost {
+  slug: string;
+  /** Markdown as exported by Hashnode */
+  contentMarkdown: string;
+}
+
+const CDN = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1700000000000';
+
+export const mdxPosts: MdxPost[] = [
+  {
+    slug: 'javascript-object-destructuring',
+    contentMarkdown: `## Destructuring {objects}
+
+Pull \`name\` out of {name: 'Ada', age: 36} with \`const { name } = user;\`. Nested patterns like {a: {b}} work too.
+
+\`\`\`js
+const { name, ...rest } = { name: 'Ada', age: 36 };
+if (rest.age < 40 && name) {
+  console.log(\`\${name} is <40\`);
+}
+\`\`\`
+
+<!-- TODO: add a section about default values -->
+
+Arrays use [brackets] instead of {braces}.
+`,
+  },
+  {
+    slug: 'html-in-markdown',
+    contentMarkdown: `Hashnode lets you mix HTML into posts.<br>
+Line one<br/>line two<br>line three
+
+<img src="${CDN}/3f2a9c0d-logo.png" alt="Logo" width=200 align="center">
+
+<div align="center">
+<img src="${CDN}/7c1e-chart.png" alt="Chart">
+<p>Figure 1: Requests per second</p>
+</div>
+
+<hr>
+
+<details>
+<summary>Click to expand</summary>
+
+Hidden {content} with <kbd>Ctrl</kbd> + <kbd>C</kbd>.
+
+</details>
+`,
+  },
+  {
+    slug: 'comparisons-and-feelings',
+    contentMarkdown: `# Why x<y matters
+
+If a < b and b<c, then a<c. I <3 transitive relations, and so should you :-<
+
+Generic types such as Array<string> and Map<string, number> appear in prose all the time.
+
+Reach me at <ada@example.com> or read <https://example.com/docs?q=a&b=c>.
+
+> Note: use \`<script>\` tags sparingly <!-- seriously -->
+
+| Operator | Meaning |
+| --- | --- |
+| \`<\` | less than |
+| {} | empty object |
+
+%[https://www.youtube.com/watch?v=dQw4w9WgXcQ]
+`,
+  },
+];
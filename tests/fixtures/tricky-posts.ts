@@ -0,0 +1,71 @@
+/**
+ * Real-world posts that show Hashnode image syntax and `align` attributes
+ * inside code samples. Only the image outside code in each post is real.
+ */
+export interface TrickyPost {
+  slug: string;
+  /** Markdown as exported by Hashnode */
+  contentMarkdown: string;
+  /** URL of the one image outside code */
+  imageUrl: string;
+}
+
+const CDN = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1700000000000';
+
+export const trickyPosts: TrickyPost[] = [
+  {
+    slug: 'hashnode-image-syntax',
+    contentMarkdown: `Hashnode saves every uploaded image like this:
+
+\`\`\`markdown
+![Diagram](${CDN}/a1b2c3d4-diagram.png align="center")
+![Diagram](${CDN}/a1b2c3d4-diagram.png) align="center"
+\`\`\`
+
+The URL in the export is \`${CDN}/a1b2c3d4-diagram.png\`, and the \`align="center"\` part is not markdown.
+
+Here is the real diagram:
+
+![Diagram](${CDN}/a1b2c3d4-diagram.png) align="center"
+`,
+    imageUrl: `${CDN}/a1b2c3d4-diagram.png`,
+  },
+  {
+    slug: 'nested-code-samples',
+    contentMarkdown: `1. Write the image tag:
+
+   \`\`\`html
+   <img src="${CDN}/e5f6-photo.jpg" align="left">
+   \`\`\`
+
+2. Or in markdown:
+
+       ![Photo](${CDN}/e5f6-photo.jpg) align="left"
+
+> Quoted sample:
+>
+> ~~~md
+> ![Photo](${CDN}/e5f6-photo.jpg) align="left"
+> ~~~
+
+\`\`\`\`md
+\`\`\`md
+![Photo](${CDN}/e5f6-photo.jpg) align="left"
+\`\`\`
+\`\`\`\`
+
+Result:
+
+![Photo](${CDN}/e5f6-photo.jpg) align="left"
+`,
+    imageUrl: `${CDN}/e5f6-photo.jpg`,
+  },
+  {
+    slug: 'inline-code-spans',
+    contentMarkdown: `Use \`\`![alt](${CDN}/9a8b-logo.png) align="right"\`\` to embed the logo, or \`\` \`![alt](...)\` \`\` for short.
+
+![Logo](${CDN}/9a8b-logo.png) align="right"
+`,
+    imageUrl: `${CDN}/9a8b-logo.png`,
+  },
+];
@@ -8,7 +8,11 @@ import { ImageProcessor } from '../../src/processors/image-processor.js';
 import { FrontmatterGenerator } from '../../src/processors/frontmatter-generator.js';
 import { FileWriter } from '../../src/services/file-writer.js';
 import { Logger } from '../../src/services/logger.js';
+import { AssetStore } from '../../src/services/asset-store.js';
+import { DownloadManifest } from '../../src/services/download-manifest.js';
 import type { HashnodePost } from '../../src/types/hashnode-schema.js';
+import type { ImageDownloadedEvent } from '../../src/types/converter-events.js';
+import type { SharedAssetContext } from '../../src/types/image-processor.js';
 // Mock fs module
 vi.mock('node:fs');
 
@@ -53,6 +57,8 @@ describe('Converter', () => {
       warn: vi.fn(),
       error: vi.fn(),
       trackHttp403: vi.fn(),
+      trackOfflineMiss: vi.fn(),
+      trackAltTextIssue: vi.fn(),
       writeSummary: vi.fn(),
       close: vi.fn().mockResolvedValue(undefined),
     } as unknown as Logger;
@@ -60,6 +66,8 @@ describe('Converter', () => {
     mockFileWriter = {
       postExists: vi.fn().mockReturnValue(false),
       writePost: vi.fn().mockResolvedValue('/output/test-post/index.md'),
+      writeSupportFile: vi.fn().mockResolvedValue('/output/support-file'),
+      planPost: vi.fn().mockReturnValue({ filePath: '/output/test-post/index.md', exists: false }),
     } as unknown as FileWriter;
 
     mockPostParser = {
@@ -85,6 +93,8 @@ describe('Converter', () => {
         imagesSkipped: 0,
         errors: [],
       }),
+      migrateMarkers: vi.fn().mockReturnValue(0),
+      plan: vi.fn().mockReturnValue([]),
     } as unknown as ImageProcessor;
 
     mockFrontmatterGenerator = {
@@ -276,6 +286,56 @@ describe('Converter', () => {
         expect.stringContaining('Skipped')
       );
     });
+
+    it('should migrate the download markers of skipped posts', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValue(true);
+
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(mockImageProcessor.migrateMarkers).toHaveBeenCalledWith(
+        '# Test Content',
+        path.join('/output', 'test-post'),
+        expect.any(DownloadManifest),
+        undefined
+      );
+      expect(mockImageProcessor.process).not.toHaveBeenCalled();
+    });
+
+    it('should not migrate skipped posts without a marker directory', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValue(true);
+      vi.mocked(fs.existsSync).mockImplementation((p) => !String(p).endsWith('.downloaded-markers'));
+
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(mockImageProcessor.migrateMarkers).not.toHaveBeenCalled();
+    });
+
+    it('should warn and still skip the post when the migration fails', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValue(true);
+      vi.mocked(mockImageProcessor.migrateMarkers).mockImplementation(() => {
+        throw new Error('Unsupported download manifest: /output/.image-downloads.json');
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(result.skipped).toBe(1);
+      expect(result.errors).toHaveLength(0);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Could not migrate download markers of "test-post": Unsupported download manifest: /output/.image-downloads.json'
+      );
+    });
+
+    it('should share one download manifest between converted and skipped posts', async () => {
+      const otherPost = { ...samplePost, slug: 'other-post' };
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ posts: [samplePost, otherPost] }));
+      vi.mocked(mockFileWriter.postExists).mockImplementation((_dir, slug) => slug === 'other-post');
+
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      const manifest = vi.mocked(mockImageProcessor.process).mock.calls[0][2]?.downloadManifest;
+      expect(manifest?.manifestPath).toBe(path.join('/output', '.image-downloads.json'));
+      expect(vi.mocked(mockImageProcessor.migrateMarkers).mock.calls[0][2]).toBe(manifest);
+    });
   });
 
   describe('convertAllPosts - Fatal Errors', () => {
@@ -444,6 +504,557 @@ describe('Converter', () => {
     });
   });
 
+  describe('convertAllPosts - Concurrency', () => {
+    const concurrentExport = {
+      posts: [
+        { ...samplePost, slug: 'post-1', title: 'Post 1' },
+        { ...samplePost, slug: 'post-2', title: 'Post 2' },
+        { ...samplePost, slug: 'post-3', title: 'Post 3' },
+        { ...samplePost, slug: 'post-4', title: 'Post 4' },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(concurrentExport));
+      vi.mocked(mockPostParser.parse).mockImplementation((post: HashnodePost) => ({
+        title: post.title,
+        slug: post.slug,
+        dateAdded: post.dateAdded,
+        brief: post.brief,
+        contentMarkdown: post.slug,
+      }));
+      vi.mocked(mockMarkdownTransformer.transform).mockImplementation((markdown: string) => markdown);
+    });
+
+    it('should run up to `concurrency` posts in parallel', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(mockImageProcessor.process).mockImplementation(async (markdown: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { markdown, imagesProcessed: 0, imagesDownloaded: 0, imagesSkipped: 0, errors: [] };
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        concurrency: 2,
+      });
+
+      expect(result.converted).toBe(4);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should process posts sequentially by default', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(mockImageProcessor.process).mockImplementation(async (markdown: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return { markdown, imagesProcessed: 0, imagesDownloaded: 0, imagesSkipped: 0, errors: [] };
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(maxInFlight).toBe(1);
+    });
+
+    it('should keep error ordering stable regardless of completion order', async () => {
+      // Earlier posts take longer, so later posts finish first
+      const delays: Record<string, number> = { 'post-1': 30, 'post-2': 20, 'post-3': 10, 'post-4': 0 };
+      vi.mocked(mockImageProcessor.process).mockImplementation(async (markdown: string) => {
+        await new Promise((resolve) => setTimeout(resolve, delays[markdown]));
+        return { markdown, imagesProcessed: 0, imagesDownloaded: 0, imagesSkipped: 0, errors: [] };
+      });
+      vi.mocked(mockFileWriter.writePost).mockImplementation(async (_dir, slug) => {
+        throw new Error(`Failed to write ${slug}`);
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        concurrency: 4,
+      });
+
+      expect(result.errors.map((e) => e.slug)).toEqual(['post-1', 'post-2', 'post-3', 'post-4']);
+    });
+
+    it('should emit deterministic index/total values for each post', async () => {
+      const delays: Record<string, number> = { 'post-1': 20, 'post-2': 0, 'post-3': 10, 'post-4': 0 };
+      vi.mocked(mockImageProcessor.process).mockImplementation(async (markdown: string) => {
+        await new Promise((resolve) => setTimeout(resolve, delays[markdown]));
+        return { markdown, imagesProcessed: 0, imagesDownloaded: 0, imagesSkipped: 0, errors: [] };
+      });
+      vi.mocked(mockFileWriter.writePost).mockImplementation(
+        async (_dir, slug) => `/output/${slug}/index.md`
+      );
+
+      const started: Array<[string, number, number]> = [];
+      const completed: Array<[string, number, number]> = [];
+      converter.on('conversion-starting', ({ post, index, total }) => {
+        started.push([post.slug, index, total]);
+      });
+      converter.on('conversion-completed', ({ result, index, total }) => {
+        completed.push([result.slug, index, total]);
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { concurrency: 3 });
+
+      const expected = [
+        ['post-1', 1, 4],
+        ['post-2', 2, 4],
+        ['post-3', 3, 4],
+        ['post-4', 4, 4],
+      ];
+      expect(started).toEqual(expected);
+      expect([...completed].sort((a, b) => a[1] - b[1])).toEqual(expected);
+    });
+
+    it('should isolate failures of individual posts', async () => {
+      vi.mocked(mockFileWriter.writePost).mockImplementation(async (_dir, slug) => {
+        if (slug === 'post-2') {
+          throw new Error('Failed to write file');
+        }
+        return `/output/${slug}/index.md`;
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        concurrency: 4,
+      });
+
+      expect(result.converted).toBe(3);
+      expect(result.errors).toEqual([{ slug: 'post-2', error: 'Failed to write file' }]);
+    });
+
+    it('should count skipped posts when running in parallel', async () => {
+      vi.mocked(mockFileWriter.postExists).mockImplementation(
+        (_dir: string, slug: string) => slug === 'post-3'
+      );
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        concurrency: 2,
+      });
+
+      expect(result.converted).toBe(3);
+      expect(result.skipped).toBe(1);
+    });
+
+    it('should share one ImageProcessor across posts with the same downloadOptions', async () => {
+      const processSpy = vi.spyOn(ImageProcessor.prototype, 'process').mockResolvedValue({
+        markdown: '',
+        imagesProcessed: 0,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', {
+        concurrency: 2,
+        downloadOptions: { maxConcurrentDownloads: 2 },
+      });
+
+      expect(processSpy).toHaveBeenCalledTimes(4);
+      expect(new Set(processSpy.mock.contexts).size).toBe(1);
+    });
+
+    it.each([0, -1, 1.5, Number.NaN])('should throw for invalid concurrency %s', async (concurrency) => {
+      await expect(
+        converter.convertAllPosts('/path/to/export.json', '/output', { concurrency })
+      ).rejects.toThrow('Invalid concurrency');
+    });
+  });
+
+  describe('convertAllPosts - Markdown Options', () => {
+    it('should transform markdown with a transformer built from markdownOptions', async () => {
+      vi.mocked(mockPostParser.parse).mockReturnValue({
+        title: 'Test Post',
+        slug: 'test-post',
+        dateAdded: '2024-01-15T10:00:00.000Z',
+        brief: 'Test brief',
+        contentMarkdown: '%[https://youtu.be/abc123]',
+        tags: ['test'],
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', {
+        markdownOptions: { embedFallback: 'shortcode' },
+      });
+
+      expect(mockMarkdownTransformer.transform).not.toHaveBeenCalled();
+      expect(mockImageProcessor.process).toHaveBeenCalledWith('{{< youtube abc123 >}}', expect.any(String), {
+        imageLink: expect.any(Function),
+        downloadManifest: expect.any(DownloadManifest),
+        onRetry: expect.any(Function),
+      });
+    });
+  });
+
+  describe('convertAllPosts - Output Targets', () => {
+    it('should write markdown posts directly into the output directory by default', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(mockFileWriter.postExists).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        expect.objectContaining({ layout: expect.objectContaining({ name: 'markdown' }) })
+      );
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        '---\ntitle: "Test Post"\n---',
+        '# Test Content',
+        expect.objectContaining({ dateAdded: '2024-01-15T10:00:00.000Z' })
+      );
+    });
+
+    it('should write Hugo page bundles under content/posts', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'hugo' });
+
+      const hugoContentDir = path.join('/output', 'content', 'posts');
+      expect(mockImageProcessor.process).toHaveBeenCalledWith(
+        '# Test Content',
+        path.join(hugoContentDir, 'test-post'),
+        {
+          imageLink: expect.any(Function),
+          downloadManifest: expect.any(DownloadManifest),
+          onRetry: expect.any(Function),
+        }
+      );
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        expect.stringMatching(/^\+\+\+\ntitle = "Test Post"[\s\S]*\+\+\+$/),
+        '# Test Content',
+        expect.objectContaining({ layout: expect.objectContaining({ name: 'hugo' }) })
+      );
+      expect(mockFrontmatterGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it('should report the Hugo bundle path for skipped posts', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValue(true);
+      const completedHandler = vi.fn();
+      converter.on('conversion-completed', completedHandler);
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'hugo' });
+
+      expect(completedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          result: expect.objectContaining({
+            outputPath: path.join('/output', 'content', 'posts', 'test-post', 'index.md'),
+          }),
+        })
+      );
+    });
+
+    it('should download Jekyll images to assets/images and link them with site paths', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'jekyll' });
+
+      expect(mockImageProcessor.process).toHaveBeenCalledWith(
+        '# Test Content',
+        path.join('/output', 'assets', 'images', 'test-post'),
+        {
+          imageLink: expect.any(Function),
+          downloadManifest: expect.any(DownloadManifest),
+          onRetry: expect.any(Function),
+        }
+      );
+      const imageLink = vi.mocked(mockImageProcessor.process).mock.calls[0][2]!.imageLink!;
+      expect(imageLink('uuid.png')).toBe('/assets/images/test-post/uuid.png');
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        expect.stringContaining('layout: "post"'),
+        '# Test Content',
+        expect.objectContaining({ dateAdded: '2024-01-15T10:00:00.000Z' })
+      );
+    });
+
+    it('should report the date-prefixed Jekyll path for skipped posts', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValue(true);
+      const completedHandler = vi.fn();
+      converter.on('conversion-completed', completedHandler);
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'jekyll' });
+
+      expect(completedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          result: expect.objectContaining({
+            outputPath: path.join('/output', '_posts', '2024-01-15-test-post.md'),
+          }),
+        })
+      );
+    });
+
+    it('should accept a custom OutputTarget implementation', async () => {
+      const customTarget = {
+        name: 'custom',
+        postPath: vi.fn().mockReturnValue('posts/test-post.md'),
+        existencePath: vi.fn().mockReturnValue('posts/test-post.md'),
+        imageDir: vi.fn().mockReturnValue('static/test-post'),
+        imageLink: vi.fn((filename: string) => `/static/test-post/${filename}`),
+        generateFrontmatter: vi.fn().mockReturnValue('---\ncustom: true\n---'),
+      };
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: customTarget });
+
+      expect(customTarget.generateFrontmatter).toHaveBeenCalled();
+      expect(mockImageProcessor.process).toHaveBeenCalledWith(
+        '# Test Content',
+        path.join('/output', 'static', 'test-post'),
+        {
+          imageLink: expect.any(Function),
+          downloadManifest: expect.any(DownloadManifest),
+          onRetry: expect.any(Function),
+        }
+      );
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        '---\ncustom: true\n---',
+        '# Test Content',
+        { layout: customTarget, dateAdded: '2024-01-15T10:00:00.000Z' }
+      );
+    });
+
+    it('should write Astro collection entries and the generated content config', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'astro' });
+
+      expect(mockFileWriter.writeSupportFile).toHaveBeenCalledWith(
+        '/output',
+        path.join('src', 'content', 'config.ts'),
+        expect.stringContaining("defineCollection")
+      );
+      expect(mockImageProcessor.process).toHaveBeenCalledWith(
+        '# Test Content',
+        path.join('/output', 'src', 'content', 'blog', 'test-post'),
+        {
+          imageLink: expect.any(Function),
+          downloadManifest: expect.any(DownloadManifest),
+          onRetry: expect.any(Function),
+        }
+      );
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        expect.stringContaining('pubDate: 2024-01-15T10:00:00.000Z'),
+        '# Test Content',
+        expect.objectContaining({ layout: expect.objectContaining({ name: 'astro' }) })
+      );
+    });
+
+    it('should not write support files for targets without them', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'hugo' });
+
+      expect(mockFileWriter.writeSupportFile).not.toHaveBeenCalled();
+    });
+
+    it('should throw and emit a fatal error when a support file cannot be written', async () => {
+      vi.mocked(mockFileWriter.writeSupportFile).mockRejectedValue(new Error('EACCES'));
+      const errorHandler = vi.fn();
+      converter.on('conversion-error', errorHandler);
+
+      const configPath = path.join('src', 'content', 'config.ts');
+      await expect(
+        converter.convertAllPosts('/path/to/export.json', '/output', { target: 'astro' })
+      ).rejects.toThrow(`Cannot write ${configPath}: EACCES`);
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'fatal' }));
+      expect(mockFileWriter.writePost).not.toHaveBeenCalled();
+    });
+
+    it('should write MDX posts with embeds converted into components', async () => {
+      vi.mocked(mockImageProcessor.process).mockResolvedValue({
+        markdown: '# Test Content\n\n%[https://youtu.be/abc]',
+        imagesProcessed: 0,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'mdx' });
+
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        '---\ntitle: "Test Post"\n---',
+        '# Test Content\n\n<YouTube id="abc" url="https://youtu.be/abc" />',
+        expect.objectContaining({ layout: expect.objectContaining({ name: 'mdx' }) })
+      );
+    });
+
+    it('should pass the image markup preferred by the target to the image processor', async () => {
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: 'mdx' });
+
+      expect(mockImageProcessor.process).toHaveBeenCalledWith(
+        '# Test Content',
+        expect.any(String),
+        expect.objectContaining({ imageMarkup: 'picture', renderPicture: expect.any(Function) })
+      );
+    });
+
+    it('should pass the body through a custom target transformContent hook', async () => {
+      const customTarget = {
+        name: 'custom',
+        postPath: () => 'test-post.md',
+        existencePath: () => 'test-post.md',
+        imageDir: () => 'test-post',
+        imageLink: (filename: string) => filename,
+        generateFrontmatter: () => '---\n---',
+        transformContent: vi.fn((markdown: string) => markdown.toUpperCase()),
+      };
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { target: customTarget });
+
+      expect(customTarget.transformContent).toHaveBeenCalledWith(
+        '# Test Content',
+        expect.objectContaining({ slug: 'test-post' })
+      );
+      expect(mockFileWriter.writePost).toHaveBeenCalledWith(
+        '/output',
+        'test-post',
+        '---\n---',
+        '# TEST CONTENT',
+        expect.any(Object)
+      );
+    });
+
+    it('should throw and emit a fatal error for an unknown target', async () => {
+      const errorHandler = vi.fn();
+      converter.on('conversion-error', errorHandler);
+
+      await expect(
+        converter.convertAllPosts('/path/to/export.json', '/output', { target: 'gatsby' as any })
+      ).rejects.toThrow('Unknown output target: gatsby');
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'fatal', message: 'Unknown output target: gatsby' })
+      );
+    });
+  });
+
+  describe('convertAllPosts - Dry Run', () => {
+    const image = {
+      url: 'https://cdn.hashnode.com/image.png',
+      filename: 'image.png',
+      filepath: '/output/test-post/image.png',
+    };
+
+    it('should plan the conversion without writing or downloading anything', async () => {
+      vi.mocked(mockImageProcessor.plan).mockReturnValue([image]);
+      const startingListener = vi.fn();
+      converter.on('conversion-starting', startingListener);
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', { dryRun: true });
+
+      expect(result).toEqual({
+        converted: 0,
+        skipped: 0,
+        errors: [],
+        duration: expect.any(String),
+        plan: {
+          posts: [{ slug: 'test-post', action: 'create', outputPath: '/output/test-post/index.md', images: [image] }],
+          planned: 1,
+          supportFiles: [],
+        },
+      });
+      expect(mockMarkdownTransformer.transform).toHaveBeenCalledWith('# Test Content');
+      expect(mockImageProcessor.plan).toHaveBeenCalledWith(
+        '# Test Content',
+        expect.any(String),
+        undefined,
+        expect.anything(),
+        undefined
+      );
+      expect(mockImageProcessor.process).not.toHaveBeenCalled();
+      expect(mockFileWriter.writePost).not.toHaveBeenCalled();
+      expect(fs.mkdirSync).not.toHaveBeenCalled();
+      expect(startingListener).not.toHaveBeenCalled();
+    });
+
+    it('should plan existing posts as skipped or overwritten', async () => {
+      vi.mocked(mockFileWriter.postExists).mockReturnValueOnce(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ posts: [samplePost, { ...samplePost, slug: 'other-post' }] })
+      );
+      vi.mocked(mockFileWriter.planPost).mockReturnValue({ filePath: '/output/test-post/index.md', exists: true });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', { dryRun: true });
+
+      expect(result.plan?.posts.map((post) => post.action)).toEqual(['skip', 'overwrite']);
+      expect(result.plan?.posts[0]).toEqual({
+        slug: 'test-post',
+        action: 'skip',
+        outputPath: path.resolve('/output', 'test-post', 'index.md'),
+        images: [],
+      });
+      expect(result.converted).toBe(0);
+      expect(result.skipped).toBe(1);
+      expect(result.plan?.planned).toBe(1);
+    });
+
+    it('should report parse and write errors in the plan', async () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ posts: [{ ...samplePost, slug: 'broken-post' }, samplePost] })
+      );
+      vi.mocked(mockPostParser.parse).mockImplementationOnce(() => {
+        throw new Error('Missing required field: title');
+      });
+      vi.mocked(mockFileWriter.planPost).mockImplementation(() => {
+        throw new Error('File already exists and overwrite is disabled: /output/test-post/index.md');
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', { dryRun: true });
+
+      expect(result.plan?.posts).toEqual([
+        { slug: 'broken-post', action: 'error', images: [], error: 'Missing required field: title' },
+        {
+          slug: 'test-post',
+          action: 'error',
+          images: [],
+          error: 'File already exists and overwrite is disabled: /output/test-post/index.md',
+        },
+      ]);
+      expect(result.errors).toEqual([
+        { slug: 'broken-post', error: 'Missing required field: title' },
+        { slug: 'test-post', error: 'File already exists and overwrite is disabled: /output/test-post/index.md' },
+      ]);
+      expect(result.converted).toBe(0);
+      expect(result.plan?.planned).toBe(0);
+    });
+
+    it('should list the support files instead of writing them', async () => {
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        dryRun: true,
+        target: 'astro',
+      });
+
+      expect(result.plan?.supportFiles).toEqual([path.resolve('/output', 'src', 'content', 'config.ts')]);
+      expect(mockFileWriter.writeSupportFile).not.toHaveBeenCalled();
+    });
+
+    it('should not create a log file', async () => {
+      const { logger: _logger, ...deps } = {
+        logger: mockLogger,
+        fileWriter: mockFileWriter,
+        postParser: mockPostParser,
+        markdownTransformer: mockMarkdownTransformer,
+        imageProcessor: mockImageProcessor,
+      };
+
+      await new Converter(deps).convertAllPosts('/path/to/export.json', '/output', { dryRun: true });
+
+      expect(fs.createWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('should not write the summary of an injected logger', async () => {
+      vi.mocked(mockImageProcessor.plan).mockReturnValue([image]);
+
+      await converter.convertAllPosts('/path/to/export.json', '/output', { dryRun: true, target: 'astro' });
+
+      expect(mockLogger.writeSummary).not.toHaveBeenCalled();
+      const writes = [fs.writeFileSync, fs.appendFileSync, fs.createWriteStream, fs.mkdirSync, fs.copyFileSync];
+      const written = writes.flatMap((write) => vi.mocked(write).mock.calls.map((call) => String(call[0])));
+      expect(written.filter((file) => file.startsWith('/output'))).toEqual([]);
+    });
+  });
+
   describe('Event Emission', () => {
     it('should emit conversion-starting event for each post', async () => {
       const startingHandler = vi.fn();
@@ -580,6 +1191,35 @@ describe('Converter', () => {
       );
     });
 
+    it('should emit image-retry events with the post slug', async () => {
+      const retryHandler = vi.fn();
+      converter.on('image-retry', retryHandler);
+
+      vi.mocked(mockImageProcessor.process).mockImplementation(async (_markdown, _blogDir, options) => {
+        options!.onRetry!({
+          filename: 'image.png',
+          url: 'https://cdn.hashnode.com/image.png',
+          retry: 1,
+          maxRetries: 3,
+          delayMs: 2000,
+          error: 'HTTP 429: https://cdn.hashnode.com/image.png',
+        });
+        return { markdown: '# Test Content', imagesProcessed: 1, imagesDownloaded: 1, imagesSkipped: 0, errors: [] };
+      });
+
+      await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(retryHandler).toHaveBeenCalledWith({
+        filename: 'image.png',
+        postSlug: 'test-post',
+        url: 'https://cdn.hashnode.com/image.png',
+        retry: 1,
+        maxRetries: 3,
+        delayMs: 2000,
+        error: 'HTTP 429: https://cdn.hashnode.com/image.png',
+      });
+    });
+
     it('should support once() for single-fire event subscription', async () => {
       const startingHandler = vi.fn();
       converter.once('conversion-starting', startingHandler);
@@ -641,6 +1281,68 @@ describe('Converter', () => {
       );
     });
 
+    it('should track offline misses via logger', async () => {
+      const coverUrl = 'https://cdn.hashnode.com/cover.png';
+      vi.mocked(mockImageProcessor.process).mockResolvedValue({
+        markdown: '# Test Content',
+        imagesProcessed: 1,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+        offlineMisses: [{ filename: 'image.png', url: 'https://cdn.hashnode.com/image.png' }],
+        coverImage: { url: coverUrl, filename: 'cover.png', status: 'offline-miss' },
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(mockLogger.trackOfflineMiss).toHaveBeenCalledWith(
+        'test-post',
+        'image.png',
+        'https://cdn.hashnode.com/image.png'
+      );
+      expect(mockLogger.trackOfflineMiss).toHaveBeenCalledWith('test-post', 'cover image', coverUrl);
+      expect(mockLogger.trackHttp403).not.toHaveBeenCalled();
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should report alt text issues by post when the audit is enabled', async () => {
+      const issue = { url: 'https://cdn.hashnode.com/image.png', alt: '', problem: 'empty' as const };
+      vi.spyOn(ImageProcessor.prototype, 'process').mockResolvedValue({
+        markdown: '# Test Content',
+        imagesProcessed: 1,
+        imagesDownloaded: 1,
+        imagesSkipped: 0,
+        errors: [],
+        altTextIssues: [issue],
+      });
+
+      const result = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        downloadOptions: { altText: {} },
+      });
+
+      expect(mockLogger.trackAltTextIssue).toHaveBeenCalledWith('test-post', issue);
+      expect(result.accessibility).toEqual([{ slug: 'test-post', altTextIssues: [issue] }]);
+    });
+
+    it('should report an empty accessibility list when no post has issues', async () => {
+      vi.spyOn(ImageProcessor.prototype, 'process').mockResolvedValue({
+        markdown: '# Test Content',
+        imagesProcessed: 0,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+        altTextIssues: [],
+      });
+
+      const audited = await converter.convertAllPosts('/path/to/export.json', '/output', {
+        downloadOptions: { altText: { fill: true } },
+      });
+      const unaudited = await converter.convertAllPosts('/path/to/export.json', '/output');
+
+      expect(audited.accessibility).toEqual([]);
+      expect(unaudited.accessibility).toBeUndefined();
+    });
+
     it('should warn when export file has no posts', async () => {
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ posts: [] }));
 
@@ -650,6 +1352,147 @@ describe('Converter', () => {
     });
   });
 
+  describe('convertPost - Shared Assets', () => {
+    /**
+     * Shared asset context passed to ImageProcessor by the last process() call
+     */
+    function lastSharedAssets(): SharedAssetContext | undefined {
+      return vi.mocked(mockImageProcessor.process).mock.calls.at(-1)?.[2]?.sharedAssets;
+    }
+
+    beforeEach(() => {
+      // No manifest from an earlier run
+      vi.mocked(fs.existsSync).mockImplementation((p) => !String(p).endsWith('manifest.json'));
+    });
+
+    it('should not use a shared store by default', async () => {
+      await converter.convertPost(samplePost, '/output');
+
+      expect(lastSharedAssets()).toBeUndefined();
+    });
+
+    it('should link shared assets relative to the post file', async () => {
+      await converter.convertPost(samplePost, '/output', { sharedAssets: true });
+
+      const sharedAssets = lastSharedAssets();
+      expect(sharedAssets?.store).toBeInstanceOf(AssetStore);
+      expect(sharedAssets?.postSlug).toBe('test-post');
+      expect(sharedAssets?.store.manifestPath).toBe(path.join('/output', 'assets', 'manifest.json'));
+      expect(sharedAssets?.link('assets/3f2a/diagram.png')).toBe('../assets/3f2a/diagram.png');
+    });
+
+    it('should reuse one store for every post of an output directory', async () => {
+      await converter.convertPost(samplePost, '/output', { sharedAssets: true });
+      const first = lastSharedAssets()?.store;
+      await converter.convertPost({ ...samplePost, slug: 'other-post' }, '/output', { sharedAssets: true });
+
+      expect(lastSharedAssets()?.store).toBe(first);
+    });
+
+    it.each([
+      ['astro', { dir: 'src/assets' }, 'src/assets/3f2a/a.png', '../../assets/3f2a/a.png'],
+      ['jekyll', true, 'assets/3f2a/a.png', '/assets/3f2a/a.png'],
+      ['hugo', { dir: 'static/assets' }, 'static/assets/3f2a/a.png', '/assets/3f2a/a.png'],
+    ] as const)('should use the %s link for shared assets', async (target, sharedAssets, assetPath, expected) => {
+      await converter.convertPost(samplePost, '/output', { target, sharedAssets });
+
+      expect(lastSharedAssets()?.link(assetPath)).toBe(expected);
+    });
+
+    it('should keep Hugo shared assets under static/ by default', async () => {
+      await converter.convertPost(samplePost, '/output', { target: 'hugo', sharedAssets: true });
+
+      expect(lastSharedAssets()?.store.manifestPath).toBe(path.join('/output', 'static', 'assets', 'manifest.json'));
+    });
+
+    it('should fail the post for a store directory outside the output directory', async () => {
+      const result = await converter.convertPost(samplePost, '/output', { sharedAssets: { dir: '../assets' } });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid shared asset directory');
+    });
+  });
+
+  describe('convertPost - Cover Images', () => {
+    const coverUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/cover-uuid.png';
+
+    beforeEach(() => {
+      vi.mocked(mockPostParser.parse).mockReturnValue({
+        title: 'Test Post',
+        slug: 'test-post',
+        dateAdded: '2024-01-15T10:00:00.000Z',
+        brief: 'Test brief',
+        contentMarkdown: '# Test Content',
+        tags: ['test'],
+        coverImage: coverUrl,
+      });
+    });
+
+    it('should download the cover image and reference the local file in frontmatter', async () => {
+      vi.mocked(mockImageProcessor.process).mockResolvedValue({
+        markdown: '# Test Content',
+        imagesProcessed: 0,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+        coverImage: { url: coverUrl, filename: 'cover.png', status: 'downloaded', localPath: './cover.png' },
+      });
+      const events: ImageDownloadedEvent[] = [];
+      converter.on('image-downloaded', (event) => events.push(event));
+
+      await converter.convertPost(samplePost, '/output');
+
+      expect(mockImageProcessor.process).toHaveBeenCalledWith('# Test Content', path.join('/output', 'test-post'), {
+        imageLink: expect.any(Function),
+        coverImageUrl: coverUrl,
+        downloadManifest: expect.any(DownloadManifest),
+        onRetry: expect.any(Function),
+      });
+      expect(mockFrontmatterGenerator.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ coverImage: './cover.png' })
+      );
+      expect(events).toEqual([{ filename: 'cover.png', postSlug: 'test-post', success: true }]);
+    });
+
+    it('should keep the remote cover image when the download fails', async () => {
+      const error = { filename: 'cover.png', url: coverUrl, error: 'HTTP 403 Forbidden', is403: true };
+      vi.mocked(mockImageProcessor.process).mockResolvedValue({
+        markdown: '# Test Content',
+        imagesProcessed: 0,
+        imagesDownloaded: 0,
+        imagesSkipped: 0,
+        errors: [],
+        coverImage: { url: coverUrl, filename: 'cover.png', status: 'failed', error },
+      });
+      const events: ImageDownloadedEvent[] = [];
+      converter.on('image-downloaded', (event) => events.push(event));
+
+      const result = await converter.convertPost(samplePost, '/output');
+
+      expect(result.success).toBe(true);
+      expect(mockFrontmatterGenerator.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ coverImage: coverUrl })
+      );
+      expect(mockLogger.trackHttp403).toHaveBeenCalledWith('test-post', 'cover.png', coverUrl);
+      expect(events).toEqual([
+        { filename: 'cover.png', postSlug: 'test-post', success: false, error: 'HTTP 403 Forbidden', is403: true },
+      ]);
+    });
+
+    it('should not download the cover image when downloadCoverImages is false', async () => {
+      await converter.convertPost(samplePost, '/output', { downloadCoverImages: false });
+
+      expect(mockImageProcessor.process).toHaveBeenCalledWith('# Test Content', path.join('/output', 'test-post'), {
+        imageLink: expect.any(Function),
+        downloadManifest: expect.any(DownloadManifest),
+        onRetry: expect.any(Function),
+      });
+      expect(mockFrontmatterGenerator.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ coverImage: coverUrl })
+      );
+    });
+  });
+
   describe('convertPost - Single Post Conversion', () => {
     it('should return success result for valid post', async () => {
       const result = await converter.convertPost(samplePost, '/output');
@@ -689,7 +1532,12 @@ describe('Converter', () => {
 
       expect(mockImageProcessor.process).toHaveBeenCalledWith(
         '# Transformed Content',
-        expect.stringContaining('test-post')
+        expect.stringContaining('test-post'),
+        {
+          imageLink: expect.any(Function),
+          downloadManifest: expect.any(DownloadManifest),
+          onRetry: expect.any(Function),
+        }
       );
     });
 
@@ -708,7 +1556,8 @@ describe('Converter', () => {
         '/output',
         'test-post',
         expect.any(String),
-        '# Content with local images'
+        '# Content with local images',
+        expect.any(Object)
       );
     });
   });
@@ -1,12 +1,19 @@
 import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { vi } from 'vitest';
 
+/**
+ * Smallest body recognized as an image: the PNG file signature
+ */
+export const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
 /**
  * Create a mock HTTP response object (IncomingMessage)
  * Uses EventEmitter so emit() and on() actually work for testing error handlers
  * @param statusCode HTTP status code
  * @param headers Response headers object
- * @returns Mock response with statusCode, headers, and event emitting
+ * @returns Mock response with statusCode, headers, pipe/resume/destroy, and event emitting
  */
 export function createMockResponse(statusCode = 200, headers = {}) {
   const emitter = new EventEmitter();
@@ -14,6 +21,8 @@ export function createMockResponse(statusCode = 200, headers = {}) {
     statusCode,
     headers,
     pipe: vi.fn(),
+    resume: vi.fn(),
+    destroy: vi.fn(),
     emit: (event: string, ...args: any[]) => emitter.emit(event, ...args),
     on: (event: string, listener: any) => emitter.on(event, listener),
   } as any;
@@ -80,6 +89,7 @@ export function createRedirectMock(
       const successResponse = createMockResponse(200);
       successResponse.pipe = vi.fn((dest: any) => {
         setTimeout(() => {
+          successResponse.emit('data', PNG_BYTES);
           mockFileStream.emit('finish');
         }, 10);
         return dest;
@@ -112,6 +122,7 @@ export function createSuccessDownloadMock(
         if (eventType === 'error' && errorArg) {
           mockFileStream.emit('error', errorArg);
         } else {
+          mockResponse.emit('data', PNG_BYTES);
           mockFileStream.emit('finish');
         }
       }, 10);
@@ -200,3 +211,55 @@ export function mockDateNow(fixedTime: number): () => void {
   const spy = vi.spyOn(Date, 'now').mockReturnValue(fixedTime);
   return () => spy.mockRestore();
 }
+
+/**
+ * Back the mocked fs functions with an in-memory map of file paths to contents.
+ * A path exists when it is a file or a directory containing files.
+ * Requires `vi.mock('node:fs')` in the test file.
+ * @param mtime Modification time reported by statSync for every file
+ * @returns The map, to add files to and inspect written files
+ */
+export function useMemoryFs(mtime = new Date(0)): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const inDir = (name: string, dir: string) => name.startsWith(`${dir}${path.sep}`);
+  const exists = (file: string) => files.has(file) || Array.from(files.keys()).some((name) => inDir(name, file));
+
+  vi.mocked(fs.existsSync).mockImplementation((file) => exists(file.toString()));
+  vi.mocked(fs.readFileSync).mockImplementation(((file: fs.PathOrFileDescriptor, encoding?: unknown) => {
+    const contents = files.get(file.toString());
+    if (!contents) {
+      throw new Error(`ENOENT: ${file.toString()}`);
+    }
+    return encoding ? contents.toString() : contents;
+  }) as typeof fs.readFileSync);
+  vi.mocked(fs.statSync).mockImplementation(((file: fs.PathLike) => ({
+    size: files.get(file.toString())?.length ?? 0,
+    mtime,
+  })) as unknown as typeof fs.statSync);
+  vi.mocked(fs.readdirSync).mockImplementation(((dir: fs.PathLike) =>
+    Array.from(files.keys())
+      .filter((name) => path.dirname(name) === dir.toString())
+      .map((name) => path.basename(name))) as unknown as typeof fs.readdirSync);
+  vi.mocked(fs.copyFileSync).mockImplementation((from, to) => {
+    files.set(to.toString(), files.get(from.toString())!);
+  });
+  vi.mocked(fs.writeFileSync).mockImplementation((file, data) => {
+    files.set(file.toString(), Buffer.from(data as string));
+  });
+  vi.mocked(fs.renameSync).mockImplementation((from, to) => {
+    files.set(to.toString(), files.get(from.toString())!);
+    files.delete(from.toString());
+  });
+  vi.mocked(fs.unlinkSync).mockImplementation((file) => {
+    files.delete(file.toString());
+  });
+  vi.mocked(fs.rmSync).mockImplementation((file) => {
+    for (const name of Array.from(files.keys())) {
+      if (name === file.toString() || inDir(name, file.toString())) {
+        files.delete(name);
+      }
+    }
+  });
+  vi.mocked(fs.mkdirSync).mockImplementation(() => undefined);
+  return files;
+}
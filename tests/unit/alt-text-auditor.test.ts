@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { AltTextAuditor } from '../../src/processors/alt-text-auditor.js';
+
+describe('AltTextAuditor', () => {
+  describe('check()', () => {
+    it.each([
+      ['', 'empty'],
+      ['   ', 'empty'],
+      ['IMG_2041.JPG', 'filename'],
+      ['diagram.png', 'filename'],
+      ['Screenshot 2023-04-01 at 10.12.33', 'filename'],
+      ['PXL_20230401_101233', 'filename'],
+      ['3f2a9c0d-1b7e-4a65-9c2d-8e1f0a3b4c5d', 'filename'],
+      ['https://cdn.hashnode.com/res/hashnode/image/upload/uuid.png', 'filename'],
+      ['image', 'generic'],
+      ['Image 3', 'generic'],
+      ['an image', 'generic'],
+      ['Screenshot', 'generic'],
+      ['photo-2', 'generic'],
+      ['Enter image description here', 'generic'],
+    ])('should classify %j as %s', (alt, problem) => {
+      expect(AltTextAuditor.check(alt)).toBe(problem);
+    });
+
+    it.each([['Request flow between services'], ['Image of a cat on a keyboard'], ['Screenshot of the settings page']])(
+      'should accept %j',
+      (alt) => {
+        expect(AltTextAuditor.check(alt)).toBeUndefined();
+      }
+    );
+
+    it('should flag alt text repeating the filename of the URL', () => {
+      expect(AltTextAuditor.check('architecture-v2', 'https://example.com/img/architecture-v2.png?w=800')).toBe(
+        'filename'
+      );
+    });
+  });
+
+  describe('audit()', () => {
+    it('should report inline, reference and HTML images with any URL', () => {
+      const markdown = [
+        '![](./local.png)',
+        '![image][chart]',
+        '<img src="https://example.com/a.png" width="300">',
+        '![A sunset over the bay](https://example.com/sunset.jpg)',
+        '',
+        '[chart]: https://example.com/chart.png',
+      ].join('\n');
+
+      const { markdown: audited, issues } = new AltTextAuditor().audit(markdown);
+
+      expect(audited).toBe(markdown);
+      expect(issues).toEqual([
+        { url: './local.png', alt: '', problem: 'empty' },
+        { url: 'https://example.com/chart.png', alt: 'image', problem: 'generic' },
+        { url: 'https://example.com/a.png', alt: '', problem: 'empty' },
+      ]);
+    });
+
+    it('should ignore images in code', () => {
+      const markdown = '```md\n![](https://example.com/a.png)\n```\n\nUse `![](url)` for images.';
+
+      expect(new AltTextAuditor().audit(markdown).issues).toEqual([]);
+    });
+
+    describe('filling', () => {
+      const auditor = new AltTextAuditor({ fill: true });
+
+      it('should fill alt text from an emphasized caption line', () => {
+        const { markdown, issues } = auditor.audit('![](https://example.com/a.png)\n\n*The **request** flow*\n');
+
+        expect(markdown).toBe('![The request flow](https://example.com/a.png)\n\n*The **request** flow*\n');
+        expect(issues).toEqual([
+          {
+            url: 'https://example.com/a.png',
+            alt: '',
+            problem: 'empty',
+            filledAlt: 'The request flow',
+            filledFrom: 'caption',
+          },
+        ]);
+      });
+
+      it('should fill alt text from a numbered figure caption', () => {
+        const { markdown } = auditor.audit('![IMG_0001.png](./a.png "Cover")\nFigure 2: Deployment pipeline');
+
+        expect(markdown).toBe('![Deployment pipeline](./a.png "Cover")\nFigure 2: Deployment pipeline');
+      });
+
+      it('should fill the alt attribute from the figcaption of the figure', () => {
+        const { markdown, issues } = auditor.audit(
+          '<figure>\n<img alt="image" src="./a.png">\n<figcaption>Cache &amp; <b>queue</b></figcaption>\n</figure>'
+        );
+
+        expect(markdown).toContain('<img alt="Cache &amp; queue" src="./a.png">');
+        expect(issues[0].filledAlt).toBe('Cache & queue');
+      });
+
+      it('should not take the figcaption of a later figure', () => {
+        const { issues } = auditor.audit(
+          '<img src="./a.png">\n\n<figure><img src="./b.png" alt="b"><figcaption>B</figcaption></figure>'
+        );
+
+        expect(issues[0]).toEqual({ url: './a.png', alt: '', problem: 'empty' });
+      });
+
+      it('should fall back to the title, then to the preceding heading', () => {
+        const markdown = [
+          '## Setting up `docker` ##',
+          '',
+          '![](./a.png "Docker Desktop settings")',
+          '',
+          'Some text.',
+          '',
+          '<img src="./b.png">',
+        ].join('\n');
+
+        const { markdown: audited, issues } = auditor.audit(markdown);
+
+        expect(audited).toContain('![Docker Desktop settings](./a.png "Docker Desktop settings")');
+        expect(audited).toContain('<img alt="Setting up docker" src="./b.png">');
+        expect(issues.map((issue) => issue.filledFrom)).toEqual(['title', 'heading']);
+      });
+
+      it('should only use the configured sources', () => {
+        const { markdown, issues } = new AltTextAuditor({ fill: true, sources: ['caption'] }).audit(
+          '# Intro\n\n![](./a.png "Title")'
+        );
+
+        expect(markdown).toBe('# Intro\n\n![](./a.png "Title")');
+        expect(issues).toEqual([{ url: './a.png', alt: '', problem: 'empty' }]);
+      });
+
+      it('should skip context that is itself meaningless', () => {
+        const { issues } = auditor.audit('# Screenshots\n\n![](./a.png "screenshot.png")');
+
+        expect(issues[0].filledAlt).toBeUndefined();
+      });
+
+      it('should keep the label of a reference image', () => {
+        const { markdown } = auditor.audit('# Build matrix\n\n![chart][]\n\n[chart]: ./chart.png');
+
+        expect(markdown).toBe('# Build matrix\n\n![Build matrix][chart]\n\n[chart]: ./chart.png');
+      });
+
+      it('should remove brackets from markdown alt text and keep code samples intact', () => {
+        const markdown = '## The [draft] `items[0]` field\n\n![](./a.png)\n\n```\n![](./b.png)\n```';
+
+        expect(auditor.audit(markdown).markdown).toBe(
+          '## The [draft] `items[0]` field\n\n![The draft items0 field](./a.png)\n\n```\n![](./b.png)\n```'
+        );
+      });
+    });
+
+    it('should throw for an invalid source', () => {
+      expect(() => new AltTextAuditor({ sources: ['filename' as never] })).toThrow('Invalid alt text source: filename');
+    });
+  });
+});
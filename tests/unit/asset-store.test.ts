@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+import { AssetStore } from '../../src/services/asset-store.js';
+import { useMemoryFs } from '../mocks/mocks.js';
+
+vi.mock('node:fs');
+
+const ROOT = '/blog';
+
+/**
+ * Content-addressed directory for the given bytes
+ */
+function hashDir(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex').slice(0, 16);
+}
+
+describe('AssetStore', () => {
+  let files: Map<string, Buffer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files = useMemoryFs();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('add()', () => {
+    it('should move a download to <dir>/<sha256-prefix>/<name>', () => {
+      files.set('/blog/post-a/diagram.png', Buffer.from('diagram'));
+      const store = new AssetStore(ROOT);
+
+      const assetPath = store.add('/blog/post-a/diagram.png', 'diagram.png', 'https://x.test/d.png', 'post-a');
+
+      expect(assetPath).toBe(`assets/${hashDir('diagram')}/diagram.png`);
+      expect(files.has(path.join(ROOT, assetPath))).toBe(true);
+      expect(files.has('/blog/post-a/diagram.png')).toBe(false);
+    });
+
+    it('should store identical bytes once and record every post and URL', () => {
+      const store = new AssetStore(ROOT);
+      files.set('/blog/post-a/a.png', Buffer.from('same'));
+      const first = store.add('/blog/post-a/a.png', 'a.png', 'https://x.test/a.png', 'post-a');
+      files.set('/blog/post-b/b.png', Buffer.from('same'));
+      const second = store.add('/blog/post-b/b.png', 'b.png', 'https://y.test/b.png', 'post-b');
+
+      expect(second).toBe(first);
+      expect(files.has('/blog/post-b/b.png')).toBe(false);
+      expect(store.getManifest().assets[first]).toEqual({
+        sha256: createHash('sha256').update('same').digest('hex'),
+        size: 4,
+        sources: ['https://x.test/a.png', 'https://y.test/b.png'],
+        posts: ['post-a', 'post-b'],
+      });
+    });
+
+    it('should keep different bytes with the same name apart', () => {
+      const store = new AssetStore(ROOT);
+      files.set('/blog/a/logo.png', Buffer.from('one'));
+      files.set('/blog/b/logo.png', Buffer.from('two'));
+
+      const first = store.add('/blog/a/logo.png', 'logo.png', 'https://x.test/1', 'a');
+      const second = store.add('/blog/b/logo.png', 'logo.png', 'https://x.test/2', 'b');
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should use a custom store directory', () => {
+      files.set('/blog/post/a.png', Buffer.from('a'));
+      const store = new AssetStore(ROOT, { dir: 'static/assets/' });
+
+      expect(store.add('/blog/post/a.png', 'a.png', 'https://x.test/a', 'post')).toBe(
+        `static/assets/${hashDir('a')}/a.png`
+      );
+      expect(store.manifestPath).toBe(path.join(ROOT, 'static', 'assets', 'manifest.json'));
+    });
+  });
+
+  describe('find()', () => {
+    it('should find stored URLs while their file exists', () => {
+      files.set('/blog/post/a.png', Buffer.from('a'));
+      const store = new AssetStore(ROOT);
+      const assetPath = store.add('/blog/post/a.png', 'a.png', 'https://x.test/a', 'post');
+
+      expect(store.find('https://x.test/a')).toBe(assetPath);
+      expect(store.find('https://x.test/other')).toBeUndefined();
+
+      files.delete(path.join(ROOT, assetPath));
+      expect(store.find('https://x.test/a')).toBeUndefined();
+    });
+  });
+
+  describe('reference()', () => {
+    it('should add a post once, keeping posts sorted', () => {
+      files.set('/blog/b/a.png', Buffer.from('a'));
+      const store = new AssetStore(ROOT);
+      const assetPath = store.add('/blog/b/a.png', 'a.png', 'https://x.test/a', 'b');
+
+      store.reference(assetPath, 'a');
+      store.reference(assetPath, 'b');
+
+      expect(store.getManifest().assets[assetPath].posts).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('Manifest', () => {
+    it('should save the manifest and load it in a new store', () => {
+      files.set('/blog/post/a.png', Buffer.from('a'));
+      const store = new AssetStore(ROOT);
+      const assetPath = store.add('/blog/post/a.png', 'a.png', 'https://x.test/a', 'post');
+      store.save();
+
+      expect(JSON.parse(files.get(store.manifestPath)!.toString()).version).toBe(1);
+      expect(files.has(`${store.manifestPath}.tmp`)).toBe(false);
+      expect(new AssetStore(ROOT).find('https://x.test/a')).toBe(assetPath);
+    });
+
+    it('should reject manifests with an unknown version', () => {
+      files.set(path.join(ROOT, 'assets', 'manifest.json'), Buffer.from('{"version":2,"assets":{}}'));
+      expect(() => new AssetStore(ROOT)).toThrow('Unsupported asset manifest');
+    });
+  });
+
+  describe('normalizeDir()', () => {
+    it.each([
+      ['assets', 'assets'],
+      ['./static/assets/', 'static/assets'],
+    ])('should normalize "%s" to "%s"', (dir, expected) => {
+      expect(AssetStore.normalizeDir(dir)).toBe(expected);
+    });
+
+    it.each(['', '.', '../assets', '/var/assets', 'a/../../b'])('should reject "%s"', (dir) => {
+      expect(() => AssetStore.normalizeDir(dir)).toThrow('Invalid shared asset directory');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { AstroFrontmatterGenerator } from '../../src/processors/astro-frontmatter-generator.js';
+import type { AstroField } from '../../src/processors/astro-frontmatter-generator.js';
+import type { PostMetadata } from '../../src/types/hashnode-schema.js';
+
+/**
+ * Extract the top-level keys from a generated frontmatter block
+ */
+function frontmatterKeys(frontmatter: string): string[] {
+  return frontmatter
+    .split('\n')
+    .filter((line) => /^[A-Za-z_]\w*:/.test(line))
+    .map((line) => line.slice(0, line.indexOf(':')));
+}
+
+/**
+ * Extract the field names declared in a generated zod schema
+ */
+function schemaKeys(schema: string): string[] {
+  return [...schema.matchAll(/^ {4}(\w+): z\./gm)].map((match) => match[1]);
+}
+
+/**
+ * Extract the field names the generated zod schema requires
+ */
+function requiredSchemaKeys(schema: string): string[] {
+  return [...schema.matchAll(/^ {4}(\w+): z\..*(?<!\.optional\(\)),$/gm)].map((match) => match[1]);
+}
+
+describe('AstroFrontmatterGenerator', () => {
+  const generator = new AstroFrontmatterGenerator();
+
+  const baseMetadata: PostMetadata = {
+    title: 'My Post Title',
+    slug: 'my-post-slug',
+    dateAdded: '2023-01-01T12:00:00.000Z',
+    brief: 'A brief description',
+    contentMarkdown: 'Content',
+  };
+
+  const fullMetadata: PostMetadata = {
+    ...baseMetadata,
+    updatedAt: '2023-02-01T08:30:00.000Z',
+    isActive: true,
+    tags: ['astro', 'web'],
+    coverImage: 'https://example.com/cover.png',
+  };
+
+  describe('generate()', () => {
+    it('should wrap frontmatter in YAML --- delimiters', () => {
+      const lines = generator.generate(baseMetadata).split('\n');
+
+      expect(lines[0]).toBe('---');
+      expect(lines[lines.length - 1]).toBe('---');
+    });
+
+    it('should map PostMetadata to Astro field names', () => {
+      const result = generator.generate(fullMetadata);
+
+      expect(result).toContain('title: "My Post Title"');
+      expect(result).toContain('description: "A brief description"');
+      expect(result).toContain('pubDate: 2023-01-01T12:00:00.000Z');
+      expect(result).toContain('updatedDate: 2023-02-01T08:30:00.000Z');
+      expect(result).toContain('draft: false');
+      expect(result).toContain('tags:\n  - "astro"\n  - "web"');
+      expect(result).toContain('heroImage: "https://example.com/cover.png"');
+    });
+
+    it('should not emit the reserved slug field', () => {
+      expect(frontmatterKeys(generator.generate(fullMetadata))).not.toContain('slug');
+    });
+
+    it('should omit optional fields without values', () => {
+      const result = generator.generate({ ...baseMetadata, brief: '' });
+
+      expect(frontmatterKeys(result)).toEqual(['title', 'pubDate']);
+    });
+
+    it('should throw when a required field is missing', () => {
+      expect(() => generator.generate({ ...baseMetadata, dateAdded: undefined as unknown as string })).toThrow(
+        'Missing required Astro field: pubDate'
+      );
+    });
+
+    it('should throw when a date cannot be parsed', () => {
+      expect(() => generator.generate({ ...baseMetadata, dateAdded: 'not-a-date' })).toThrow(
+        'Invalid value for Astro field "pubDate": expected date'
+      );
+    });
+
+    it('should escape quotes, backslashes and newlines', () => {
+      const result = generator.generate({ ...baseMetadata, title: 'Say "hi"\n\\ bye' });
+
+      expect(result).toContain('title: "Say \\"hi\\"\\n\\\\ bye"');
+    });
+  });
+
+  describe('Extra Fields', () => {
+    const extraFields: AstroField[] = [
+      { name: 'author', type: 'string', value: () => 'Jane Doe' },
+      { name: 'readingTime', type: 'number', optional: true, value: (m) => m.contentMarkdown.length },
+      { name: 'featured', type: 'boolean', value: () => false },
+      { name: 'series', type: 'string[]', value: () => [] },
+    ];
+
+    it('should emit extra fields after the built-in fields', () => {
+      const result = new AstroFrontmatterGenerator(extraFields).generate(baseMetadata);
+
+      expect(frontmatterKeys(result)).toEqual([
+        'title',
+        'description',
+        'pubDate',
+        'author',
+        'readingTime',
+        'featured',
+        'series',
+      ]);
+      expect(result).toContain('author: "Jane Doe"');
+      expect(result).toContain('readingTime: 7');
+      expect(result).toContain('featured: false');
+      expect(result).toContain('series: []');
+    });
+
+    it('should throw when an extra field value does not match its type', () => {
+      const invalid = new AstroFrontmatterGenerator([
+        { name: 'rating', type: 'number', value: () => 'five' },
+      ]);
+
+      expect(() => invalid.generate(baseMetadata)).toThrow(
+        'Invalid value for Astro field "rating": expected number'
+      );
+    });
+
+    it.each([
+      [[{ name: 'title', type: 'string', value: () => 'x' }]],
+      [[{ name: 'slug', type: 'string', value: () => 'x' }]],
+      [
+        [
+          { name: 'author', type: 'string', value: () => 'a' },
+          { name: 'author', type: 'string', value: () => 'b' },
+        ],
+      ],
+    ] as AstroField[][][])('should reject duplicate or reserved field names %#', (fields) => {
+      expect(() => new AstroFrontmatterGenerator(fields)).toThrow('Duplicate or reserved Astro field name');
+    });
+
+    it('should reject field names that are not identifiers', () => {
+      expect(
+        () => new AstroFrontmatterGenerator([{ name: 'hero-image', type: 'string', value: () => 'x' }])
+      ).toThrow('Invalid Astro field name: hero-image');
+    });
+  });
+
+  describe('generateSchema()', () => {
+    it('should generate a content collection config', () => {
+      const schema = generator.generateSchema('blog');
+
+      expect(schema).toContain("import { defineCollection, z } from 'astro:content';");
+      expect(schema).toContain('const blog = defineCollection({');
+      expect(schema).toContain("type: 'content',");
+      expect(schema).toContain('export const collections = { blog };');
+    });
+
+    it('should map field types to zod schemas', () => {
+      const schema = new AstroFrontmatterGenerator([
+        { name: 'rating', type: 'number', value: () => 5 },
+      ]).generateSchema('blog');
+
+      expect(schema).toContain('    title: z.string(),');
+      expect(schema).toContain('    description: z.string().optional(),');
+      expect(schema).toContain('    pubDate: z.coerce.date(),');
+      expect(schema).toContain('    updatedDate: z.coerce.date().optional(),');
+      expect(schema).toContain('    draft: z.boolean().optional(),');
+      expect(schema).toContain('    tags: z.array(z.string()).optional(),');
+      expect(schema).toContain('    heroImage: z.string().optional(),');
+      expect(schema).toContain('    rating: z.number(),');
+    });
+
+    it('should declare every emitted field and require only always-present ones', () => {
+      const extra = new AstroFrontmatterGenerator([
+        { name: 'author', type: 'string', value: () => 'Jane Doe' },
+      ]);
+      const schema = extra.generateSchema('blog');
+
+      const minimalKeys = frontmatterKeys(extra.generate({ ...baseMetadata, brief: '' }));
+      const fullKeys = frontmatterKeys(extra.generate(fullMetadata));
+
+      expect(schemaKeys(schema).sort()).toEqual([...fullKeys].sort());
+      expect(minimalKeys.sort()).toEqual(requiredSchemaKeys(schema).sort());
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import { AstroTarget } from '../../src/targets/astro-target.js';
+
+describe('AstroTarget', () => {
+  const context = { slug: 'my-post', dateAdded: '2024-01-15T10:30:00.000Z' };
+
+  describe('Layout', () => {
+    const target = new AstroTarget();
+
+    it('should write posts into the blog content collection', () => {
+      expect(target.postPath(context)).toBe(path.join('src', 'content', 'blog', 'my-post.md'));
+      expect(target.existencePath(context)).toBe(path.join('src', 'content', 'blog', 'my-post.md'));
+    });
+
+    it('should store images in a per-post folder linked relative to the post', () => {
+      expect(target.imageDir(context)).toBe(path.join('src', 'content', 'blog', 'my-post'));
+      expect(target.imageLink('uuid.png', context)).toBe('./my-post/uuid.png');
+    });
+
+    it('should use the configured collection name', () => {
+      const notes = new AstroTarget({ collection: 'notes' });
+
+      expect(notes.postPath(context)).toBe(path.join('src', 'content', 'notes', 'my-post.md'));
+      expect(notes.supportFiles()[0].content).toContain('export const collections = { notes };');
+    });
+
+    it('should reject collection names that are not identifiers', () => {
+      expect(() => new AstroTarget({ collection: '../blog' })).toThrow('Invalid Astro collection name');
+    });
+  });
+
+  describe('Support Files', () => {
+    it('should generate src/content/config.ts including extra fields', () => {
+      const target = new AstroTarget({
+        extraFields: [{ name: 'author', type: 'string', value: () => 'Jane Doe' }],
+      });
+
+      const [config] = target.supportFiles();
+
+      expect(config.path).toBe(path.join('src', 'content', 'config.ts'));
+      expect(config.content).toContain('    author: z.string(),');
+    });
+  });
+});
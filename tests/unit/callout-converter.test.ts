@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { CalloutConverter } from '../../src/processors/callout-converter.js';
+
+/**
+ * Build a callout in Hashnode's export format
+ */
+function callout(emoji: string, text: string): string {
+  return [
+    '<div data-node-type="callout">',
+    `<div data-node-type="callout-emoji">${emoji}</div>`,
+    `<div data-node-type="callout-text">${text}</div>`,
+    '</div>',
+  ].join('\n');
+}
+
+describe('CalloutConverter', () => {
+  const converter = new CalloutConverter();
+
+  describe('Alert Types', () => {
+    it.each([
+      ['💡', 'TIP'],
+      ['ℹ️', 'NOTE'],
+      ['⚠️', 'WARNING'],
+      ['🚨', 'CAUTION'],
+      ['❗', 'IMPORTANT'],
+    ])('should map %s to %s', (emoji, type) => {
+      expect(converter.convert(callout(emoji, 'Text'))).toBe(`> [!${type}]\n> Text`);
+    });
+
+    it('should match emojis with or without the variation selector', () => {
+      expect(converter.convert(callout('⚠', 'Text'))).toBe('> [!WARNING]\n> Text');
+    });
+
+    it('should fall back to NOTE for unknown emojis', () => {
+      expect(converter.convert(callout('🦄', 'Text'))).toBe('> [!NOTE]\n> Text');
+    });
+
+    it('should fall back to NOTE when the emoji div is missing', () => {
+      const input = '<div data-node-type="callout">\n<div data-node-type="callout-text">Text</div>\n</div>';
+      expect(converter.convert(input)).toBe('> [!NOTE]\n> Text');
+    });
+
+    it('should merge custom mappings over the defaults', () => {
+      const custom = new CalloutConverter({ '🐛': 'CAUTION', '💡': 'NOTE' });
+      expect(custom.convert(callout('🐛', 'Bug'))).toBe('> [!CAUTION]\n> Bug');
+      expect(custom.convert(callout('💡', 'Idea'))).toBe('> [!NOTE]\n> Idea');
+      expect(custom.convert(callout('⚠️', 'Careful'))).toBe('> [!WARNING]\n> Careful');
+    });
+  });
+
+  describe('Nested Content', () => {
+    it('should keep lists and blank lines inside the callout', () => {
+      const input = callout('💡', '\nBefore you start:\n\n- Install Node\n  - Version 18+\n- Clone the repo\n');
+      expect(converter.convert(input)).toBe(
+        '> [!TIP]\n> Before you start:\n>\n> - Install Node\n>   - Version 18+\n> - Clone the repo'
+      );
+    });
+
+    it('should keep code blocks verbatim, including HTML inside them', () => {
+      const input = callout('ℹ️', '\n```html\n<div class="x">\n  </div>\n</div>\n\n```\n');
+      expect(converter.convert(input)).toBe(
+        '> [!NOTE]\n> ```html\n> <div class="x">\n>   </div>\n> </div>\n>\n> ```'
+      );
+    });
+
+    it('should keep inline HTML inside the text', () => {
+      const input = callout('💡', 'Use <strong>strict</strong> mode');
+      expect(converter.convert(input)).toBe('> [!TIP]\n> Use <strong>strict</strong> mode');
+    });
+
+    it('should count nested divs when finding the end of the callout', () => {
+      const input = callout('💡', '<div>inner</div>') + '\n\nAfter';
+      expect(converter.convert(input)).toBe('> [!TIP]\n> <div>inner</div>\n\nAfter');
+    });
+
+    it('should remove common indentation from the text', () => {
+      const input = callout('💡', '\n    Indented\n      More\n');
+      expect(converter.convert(input)).toBe('> [!TIP]\n> Indented\n>   More');
+    });
+
+    it('should write only the alert line for an empty callout', () => {
+      expect(converter.convert(callout('💡', ''))).toBe('> [!TIP]');
+    });
+  });
+
+  describe('Placement', () => {
+    it('should convert every callout and keep surrounding content', () => {
+      const input = `# Title\n\n${callout('💡', 'One')}\n\nMiddle\n\n${callout('⚠️', 'Two')}\n`;
+      expect(converter.convert(input)).toBe(
+        '# Title\n\n> [!TIP]\n> One\n\nMiddle\n\n> [!WARNING]\n> Two\n'
+      );
+    });
+
+    it('should keep the indentation of indented callouts', () => {
+      const input = callout('💡', 'Text')
+        .split('\n')
+        .map((line) => `  ${line}`)
+        .join('\n');
+      expect(converter.convert(`- Item\n\n${input}`)).toBe('- Item\n\n  > [!TIP]\n  > Text');
+    });
+
+    it('should not convert callouts inside fenced code blocks', () => {
+      const input = '```html\n' + callout('💡', 'Example') + '\n```';
+      expect(converter.convert(input)).toBe(input);
+    });
+
+    it('should not convert callouts that share a line with other content', () => {
+      const input = `${callout('💡', 'Text')} trailing`;
+      expect(converter.convert(input)).toBe(input);
+    });
+
+    it('should leave unclosed callouts unchanged', () => {
+      const input = '<div data-node-type="callout">\n<div data-node-type="callout-text">Text</div>';
+      expect(converter.convert(input)).toBe(input);
+    });
+  });
+});
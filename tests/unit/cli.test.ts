@@ -9,12 +9,29 @@ import {
   validateOutputPath,
   validateLogFilePath,
   validateMutuallyExclusiveFlags,
+  validateConcurrency,
+  validateTarget,
+  validateEmbeds,
+  validateImageHosts,
+  validateImageFilenames,
+  validateDownloadOptions,
+  validateSharedAssets,
+  parseByteSize,
+  validateCache,
+  validatePrefetchedImages,
+  validateTransportOptions,
+  validateOptimization,
+  validateAltText,
   validateOptions,
+  formatBytes,
   createProgressBar,
   createProgressCallback,
+  formatImageRetry,
   displayResult,
+  displayPlan,
 } from '../../src/cli/convert.js';
 import type { ConversionResult } from '../../src/types/conversion-result.js';
+import { DEFAULT_CACHE_DIR } from '../../src/services/http-cache.js';
 
 // Mock fs module
 vi.mock('node:fs');
@@ -228,6 +245,361 @@ describe('CLI', () => {
     });
   });
 
+  // ===========================================================================
+  // validateConcurrency Tests
+  // ===========================================================================
+  describe('validateConcurrency', () => {
+    it('should return undefined when concurrency is not provided', () => {
+      expect(validateConcurrency(undefined)).toBeUndefined();
+    });
+
+    it('should parse a positive integer', () => {
+      expect(validateConcurrency('4')).toBe(4);
+    });
+
+    it.each(['0', '-2', '1.5', 'abc', ''])('should throw for invalid value "%s"', (value) => {
+      expect(() => validateConcurrency(value)).toThrow('Invalid --concurrency value');
+    });
+  });
+
+  // ===========================================================================
+  // validateTarget Tests
+  // ===========================================================================
+  describe('validateTarget', () => {
+    it('should default to markdown when target is not provided', () => {
+      expect(validateTarget(undefined)).toBe('markdown');
+    });
+
+    it.each(['markdown', 'hugo', 'jekyll', 'astro', 'mdx'])('should accept built-in target "%s"', (target) => {
+      expect(validateTarget(target)).toBe(target);
+    });
+
+    it('should throw for an unsupported target', () => {
+      expect(() => validateTarget('gatsby')).toThrow('Invalid --target value: gatsby');
+    });
+  });
+
+  // ===========================================================================
+  // validateEmbeds Tests
+  // ===========================================================================
+  describe('validateEmbeds', () => {
+    it('should return undefined when embeds is not provided', () => {
+      expect(validateEmbeds(undefined, 'mdx')).toBeUndefined();
+    });
+
+    it.each([
+      ['none', { embedFallback: 'none' }],
+      ['iframe', { embedFallback: 'iframe' }],
+      ['link', { embedFallback: 'link' }],
+      ['hugo', { embedFallback: 'shortcode', embedShortcodes: 'hugo' }],
+      ['liquid', { embedFallback: 'shortcode', embedShortcodes: 'liquid' }],
+    ])('should map mode "%s" to markdown options', (mode, expected) => {
+      expect(validateEmbeds(mode, 'markdown')).toEqual(expected);
+    });
+
+    it.each(['shortcode', 'toString'])('should throw for unsupported mode "%s"', (mode) => {
+      expect(() => validateEmbeds(mode, 'markdown')).toThrow(`Invalid --embeds value: ${mode}`);
+    });
+
+    it('should throw when combined with the MDX target', () => {
+      expect(() => validateEmbeds('iframe', 'mdx')).toThrow('--embeds cannot be used with --target mdx');
+    });
+  });
+
+  // ===========================================================================
+  // Image Download Flag Tests
+  // ===========================================================================
+  describe('validateImageHosts', () => {
+    it('should return undefined when hosts are not provided', () => {
+      expect(validateImageHosts(undefined, '--image-hosts')).toBeUndefined();
+    });
+
+    it('should split and trim comma-separated hosts', () => {
+      expect(validateImageHosts('cdn.hashnode.com, *.imgur.com', '--image-hosts')).toEqual([
+        'cdn.hashnode.com',
+        '*.imgur.com',
+      ]);
+    });
+
+    it.each(['', 'a.com,,b.com', 'ex*ample.com'])('should throw for invalid list "%s"', (hosts) => {
+      expect(() => validateImageHosts(hosts, '--exclude-image-hosts')).toThrow(
+        `Invalid --exclude-image-hosts value: ${hosts}`
+      );
+    });
+  });
+
+  describe('validateImageFilenames', () => {
+    it.each(['hash', 'basename'])('should accept "%s"', (strategy) => {
+      expect(validateImageFilenames(strategy)).toBe(strategy);
+    });
+
+    it('should throw for an unsupported strategy', () => {
+      expect(() => validateImageFilenames('uuid')).toThrow('Invalid --image-filenames value: uuid');
+    });
+  });
+
+  describe('validateDownloadOptions', () => {
+    const baseOptions = { export: '', output: '', skipExisting: true, verbose: false, quiet: false };
+
+    it('should return undefined when no image flag is provided', () => {
+      expect(validateDownloadOptions(baseOptions)).toBeUndefined();
+    });
+
+    it('should combine the image flags', () => {
+      expect(
+        validateDownloadOptions({
+          ...baseOptions,
+          imageHosts: '*',
+          excludeImageHosts: 'ads.example',
+          imageFilenames: 'basename',
+        })
+      ).toEqual({ allowedHosts: ['*'], deniedHosts: ['ads.example'], filenameStrategy: 'basename' });
+    });
+
+    it('should enable offline mode with pre-fetched images', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => true } as fs.Stats);
+
+      expect(validateDownloadOptions({ ...baseOptions, offline: true, prefetchedImages: './images' })).toEqual({
+        offline: true,
+        prefetchedDir: path.resolve('./images'),
+      });
+    });
+
+    it('should include the HTTP cache', () => {
+      expect(validateDownloadOptions({ ...baseOptions, cache: true })).toEqual({
+        cache: { dir: DEFAULT_CACHE_DIR },
+      });
+    });
+
+    it('should parse the maximum image size', () => {
+      expect(validateDownloadOptions({ ...baseOptions, maxImageSize: '10MB' })).toEqual({ maxBytes: 10 * 1024 * 1024 });
+    });
+
+    it('should write image dimensions', () => {
+      expect(validateDownloadOptions({ ...baseOptions, imageDimensions: true })).toEqual({ writeDimensions: true });
+    });
+
+    it('should throw for an invalid maximum image size', () => {
+      expect(() => validateDownloadOptions({ ...baseOptions, maxImageSize: 'huge' })).toThrow(
+        'Invalid --max-image-size value: huge'
+      );
+      expect(() => validateDownloadOptions({ ...baseOptions, maxImageSize: '0' })).toThrow(
+        'expected a size greater than 0'
+      );
+    });
+  });
+
+  describe('validateOptimization', () => {
+    const baseOptions = { export: '', output: '', skipExisting: true, verbose: false, quiet: false };
+
+    it('should return undefined when no optimization flag is provided', () => {
+      expect(validateOptimization(baseOptions)).toBeUndefined();
+    });
+
+    it('should enable optimization with the defaults', () => {
+      expect(validateOptimization({ ...baseOptions, optimizeImages: true })).toEqual({});
+    });
+
+    it('should combine the optimization flags', () => {
+      expect(
+        validateOptimization({
+          ...baseOptions,
+          maxImageWidth: '1600',
+          imageQuality: '75',
+          imageFormats: 'AVIF, webp',
+          picture: true,
+        })
+      ).toEqual({ maxWidth: 1600, quality: 75, formats: ['avif', 'webp'], markup: 'picture' });
+    });
+
+    it('should throw for an invalid width or quality', () => {
+      expect(() => validateOptimization({ ...baseOptions, maxImageWidth: '0' })).toThrow(
+        'Invalid --max-image-width value: 0'
+      );
+      expect(() => validateOptimization({ ...baseOptions, imageQuality: '101' })).toThrow(
+        'Invalid --image-quality value: 101'
+      );
+    });
+
+    it('should throw for an unsupported format', () => {
+      expect(() => validateOptimization({ ...baseOptions, imageFormats: 'webp,jxl' })).toThrow(
+        'Invalid --image-formats value: webp,jxl (expected a comma-separated list of: webp, avif)'
+      );
+    });
+
+    it('should require modern formats for picture markup', () => {
+      expect(() => validateOptimization({ ...baseOptions, picture: true })).toThrow(
+        '--picture requires --image-formats'
+      );
+    });
+
+    it('should be included in the download options', () => {
+      expect(validateDownloadOptions({ ...baseOptions, imageFormats: 'webp' })).toEqual({
+        optimize: { formats: ['webp'] },
+      });
+    });
+  });
+
+  describe('validateAltText', () => {
+    it('should return undefined when no alt text flag is provided', () => {
+      expect(validateAltText(undefined, undefined)).toBeUndefined();
+    });
+
+    it('should audit without filling', () => {
+      expect(validateAltText(true, undefined)).toEqual({});
+    });
+
+    it('should fill from every source when no sources are given', () => {
+      expect(validateAltText(undefined, true)).toEqual({ fill: true });
+    });
+
+    it('should parse the sources in order', () => {
+      expect(validateAltText(true, 'Title, caption')).toEqual({ fill: true, sources: ['title', 'caption'] });
+    });
+
+    it('should throw for an unknown source', () => {
+      expect(() => validateAltText(undefined, 'caption,filename')).toThrow(
+        'Invalid --fill-alt-text value: caption,filename (expected a comma-separated list of: caption, title, heading)'
+      );
+    });
+
+    it('should be included in the download options', () => {
+      const baseOptions = { export: '', output: '', skipExisting: true, verbose: false, quiet: false };
+
+      expect(validateDownloadOptions({ ...baseOptions, auditAltText: true })).toEqual({ altText: {} });
+    });
+  });
+
+  describe('validatePrefetchedImages', () => {
+    it('should return undefined when not provided', () => {
+      expect(validatePrefetchedImages(undefined, true)).toBeUndefined();
+    });
+
+    it('should resolve an existing directory', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => true } as fs.Stats);
+
+      expect(validatePrefetchedImages('./images', true)).toBe(path.resolve('./images'));
+    });
+
+    it('should require offline mode', () => {
+      expect(() => validatePrefetchedImages('./images', false)).toThrow('--prefetched-images requires --offline');
+    });
+
+    it('should throw when the directory does not exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(() => validatePrefetchedImages('./images', true)).toThrow(
+        `Pre-fetched image directory not found: ${path.resolve('./images')}`
+      );
+    });
+  });
+
+  describe('validateTransportOptions', () => {
+    it('should return undefined when no flag is provided', () => {
+      expect(validateTransportOptions(undefined, undefined)).toBeUndefined();
+    });
+
+    it('should accept a proxy URL and resolve the CA file', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      expect(validateTransportOptions('http://proxy.corp:8080', './corp-ca.pem')).toEqual({
+        proxy: 'http://proxy.corp:8080',
+        caFile: path.resolve('./corp-ca.pem'),
+      });
+    });
+
+    it.each(['proxy.corp:8080', 'socks5://proxy:1080', 'not a url'])('should throw for proxy "%s"', (proxy) => {
+      expect(() => validateTransportOptions(proxy, undefined)).toThrow(`Invalid --proxy value: ${proxy}`);
+    });
+
+    it('should throw when the CA file does not exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(() => validateTransportOptions(undefined, './missing.pem')).toThrow(
+        `CA file not found: ${path.resolve('./missing.pem')}`
+      );
+    });
+  });
+
+  describe('parseByteSize', () => {
+    it('should return undefined when not provided', () => {
+      expect(parseByteSize(undefined, '--cache-max-size')).toBeUndefined();
+    });
+
+    it.each([
+      ['1048576', 1048576],
+      ['100K', 100 * 1024],
+      ['500MB', 500 * 1024 ** 2],
+      ['1.5gb', 1.5 * 1024 ** 3],
+      ['0', 0],
+    ])('should parse "%s"', (size, bytes) => {
+      expect(parseByteSize(size, '--cache-max-size')).toBe(bytes);
+    });
+
+    it.each(['', 'lots', '-1MB', '10TB'])('should throw for "%s"', (size) => {
+      expect(() => parseByteSize(size, '--max-size')).toThrow(`Invalid --max-size value: ${size}`);
+    });
+
+    it('should name the option in the error', () => {
+      expect(() => parseByteSize('huge', '--max-image-size')).toThrow(
+        'Invalid --max-image-size value: huge (expected a size such as 500MB or 2GB)'
+      );
+    });
+  });
+
+  describe('validateCache', () => {
+    it('should return undefined when no cache flag is provided', () => {
+      expect(validateCache(undefined, undefined)).toBeUndefined();
+    });
+
+    it('should use the default directory for the bare flag', () => {
+      expect(validateCache(true, undefined)).toEqual({ dir: DEFAULT_CACHE_DIR });
+    });
+
+    it('should resolve a custom directory', () => {
+      expect(validateCache('./cache', '2GB')).toEqual({
+        dir: path.resolve('./cache'),
+        maxSizeBytes: 2 * 1024 ** 3,
+      });
+    });
+
+    it('should enable the cache when only a size is given', () => {
+      expect(validateCache(undefined, '100MB')).toEqual({ dir: DEFAULT_CACHE_DIR, maxSizeBytes: 100 * 1024 ** 2 });
+    });
+  });
+
+  describe('validateSharedAssets', () => {
+    it('should return undefined when the flag is not provided', () => {
+      expect(validateSharedAssets(undefined)).toBeUndefined();
+    });
+
+    it('should use the default directory for the bare flag', () => {
+      expect(validateSharedAssets(true)).toBe(true);
+    });
+
+    it('should normalize a custom directory', () => {
+      expect(validateSharedAssets('static/assets/')).toEqual({ dir: 'static/assets' });
+    });
+
+    it.each(['../assets', '/tmp/assets', '.'])('should throw for "%s"', (dir) => {
+      expect(() => validateSharedAssets(dir)).toThrow(`Invalid shared asset directory: "${dir}"`);
+    });
+  });
+
+  describe('formatBytes', () => {
+    it.each([
+      [0, '0 B'],
+      [512, '512 B'],
+      [1536, '1.5 KB'],
+      [500 * 1024 ** 2, '500.0 MB'],
+      [3 * 1024 ** 3, '3.0 GB'],
+    ])('should format %d bytes as "%s"', (bytes, formatted) => {
+      expect(formatBytes(bytes)).toBe(formatted);
+    });
+  });
+
   // ===========================================================================
   // validateOptions (Orchestrator) Tests
   // ===========================================================================
@@ -287,6 +659,24 @@ describe('CLI', () => {
 
       expect(result.logFilePath).toBeUndefined();
     });
+
+    it('should include parsed concurrency when provided', () => {
+      const result = validateOptions({ ...validOptions, concurrency: '3' });
+
+      expect(result.concurrency).toBe(3);
+    });
+
+    it('should include download options when image flags are provided', () => {
+      const result = validateOptions({ ...validOptions, imageFilenames: 'basename' });
+
+      expect(result.downloadOptions).toEqual({ filenameStrategy: 'basename' });
+    });
+
+    it('should include the shared asset directory when provided', () => {
+      const result = validateOptions({ ...validOptions, sharedAssets: 'static/assets' });
+
+      expect(result.sharedAssets).toEqual({ dir: 'static/assets' });
+    });
   });
 
   // ===========================================================================
@@ -390,6 +780,25 @@ describe('CLI', () => {
     });
   });
 
+  // ===========================================================================
+  // formatImageRetry Tests
+  // ===========================================================================
+  describe('formatImageRetry', () => {
+    it('should describe the retry with its delay and error', () => {
+      expect(
+        formatImageRetry({
+          filename: 'uuid.png',
+          postSlug: 'my-post',
+          url: 'https://cdn.hashnode.com/uuid.png',
+          retry: 1,
+          maxRetries: 3,
+          delayMs: 2000,
+          error: 'HTTP 429: https://cdn.hashnode.com/uuid.png',
+        })
+      ).toBe('  ↻ uuid.png (my-post): retry 1/3 in 2.0s after HTTP 429: https://cdn.hashnode.com/uuid.png');
+    });
+  });
+
   // ===========================================================================
   // displayResult Tests
   // ===========================================================================
@@ -478,6 +887,34 @@ describe('CLI', () => {
       expect(hasDetailedError).toBe(false);
     });
 
+    it('should count alt text issues and list them in verbose mode', () => {
+      const audited: ConversionResult = {
+        ...mockResult,
+        accessibility: [
+          {
+            slug: 'test-post',
+            altTextIssues: [
+              { url: './a.png', alt: '', problem: 'empty' },
+              { url: './b.png', alt: 'image', problem: 'generic', filledAlt: 'Setup', filledFrom: 'heading' },
+            ],
+          },
+        ],
+      };
+
+      displayResult(audited, true);
+
+      expect(consoleSpy).toHaveBeenCalledWith('  Alt text:  2 issues in 1 posts');
+      expect(consoleSpy).toHaveBeenCalledWith('    empty: ./a.png');
+      expect(consoleSpy).toHaveBeenCalledWith('    generic: ./b.png -> "Setup" (heading)');
+    });
+
+    it('should not mention alt text when the audit is disabled', () => {
+      displayResult(mockResult, true);
+
+      const calls = consoleSpy.mock.calls.map(call => String(call[0]));
+      expect(calls.some(call => call.includes('Alt text'))).toBe(false);
+    });
+
     it('should clear progress line in non-verbose mode', () => {
       displayResult(mockResult, false);
 
@@ -494,4 +931,72 @@ describe('CLI', () => {
       expect(clearCalls.length).toBe(0);
     });
   });
+
+  // ===========================================================================
+  // displayPlan Tests
+  // ===========================================================================
+  describe('displayPlan', () => {
+    let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+    const planResult: ConversionResult = {
+      converted: 2,
+      skipped: 1,
+      errors: [{ slug: 'broken-post', error: 'Missing required field: title' }],
+      duration: '0.1s',
+      plan: {
+        posts: [
+          {
+            slug: 'new-post',
+            action: 'create',
+            outputPath: '/blog/new-post/index.md',
+            images: [
+              { url: 'https://cdn.hashnode.com/a.png', filename: 'a.png', filepath: '/blog/new-post/a.png' },
+              { url: 'https://cdn.hashnode.com/b.png', filename: 'b.png', filepath: '/blog/new-post/b.png' },
+            ],
+          },
+          { slug: 'old-post', action: 'overwrite', outputPath: '/blog/old-post/index.md', images: [] },
+          { slug: 'done-post', action: 'skip', outputPath: '/blog/done-post/index.md', images: [] },
+          { slug: 'broken-post', action: 'error', images: [], error: 'Missing required field: title' },
+        ],
+        supportFiles: ['/blog/src/content/config.ts'],
+      },
+    };
+
+    beforeEach(() => {
+      consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    it('should summarize the planned actions', () => {
+      displayPlan(planResult, false);
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN'));
+      expect(consoleSpy).toHaveBeenCalledWith('  Create:    1 posts');
+      expect(consoleSpy).toHaveBeenCalledWith('  Overwrite: 1 posts');
+      expect(consoleSpy).toHaveBeenCalledWith('  Skip:      1 posts');
+      expect(consoleSpy).toHaveBeenCalledWith('  Errors:    1');
+      expect(consoleSpy).toHaveBeenCalledWith('  Images:    2 to fetch');
+    });
+
+    it('should list each post with its target path', () => {
+      displayPlan(planResult, false);
+
+      expect(consoleSpy).toHaveBeenCalledWith('  create    new-post -> /blog/new-post/index.md (2 images)');
+      expect(consoleSpy).toHaveBeenCalledWith('  skip      done-post -> /blog/done-post/index.md');
+      expect(consoleSpy).toHaveBeenCalledWith('  error     broken-post: Missing required field: title');
+      expect(consoleSpy).toHaveBeenCalledWith('  /blog/src/content/config.ts');
+      expect(consoleSpy).not.toHaveBeenCalledWith(expect.stringContaining('https://cdn.hashnode.com/a.png'));
+    });
+
+    it('should list the images to fetch in verbose mode', () => {
+      displayPlan(planResult, true);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '              https://cdn.hashnode.com/a.png -> /blog/new-post/a.png'
+      );
+    });
+  });
 });
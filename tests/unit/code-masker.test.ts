@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { CodeMasker } from '../../src/processors/code-masker.js';
+import { trickyPosts } from '../fixtures/tricky-posts.js';
+
+describe('CodeMasker', () => {
+  const masker = new CodeMasker();
+
+  describe('mask()', () => {
+    it.each([
+      ['fenced code', 'Text\n\n```js\nconst a = 1;\n```\n\nMore', 'const a'],
+      ['tilde fences', '~~~\nsecret\n~~~', 'secret'],
+      ['longer fences containing fences', '````md\n```\nsecret\n```\n````', 'secret'],
+      ['indented code', 'Text\n\n    secret()\n', 'secret'],
+      ['inline code', 'Use `secret` here', 'secret'],
+      ['multi-backtick inline code', 'Use ``a ` secret`` here', 'secret'],
+      ['code in list items', '- Item\n\n  ```\n  secret\n  ```', 'secret'],
+      ['code in blockquotes', '> ```\n> secret\n> ```', 'secret'],
+    ])('should hide %s', (_name, markdown, code) => {
+      const masked = masker.mask(markdown);
+      expect(masked.markdown).not.toContain(code);
+      expect(masked.restore(masked.markdown)).toBe(markdown);
+    });
+
+    it('should keep text outside code unchanged', () => {
+      const masked = masker.mask('Before `code` after\n\n```\nblock\n```\n\nEnd');
+      expect(masked.markdown.replace(/\uE000\d+\uE001/g, '<code>')).toBe('Before <code> after\n\n<code>\n\nEnd');
+    });
+
+    it('should return markdown without code as-is', () => {
+      const markdown = '# Title\n\n![](img.png) align="center"';
+      const masked = masker.mask(markdown);
+      expect(masked.markdown).toBe(markdown);
+      expect(masked.restore('changed')).toBe('changed');
+    });
+
+    it('should handle empty markdown', () => {
+      expect(masker.mask('').markdown).toBe('');
+    });
+  });
+
+  describe('restore()', () => {
+    it('should restore code into transformed text', () => {
+      const masked = masker.mask('See `a` and `b`');
+      expect(masked.restore(masked.markdown.toUpperCase())).toBe('SEE `a` AND `b`');
+    });
+
+    it('should give multi-line code the prefix of its new line', () => {
+      const masked = masker.mask('```\na\n\nb\n```');
+      expect(masked.restore(`> ${masked.markdown}`)).toBe('> ```\n> a\n>\n> b\n> ```');
+    });
+
+    it('should swap the original container prefix for the new one', () => {
+      const masked = masker.mask('- Item\n\n  ```\n  a\n  ```');
+      expect(masked.restore(masked.markdown.replace('- Item\n\n  ', '1. Item\n\n   '))).toBe(
+        '1. Item\n\n   ```\n   a\n   ```'
+      );
+    });
+
+    it('should leave unknown placeholders alone', () => {
+      const masked = masker.mask('`a`');
+      expect(masked.restore('\uE0007\uE001')).toBe('\uE0007\uE001');
+    });
+  });
+
+  describe('findCodeRanges()', () => {
+    it('should list code ranges in document order', () => {
+      expect(CodeMasker.findCodeRanges(fromMarkdown('`a` b\n\n    c\n'))).toEqual([
+        { start: 0, end: 3 },
+        { start: 7, end: 12 },
+      ]);
+    });
+  });
+
+  describe('Real-World Posts', () => {
+    it.each(trickyPosts)('should leave only the real image of "$slug" visible', ({ contentMarkdown, imageUrl }) => {
+      const masked = masker.mask(contentMarkdown);
+      expect(masked.markdown.split(imageUrl)).toHaveLength(2);
+      expect(masked.markdown.split('align=')).toHaveLength(2);
+      expect(masked.restore(masked.markdown)).toBe(contentMarkdown);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+import {
+  DownloadManifest,
+  DOWNLOAD_MANIFEST_FILENAME,
+  LEGACY_MARKERS_DIR,
+} from '../../src/services/download-manifest.js';
+import { useMemoryFs } from '../mocks/mocks.js';
+
+vi.mock('node:fs');
+
+import * as fs from 'node:fs';
+
+const ROOT = '/blog';
+const POST_DIR = '/blog/my-post';
+const MARKERS_DIR = path.join(POST_DIR, LEGACY_MARKERS_DIR);
+const MANIFEST_PATH = path.join(ROOT, DOWNLOAD_MANIFEST_FILENAME);
+const MARKER_TIME = new Date('2024-03-01T12:00:00.000Z');
+
+function sha256(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+describe('DownloadManifest', () => {
+  let files: Map<string, Buffer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T08:00:00.000Z'));
+    files = useMemoryFs(MARKER_TIME);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('recording downloads', () => {
+    it('should record a success with the size and checksum of the file', () => {
+      files.set('/blog/my-post/a.png', Buffer.from('image'));
+      const manifest = new DownloadManifest(ROOT);
+
+      manifest.recordSuccess('https://x.test/a.png', '/blog/my-post/a.png');
+
+      expect(manifest.get('https://x.test/a.png')).toEqual({
+        status: 'ok',
+        attempts: 1,
+        size: 5,
+        sha256: sha256('image'),
+        updatedAt: '2024-06-01T08:00:00.000Z',
+      });
+    });
+
+    it('should record the corrected filename, modern-format copies and dimensions of a download', () => {
+      files.set('/blog/my-post/a.webp', Buffer.from('image'));
+      const manifest = new DownloadManifest(ROOT);
+
+      manifest.recordSuccess('https://x.test/a.png', '/blog/my-post/a.webp', {
+        filename: 'a.webp',
+        variants: ['a.webp.avif'],
+        width: 1600,
+        height: 900,
+      });
+
+      expect(manifest.get('https://x.test/a.png')).toMatchObject({
+        status: 'ok',
+        filename: 'a.webp',
+        variants: ['a.webp.avif'],
+        width: 1600,
+        height: 900,
+        size: 5,
+      });
+    });
+
+    it('should record 403 and transient failures with their error', () => {
+      const manifest = new DownloadManifest(ROOT);
+
+      manifest.recordFailure('https://x.test/a.png', 'HTTP 403 Forbidden', true);
+      manifest.recordFailure('https://x.test/b.png', 'Timeout', false);
+
+      expect(manifest.get('https://x.test/a.png')).toMatchObject({ status: '403', lastError: 'HTTP 403 Forbidden' });
+      expect(manifest.get('https://x.test/b.png')).toMatchObject({ status: 'transient', lastError: 'Timeout' });
+    });
+
+    it('should count attempts and drop the last error after a success', () => {
+      files.set('/blog/my-post/a.png', Buffer.from('image'));
+      const manifest = new DownloadManifest(ROOT);
+
+      manifest.recordFailure('https://x.test/a.png', 'Timeout', false);
+      manifest.recordFailure('https://x.test/a.png', 'Timeout', false);
+      manifest.recordSuccess('https://x.test/a.png', '/blog/my-post/a.png');
+
+      const record = manifest.get('https://x.test/a.png');
+      expect(record?.attempts).toBe(3);
+      expect(record?.status).toBe('ok');
+      expect(record).not.toHaveProperty('lastError');
+    });
+
+    it('should return undefined for URLs never attempted', () => {
+      expect(new DownloadManifest(ROOT).get('https://x.test/a.png')).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should write the manifest to the output directory and read it back', () => {
+      const manifest = new DownloadManifest(ROOT);
+      manifest.recordFailure('https://x.test/a.png', 'Timeout', false);
+
+      manifest.save();
+
+      expect(manifest.manifestPath).toBe(MANIFEST_PATH);
+      expect(files.has(`${MANIFEST_PATH}.tmp`)).toBe(false);
+      expect(JSON.parse(files.get(MANIFEST_PATH)!.toString())).toEqual({
+        version: 1,
+        downloads: {
+          'https://x.test/a.png': {
+            status: 'transient',
+            attempts: 1,
+            lastError: 'Timeout',
+            updatedAt: '2024-06-01T08:00:00.000Z',
+          },
+        },
+      });
+      expect(new DownloadManifest(ROOT).get('https://x.test/a.png')?.status).toBe('transient');
+    });
+
+    it('should not write a manifest that was never used', () => {
+      new DownloadManifest(ROOT).save();
+
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unsupported manifest file', () => {
+      files.set(MANIFEST_PATH, Buffer.from('{"version":2}'));
+
+      expect(() => new DownloadManifest(ROOT).get('https://x.test/a.png')).toThrow(
+        `Unsupported download manifest: ${MANIFEST_PATH}`
+      );
+    });
+  });
+
+  describe('importMarkers()', () => {
+    const filenames = new Map([
+      ['https://x.test/ok.png', 'ok.png'],
+      ['https://x.test/retry.png', 'retry.png'],
+      ['https://x.test/forbidden.png', 'forbidden.png'],
+    ]);
+
+    beforeEach(() => {
+      files.set(path.join(POST_DIR, 'ok.png'), Buffer.from('ok bytes'));
+      files.set(path.join(MARKERS_DIR, 'ok.png.marker'), Buffer.from(''));
+      files.set(path.join(MARKERS_DIR, 'retry.png.marker'), Buffer.from('Network timeout'));
+      files.set(path.join(MARKERS_DIR, 'forbidden.png.marker.403'), Buffer.from('HTTP 403 Forbidden'));
+      files.set(path.join(MARKERS_DIR, 'orphan.png.marker'), Buffer.from(''));
+    });
+
+    it('should import each marker type by URL', () => {
+      const manifest = new DownloadManifest(ROOT);
+
+      expect(manifest.importMarkers(POST_DIR, filenames)).toBe(3);
+
+      const updatedAt = MARKER_TIME.toISOString();
+      expect(manifest.get('https://x.test/ok.png')).toEqual({
+        status: 'ok',
+        attempts: 1,
+        size: 8,
+        sha256: sha256('ok bytes'),
+        updatedAt,
+      });
+      expect(manifest.get('https://x.test/retry.png')).toEqual({
+        status: 'transient',
+        attempts: 1,
+        lastError: 'Network timeout',
+        updatedAt,
+      });
+      expect(manifest.get('https://x.test/forbidden.png')).toEqual({
+        status: '403',
+        attempts: 1,
+        lastError: 'HTTP 403 Forbidden',
+        updatedAt,
+      });
+    });
+
+    it('should remove the marker directory, including unmatched markers', () => {
+      new DownloadManifest(ROOT).importMarkers(POST_DIR, filenames);
+
+      expect(fs.rmSync).toHaveBeenCalledWith(MARKERS_DIR, { recursive: true, force: true });
+      expect(Array.from(files.keys()).some((name) => name.includes(LEGACY_MARKERS_DIR))).toBe(false);
+    });
+
+    it('should keep records already in the manifest', () => {
+      const manifest = new DownloadManifest(ROOT);
+      manifest.recordFailure('https://x.test/ok.png', 'Timeout', false);
+
+      expect(manifest.importMarkers(POST_DIR, filenames)).toBe(2);
+      expect(manifest.get('https://x.test/ok.png')?.status).toBe('transient');
+    });
+
+    it('should do nothing without a marker directory', () => {
+      const manifest = new DownloadManifest(ROOT);
+
+      expect(manifest.importMarkers('/blog/other-post', filenames)).toBe(0);
+      expect(fs.rmSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readMarkers()', () => {
+    const filenames = new Map([
+      ['https://x.test/retry.png', 'retry.png'],
+      ['https://x.test/forbidden.png', 'forbidden.png'],
+    ]);
+
+    beforeEach(() => {
+      files.set(path.join(MARKERS_DIR, 'retry.png.marker'), Buffer.from('Network timeout'));
+      files.set(path.join(MARKERS_DIR, 'forbidden.png.marker.403'), Buffer.from('HTTP 403 Forbidden'));
+    });
+
+    it('should read markers without importing or removing them', () => {
+      const manifest = new DownloadManifest(ROOT);
+
+      const records = manifest.readMarkers(POST_DIR, filenames);
+
+      expect(Array.from(records, ([url, record]) => [url, record.status])).toEqual([
+        ['https://x.test/retry.png', 'transient'],
+        ['https://x.test/forbidden.png', '403'],
+      ]);
+      expect(manifest.get('https://x.test/forbidden.png')).toBeUndefined();
+      expect(files.has(path.join(MARKERS_DIR, 'forbidden.png.marker.403'))).toBe(true);
+      expect(fs.rmSync).not.toHaveBeenCalled();
+    });
+
+    it('should leave out URLs already in the manifest', () => {
+      const manifest = new DownloadManifest(ROOT);
+      manifest.recordFailure('https://x.test/retry.png', 'Timeout', false);
+
+      expect(Array.from(manifest.readMarkers(POST_DIR, filenames).keys())).toEqual(['https://x.test/forbidden.png']);
+    });
+  });
+});
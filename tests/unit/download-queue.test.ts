@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DownloadQueue } from '../../src/services/download-queue.js';
+
+/**
+ * Create a task whose completion is controlled by the test
+ */
+function deferredTask<T>(value: T) {
+  let resolveTask!: () => void;
+  const started = vi.fn();
+  const task = () =>
+    new Promise<T>((resolve) => {
+      started();
+      resolveTask = () => resolve(value);
+    });
+  return { task, started, finish: () => resolveTask() };
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('DownloadQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Constructor', () => {
+    it('should create instance with default options', () => {
+      const queue = new DownloadQueue();
+      expect(queue.activeCount).toBe(0);
+      expect(queue.pendingCount).toBe(0);
+    });
+
+    it.each([
+      [{ maxConcurrent: 0 }, 'Invalid maxConcurrent'],
+      [{ maxPerHost: 1.5 }, 'Invalid maxPerHost'],
+      [{ rateLimit: { requestsPerSecond: 0 } }, 'Invalid rate limit'],
+    ])('should reject invalid config %j', (config, message) => {
+      expect(() => new DownloadQueue(config)).toThrow(message);
+    });
+  });
+
+  describe('Concurrency Limits', () => {
+    it('should resolve with the task result', async () => {
+      const queue = new DownloadQueue();
+      await expect(queue.run('https://a.com/1.png', async () => 'done')).resolves.toBe('done');
+    });
+
+    it('should reject with the task error and free the slot', async () => {
+      const queue = new DownloadQueue({ maxConcurrent: 1 });
+
+      await expect(
+        queue.run('https://a.com/1.png', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+      expect(queue.activeCount).toBe(0);
+      await expect(queue.run('https://a.com/2.png', async () => 'next')).resolves.toBe('next');
+    });
+
+    it('should never exceed the global concurrency limit', async () => {
+      const queue = new DownloadQueue({ maxConcurrent: 2, maxPerHost: 10 });
+      const tasks = [1, 2, 3].map(() => deferredTask('ok'));
+
+      const results = tasks.map((t, i) => queue.run(`https://host${i}.com/img.png`, t.task));
+
+      expect(tasks[0].started).toHaveBeenCalled();
+      expect(tasks[1].started).toHaveBeenCalled();
+      expect(tasks[2].started).not.toHaveBeenCalled();
+      expect(queue.pendingCount).toBe(1);
+
+      tasks[0].finish();
+      await flush();
+      expect(tasks[2].started).toHaveBeenCalled();
+
+      tasks[1].finish();
+      tasks[2].finish();
+      await Promise.all(results);
+      expect(queue.activeCount).toBe(0);
+    });
+
+    it('should limit connections per host without blocking other hosts', async () => {
+      const queue = new DownloadQueue({ maxConcurrent: 4, maxPerHost: 1 });
+      const first = deferredTask('a1');
+      const second = deferredTask('a2');
+      const other = deferredTask('b1');
+
+      const results = [
+        queue.run('https://a.com/1.png', first.task),
+        queue.run('https://a.com/2.png', second.task),
+        queue.run('https://b.com/1.png', other.task),
+      ];
+
+      expect(first.started).toHaveBeenCalled();
+      expect(second.started).not.toHaveBeenCalled();
+      expect(other.started).toHaveBeenCalled();
+
+      first.finish();
+      await flush();
+      expect(second.started).toHaveBeenCalled();
+
+      second.finish();
+      other.finish();
+      await expect(Promise.all(results)).resolves.toEqual(['a1', 'a2', 'b1']);
+    });
+
+    it('should start tasks in FIFO order', async () => {
+      const queue = new DownloadQueue({ maxConcurrent: 1 });
+      const order: number[] = [];
+
+      await Promise.all(
+        [1, 2, 3].map((n) =>
+          queue.run(`https://a.com/${n}.png`, async () => {
+            order.push(n);
+          })
+        )
+      );
+
+      expect(order).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should allow an initial burst and then pace starts', async () => {
+      vi.useFakeTimers();
+      const queue = new DownloadQueue({
+        maxConcurrent: 10,
+        maxPerHost: 10,
+        rateLimit: { requestsPerSecond: 10, burst: 2 },
+      });
+      const started: number[] = [];
+
+      const results = [1, 2, 3, 4].map((n) =>
+        queue.run('https://a.com/img.png', async () => {
+          started.push(n);
+        })
+      );
+
+      expect(started).toEqual([1, 2]);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(started).toEqual([1, 2, 3]);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(started).toEqual([1, 2, 3, 4]);
+
+      await Promise.all(results);
+    });
+
+    it('should default burst to a single request', async () => {
+      vi.useFakeTimers();
+      const queue = new DownloadQueue({ rateLimit: { requestsPerSecond: 5 } });
+      const started: number[] = [];
+
+      const results = [1, 2].map((n) =>
+        queue.run(`https://host${n}.com/img.png`, async () => {
+          started.push(n);
+        })
+      );
+
+      expect(started).toEqual([1]);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(started).toEqual([1, 2]);
+
+      await Promise.all(results);
+    });
+  });
+});
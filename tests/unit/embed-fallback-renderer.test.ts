@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { EmbedFallbackRenderer } from '../../src/processors/embed-fallback-renderer.js';
+
+describe('EmbedFallbackRenderer', () => {
+  const youtube = '%[https://youtu.be/abc123]';
+  const codepen = '%[https://codepen.io/jane/pen/xyz]';
+  const gist = '%[https://gist.github.com/jane/0a1b]';
+  const tweet = '%[https://x.com/jane/status/42]';
+  const generic = '%[https://example.com/page?a=1&b=2]';
+
+  describe('none', () => {
+    it('should leave directives untouched', () => {
+      expect(new EmbedFallbackRenderer('none').render(youtube)).toBe(youtube);
+    });
+  });
+
+  describe('iframe', () => {
+    const renderer = new EmbedFallbackRenderer('iframe');
+
+    it('should embed YouTube videos with the privacy-enhanced player', () => {
+      expect(renderer.render(youtube)).toMatch(
+        /^<iframe src="https:\/\/www\.youtube-nocookie\.com\/embed\/abc123" title="YouTube video" [^>]*><\/iframe>$/
+      );
+    });
+
+    it('should embed CodePen pens', () => {
+      expect(renderer.render(codepen)).toContain('src="https://codepen.io/jane/embed/xyz?default-tab=result"');
+    });
+
+    it('should embed CodeSandbox sandboxes', () => {
+      expect(renderer.render('%[https://codesandbox.io/s/demo]')).toContain(
+        'src="https://codesandbox.io/embed/demo"'
+      );
+    });
+
+    it('should use the script embed for gists', () => {
+      expect(renderer.render(gist)).toBe('<script src="https://gist.github.com/jane/0a1b.js"></script>');
+    });
+
+    it('should use the blockquote embed for tweets', () => {
+      const result = renderer.render(tweet);
+
+      expect(result).toContain('<blockquote class="twitter-tweet"><a href="https://x.com/jane/status/42">');
+      expect(result).toContain('platform.twitter.com/widgets.js');
+    });
+
+    it('should frame generic URLs with escaped attributes', () => {
+      expect(renderer.render(generic)).toContain('src="https://example.com/page?a=1&amp;b=2" title="example.com"');
+    });
+  });
+
+  describe('link', () => {
+    const renderer = new EmbedFallbackRenderer('link');
+
+    it.each([
+      [youtube, 'YouTube video'],
+      [codepen, 'CodePen: jane/xyz'],
+      [gist, 'GitHub Gist: jane/0a1b'],
+      [tweet, 'Tweet by @jane'],
+      [generic, 'example.com'],
+    ])('should render a link card for %s', (directive, title) => {
+      const url = directive.slice(2, -1);
+
+      expect(renderer.render(directive)).toBe(`> **[${title}](<${url}>)**  \n> ${url}`);
+    });
+  });
+
+  describe('shortcode', () => {
+    it('should use Hugo shortcodes by default', () => {
+      const renderer = new EmbedFallbackRenderer('shortcode');
+
+      expect(renderer.render(youtube)).toBe('{{< youtube abc123 >}}');
+      expect(renderer.render(gist)).toBe('{{< gist jane 0a1b >}}');
+      expect(renderer.render(tweet)).toBe('{{< tweet user="jane" id="42" >}}');
+    });
+
+    it('should fall back to a link card for kinds without a template', () => {
+      const renderer = new EmbedFallbackRenderer('shortcode', 'hugo');
+
+      expect(renderer.render(codepen)).toMatch(/^> \*\*\[CodePen: jane\/xyz\]/);
+    });
+
+    it('should use the Liquid embed tag for every embed', () => {
+      const renderer = new EmbedFallbackRenderer('shortcode', 'liquid');
+
+      expect(renderer.render(youtube)).toBe('{% embed https://youtu.be/abc123 %}');
+      expect(renderer.render(codepen)).toBe('{% embed https://codepen.io/jane/pen/xyz %}');
+    });
+
+    it('should fill custom templates', () => {
+      const renderer = new EmbedFallbackRenderer('shortcode', {
+        codepen: '{{< codepen user=":user" id=":id" >}}',
+        generic: '[[embed :url]]',
+      });
+
+      expect(renderer.render(codepen)).toBe('{{< codepen user="jane" id="xyz" >}}');
+      expect(renderer.render(youtube)).toBe('[[embed https://youtu.be/abc123]]');
+    });
+
+    it('should fall back to a link card when a placeholder has no value', () => {
+      const renderer = new EmbedFallbackRenderer('shortcode', { generic: '{{< embed :id >}}' });
+
+      expect(renderer.render(generic)).toMatch(/^> \*\*\[example\.com\]/);
+    });
+
+    it.each([
+      ['a YouTube id decoded from the query', '%[https://www.youtube.com/watch?v=abc%20%3E%7D%7D%7B%7B%3C%20x]'],
+      ['a tweet user with unsafe characters', '%[https://x.com/j%22ane/status/123]'],
+    ])('should fall back to a link card for %s', (_case, directive) => {
+      const renderer = new EmbedFallbackRenderer('shortcode', 'hugo');
+
+      expect(renderer.render(directive)).toMatch(/^> \*\*\[/);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { EmbedParser } from '../../src/processors/embed-parser.js';
+
+describe('EmbedParser', () => {
+  const parser = new EmbedParser();
+
+  describe('parse()', () => {
+    it.each([
+      ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+      ['https://youtu.be/dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+      ['https://www.youtube.com/embed/dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+      ['https://youtube.com/shorts/dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+      ['https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=42', 'dQw4w9WgXcQ'],
+    ])('should recognize YouTube URL %s', (url, id) => {
+      expect(parser.parse(url)).toEqual({ kind: 'youtube', url, id });
+    });
+
+    it('should recognize CodePen pens', () => {
+      expect(parser.parse('https://codepen.io/jane/pen/abcXYZ')).toEqual({
+        kind: 'codepen',
+        url: 'https://codepen.io/jane/pen/abcXYZ',
+        user: 'jane',
+        id: 'abcXYZ',
+      });
+    });
+
+    it.each([
+      'https://codesandbox.io/s/react-demo-x1y2z',
+      'https://codesandbox.io/embed/react-demo-x1y2z',
+      'https://codesandbox.io/p/sandbox/react-demo-x1y2z',
+    ])('should recognize CodeSandbox URL %s', (url) => {
+      expect(parser.parse(url)).toEqual({ kind: 'codesandbox', url, id: 'react-demo-x1y2z' });
+    });
+
+    it('should recognize gists', () => {
+      expect(parser.parse('https://gist.github.com/jane/0123abcd')).toEqual({
+        kind: 'gist',
+        url: 'https://gist.github.com/jane/0123abcd',
+        user: 'jane',
+        id: '0123abcd',
+      });
+    });
+
+    it.each(['https://twitter.com/jane/status/123456', 'https://x.com/jane/status/123456'])(
+      'should recognize tweet URL %s',
+      (url) => {
+        expect(parser.parse(url)).toEqual({ kind: 'tweet', url, user: 'jane', id: '123456' });
+      }
+    );
+
+    it.each([
+      'https://example.com/article',
+      'https://www.youtube.com/channel/UC123',
+      'https://codepen.io/jane',
+      'https://twitter.com/jane',
+      'not a url',
+    ])('should classify %s as generic', (url) => {
+      expect(parser.parse(url)).toEqual({ kind: 'generic', url });
+    });
+  });
+
+  describe('replaceDirectives()', () => {
+    it('should replace a directive occupying a whole line', () => {
+      const markdown = 'Intro\n\n%[https://youtu.be/abc]\n\nOutro';
+
+      const result = parser.replaceDirectives(markdown, (embed) => `[${embed.kind}:${embed.id}]`);
+
+      expect(result).toBe('Intro\n\n[youtube:abc]\n\nOutro');
+    });
+
+    it('should leave directives unchanged when the replacer returns undefined', () => {
+      const markdown = '%[https://example.com]';
+
+      expect(parser.replaceDirectives(markdown, () => undefined)).toBe(markdown);
+    });
+
+    it('should not treat inline occurrences as directives', () => {
+      const markdown = 'Use %[https://youtu.be/abc] to embed a video';
+
+      expect(parser.replaceDirectives(markdown, () => 'X')).toBe(markdown);
+    });
+
+    it('should skip directives inside fenced code blocks', () => {
+      const markdown = '```md\n%[https://youtu.be/abc]\n```\n%[https://youtu.be/def]';
+
+      const result = parser.replaceDirectives(markdown, (embed) => `<${embed.id}>`);
+
+      expect(result).toBe('```md\n%[https://youtu.be/abc]\n```\n<def>');
+    });
+
+    it('should not close a fence on a shorter or different marker', () => {
+      const markdown = '````\n```\n%[https://youtu.be/abc]\n~~~~\n````\n%[https://youtu.be/def]';
+
+      const result = parser.replaceDirectives(markdown, (embed) => `<${embed.id}>`);
+
+      expect(result).toBe('````\n```\n%[https://youtu.be/abc]\n~~~~\n````\n<def>');
+    });
+
+    it('should keep the directive indentation on every replacement line', () => {
+      const markdown = '- item\n\n  %[https://youtu.be/abc]';
+
+      const result = parser.replaceDirectives(markdown, () => '<div>\n\n</div>');
+
+      expect(result).toBe('- item\n\n  <div>\n\n  </div>');
+    });
+  });
+
+  describe('findAll()', () => {
+    it('should return embeds in document order', () => {
+      const markdown = '%[https://youtu.be/abc]\ntext\n%[https://example.com/x]';
+
+      expect(parser.findAll(markdown).map((embed) => embed.kind)).toEqual(['youtube', 'generic']);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as path from 'node:path';
 import { FileWriter, FileWriteError } from '../../src/services/file-writer.js';
+import { DirectoryLayout } from '../../src/targets/directory-layout.js';
+import type { PostLayout } from '../../src/types/post-layout.js';
 
 // Mock fs and path modules
 vi.mock('node:fs');
@@ -342,6 +345,176 @@ describe('FileWriter', () => {
     });
   });
 
+  describe('planPost()', () => {
+    it('should resolve the post file without touching the filesystem', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      const plan = fileWriter.planPost('./blog', 'my-post');
+
+      expect(plan).toEqual({ filePath: path.resolve('./blog/my-post/index.md'), exists: false });
+      expect(fs.promises.mkdir).not.toHaveBeenCalled();
+      expect(fs.promises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should report an existing file when overwrite is enabled', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      const plan = new FileWriter({ overwrite: true }).planPost('./blog', 'my-post');
+
+      expect(plan.exists).toBe(true);
+    });
+
+    it('should throw like writePost() when the file exists and overwrite is disabled', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      expect(() => fileWriter.planPost('./blog', 'my-post')).toThrow(
+        'File already exists and overwrite is disabled'
+      );
+    });
+
+    it('should throw for an invalid slug', () => {
+      expect(() => fileWriter.planPost('./blog', '../escape')).toThrow(FileWriteError);
+    });
+  });
+
+  describe('Post Layouts', () => {
+    const datedLayout: PostLayout = {
+      postPath: ({ slug, dateAdded }) => path.join('_posts', `${dateAdded?.slice(0, 10)}-${slug}.md`),
+      existencePath: ({ slug, dateAdded }) => path.join('_posts', `${dateAdded?.slice(0, 10)}-${slug}.md`),
+      imageDir: ({ slug }) => path.join('assets', slug),
+      imageLink: (filename, { slug }) => `/assets/${slug}/${filename}`,
+    };
+
+    beforeEach(() => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      vi.mocked(fs.promises.mkdir).mockResolvedValue(undefined);
+      vi.mocked(fs.promises.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.promises.rename).mockResolvedValue(undefined);
+    });
+
+    it('should write to the path returned by the layout', async () => {
+      const result = await fileWriter.writePost('/site', 'my-post', '---\n', 'content', {
+        layout: datedLayout,
+        dateAdded: '2024-01-15T10:00:00.000Z',
+      });
+
+      expect(result).toBe(path.resolve('/site/_posts/2024-01-15-my-post.md'));
+      expect(fs.promises.mkdir).toHaveBeenCalledWith(path.join('/site', '_posts'), { recursive: true });
+    });
+
+    it('should pass the sanitized slug to the layout', async () => {
+      const postPath = vi.fn().mockReturnValue('posts/my-post.md');
+
+      await fileWriter.writePost('/site', 'my:post', '---\n', 'content', {
+        layout: { ...datedLayout, postPath },
+      });
+
+      expect(postPath).toHaveBeenCalledWith({ slug: 'my-post', dateAdded: undefined });
+    });
+
+    it('should use a nested directory layout', async () => {
+      const result = await fileWriter.writePost('/site', 'my-post', '---\n', 'content', {
+        layout: new DirectoryLayout(path.join('content', 'posts')),
+      });
+
+      expect(result).toBe(path.resolve('/site/content/posts/my-post/index.md'));
+    });
+
+    it.each(['../outside.md', '_posts/../../outside.md', ''])(
+      'should reject layout path %j outside the output directory',
+      async (postPath) => {
+        await expect(
+          fileWriter.writePost('/site', 'my-post', '---\n', 'content', {
+            layout: { ...datedLayout, postPath: () => postPath },
+          })
+        ).rejects.toMatchObject({ name: 'FileWriteError', operation: 'validate_path' });
+      }
+    );
+
+    it('should wrap layout errors in FileWriteError', async () => {
+      const layoutError = new Error('Invalid post date');
+
+      await expect(
+        fileWriter.writePost('/site', 'my-post', '---\n', 'content', {
+          layout: {
+            ...datedLayout,
+            postPath: () => {
+              throw layoutError;
+            },
+          },
+        })
+      ).rejects.toMatchObject({ operation: 'validate_path', cause: layoutError });
+    });
+
+    it('should check the layout existence path in postExists()', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      const result = fileWriter.postExists('/site', 'my-post', {
+        layout: datedLayout,
+        dateAdded: '2024-01-15T10:00:00.000Z',
+      });
+
+      expect(result).toBe(true);
+      expect(fs.existsSync).toHaveBeenCalledWith(path.join('/site', '_posts', '2024-01-15-my-post.md'));
+    });
+
+    it('should return false from postExists() when the layout throws', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      const result = fileWriter.postExists('/site', 'my-post', {
+        layout: {
+          ...datedLayout,
+          existencePath: () => {
+            throw new Error('Invalid post date');
+          },
+        },
+      });
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('writeSupportFile()', () => {
+    beforeEach(() => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.promises.mkdir).mockResolvedValue(undefined);
+      vi.mocked(fs.promises.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.promises.rename).mockResolvedValue(undefined);
+    });
+
+    it('should write the file relative to the output directory', async () => {
+      const result = await fileWriter.writeSupportFile('/site', 'src/content/config.ts', 'export {};');
+
+      expect(result).toBe(path.resolve('/site/src/content/config.ts'));
+      expect(fs.promises.mkdir).toHaveBeenCalledWith(path.join('/site', 'src', 'content'), { recursive: true });
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        path.join('/site', 'src', 'content', 'config.ts.tmp'),
+        'export {};',
+        'utf8'
+      );
+    });
+
+    it('should overwrite existing files even when overwrite is disabled', async () => {
+      await expect(
+        fileWriter.writeSupportFile('/site', 'config.ts', 'export {};')
+      ).resolves.toBe(path.resolve('/site/config.ts'));
+    });
+
+    it('should reject paths outside the output directory', async () => {
+      await expect(
+        fileWriter.writeSupportFile('/site', '../config.ts', 'export {};')
+      ).rejects.toMatchObject({ name: 'FileWriteError', operation: 'validate_path' });
+    });
+
+    it('should wrap mkdir errors in FileWriteError', async () => {
+      vi.mocked(fs.promises.mkdir).mockRejectedValue(new Error('EACCES: permission denied'));
+
+      await expect(
+        fileWriter.writeSupportFile('/site', 'src/content/config.ts', 'export {};')
+      ).rejects.toMatchObject({ operation: 'create_dir' });
+    });
+  });
+
   describe('Error Handling', () => {
     beforeEach(() => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { HostFilter } from '../../src/services/host-filter.js';
+
+describe('HostFilter', () => {
+  describe('accepts()', () => {
+    it('should accept only the Hashnode CDN by default', () => {
+      const filter = new HostFilter();
+      expect(filter.accepts('https://cdn.hashnode.com/res/a.png')).toBe(true);
+      expect(filter.accepts('https://i.imgur.com/a.png')).toBe(false);
+      expect(filter.accepts('https://cdn.hashnode.com.evil.example/a.png')).toBe(false);
+    });
+
+    it.each([
+      ['*', 'https://anything.example/a.png', true],
+      ['i.imgur.com', 'https://I.IMGUR.COM/a.png', true],
+      ['i.imgur.com', 'https://i.imgur.com:8443/a.png', true],
+      ['*.cloudinary.com', 'https://res.cloudinary.com/a.png', true],
+      ['*.cloudinary.com', 'https://cloudinary.com/a.png', false],
+      ['*.cloudinary.com', 'https://notcloudinary.com/a.png', false],
+    ])('should match pattern "%s" against %s: %s', (pattern, url, expected) => {
+      expect(new HostFilter({ allow: [pattern] }).accepts(url)).toBe(expected);
+    });
+
+    it('should reject denied hosts even when allowed', () => {
+      const filter = new HostFilter({ allow: ['*'], deny: ['*.tracking.example', 'ads.example'] });
+      expect(filter.accepts('https://pixel.tracking.example/a.gif')).toBe(false);
+      expect(filter.accepts('https://ads.example/a.gif')).toBe(false);
+      expect(filter.accepts('https://i.imgur.com/a.png')).toBe(true);
+    });
+
+    it.each(['data:image/png;base64,AAAA', 'ftp://example.com/a.png', 'not a url'])(
+      'should reject %s',
+      (url) => {
+        expect(new HostFilter({ allow: ['*'] }).accepts(url)).toBe(false);
+      }
+    );
+  });
+
+  describe('isValidPattern()', () => {
+    it.each(['*', 'example.com', '*.example.com', ' example.com '])('should accept "%s"', (pattern) => {
+      expect(HostFilter.isValidPattern(pattern)).toBe(true);
+    });
+
+    it.each(['', '*.', 'ex*ample.com', '*.*.example.com', '**'])('should reject "%s"', (pattern) => {
+      expect(HostFilter.isValidPattern(pattern)).toBe(false);
+    });
+  });
+
+  it('should throw for invalid patterns', () => {
+    expect(() => new HostFilter({ allow: [''] })).toThrow('Invalid allow host pattern: ""');
+  });
+});
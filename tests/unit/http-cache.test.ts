@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+import { HttpCache, DEFAULT_CACHE_DIR } from '../../src/services/http-cache.js';
+import { useMemoryFs } from '../mocks/mocks.js';
+
+vi.mock('node:fs');
+
+import * as fs from 'node:fs';
+
+const CACHE_DIR = '/cache';
+const INDEX_PATH = path.join(CACHE_DIR, 'index.json');
+const OBJECTS_DIR = path.join(CACHE_DIR, 'objects');
+
+function objectPath(url: string): string {
+  return path.join(OBJECTS_DIR, createHash('sha256').update(url).digest('hex'));
+}
+
+describe('HttpCache', () => {
+  let files: Map<string, Buffer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T08:00:00.000Z'));
+    files = useMemoryFs();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('constructor', () => {
+    it('should default to the user cache directory', () => {
+      expect(new HttpCache().indexPath).toBe(path.join(DEFAULT_CACHE_DIR, 'index.json'));
+    });
+
+    it('should throw for negative limits', () => {
+      expect(() => new HttpCache({ maxSizeBytes: -1 })).toThrow('must not be negative');
+      expect(() => new HttpCache({ maxAgeMs: -1 })).toThrow('must not be negative');
+    });
+  });
+
+  describe('store() and lookup()', () => {
+    it('should copy the file into the cache with its validators', () => {
+      files.set('/blog/a.png', Buffer.from('image'));
+      const cache = new HttpCache({ dir: CACHE_DIR });
+
+      cache.store('https://x.test/a.png', '/blog/a.png', { etag: '"v1"', lastModified: 'Sat, 01 Jun 2024' });
+
+      expect(files.get(objectPath('https://x.test/a.png'))?.toString()).toBe('image');
+      expect(cache.lookup('https://x.test/a.png')).toEqual({
+        key: path.basename(objectPath('https://x.test/a.png')),
+        size: 5,
+        etag: '"v1"',
+        lastModified: 'Sat, 01 Jun 2024',
+        validatedAt: '2024-06-01T08:00:00.000Z',
+        usedAt: '2024-06-01T08:00:00.000Z',
+      });
+    });
+
+    it('should not cache files larger than the size limit', () => {
+      files.set('/blog/a.png', Buffer.from('large image'));
+      const cache = new HttpCache({ dir: CACHE_DIR, maxSizeBytes: 5 });
+
+      cache.store('https://x.test/a.png', '/blog/a.png', {});
+
+      expect(cache.lookup('https://x.test/a.png')).toBeUndefined();
+      expect(fs.copyFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should miss when the cached file is gone', () => {
+      files.set('/blog/a.png', Buffer.from('image'));
+      const cache = new HttpCache({ dir: CACHE_DIR });
+      cache.store('https://x.test/a.png', '/blog/a.png', {});
+
+      files.delete(objectPath('https://x.test/a.png'));
+
+      expect(cache.lookup('https://x.test/a.png')).toBeUndefined();
+      expect(cache.copyTo('https://x.test/a.png', '/other/a.png')).toBe(false);
+    });
+
+    it('should evict the least recently used entries to stay under the size limit', () => {
+      files.set('/blog/a.png', Buffer.from('aaaa'));
+      files.set('/blog/b.png', Buffer.from('bbbb'));
+      files.set('/blog/c.png', Buffer.from('cccc'));
+      const cache = new HttpCache({ dir: CACHE_DIR, maxSizeBytes: 8 });
+
+      cache.store('https://x.test/a.png', '/blog/a.png', {});
+      vi.advanceTimersByTime(1000);
+      cache.store('https://x.test/b.png', '/blog/b.png', {});
+      vi.advanceTimersByTime(1000);
+      cache.copyTo('https://x.test/a.png', '/other/a.png');
+      vi.advanceTimersByTime(1000);
+      cache.store('https://x.test/c.png', '/blog/c.png', {});
+
+      expect(cache.lookup('https://x.test/a.png')).toBeDefined();
+      expect(cache.lookup('https://x.test/b.png')).toBeUndefined();
+      expect(cache.lookup('https://x.test/c.png')).toBeDefined();
+      expect(files.has(objectPath('https://x.test/b.png'))).toBe(false);
+    });
+  });
+
+  describe('freshness and revalidation', () => {
+    beforeEach(() => {
+      files.set('/blog/a.png', Buffer.from('image'));
+    });
+
+    it('should serve entries younger than maxAgeMs without revalidating', () => {
+      const cache = new HttpCache({ dir: CACHE_DIR, maxAgeMs: 60_000 });
+      cache.store('https://x.test/a.png', '/blog/a.png', { etag: '"v1"' });
+
+      vi.advanceTimersByTime(30_000);
+      expect(cache.isFresh(cache.lookup('https://x.test/a.png')!)).toBe(true);
+
+      vi.advanceTimersByTime(30_000);
+      expect(cache.isFresh(cache.lookup('https://x.test/a.png')!)).toBe(false);
+    });
+
+    it('should build conditional headers from the validators', () => {
+      const cache = new HttpCache({ dir: CACHE_DIR });
+      cache.store('https://x.test/a.png', '/blog/a.png', { etag: '"v1"', lastModified: 'Sat, 01 Jun 2024' });
+
+      expect(cache.conditionalHeaders('https://x.test/a.png')).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Sat, 01 Jun 2024',
+      });
+      expect(cache.conditionalHeaders('https://x.test/other.png')).toEqual({});
+    });
+
+    it('should renew an entry revalidated by the server', () => {
+      const cache = new HttpCache({ dir: CACHE_DIR, maxAgeMs: 60_000 });
+      cache.store('https://x.test/a.png', '/blog/a.png', { etag: '"v1"' });
+      vi.advanceTimersByTime(120_000);
+
+      expect(cache.copyTo('https://x.test/a.png', '/other/a.png', true)).toBe(true);
+
+      expect(files.get('/other/a.png')?.toString()).toBe('image');
+      expect(cache.isFresh(cache.lookup('https://x.test/a.png')!)).toBe(true);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should write the index and read it back', () => {
+      files.set('/blog/a.png', Buffer.from('image'));
+      const cache = new HttpCache({ dir: CACHE_DIR });
+      cache.store('https://x.test/a.png', '/blog/a.png', { etag: '"v1"' });
+
+      cache.save();
+
+      expect(files.has(`${INDEX_PATH}.tmp`)).toBe(false);
+      expect(JSON.parse(files.get(INDEX_PATH)!.toString()).version).toBe(1);
+      expect(new HttpCache({ dir: CACHE_DIR }).lookup('https://x.test/a.png')?.etag).toBe('"v1"');
+    });
+
+    it('should not write an index that was never used', () => {
+      new HttpCache({ dir: CACHE_DIR }).save();
+
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unsupported index file', () => {
+      files.set(INDEX_PATH, Buffer.from('{"version":2}'));
+
+      expect(() => new HttpCache({ dir: CACHE_DIR }).lookup('https://x.test/a.png')).toThrow(
+        `Unsupported cache index: ${INDEX_PATH}`
+      );
+    });
+  });
+
+  describe('prune()', () => {
+    beforeEach(() => {
+      files.set('/blog/a.png', Buffer.from('aaaa'));
+      files.set('/blog/b.png', Buffer.from('bbbb'));
+      const cache = new HttpCache({ dir: CACHE_DIR });
+      cache.store('https://x.test/a.png', '/blog/a.png', {});
+      vi.advanceTimersByTime(1000);
+      cache.store('https://x.test/b.png', '/blog/b.png', {});
+      cache.save();
+    });
+
+    it('should evict least recently used entries down to the given size', () => {
+      const result = new HttpCache({ dir: CACHE_DIR }).prune(4);
+
+      expect(result).toEqual({ removed: 1, freedBytes: 4, entries: 1, sizeBytes: 4 });
+      expect(files.has(objectPath('https://x.test/a.png'))).toBe(false);
+      expect(new HttpCache({ dir: CACHE_DIR }).lookup('https://x.test/b.png')).toBeDefined();
+    });
+
+    it('should empty the cache with a size of 0', () => {
+      expect(new HttpCache({ dir: CACHE_DIR }).prune(0)).toEqual({
+        removed: 2,
+        freedBytes: 8,
+        entries: 0,
+        sizeBytes: 0,
+      });
+    });
+
+    it('should remove orphaned files and entries whose file is gone', () => {
+      files.set(path.join(OBJECTS_DIR, 'orphan'), Buffer.from('orphan'));
+      files.delete(objectPath('https://x.test/a.png'));
+
+      const result = new HttpCache({ dir: CACHE_DIR }).prune();
+
+      expect(result).toEqual({ removed: 2, freedBytes: 6, entries: 1, sizeBytes: 4 });
+      expect(files.has(path.join(OBJECTS_DIR, 'orphan'))).toBe(false);
+    });
+  });
+});
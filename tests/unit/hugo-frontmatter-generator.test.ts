@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { HugoFrontmatterGenerator } from '../../src/processors/hugo-frontmatter-generator.js';
+import type { PostMetadata } from '../../src/types/hashnode-schema.js';
+
+describe('HugoFrontmatterGenerator', () => {
+  const generator = new HugoFrontmatterGenerator();
+
+  const baseMetadata: PostMetadata = {
+    title: 'My Post Title',
+    slug: 'my-post-slug',
+    dateAdded: '2023-01-01T12:00:00.000Z',
+    brief: 'A brief description',
+    contentMarkdown: 'Content',
+  };
+
+  it('should wrap frontmatter in TOML +++ delimiters', () => {
+    const result = generator.generate(baseMetadata);
+    const lines = result.split('\n');
+
+    expect(lines[0]).toBe('+++');
+    expect(lines[lines.length - 1]).toBe('+++');
+  });
+
+  it('should generate basic fields as TOML key/value pairs', () => {
+    const result = generator.generate(baseMetadata);
+
+    expect(result).toContain('title = "My Post Title"');
+    expect(result).toContain('slug = "my-post-slug"');
+    expect(result).toContain('date = 2023-01-01T12:00:00.000Z');
+    expect(result).toContain('description = "A brief description"');
+  });
+
+  it('should map updatedAt to lastmod', () => {
+    const result = generator.generate({ ...baseMetadata, updatedAt: '2023-02-01T08:30:00.000Z' });
+
+    expect(result).toContain('lastmod = 2023-02-01T08:30:00.000Z');
+  });
+
+  it('should omit lastmod when updatedAt is unavailable', () => {
+    expect(generator.generate(baseMetadata)).not.toContain('lastmod');
+  });
+
+  it('should map isActive to the inverse draft flag', () => {
+    expect(generator.generate({ ...baseMetadata, isActive: true })).toContain('draft = false');
+    expect(generator.generate({ ...baseMetadata, isActive: false })).toContain('draft = true');
+  });
+
+  it('should omit draft when isActive is unknown', () => {
+    expect(generator.generate(baseMetadata)).not.toContain('draft');
+  });
+
+  it('should emit tags as an inline TOML array', () => {
+    const result = generator.generate({ ...baseMetadata, tags: ['javascript', 'web dev'] });
+
+    expect(result).toContain('tags = ["javascript", "web dev"]');
+  });
+
+  it('should map coverImage to the images array', () => {
+    const result = generator.generate({
+      ...baseMetadata,
+      coverImage: 'https://cdn.hashnode.com/res/cover.png',
+    });
+
+    expect(result).toContain('images = ["https://cdn.hashnode.com/res/cover.png"]');
+  });
+
+  it('should omit description when brief is empty', () => {
+    expect(generator.generate({ ...baseMetadata, brief: '' })).not.toContain('description');
+  });
+
+  it('should escape backslashes, quotes and control characters', () => {
+    const result = generator.generate({
+      ...baseMetadata,
+      title: 'A "quoted" \\ title',
+      brief: 'Line one\nLine two\ttabbed',
+    });
+
+    expect(result).toContain('title = "A \\"quoted\\" \\\\ title"');
+    expect(result).toContain('description = "Line one\\nLine two\\ttabbed"');
+  });
+
+  it('should quote an unparseable date so the output stays valid TOML', () => {
+    const result = generator.generate({ ...baseMetadata, dateAdded: 'invalid-date' });
+
+    expect(result).toContain('date = "invalid-date"');
+  });
+});
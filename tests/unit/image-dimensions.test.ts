@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'node:fs';
+import { ImageDimensionReader } from '../../src/services/image-dimensions.js';
+
+vi.mock('node:fs');
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function jpegFrame(marker: number, width: number, height: number): Buffer {
+  const payload = Buffer.alloc(15);
+  payload[0] = 8;
+  payload.writeUInt16BE(height, 1);
+  payload.writeUInt16BE(width, 3);
+  return jpegSegment(marker, payload);
+}
+
+function exif(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM\0*', 0, 'latin1');
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x0112, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  return jpegSegment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]));
+}
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  const body = Buffer.concat(children);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+function ispe(width: number, height: number): Buffer {
+  const body = Buffer.alloc(12);
+  body.writeUInt32BE(width, 4);
+  body.writeUInt32BE(height, 8);
+  return box('ispe', body);
+}
+
+function avif(...properties: Buffer[]): Buffer {
+  return Buffer.concat([
+    box('ftyp', Buffer.from('avif\0\0\0\0avifmif1', 'latin1')),
+    box('meta', Buffer.alloc(4), box('hdlr', Buffer.alloc(24)), box('iprp', box('ipco', ...properties))),
+    box('mdat', Buffer.alloc(16)),
+  ]);
+}
+
+describe('ImageDimensionReader', () => {
+  const reader = new ImageDimensionReader();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parse()', () => {
+    it('should read PNG dimensions', () => {
+      expect(reader.parse(png(1600, 900))).toEqual({ width: 1600, height: 900 });
+    });
+
+    it('should find the JPEG frame header after other segments', () => {
+      const jpeg = Buffer.concat([
+        Buffer.from([0xff, 0xd8]),
+        jpegSegment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+        jpegSegment(0xe2, Buffer.alloc(6000)),
+        jpegSegment(0xc4, Buffer.alloc(30)),
+        jpegFrame(0xc2, 1024, 768),
+      ]);
+
+      expect(reader.parse(jpeg)).toEqual({ width: 1024, height: 768 });
+    });
+
+    it('should swap JPEG dimensions for EXIF orientations that rotate by 90 degrees', () => {
+      const rotated = Buffer.concat([Buffer.from([0xff, 0xd8]), exif(6), jpegFrame(0xc0, 4032, 3024)]);
+      const flipped = Buffer.concat([Buffer.from([0xff, 0xd8]), exif(3), jpegFrame(0xc0, 4032, 3024)]);
+
+      expect(reader.parse(rotated)).toEqual({ width: 3024, height: 4032 });
+      expect(reader.parse(flipped)).toEqual({ width: 4032, height: 3024 });
+    });
+
+    it('should read GIF dimensions', () => {
+      const gif = Buffer.from('GIF89a\x40\x01\xf0\x00', 'latin1');
+
+      expect(reader.parse(gif)).toEqual({ width: 320, height: 240 });
+    });
+
+    it('should read lossy, lossless and extended WebP dimensions', () => {
+      const riff = (chunk: string, data: Buffer) =>
+        Buffer.concat([Buffer.from('RIFF\0\0\0\0WEBP', 'latin1'), Buffer.from(`${chunk}\0\0\0\0`, 'latin1'), data]);
+
+      const lossy = Buffer.alloc(10);
+      lossy.set([0x9d, 0x01, 0x2a], 3);
+      lossy.writeUInt16LE(800, 6);
+      lossy.writeUInt16LE(600, 8);
+
+      const lossless = Buffer.alloc(10);
+      lossless[0] = 0x2f;
+      lossless.writeUInt32LE((400 - 1) | ((300 - 1) << 14), 1);
+
+      const extended = Buffer.alloc(10);
+      extended.writeUIntLE(5000 - 1, 4, 3);
+      extended.writeUIntLE(2000 - 1, 7, 3);
+
+      expect(reader.parse(riff('VP8 ', lossy))).toEqual({ width: 800, height: 600 });
+      expect(reader.parse(riff('VP8L', lossless))).toEqual({ width: 400, height: 300 });
+      expect(reader.parse(riff('VP8X', extended))).toEqual({ width: 5000, height: 2000 });
+    });
+
+    it('should read the largest AVIF image extent', () => {
+      expect(reader.parse(avif(ispe(256, 144), ispe(1920, 1080)))).toEqual({ width: 1920, height: 1080 });
+    });
+
+    it('should swap AVIF dimensions for a 90 degree rotation', () => {
+      const irot = box('irot', Buffer.from([1]));
+
+      expect(reader.parse(avif(ispe(1920, 1080), irot))).toEqual({ width: 1080, height: 1920 });
+    });
+
+    it('should read BMP dimensions of bottom-up and top-down bitmaps', () => {
+      const bmp = (height: number) => {
+        const header = Buffer.alloc(54);
+        header.write('BM', 0, 'latin1');
+        header.writeUInt32LE(40, 14);
+        header.writeInt32LE(640, 18);
+        header.writeInt32LE(height, 22);
+        return header;
+      };
+
+      expect(reader.parse(bmp(480))).toEqual({ width: 640, height: 480 });
+      expect(reader.parse(bmp(-480))).toEqual({ width: 640, height: 480 });
+    });
+
+    it('should read the largest ICO icon', () => {
+      const ico = Buffer.alloc(6 + 2 * 16);
+      ico.writeUInt16LE(1, 2);
+      ico.writeUInt16LE(2, 4);
+      ico.set([16, 16], 6);
+      ico.set([0, 0], 22);
+
+      expect(reader.parse(ico)).toEqual({ width: 256, height: 256 });
+    });
+
+    it('should read TIFF dimensions', () => {
+      const tiff = Buffer.alloc(38);
+      tiff.write('II*\0', 0, 'latin1');
+      tiff.writeUInt32LE(8, 4);
+      tiff.writeUInt16LE(2, 8);
+      tiff.writeUInt16LE(0x0100, 10);
+      tiff.writeUInt16LE(3, 12);
+      tiff.writeUInt16LE(2048, 18);
+      tiff.writeUInt16LE(0x0101, 22);
+      tiff.writeUInt16LE(4, 24);
+      tiff.writeUInt32LE(1536, 30);
+
+      expect(reader.parse(tiff)).toEqual({ width: 2048, height: 1536 });
+    });
+
+    it.each([
+      ['<svg xmlns="http://www.w3.org/2000/svg" width="120" height="80px">', { width: 120, height: 80 }],
+      ['<?xml version="1.0"?>\n<!-- <svg width="1"> -->\n<svg viewBox="0 0 300 150">', { width: 300, height: 150 }],
+      ["<svg width='600' viewBox='0,0,300,150'>", { width: 600, height: 300 }],
+      ['<svg width="100%" height="100%" viewBox="0 0 24 24">', { width: 24, height: 24 }],
+    ])('should read SVG dimensions from %s', (svg, expected) => {
+      expect(reader.parse(Buffer.from(svg))).toEqual(expected);
+    });
+
+    it.each([
+      ['unknown data', Buffer.from('not an image')],
+      ['an SVG with relative sizes only', Buffer.from('<svg width="10em" height="5em">')],
+      ['a truncated JPEG', Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00])],
+      ['a JPEG without a frame header', Buffer.from([0xff, 0xd8, 0xff, 0xd9])],
+      ['a zero-sized PNG', png(0, 100)],
+      ['a PNG truncated in the IHDR chunk', png(640, 480).subarray(0, 16)],
+      ['a PNG truncated in the height', png(640, 480).subarray(0, 23)],
+      ['a GIF truncated after the signature', Buffer.from('GIF89a', 'latin1')],
+      ['a GIF truncated in the height', Buffer.from('GIF89a\x40\x01\xf0', 'latin1')],
+    ])('should return undefined for %s', (_label, data) => {
+      expect(reader.parse(data)).toBeUndefined();
+    });
+  });
+
+  describe('read()', () => {
+    it('should read the header from the file and close it', () => {
+      const data = png(640, 360);
+      vi.mocked(fs.openSync).mockReturnValue(7);
+      vi.mocked(fs.readSync).mockImplementation(((
+        _fd: number,
+        buffer: Buffer,
+        offset: number,
+        length: number,
+        position: number
+      ) => data.copy(buffer, offset, position, position + length)) as typeof fs.readSync);
+
+      expect(reader.read('/blog/post/uuid.png')).toEqual({ width: 640, height: 360 });
+      expect(fs.openSync).toHaveBeenCalledWith('/blog/post/uuid.png', 'r');
+      expect(fs.closeSync).toHaveBeenCalledWith(7);
+    });
+
+    it('should close the file when reading fails', () => {
+      vi.mocked(fs.openSync).mockReturnValue(7);
+      vi.mocked(fs.readSync).mockImplementation(() => {
+        throw new Error('EIO: i/o error, read');
+      });
+
+      expect(() => reader.read('/blog/post/uuid.png')).toThrow('EIO');
+      expect(fs.closeSync).toHaveBeenCalledWith(7);
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs';
+import * as http from 'node:http';
 import * as https from 'node:https';
 import { ImageDownloader } from '../../src/services/image-downloader.js';
+import type { HttpCache, HttpCacheEntry } from '../../src/services/http-cache.js';
+import type { HttpTransport } from '../../src/services/http-transport.js';
 import {
   createMockResponse,
   createMockFileStream,
@@ -11,17 +14,37 @@ import {
   createSuccessDownloadMock,
   createBadRedirectMock,
   createResponseStreamErrorMock,
+  PNG_BYTES,
 } from '../mocks/mocks.js';
 
 // Mock modules
+vi.mock('node:http');
 vi.mock('node:https');
 vi.mock('node:fs');
 
+/**
+ * Successful response whose body "finishes" writing to a mocked file stream
+ */
+function createSuccessResponse() {
+  const mockFileStream = createMockFileStream();
+  vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+  const response = createMockResponse(200);
+  response.pipe = vi.fn((dest) => {
+    setTimeout(() => {
+      response.emit('data', PNG_BYTES);
+      mockFileStream.emit('finish');
+    }, 10);
+    return dest;
+  });
+  return response;
+}
+
 describe('ImageDownloader', () => {
   let downloader: ImageDownloader;
 
   beforeEach(() => {
-    downloader = new ImageDownloader();
+    // Short retry delays keep the exponential backoff of transient failures fast
+    downloader = new ImageDownloader({ retryDelayMs: 10 });
     vi.clearAllMocks();
   });
 
@@ -45,6 +68,19 @@ describe('ImageDownloader', () => {
       expect(fs.createWriteStream).toHaveBeenCalledWith(filepath);
     });
 
+    it('should download http URLs over plain HTTP', async () => {
+      const mockFileStream = createMockFileStream();
+
+      vi.mocked(http.get).mockImplementation(createSuccessDownloadMock(mockFileStream));
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
+      vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+
+      const result = await downloader.download('http://example.com/image.png', '/tmp/image.png');
+      expect(result.success).toBe(true);
+      expect(https.get).not.toHaveBeenCalled();
+    });
+
     it('should return error result on download failure', async () => {
       const url = 'https://example.com/image.png';
       const filepath = '/tmp/image.png';
@@ -161,7 +197,7 @@ describe('ImageDownloader', () => {
     it('should timeout if download takes too long', async () => {
       const url = 'https://example.com/image.png';
       const filepath = '/tmp/image.png';
-      const downloader = new ImageDownloader({ timeoutMs: 100 });
+      const downloader = new ImageDownloader({ timeoutMs: 100, retryDelayMs: 10 });
 
       vi.mocked(https.get).mockImplementation((_urlArg, _options, _callback) => {
         return {
@@ -221,30 +257,6 @@ describe('ImageDownloader', () => {
     });
   });
 
-  describe('applyRateLimit()', () => {
-    it('should apply rate limiting delay when configured', async () => {
-      const delayMs = 100;
-      const downloader = new ImageDownloader({ downloadDelayMs: delayMs });
-      const startTime = Date.now();
-
-      await downloader.applyRateLimit();
-      const elapsed = Date.now() - startTime;
-
-      // Allow 10ms tolerance for timing variance in CI environments
-      expect(elapsed).toBeGreaterThanOrEqual(delayMs - 10);
-    });
-
-    it('should not delay when downloadDelayMs is 0', async () => {
-      const downloader = new ImageDownloader({ downloadDelayMs: 0 });
-      const startTime = Date.now();
-
-      await downloader.applyRateLimit();
-      const elapsed = Date.now() - startTime;
-
-      expect(elapsed).toBeLessThan(50);
-    });
-  });
-
   describe('extractHash()', () => {
     it('should extract hash from valid Hashnode CDN URL', () => {
       const url =
@@ -354,6 +366,7 @@ describe('ImageDownloader', () => {
         const mockResponse = createMockResponse(200);
         mockResponse.pipe = vi.fn((dest) => {
           setTimeout(() => {
+            mockResponse.emit('data', PNG_BYTES);
             mockFileStream.emit('finish');
           }, 10);
           return dest;
@@ -399,4 +412,642 @@ describe('ImageDownloader', () => {
       expect(result.error).toContain('after 2 attempts');
     });
   });
+
+  describe('transport', () => {
+    it('should send requests through a custom transport', async () => {
+      const mockFileStream = createMockFileStream();
+      const response = createMockResponse(200);
+      response.pipe = vi.fn((dest) => {
+        setTimeout(() => {
+          response.emit('data', PNG_BYTES);
+          mockFileStream.emit('finish');
+        }, 10);
+        return dest;
+      });
+      const transport: HttpTransport = { request: vi.fn().mockResolvedValue(response) };
+      const downloader = new ImageDownloader({ transport, timeoutMs: 1234 });
+
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+
+      const result = await downloader.download('https://example.com/image.png', '/tmp/image.png');
+
+      expect(result.success).toBe(true);
+      expect(transport.request).toHaveBeenCalledWith('https://example.com/image.png', { timeoutMs: 1234, headers: {} });
+      expect(https.get).not.toHaveBeenCalled();
+    });
+
+    it('should report transport errors as request errors', async () => {
+      const transport: HttpTransport = {
+        request: vi.fn().mockRejectedValue(new Error('Proxy CONNECT to example.com:443 failed: HTTP 407')),
+      };
+      const downloader = new ImageDownloader({ transport, maxRetries: 0 });
+
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+
+      const result = await downloader.download('https://example.com/image.png', '/tmp/image.png');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Request error: Proxy CONNECT to example.com:443 failed: HTTP 407');
+    });
+  });
+
+  describe('redirects', () => {
+    const url = 'https://example.com/image.png';
+    const filepath = '/tmp/image.png';
+
+    /**
+     * Transport answering each URL with a redirect to the next location,
+     * and any URL without one with a successful download
+     */
+    function redirectTransport(redirects: Record<string, string>, statusCode = 301): HttpTransport {
+      return {
+        request: vi.fn(async (requestUrl: string) => {
+          if (redirects[requestUrl]) {
+            return createMockResponse(statusCode, { location: redirects[requestUrl] });
+          }
+          return createSuccessResponse();
+        }) as HttpTransport['request'],
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+    });
+
+    it.each([303, 307, 308])('should follow HTTP %d redirects and report the final URL', async (statusCode) => {
+      const transport = redirectTransport({ [url]: 'https://cdn.example.com/image.png' }, statusCode);
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result).toEqual({ success: true, finalUrl: 'https://cdn.example.com/image.png' });
+    });
+
+    it('should resolve relative locations against the current URL', async () => {
+      const transport = redirectTransport({
+        [url]: '/v2/image.png',
+        'https://example.com/v2/image.png': 'large/image.png',
+      });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.finalUrl).toBe('https://example.com/v2/large/image.png');
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail on a redirect loop without retrying', async () => {
+      const transport = redirectTransport({ [url]: 'https://example.com/a.png', 'https://example.com/a.png': url });
+
+      const result = await new ImageDownloader({ transport, maxRetries: 3 }).download(url, filepath);
+
+      expect(result).toEqual({ success: false, error: `Redirect loop: ${url}`, is403: false });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop after maxRedirects hops', async () => {
+      const transport = redirectTransport({
+        [url]: 'https://example.com/1.png',
+        'https://example.com/1.png': 'https://example.com/2.png',
+        'https://example.com/2.png': 'https://example.com/3.png',
+      });
+
+      const result = await new ImageDownloader({ transport, maxRedirects: 2 }).download(url, filepath);
+
+      expect(result.error).toBe('Too many redirects (max 2): https://example.com/2.png');
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject non-http(s) redirect targets', async () => {
+      const transport = redirectTransport({ [url]: 'ftp://example.com/image.png' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.error).toBe('Unsupported redirect protocol: ftp: (ftp://example.com/image.png)');
+    });
+
+    it('should follow downgrades and cross-host redirects by default', async () => {
+      const transport = redirectTransport({ [url]: 'http://mirror.test/image.png' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.success).toBe(true);
+      expect(result.finalUrl).toBe('http://mirror.test/image.png');
+    });
+
+    it('should block HTTPS to HTTP redirects when downgrades are not allowed', async () => {
+      const transport = redirectTransport({ [url]: 'http://example.com/image.png' });
+      const downloader = new ImageDownloader({ transport, redirectPolicy: { allowDowngrade: false } });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result.error).toBe('Redirect from HTTPS to HTTP blocked: http://example.com/image.png');
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should block cross-host redirects when not allowed', async () => {
+      const transport = redirectTransport({ [url]: 'https://cdn.example.com/image.png' });
+      const downloader = new ImageDownloader({ transport, redirectPolicy: { allowCrossHost: false } });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result.error).toBe('Cross-host redirect blocked: example.com -> cdn.example.com');
+    });
+
+    it('should throw for a negative maxRedirects', () => {
+      expect(() => new ImageDownloader({ maxRedirects: -1 })).toThrow('maxRedirects must not be negative');
+    });
+  });
+
+  describe('backoff and throttling', () => {
+    const url = 'https://example.com/image.png';
+    const filepath = '/tmp/image.png';
+    let delays: number[];
+
+    /**
+     * Transport answering with the given statuses in order (the last one repeats)
+     */
+    function statusTransport(...responses: Array<[number, Record<string, string>?]>): HttpTransport {
+      let call = 0;
+      return {
+        request: vi.fn(async () => {
+          const [statusCode, headers] = responses[Math.min(call++, responses.length - 1)];
+          return statusCode === 200 ? createSuccessResponse() : createMockResponse(statusCode, headers ?? {});
+        }) as HttpTransport['request'],
+      };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-06-01T08:00:00.000Z'));
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      delays = [];
+      vi.spyOn(ImageDownloader.prototype as any, 'delay').mockImplementation(async (ms: unknown) => {
+        delays.push(ms as number);
+        vi.setSystemTime(Date.now() + (ms as number));
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should back off exponentially and report each retry', async () => {
+      const transport = statusTransport([500]);
+      const onRetry = vi.fn();
+      const downloader = new ImageDownloader({ transport, retryDelayMs: 100, jitter: false });
+
+      const result = await downloader.download(url, filepath, onRetry);
+
+      expect(result.error).toBe(`HTTP 500: ${url} (after 4 attempts)`);
+      expect(delays).toEqual([100, 200, 400]);
+      expect(onRetry).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenNthCalledWith(2, {
+        url,
+        retry: 2,
+        maxRetries: 3,
+        delayMs: 200,
+        error: `HTTP 500: ${url}`,
+      });
+    });
+
+    it('should cap the backoff at maxRetryDelayMs', async () => {
+      const downloader = new ImageDownloader({
+        transport: statusTransport([500]),
+        retryDelayMs: 100,
+        maxRetryDelayMs: 150,
+        jitter: false,
+      });
+
+      await downloader.download(url, filepath);
+
+      expect(delays).toEqual([100, 150, 150]);
+    });
+
+    it('should randomize delays between half and all of the backoff', async () => {
+      vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(1);
+      const downloader = new ImageDownloader({ transport: statusTransport([500]), retryDelayMs: 100, maxRetries: 2 });
+
+      await downloader.download(url, filepath);
+
+      expect(delays).toEqual([50, 200]);
+    });
+
+    it('should wait for Retry-After on HTTP 429 instead of backing off', async () => {
+      const transport = statusTransport([429, { 'retry-after': '3' }], [200]);
+      const downloader = new ImageDownloader({ transport, retryDelayMs: 100 });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result.success).toBe(true);
+      expect(delays).toEqual([3000]);
+    });
+
+    it('should accept Retry-After as an HTTP date on HTTP 503', async () => {
+      const transport = statusTransport([503, { 'retry-after': 'Sat, 01 Jun 2024 08:00:05 GMT' }], [200]);
+
+      await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(delays).toEqual([5000]);
+    });
+
+    it('should stop retrying when Retry-After exceeds maxRetryDelayMs', async () => {
+      const transport = statusTransport([503, { 'retry-after': '120' }]);
+
+      const result = await new ImageDownloader({ transport, maxRetryDelayMs: 60000 }).download(url, filepath);
+
+      expect(result.error).toBe(`HTTP 503: ${url} (after 1 attempts)`);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pause other downloads from a host that sent Retry-After', async () => {
+      const transport = statusTransport([429, { 'retry-after': '2' }], [200]);
+      const downloader = new ImageDownloader({ transport, maxRetries: 0 });
+
+      await downloader.download(url, filepath);
+      await downloader.download('https://example.com/other.png', '/tmp/other.png');
+      await downloader.download('https://cdn.example.com/other.png', '/tmp/other.png');
+
+      expect(delays).toEqual([2000]);
+    });
+
+    it('should stop retrying once the retry budget is spent', async () => {
+      const transport = statusTransport([500]);
+      const downloader = new ImageDownloader({ transport, retryBudget: 1, circuitBreaker: false });
+
+      await downloader.download(url, filepath);
+      const result = await downloader.download('https://example.com/other.png', '/tmp/other.png');
+
+      expect(result.error).toContain('(after 1 attempts)');
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail downloads immediately while the circuit of a host is open', async () => {
+      const transport = statusTransport([500], [500], [200], [500], [200]);
+      const downloader = new ImageDownloader({
+        transport,
+        maxRetries: 0,
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+      });
+
+      await downloader.download(url, filepath);
+      await downloader.download(url, filepath);
+      const rejected = await downloader.download(url, filepath);
+
+      expect(rejected.error).toBe(`Circuit open for example.com after repeated failures (retry in 60s): ${url}`);
+      expect(transport.request).toHaveBeenCalledTimes(2);
+
+      // After the cooldown one request goes through; a success closes the circuit
+      vi.setSystemTime(Date.now() + 60000);
+      expect((await downloader.download(url, filepath)).success).toBe(true);
+      expect((await downloader.download(url, filepath)).success).toBe(false);
+      expect((await downloader.download(url, filepath)).success).toBe(true);
+    });
+
+    it('should reopen the circuit on the first failure after the cooldown', async () => {
+      const transport = statusTransport([500]);
+      const downloader = new ImageDownloader({
+        transport,
+        maxRetries: 0,
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+      });
+
+      await downloader.download(url, filepath);
+      await downloader.download(url, filepath);
+      vi.setSystemTime(Date.now() + 60000);
+      await downloader.download(url, filepath);
+      const rejected = await downloader.download(url, filepath);
+
+      expect(rejected.error).toContain('Circuit open for example.com');
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should never open the circuit when disabled', async () => {
+      const transport = statusTransport([500]);
+      const downloader = new ImageDownloader({ transport, maxRetries: 0, circuitBreaker: false });
+
+      for (let i = 0; i < 6; i++) {
+        await downloader.download(url, filepath);
+      }
+
+      expect(transport.request).toHaveBeenCalledTimes(6);
+    });
+
+    it('should throw for invalid retry and circuit breaker options', () => {
+      expect(() => new ImageDownloader({ backoffMultiplier: 0.5 })).toThrow('backoffMultiplier must be at least 1');
+      expect(() => new ImageDownloader({ retryBudget: -1 })).toThrow('must not be negative');
+      expect(() => new ImageDownloader({ circuitBreaker: { failureThreshold: 0 } })).toThrow(
+        'failureThreshold must be at least 1'
+      );
+    });
+  });
+
+  describe('image validation', () => {
+    const url = 'https://example.com/image.png';
+    const filepath = '/tmp/image.png';
+    const WEBP_BYTES = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]);
+    const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+    /**
+     * Transport answering with a 200 response streaming the given chunks
+     */
+    function bodyTransport(chunks: Buffer[], headers: Record<string, string> = {}) {
+      const mockFileStream = createMockFileStream();
+      vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+      const response = createMockResponse(200, headers);
+      response.pipe = vi.fn((dest) => {
+        setTimeout(() => {
+          chunks.forEach((chunk) => response.emit('data', chunk));
+          mockFileStream.emit('finish');
+        }, 10);
+        return dest;
+      });
+      const transport: HttpTransport = { request: vi.fn().mockResolvedValue(response) };
+      return { transport, response, mockFileStream };
+    }
+
+    beforeEach(() => {
+      // Only the download directory exists
+      vi.mocked(fs.existsSync).mockImplementation((file) => file === '/tmp');
+    });
+
+    it('should reject a non-image content type without writing or retrying', async () => {
+      const { transport, response } = bodyTransport([], { 'content-type': 'text/html; charset=utf-8' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result).toEqual({
+        success: false,
+        error: `Unexpected content type text/html: ${url}`,
+        is403: false,
+        failureReason: 'content-type',
+      });
+      expect(response.resume).toHaveBeenCalled();
+      expect(fs.createWriteStream).not.toHaveBeenCalled();
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept generic binary content types with an image signature', async () => {
+      const { transport } = bodyTransport([PNG_BYTES], { 'content-type': 'application/octet-stream' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject and delete a body without an image signature', async () => {
+      const { transport } = bodyTransport([Buffer.from('<!DOCTYPE html><html>Access denied</html>')]);
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.failureReason).toBe('magic-bytes');
+      expect(result.error).toBe(`Response is not a recognized image format: ${url}`);
+      expect(fs.unlinkSync).toHaveBeenCalledWith(filepath);
+    });
+
+    it('should reject a Content-Length over maxBytes before writing', async () => {
+      const { transport } = bodyTransport([PNG_BYTES], { 'content-length': '2048' });
+
+      const result = await new ImageDownloader({ transport, maxBytes: 1024 }).download(url, filepath);
+
+      expect(result.failureReason).toBe('too-large');
+      expect(result.error).toBe(`Image larger than 1024 bytes (2048): ${url}`);
+      expect(fs.createWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('should abort a download once it passes maxBytes', async () => {
+      const { transport, response, mockFileStream } = bodyTransport([PNG_BYTES, Buffer.alloc(16)]);
+
+      const result = await new ImageDownloader({ transport, maxBytes: 20 }).download(url, filepath);
+
+      expect(result.failureReason).toBe('too-large');
+      expect(result.error).toBe(`Image larger than 20 bytes: ${url}`);
+      expect(response.destroy).toHaveBeenCalled();
+      expect(mockFileStream.destroy).toHaveBeenCalled();
+      expect(fs.unlinkSync).toHaveBeenCalledWith(filepath);
+    });
+
+    it('should rename a .png download served as WebP', async () => {
+      const { transport } = bodyTransport([WEBP_BYTES], { 'content-type': 'image/webp' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result).toEqual({ success: true, finalUrl: url, correctedPath: '/tmp/image.webp' });
+      expect(fs.renameSync).toHaveBeenCalledWith(filepath, '/tmp/image.webp');
+    });
+
+    /**
+     * Back existsSync, statSync, readFileSync and renameSync with in-memory files
+     */
+    function mockFiles(files: Map<string, Buffer>): void {
+      vi.mocked(fs.existsSync).mockImplementation((file) => file === '/tmp' || files.has(String(file)));
+      vi.mocked(fs.statSync).mockImplementation(((file: fs.PathLike) => ({
+        size: files.get(String(file))!.length,
+      })) as unknown as typeof fs.statSync);
+      vi.mocked(fs.readFileSync).mockImplementation(((file: fs.PathOrFileDescriptor) =>
+        files.get(String(file))!) as typeof fs.readFileSync);
+      vi.mocked(fs.renameSync).mockImplementation((from, to) => {
+        files.set(String(to), files.get(String(from))!);
+        files.delete(String(from));
+      });
+    }
+
+    it('should not overwrite a different file with the corrected name', async () => {
+      const files = new Map([
+        ['/tmp/image.webp', Buffer.from('other image')],
+        ['/tmp/image-2.webp', Buffer.from('another image')],
+        [filepath, WEBP_BYTES],
+      ]);
+      mockFiles(files);
+      const { transport } = bodyTransport([WEBP_BYTES], { 'content-type': 'image/webp' });
+
+      const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+      expect(result.correctedPath).toBe('/tmp/image-3.webp');
+      expect(fs.renameSync).toHaveBeenCalledWith(filepath, '/tmp/image-3.webp');
+      expect(files.get('/tmp/image.webp')).toEqual(Buffer.from('other image'));
+    });
+
+    it('should replace the earlier download when the same URL is downloaded again', async () => {
+      const files = new Map<string, Buffer>();
+      mockFiles(files);
+
+      for (let run = 0; run < 2; run++) {
+        // The mocked write stream doesn't write, so each run's download is added here
+        files.set(filepath, WEBP_BYTES);
+        const { transport } = bodyTransport([WEBP_BYTES], { 'content-type': 'image/webp' });
+
+        const result = await new ImageDownloader({ transport }).download(url, filepath);
+
+        expect(result.correctedPath).toBe('/tmp/image.webp');
+      }
+      expect(Array.from(files.keys())).toEqual(['/tmp/image.webp']);
+    });
+
+    it('should append the detected extension to a file saved without one', async () => {
+      const { transport } = bodyTransport([JPEG_BYTES]);
+
+      const result = await new ImageDownloader({ transport }).download(url, '/tmp/3f2a9c0d1b7e4a65');
+
+      expect(result.correctedPath).toBe('/tmp/3f2a9c0d1b7e4a65.jpg');
+    });
+
+    it.each([
+      ['/tmp/photo.jpeg', JPEG_BYTES],
+      ['/tmp/logo.svg', Buffer.from('<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg">')],
+      ['/tmp/anim.gif', Buffer.from('GIF89a')],
+    ])('should keep %s when the format matches', async (target, body) => {
+      const { transport } = bodyTransport([body]);
+
+      const result = await new ImageDownloader({ transport }).download(url, target);
+
+      expect(result.success).toBe(true);
+      expect(result.correctedPath).toBeUndefined();
+      expect(fs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should skip the content checks when validateImages is false', async () => {
+      const { transport } = bodyTransport([Buffer.from('<html></html>')], { 'content-type': 'text/html' });
+
+      const result = await new ImageDownloader({ transport, validateImages: false }).download(url, filepath);
+
+      expect(result.success).toBe(true);
+      expect(fs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should correct the extension of a fresh cached copy', async () => {
+      const cache = {
+        lookup: vi.fn().mockReturnValue({ key: 'abc', size: 16 }),
+        isFresh: vi.fn().mockReturnValue(true),
+        copyTo: vi.fn().mockReturnValue(true),
+      };
+      vi.mocked(fs.readSync).mockImplementationOnce(((_fd: number, buffer: Buffer) => WEBP_BYTES.copy(buffer)) as any);
+
+      const result = await new ImageDownloader({ cache: cache as unknown as HttpCache }).download(url, filepath);
+
+      expect(result).toEqual({ success: true, fromCache: true, correctedPath: '/tmp/image.webp' });
+    });
+
+    it('should throw for a maxBytes of 0', () => {
+      expect(() => new ImageDownloader({ maxBytes: 0 })).toThrow('maxBytes must be greater than 0');
+    });
+  });
+
+  describe('HTTP cache', () => {
+    const url = 'https://example.com/image.png';
+    const filepath = '/tmp/image.png';
+    const entry: HttpCacheEntry = {
+      key: 'abc',
+      size: 5,
+      etag: '"v1"',
+      validatedAt: '2024-06-01T08:00:00.000Z',
+      usedAt: '2024-06-01T08:00:00.000Z',
+    };
+
+    function createCache(cached: HttpCacheEntry | undefined, fresh: boolean) {
+      return {
+        lookup: vi.fn().mockReturnValue(cached),
+        isFresh: vi.fn().mockReturnValue(fresh),
+        conditionalHeaders: vi.fn().mockReturnValue(cached ? { 'If-None-Match': '"v1"' } : {}),
+        copyTo: vi.fn().mockReturnValue(true),
+        store: vi.fn(),
+      };
+    }
+
+    beforeEach(() => {
+      // Only the download directory exists
+      vi.mocked(fs.existsSync).mockImplementation((file) => file === '/tmp');
+    });
+
+    it('should copy a fresh cached response without a request', async () => {
+      const cache = createCache(entry, true);
+      const downloader = new ImageDownloader({ cache: cache as unknown as HttpCache });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result).toEqual({ success: true, fromCache: true });
+      expect(cache.copyTo).toHaveBeenCalledWith(url, filepath);
+      expect(https.get).not.toHaveBeenCalled();
+    });
+
+    it('should revalidate a stale entry and copy it on HTTP 304', async () => {
+      const cache = createCache(entry, false);
+      const downloader = new ImageDownloader({ cache: cache as unknown as HttpCache });
+      const notModified = createMockResponse(304);
+
+      vi.mocked(https.get).mockImplementation((_urlArg, _options, callback) => {
+        callback!(notModified);
+        return createMockClientRequest();
+      });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result).toEqual({ success: true, fromCache: true, finalUrl: url });
+      expect(https.get).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } }),
+        expect.any(Function)
+      );
+      expect(notModified.resume).toHaveBeenCalled();
+      expect(cache.copyTo).toHaveBeenCalledWith(url, filepath, true);
+      expect(fs.createWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('should fail on HTTP 304 when the cached file is gone', async () => {
+      const cache = createCache(entry, false);
+      cache.copyTo.mockReturnValue(false);
+      const downloader = new ImageDownloader({ cache: cache as unknown as HttpCache });
+      const notModified = createMockResponse(304);
+
+      vi.mocked(https.get).mockImplementation((_urlArg, _options, callback) => {
+        callback!(notModified);
+        return createMockClientRequest();
+      });
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Cached response missing for HTTP 304: ${url}`);
+    });
+
+    it('should store a new download with its validators', async () => {
+      const cache = createCache(undefined, false);
+      const downloader = new ImageDownloader({ cache: cache as unknown as HttpCache });
+      const mockFileStream = createMockFileStream();
+
+      vi.mocked(https.get).mockImplementation((_urlArg, _options, callback) => {
+        const response = createMockResponse(200, { etag: '"v2"', 'last-modified': 'Sat, 01 Jun 2024' });
+        response.pipe = vi.fn((dest) => {
+          setTimeout(() => {
+            response.emit('data', PNG_BYTES);
+            mockFileStream.emit('finish');
+          }, 10);
+          return dest;
+        });
+        callback!(response);
+        return createMockClientRequest();
+      });
+      vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result).toEqual({ success: true, finalUrl: url });
+      expect(cache.store).toHaveBeenCalledWith(url, filepath, { etag: '"v2"', lastModified: 'Sat, 01 Jun 2024' });
+    });
+
+    it('should not fail the download when the cache cannot be written', async () => {
+      const cache = createCache(undefined, false);
+      cache.store.mockImplementation(() => {
+        throw new Error('ENOSPC');
+      });
+      const downloader = new ImageDownloader({ cache: cache as unknown as HttpCache });
+      const mockFileStream = createMockFileStream();
+
+      vi.mocked(https.get).mockImplementation(createSuccessDownloadMock(mockFileStream));
+      vi.mocked(fs.createWriteStream).mockReturnValue(mockFileStream as any);
+
+      const result = await downloader.download(url, filepath);
+
+      expect(result.success).toBe(true);
+    });
+  });
 });
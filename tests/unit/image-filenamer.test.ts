@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ImageFilenamer } from '../../src/services/image-filenamer.js';
+
+const UUID_URL = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+
+describe('ImageFilenamer', () => {
+  describe('filename()', () => {
+    it('should keep Hashnode UUID filenames with either strategy', () => {
+      expect(new ImageFilenamer('hash').filename(UUID_URL)).toBe('550e8400-e29b-41d4-a716-446655440000.png');
+      expect(new ImageFilenamer('basename').filename(UUID_URL)).toBe('550e8400-e29b-41d4-a716-446655440000.png');
+    });
+
+    it('should name other URLs by URL hash by default', () => {
+      const filenamer = new ImageFilenamer();
+      const filename = filenamer.filename('https://i.imgur.com/Photo.PNG?w=800');
+
+      expect(filename).toMatch(/^[0-9a-f]{16}\.png$/);
+      expect(filenamer.filename('https://i.imgur.com/Photo.PNG?w=800')).toBe(filename);
+      expect(filenamer.filename('https://i.imgur.com/Photo.PNG?w=400')).not.toBe(filename);
+    });
+
+    it.each([
+      ['https://i.imgur.com/diagram.png', 'diagram.png'],
+      ['https://example.com/images/My%20Photo%20(1).JPG', 'My-Photo-1.jpg'],
+      ['https://example.com/a/b/../..%2F..%2Fetc%2Fpasswd', 'etc-passwd'],
+      ['https://res.cloudinary.com/demo/image/upload/v1/sample', 'sample'],
+      ['https://example.com/render.php?id=4', 'render-php'],
+      ['https://example.com/', 'image'],
+      ['https://example.com/.hidden.png', 'hidden.png'],
+    ])('should sanitize the basename of %s', (url, expected) => {
+      expect(new ImageFilenamer('basename').filename(url)).toBe(expected);
+    });
+
+    it('should shorten long basenames', () => {
+      const filename = new ImageFilenamer('basename').filename(`https://example.com/${'a'.repeat(200)}.png`);
+      expect(filename).toBe(`${'a'.repeat(80)}.png`);
+    });
+  });
+
+  describe('assign()', () => {
+    it('should suffix different URLs that share a filename', () => {
+      const filenames = new ImageFilenamer('basename').assign([
+        'https://a.example/photo.png',
+        'https://b.example/Photo.png',
+        'https://c.example/photo.png',
+        'https://a.example/photo.png',
+      ]);
+
+      expect([...filenames.values()]).toEqual(['photo.png', 'Photo-2.png', 'photo-3.png']);
+    });
+
+    it('should avoid reserved filenames', () => {
+      const filenames = new ImageFilenamer('basename').assign(['https://a.example/cover.png'], ['cover.png']);
+      expect(filenames.get('https://a.example/cover.png')).toBe('cover-2.png');
+    });
+
+    it('should share UUID filenames between URLs of the same image', () => {
+      const filenames = new ImageFilenamer().assign([UUID_URL, `${UUID_URL}?w=400`]);
+      expect(new Set(filenames.values())).toEqual(new Set(['550e8400-e29b-41d4-a716-446655440000.png']));
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import * as fs from 'node:fs';
+import sharp from 'sharp';
+import { ImageOptimizer, SharpImageCodec } from '../../src/services/image-optimizer.js';
+import type { ImageCodec } from '../../src/services/image-optimizer.js';
+
+vi.mock('node:fs');
+vi.mock('sharp', () => ({ default: vi.fn() }));
+
+/**
+ * Chainable stand-in for a sharp pipeline
+ */
+function createMockPipeline(size = 42) {
+  const pipeline = {
+    rotate: vi.fn(() => pipeline),
+    resize: vi.fn(() => pipeline),
+    keepMetadata: vi.fn(() => pipeline),
+    jpeg: vi.fn(() => pipeline),
+    png: vi.fn(() => pipeline),
+    webp: vi.fn(() => pipeline),
+    avif: vi.fn(() => pipeline),
+    toFile: vi.fn().mockResolvedValue({ size }),
+  };
+  vi.mocked(sharp).mockReturnValue(pipeline as any);
+  return pipeline;
+}
+
+describe('ImageOptimizer', () => {
+  let codec: ImageCodec & { encode: Mock };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.statSync).mockReturnValue({ size: 1000 } as any);
+    codec = { encode: vi.fn().mockResolvedValue({ size: 600 }) };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('constructor', () => {
+    it.each([[0], [-10], [1.5]])('should throw for a maxWidth of %s', (maxWidth) => {
+      expect(() => new ImageOptimizer({ maxWidth, codec })).toThrow('maxWidth must be a positive integer');
+    });
+
+    it.each([[0], [101], [75.5]])('should throw for a quality of %s', (quality) => {
+      expect(() => new ImageOptimizer({ quality, codec })).toThrow('quality must be an integer between 1 and 100');
+    });
+  });
+
+  describe('optimize()', () => {
+    it('should re-encode a JPEG in place with the default options', async () => {
+      const result = await new ImageOptimizer({ codec }).optimize('/blog/post/photo.jpg');
+
+      expect(codec.encode).toHaveBeenCalledWith('/blog/post/photo.jpg', '/blog/post/photo.jpg.tmp', {
+        format: 'jpeg',
+        maxWidth: undefined,
+        quality: 80,
+        stripMetadata: true,
+      });
+      expect(fs.renameSync).toHaveBeenCalledWith('/blog/post/photo.jpg.tmp', '/blog/post/photo.jpg');
+      expect(result).toEqual({ recompressed: true, savedBytes: 400, variants: [] });
+    });
+
+    it('should keep the original when the re-encode is not smaller', async () => {
+      codec.encode.mockResolvedValue({ size: 1200 });
+
+      const result = await new ImageOptimizer({ codec }).optimize('/blog/post/diagram.png');
+
+      expect(fs.unlinkSync).toHaveBeenCalledWith('/blog/post/diagram.png.tmp');
+      expect(fs.renameSync).not.toHaveBeenCalled();
+      expect(result).toEqual({ recompressed: false, savedBytes: 0, variants: [] });
+    });
+
+    it('should write the modern-format copies from the original first', async () => {
+      const optimizer = new ImageOptimizer({ maxWidth: 1200, quality: 70, formats: ['avif', 'webp'], codec });
+
+      const result = await optimizer.optimize('/blog/post/diagram.png');
+
+      expect(codec.encode.mock.calls.map(([input, output, options]) => [input, output, options.format])).toEqual([
+        ['/blog/post/diagram.png', '/blog/post/diagram.png.avif.tmp', 'avif'],
+        ['/blog/post/diagram.png', '/blog/post/diagram.png.webp.tmp', 'webp'],
+        ['/blog/post/diagram.png', '/blog/post/diagram.png.tmp', 'png'],
+      ]);
+      expect(codec.encode).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+        format: 'avif',
+        maxWidth: 1200,
+        quality: 70,
+        stripMetadata: true,
+      });
+      expect(fs.renameSync).toHaveBeenCalledWith('/blog/post/diagram.png.avif.tmp', '/blog/post/diagram.png.avif');
+      expect(result.variants).toEqual([
+        { format: 'avif', filepath: '/blog/post/diagram.png.avif', size: 600 },
+        { format: 'webp', filepath: '/blog/post/diagram.png.webp', size: 600 },
+      ]);
+    });
+
+    it('should skip the copies when asked to', async () => {
+      const result = await new ImageOptimizer({ formats: ['webp'], codec }).optimize('/blog/post/photo.jpeg', false);
+
+      expect(codec.encode).toHaveBeenCalledTimes(1);
+      expect(result.variants).toEqual([]);
+    });
+
+    it.each([['anim.gif'], ['logo.svg'], ['photo.webp'], ['favicon.ico']])('should leave %s untouched', async (file) => {
+      const result = await new ImageOptimizer({ formats: ['webp'], codec }).optimize(`/blog/post/${file}`);
+
+      expect(codec.encode).not.toHaveBeenCalled();
+      expect(result).toEqual({ recompressed: false, savedBytes: 0, variants: [] });
+    });
+
+    it('should remove the temp file and rethrow when encoding fails', async () => {
+      codec.encode.mockRejectedValue(new Error('Input file contains unsupported image format'));
+
+      await expect(new ImageOptimizer({ codec }).optimize('/blog/post/photo.jpg')).rejects.toThrow(
+        'unsupported image format'
+      );
+      expect(fs.rmSync).toHaveBeenCalledWith('/blog/post/photo.jpg.tmp', { force: true });
+      expect(fs.renameSync).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('SharpImageCodec', () => {
+  const options = { quality: 75, stripMetadata: true };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should auto-orient, cap the width and encode JPEG with mozjpeg', async () => {
+    const pipeline = createMockPipeline(1234);
+
+    const result = await new SharpImageCodec().encode('/in.jpg', '/out.jpg', { ...options, format: 'jpeg', maxWidth: 800 });
+
+    expect(sharp).toHaveBeenCalledWith('/in.jpg');
+    expect(pipeline.rotate).toHaveBeenCalled();
+    expect(pipeline.resize).toHaveBeenCalledWith({ width: 800, withoutEnlargement: true });
+    expect(pipeline.jpeg).toHaveBeenCalledWith({ quality: 75, mozjpeg: true });
+    expect(pipeline.keepMetadata).not.toHaveBeenCalled();
+    expect(pipeline.toFile).toHaveBeenCalledWith('/out.jpg');
+    expect(result).toEqual({ size: 1234 });
+  });
+
+  it('should keep metadata when not stripping it', async () => {
+    const pipeline = createMockPipeline();
+
+    await new SharpImageCodec().encode('/in.png', '/out.png', { ...options, format: 'png', stripMetadata: false });
+
+    expect(pipeline.keepMetadata).toHaveBeenCalled();
+    expect(pipeline.resize).not.toHaveBeenCalled();
+    expect(pipeline.png).toHaveBeenCalledWith({ compressionLevel: 9, adaptiveFiltering: true });
+  });
+
+  it.each([['webp' as const], ['avif' as const]])('should encode %s with the quality', async (format) => {
+    const pipeline = createMockPipeline();
+
+    await new SharpImageCodec().encode('/in.png', `/out.${format}`, { ...options, format });
+
+    expect(pipeline[format]).toHaveBeenCalledWith({ quality: 75 });
+  });
+});
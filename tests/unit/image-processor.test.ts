@@ -1,8 +1,17 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { createHash } from 'node:crypto';
 import { ImageProcessor } from '../../src/processors/image-processor.js';
 import { ImageDownloader } from '../../src/services/image-downloader.js';
+import { DownloadManifest, DOWNLOAD_MANIFEST_FILENAME } from '../../src/services/download-manifest.js';
+import type { DownloadManifestData, DownloadRecord } from '../../src/services/download-manifest.js';
+import { HttpCache } from '../../src/services/http-cache.js';
+import { NodeHttpTransport } from '../../src/services/http-transport.js';
+import type { AssetStore } from '../../src/services/asset-store.js';
+import type { SharedAssetContext } from '../../src/types/image-processor.js';
+import type { ImageCodec } from '../../src/services/image-optimizer.js';
+import { trickyPosts } from '../fixtures/tricky-posts.js';
 
 // Mock modules
 vi.mock('node:fs');
@@ -26,6 +35,7 @@ describe('ImageProcessor', () => {
     vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any); // Default: empty file
     vi.mocked(fs.mkdirSync).mockImplementation(() => '');
     vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+    vi.mocked(fs.readFileSync).mockReturnValue(Buffer.from('image bytes')); // Downloaded file contents
 
     // Default ImageDownloader mocks
     vi.mocked(ImageDownloader.extractHash).mockReturnValue('test.png');
@@ -36,6 +46,34 @@ describe('ImageProcessor', () => {
     vi.restoreAllMocks();
   });
 
+  const manifestPath = path.join(testBlogDir, DOWNLOAD_MANIFEST_FILENAME);
+
+  /**
+   * Serve a download manifest from an earlier run at the default manifest
+   * path (in the blog directory). Call after mocking fs.existsSync.
+   */
+  function mockDownloadManifest(downloads: Record<string, Partial<DownloadRecord>>): void {
+    const existsSync = vi.mocked(fs.existsSync).getMockImplementation();
+    vi.mocked(fs.existsSync).mockImplementation(
+      (filepath: any) => filepath === manifestPath || (existsSync?.(filepath) ?? false)
+    );
+
+    const data: DownloadManifestData = { version: 1, downloads: {} };
+    for (const [url, record] of Object.entries(downloads)) {
+      data.downloads[url] = { status: 'ok', attempts: 1, updatedAt: '2024-01-01T00:00:00.000Z', ...record };
+    }
+    vi.mocked(fs.readFileSync).mockImplementation(((filepath: any) =>
+      filepath === manifestPath ? JSON.stringify(data) : Buffer.from('image bytes')) as typeof fs.readFileSync);
+  }
+
+  /**
+   * Download manifest written by the last process() call
+   */
+  function writtenManifest(file = manifestPath): DownloadManifestData {
+    const call = vi.mocked(fs.writeFileSync).mock.calls.findLast(([filepath]) => filepath === `${file}.tmp`);
+    return JSON.parse(call![1] as string);
+  }
+
   // Category 1: Constructor and Configuration (4 tests)
   describe('Constructor and Configuration', () => {
     it('should create instance with default options', () => {
@@ -53,22 +91,69 @@ describe('ImageProcessor', () => {
       expect(processor).toBeInstanceOf(ImageProcessor);
     });
 
-    it('should set downloadDelayMs default to 200ms', () => {
-      const processor = new ImageProcessor();
-      expect(processor).toBeInstanceOf(ImageProcessor);
-    });
-
     it('should pass options to ImageDownloader correctly', () => {
       const options = {
         maxRetries: 5,
         retryDelayMs: 2000,
         timeoutMs: 60000,
-        downloadDelayMs: 500,
       };
       new ImageProcessor(options);
 
       expect(ImageDownloader).toHaveBeenCalledWith(options);
     });
+
+    it('should pass an HTTP cache to ImageDownloader when configured', () => {
+      new ImageProcessor({ cache: { dir: '/cache' } });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(expect.objectContaining({ cache: expect.any(HttpCache) }));
+    });
+
+    it('should pass a custom transport to ImageDownloader', () => {
+      const transport = { request: vi.fn() };
+      new ImageProcessor({ transport, transportOptions: { proxy: 'http://proxy:8080' } });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(expect.objectContaining({ transport }));
+    });
+
+    it('should create a proxied transport from the transport options', () => {
+      new ImageProcessor({ transportOptions: { proxy: 'http://proxy:8080' } });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(
+        expect.objectContaining({ transport: expect.any(NodeHttpTransport) })
+      );
+    });
+
+    it('should pass the retry options to ImageDownloader', () => {
+      const circuitBreaker = { failureThreshold: 3 };
+      new ImageProcessor({ backoffMultiplier: 3, maxRetryDelayMs: 5000, jitter: false, retryBudget: 10, circuitBreaker });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(
+        expect.objectContaining({
+          backoffMultiplier: 3,
+          maxRetryDelayMs: 5000,
+          jitter: false,
+          retryBudget: 10,
+          circuitBreaker,
+        })
+      );
+    });
+
+    it('should pass the redirect options to ImageDownloader', () => {
+      const redirectPolicy = { allowCrossHost: false };
+      new ImageProcessor({ maxRedirects: 3, redirectPolicy });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(expect.objectContaining({ maxRedirects: 3, redirectPolicy }));
+    });
+
+    it('should pass the validation options to ImageDownloader', () => {
+      new ImageProcessor({ maxBytes: 1024, validateImages: false });
+
+      expect(ImageDownloader).toHaveBeenCalledWith(expect.objectContaining({ maxBytes: 1024, validateImages: false }));
+    });
+
+    it('should throw for negative cache limits', () => {
+      expect(() => new ImageProcessor({ cache: { maxSizeBytes: -1 } })).toThrow('must not be negative');
+    });
   });
 
   // Category 2: Image URL Extraction (8 tests)
@@ -197,6 +282,41 @@ describe('ImageProcessor', () => {
       expect(result.markdown).not.toContain(cdnUrl);
     });
 
+    it('should report download retries with the image filename', async () => {
+      const cdnUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+      const onRetry = vi.fn();
+      const retry = { url: cdnUrl, retry: 1, maxRetries: 3, delayMs: 1000, error: `HTTP 503: ${cdnUrl}` };
+
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue('550e8400-e29b-41d4-a716-446655440000.png');
+      vi.mocked(ImageDownloader.prototype.download).mockImplementation(async (_url, _filepath, onDownloadRetry) => {
+        onDownloadRetry?.(retry);
+        return { success: true };
+      });
+
+      await processor.process(`![Image](${cdnUrl})`, testBlogDir, { onRetry });
+
+      expect(onRetry).toHaveBeenCalledWith({ ...retry, filename: '550e8400-e29b-41d4-a716-446655440000.png' });
+    });
+
+    it('should use the provided image link resolver for replacements', async () => {
+      const cdnUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+      const imageLink = vi.fn((filename: string) => `/assets/images/post-slug/${filename}`);
+
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue('550e8400-e29b-41d4-a716-446655440000.png');
+
+      const result = await processor.process(`![Image](${cdnUrl})`, testBlogDir, { imageLink });
+
+      expect(imageLink).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440000.png');
+      expect(result.markdown).toBe(
+        '![Image](/assets/images/post-slug/550e8400-e29b-41d4-a716-446655440000.png)'
+      );
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(
+        cdnUrl,
+        path.join(testBlogDir, '550e8400-e29b-41d4-a716-446655440000.png'),
+        undefined
+      );
+    });
+
     it('should return correct statistics', async () => {
       const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
 
@@ -263,20 +383,20 @@ describe('ImageProcessor', () => {
 
   // Category 4: Already-Downloaded Images (4 tests)
   describe('Already-Downloaded Images', () => {
-    it('should skip download if file and success marker both exist', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
+    it('should skip download if the file exists and the manifest records a success', async () => {
+      const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png';
+      const markdown = `![Image](${url})`;
       const filename = 'test.png';
 
       vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
 
-      // Mock file exists and marker exists with size 0 (success marker)
+      // Mock file exists and the manifest has an ok record
       vi.mocked(fs.existsSync).mockImplementation((filepath: any) => {
         if (filepath === testBlogDir) return true;
-        if (filepath.toString().includes(filename)) return true;
-        if (filepath.toString().includes('.marker')) return true;
+        if (filepath === path.join(testBlogDir, filename)) return true;
         return false;
       });
-      vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any);
+      mockDownloadManifest({ [url]: { status: 'ok' } });
 
       const result = await processor.process(markdown, testBlogDir);
 
@@ -292,9 +412,12 @@ describe('ImageProcessor', () => {
 `;
 
       vi.mocked(ImageDownloader.extractHash).mockReturnValue('test.png');
-      // Both file and marker exist (success case)
-      vi.mocked(fs.existsSync).mockReturnValue(true);
-      vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any);
+      // Files exist and both URLs were downloaded before (success case)
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) => !filepath.toString().includes('.downloaded-markers'));
+      mockDownloadManifest({
+        'https://cdn.hashnode.com/res/hashnode/image/upload/v1/img1.png': { status: 'ok' },
+        'https://cdn.hashnode.com/res/hashnode/image/upload/v2/img2.png': { status: 'ok' },
+      });
 
       const result = await processor.process(markdown, testBlogDir);
 
@@ -330,10 +453,9 @@ describe('ImageProcessor', () => {
         const pathStr = filepath.toString();
         if (pathStr === testBlogDir) return true;
         if (pathStr.includes('existing.png')) return true;
-        if (pathStr.includes('new.png') && pathStr.includes('.marker')) return false;
         return false;
       });
-      vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any);
+      mockDownloadManifest({ 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/existing.png': { status: 'ok' } });
       vi.mocked(fs.mkdirSync).mockImplementation(() => '');
       vi.mocked(fs.writeFileSync).mockImplementation(() => {});
       vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: true });
@@ -425,16 +547,15 @@ describe('ImageProcessor', () => {
       });
     });
 
-    it('should handle invalid URL (no extractable hash)', async () => {
+    it('should name URLs without a UUID filename by URL hash', async () => {
       const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/invalid-url.png)';
 
       vi.mocked(ImageDownloader.extractHash).mockReturnValue(null);
 
       const result = await processor.process(markdown, testBlogDir);
 
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0].filename).toBe('unknown');
-      expect(result.errors[0].error).toContain('Could not extract hash');
+      expect(result.errors).toHaveLength(0);
+      expect(result.markdown).toMatch(/^!\[Image\]\(\.\/[0-9a-f]{16}\.png\)$/);
     });
 
     it('should handle ImageDownloader throwing exception', async () => {
@@ -520,6 +641,293 @@ describe('ImageProcessor', () => {
     });
   });
 
+  describe('Cover Images', () => {
+    const coverUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.jpg';
+    const coverPath = path.join(testBlogDir, 'cover.jpg');
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue('550e8400-e29b-41d4-a716-446655440000.jpg');
+    });
+
+    it('should download the cover image as cover.<ext>', async () => {
+      const result = await processor.process('No images here', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(coverUrl, coverPath, undefined);
+      expect(writtenManifest().downloads[coverUrl].status).toBe('ok');
+      expect(result.coverImage).toEqual({ url: coverUrl, filename: 'cover.jpg', status: 'downloaded', localPath: './cover.jpg' });
+    });
+
+    it('should not count the cover image with the markdown images', async () => {
+      const result = await processor.process('No images here', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(result.imagesProcessed).toBe(0);
+      expect(result.imagesDownloaded).toBe(0);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should link the cover image with the supplied resolver', async () => {
+      const result = await processor.process('', testBlogDir, {
+        imageLink: (filename) => `/assets/${filename}`,
+        coverImageUrl: coverUrl,
+      });
+
+      expect(result.coverImage?.localPath).toBe('/assets/cover.jpg');
+    });
+
+    it('should skip a previously downloaded cover image', async () => {
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, coverPath].includes(filepath.toString())
+      );
+      mockDownloadManifest({ [coverUrl]: { status: 'ok' } });
+
+      const result = await processor.process('', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.coverImage).toEqual({ url: coverUrl, filename: 'cover.jpg', status: 'skipped', localPath: './cover.jpg' });
+    });
+
+    it('should report HTTP 403 failures and record them in the manifest', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({
+        success: false,
+        is403: true,
+        error: 'HTTP 403 Forbidden',
+      });
+
+      const result = await processor.process('', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(writtenManifest().downloads[coverUrl]).toMatchObject({ status: '403', lastError: 'HTTP 403 Forbidden' });
+      expect(result.coverImage).toEqual({
+        url: coverUrl,
+        filename: 'cover.jpg',
+        status: 'failed',
+        error: { filename: 'cover.jpg', url: coverUrl, error: 'HTTP 403 Forbidden', is403: true },
+      });
+    });
+
+    it('should keep the remote cover image after a previous HTTP 403', async () => {
+      mockDownloadManifest({ [coverUrl]: { status: '403', lastError: 'HTTP 403 Forbidden' } });
+
+      const result = await processor.process('', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.coverImage).toEqual({ url: coverUrl, filename: 'cover.jpg', status: 'skipped' });
+    });
+
+    it('should report the corrected filename of a cover served in another format', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({
+        success: true,
+        correctedPath: path.join(testBlogDir, 'cover.webp'),
+      });
+
+      const result = await processor.process('', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(result.coverImage).toEqual({
+        url: coverUrl,
+        filename: 'cover.webp',
+        status: 'downloaded',
+        localPath: './cover.webp',
+      });
+    });
+
+    it('should not download a cover image shown in the post at the same time as the post image', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(ImageDownloader.prototype.download).mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { success: true };
+      });
+
+      const result = await processor.process(`![Header](${coverUrl})`, testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(maxInFlight).toBe(1);
+      expect(ImageDownloader.prototype.download).toHaveBeenNthCalledWith(
+        1,
+        coverUrl,
+        path.join(testBlogDir, '550e8400-e29b-41d4-a716-446655440000.jpg'),
+        undefined
+      );
+      expect(ImageDownloader.prototype.download).toHaveBeenNthCalledWith(2, coverUrl, coverPath, undefined);
+      expect(result.markdown).toBe('![Header](./550e8400-e29b-41d4-a716-446655440000.jpg)');
+      expect(result.coverImage).toEqual({ url: coverUrl, filename: 'cover.jpg', status: 'downloaded', localPath: './cover.jpg' });
+      expect(writtenManifest().downloads[coverUrl].status).toBe('ok');
+    });
+
+    it('should take the cover extension from URLs without a UUID filename', async () => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(null);
+
+      const result = await processor.process('', testBlogDir, { coverImageUrl: coverUrl });
+
+      expect(result.coverImage).toEqual({ url: coverUrl, filename: 'cover.jpg', status: 'downloaded', localPath: './cover.jpg' });
+    });
+
+    it('should leave cover images outside the Hashnode CDN remote', async () => {
+      const result = await processor.process('', testBlogDir, {
+        coverImageUrl: 'https://images.example.com/cover.png',
+      });
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.coverImage).toBeUndefined();
+    });
+  });
+
+  describe('HTML and Reference Images', () => {
+    it('should rewrite only the src of <img> tags', async () => {
+      const markdown =
+        '<img src="https://cdn.hashnode.com/res/a.png" width="300" align="center" alt="A">\n' +
+        "<img alt='B' src='https://cdn.hashnode.com/res/b.png' />";
+
+      vi.mocked(ImageDownloader.extractHash).mockImplementation((url) => path.basename(url));
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesDownloaded).toBe(2);
+      expect(result.markdown).toBe(
+        '<img src="./a.png" width="300" align="center" alt="A">\n' + "<img alt='B' src='./b.png' />"
+      );
+    });
+
+    it('should download decoded <img> URLs', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'] });
+
+      await processor.process('<img src="https://example.com/a.png?w=1&amp;h=2">', testBlogDir);
+
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(
+        'https://example.com/a.png?w=1&h=2',
+        expect.any(String),
+        undefined
+      );
+    });
+
+    it('should rewrite the definition of reference images', async () => {
+      const markdown =
+        '![Logo][logo] and ![Logo again][logo]\n\n[Docs][docs]\n\n' +
+        '[logo]: https://cdn.hashnode.com/res/logo.png "The logo"\n' +
+        '[docs]: https://cdn.hashnode.com/res/guide.pdf';
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesProcessed).toBe(1);
+      expect(result.markdown).toBe(
+        '![Logo][logo] and ![Logo again][logo]\n\n[Docs][docs]\n\n' +
+          '[logo]: ./test.png "The logo"\n' +
+          '[docs]: https://cdn.hashnode.com/res/guide.pdf'
+      );
+    });
+
+    it('should rewrite the image occurrence rather than an earlier link to the same URL', async () => {
+      const url = 'https://cdn.hashnode.com/res/a.png';
+
+      const result = await processor.process(`[Full size](${url})\n\n![Preview](${url})`, testBlogDir);
+
+      expect(result.markdown).toBe(`[Full size](${url})\n\n![Preview](./test.png)`);
+    });
+  });
+
+  describe('Image Hosts and Filenames', () => {
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(null);
+    });
+
+    it('should only localize allowed hosts', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['i.imgur.com', '*.cloudinary.com'] });
+      const markdown = [
+        '![](https://i.imgur.com/a.png)',
+        '![](https://res.cloudinary.com/demo/b.png)',
+        '![](https://cdn.hashnode.com/c.png)',
+      ].join('\n');
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesProcessed).toBe(2);
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledTimes(2);
+      expect(result.markdown.split('\n')[2]).toBe('![](https://cdn.hashnode.com/c.png)');
+    });
+
+    it('should localize any host with the * pattern', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'] });
+
+      const result = await processor.process('![](http://example.com/a.png)', testBlogDir);
+
+      expect(result.imagesDownloaded).toBe(1);
+      expect(result.markdown).not.toContain('example.com');
+    });
+
+    it('should give denied hosts precedence over allowed hosts', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'], deniedHosts: ['*.tracking.example'] });
+      const markdown = '![](https://pixel.tracking.example/a.gif) ![](https://i.imgur.com/b.png)';
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesProcessed).toBe(1);
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(
+        'https://i.imgur.com/b.png',
+        expect.any(String),
+        undefined
+      );
+    });
+
+    it('should throw for invalid host patterns', () => {
+      expect(() => new ImageProcessor({ deniedHosts: ['ex*ample.com'] })).toThrow(
+        'Invalid deny host pattern: "ex*ample.com"'
+      );
+    });
+
+    it('should suffix colliding basenames', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'], filenameStrategy: 'basename' });
+      const markdown = '![](https://a.example/photo.png) ![](https://b.example/photo.png) ![](https://a.example/photo.png)';
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.markdown).toBe('![](./photo.png) ![](./photo-2.png) ![](./photo.png)');
+    });
+
+    it('should not let post images take the cover filename', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'], filenameStrategy: 'basename' });
+
+      const result = await processor.process('![](https://a.example/cover.png)', testBlogDir, {
+        coverImageUrl: 'https://b.example/header.png',
+      });
+
+      expect(result.markdown).toBe('![](./cover-2.png)');
+      expect(result.coverImage?.localPath).toBe('./cover.png');
+    });
+
+    it('should keep image titles', async () => {
+      const processor = new ImageProcessor({ allowedHosts: ['*'], filenameStrategy: 'basename' });
+
+      const result = await processor.process('![Alt](https://a.example/photo.png "A photo")', testBlogDir);
+
+      expect(result.markdown).toBe('![Alt](./photo.png "A photo")');
+    });
+  });
+
+  describe('Code Blocks', () => {
+    it('should not download or rewrite images inside code', async () => {
+      const markdown = '```md\n![](https://cdn.hashnode.com/res/hashnode/image/upload/v1/code.png)\n```\n\nSee `![](https://cdn.hashnode.com/res/hashnode/image/upload/v1/inline.png)`';
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesProcessed).toBe(0);
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(markdown);
+    });
+
+    it.each(trickyPosts)('should only localize the real image in "$slug"', async ({ contentMarkdown, imageUrl }) => {
+      const result = await processor.process(contentMarkdown, testBlogDir);
+
+      expect(result.imagesProcessed).toBe(1);
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledTimes(1);
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(imageUrl, path.join(testBlogDir, 'test.png'), undefined);
+
+      // Everything before the real image (all the code samples) is untouched
+      const imageStart = contentMarkdown.lastIndexOf(`(${imageUrl})`);
+      expect(result.markdown.slice(0, imageStart)).toBe(contentMarkdown.slice(0, imageStart));
+      expect(result.markdown.slice(imageStart)).toMatch(/^\(\.\/test\.png\)/);
+    });
+  });
+
   // Category 6: Edge Cases (6 tests)
   describe('Edge Cases', () => {
     it('should handle empty markdown string', async () => {
@@ -637,7 +1045,8 @@ Some text with ![external image](https://example.com/image.png)
 
       expect(ImageDownloader.prototype.download).toHaveBeenCalledWith(
         url,
-        path.join(testBlogDir, filename)
+        path.join(testBlogDir, filename),
+        undefined
       );
     });
 
@@ -659,12 +1068,11 @@ Some text with ![external image](https://example.com/image.png)
       );
     });
 
-    it('should respect downloadDelayMs configuration', () => {
-      const downloadDelayMs = 500;
-      new ImageProcessor({ downloadDelayMs });
+    it('should not forward downloadDelayMs to ImageDownloader', () => {
+      new ImageProcessor({ downloadDelayMs: 500 });
 
       expect(ImageDownloader).toHaveBeenCalledWith(
-        expect.objectContaining({ downloadDelayMs })
+        expect.not.objectContaining({ downloadDelayMs: expect.anything() })
       );
     });
 
@@ -682,44 +1090,36 @@ Some text with ![external image](https://example.com/image.png)
     });
   });
 
-  // Category 8: Marker-Based Retry Logic (8 tests)
-  describe('Marker-Based Retry Logic', () => {
-    it('should create .downloaded-markers/ directory if it does not exist', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
+  // Category 8: Manifest-Based Retry Logic
+  describe('Manifest-Based Retry Logic', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png';
+    const markdown = `![Image](${url})`;
 
+    beforeEach(() => {
       vi.mocked(ImageDownloader.extractHash).mockReturnValue('test.png');
-      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
-      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
-      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: true });
+    });
 
+    it('should not create a .downloaded-markers/ directory', async () => {
       await processor.process(markdown, testBlogDir);
 
-      const expectedMarkersDir = path.join(testBlogDir, '.downloaded-markers');
-      expect(fs.mkdirSync).toHaveBeenCalledWith(expectedMarkersDir, { recursive: true });
+      const markersDir = path.join(testBlogDir, '.downloaded-markers');
+      expect(fs.mkdirSync).not.toHaveBeenCalledWith(markersDir, expect.anything());
+      expect(fs.renameSync).toHaveBeenCalledWith(`${manifestPath}.tmp`, manifestPath);
     });
 
-    it('should create empty marker file after successful download', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
-      const filename = 'test.png';
-
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
-      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
-      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
-      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: true });
-
+    it('should record successful downloads with size and checksum', async () => {
       await processor.process(markdown, testBlogDir);
 
-      const expectedMarkerPath = path.join(testBlogDir, '.downloaded-markers', `${filename}.marker`);
-      expect(fs.writeFileSync).toHaveBeenCalledWith(expectedMarkerPath, '');
+      expect(writtenManifest().downloads[url]).toEqual({
+        status: 'ok',
+        attempts: 1,
+        size: 11,
+        sha256: createHash('sha256').update('image bytes').digest('hex'),
+        updatedAt: expect.any(String),
+      });
     });
 
-    it('should create 403 marker file for HTTP 403 errors', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/forbidden.png)';
-      const filename = 'forbidden.png';
-
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
-      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
-      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+    it('should record HTTP 403 errors as permanent failures', async () => {
       vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({
         success: false,
         is403: true,
@@ -728,38 +1128,31 @@ Some text with ![external image](https://example.com/image.png)
 
       await processor.process(markdown, testBlogDir);
 
-      const expected403Marker = path.join(testBlogDir, '.downloaded-markers', `${filename}.marker.403`);
-      expect(fs.writeFileSync).toHaveBeenCalledWith(expected403Marker, 'HTTP 403 Forbidden');
+      expect(writtenManifest().downloads[url]).toMatchObject({ status: '403', lastError: 'HTTP 403 Forbidden' });
     });
 
-    it('should create error marker file with error message for transient failures', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
-      const filename = 'test.png';
-      const errorMsg = 'Network timeout';
-
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
-      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
-      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
-      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({
-        success: false,
-        error: errorMsg,
-      });
+    it('should record transient failures with the error message', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: false, error: 'Network timeout' });
 
       await processor.process(markdown, testBlogDir);
 
-      const expectedMarkerPath = path.join(testBlogDir, '.downloaded-markers', `${filename}.marker`);
-      expect(fs.writeFileSync).toHaveBeenCalledWith(expectedMarkerPath, errorMsg);
+      expect(writtenManifest().downloads[url]).toMatchObject({ status: 'transient', lastError: 'Network timeout' });
     });
 
-    it('should skip download if success marker and file both exist', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
-      const filename = 'test.png';
+    it('should count attempts across runs', async () => {
+      mockDownloadManifest({ [url]: { status: 'transient', attempts: 2, lastError: 'Network timeout' } });
 
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+      await processor.process(markdown, testBlogDir);
+
+      expect(writtenManifest().downloads[url]).toMatchObject({ status: 'ok', attempts: 3 });
+      expect(writtenManifest().downloads[url]).not.toHaveProperty('lastError');
+    });
 
-      // Both file and marker exist
-      vi.mocked(fs.existsSync).mockReturnValue(true); // File and marker both exist
-      vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any); // Empty marker = success
+    it('should skip download if the manifest records a success and the file exists', async () => {
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, path.join(testBlogDir, 'test.png')].includes(filepath.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok' } });
 
       const result = await processor.process(markdown, testBlogDir);
 
@@ -767,52 +1160,70 @@ Some text with ![external image](https://example.com/image.png)
       expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
     });
 
-    it('should retry download if error marker exists (transient failure)', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png)';
-      const filename = 'test.png';
-
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
-
-      // File exists, marker exists with content (transient error from previous run)
-      vi.mocked(fs.existsSync).mockImplementation((filepath: any) => {
-        const pathStr = filepath.toString();
-        if (pathStr === testBlogDir) return true;
-        if (pathStr.includes('.marker.403')) return false;
-        if (pathStr.includes('.marker')) return true;
-        if (pathStr.includes(filename)) return true;
-        return false;
+    it('should link and record the corrected filename of a renamed download', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({
+        success: true,
+        correctedPath: path.join(testBlogDir, 'test.webp'),
       });
-      vi.mocked(fs.statSync).mockReturnValue({ size: 100 } as any); // Non-empty marker = transient error
-      vi.mocked(fs.mkdirSync).mockImplementation(() => '');
-      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
-      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: true });
 
-      await processor.process(markdown, testBlogDir);
+      const result = await processor.process(markdown, testBlogDir);
 
-      // Should retry the download
-      expect(ImageDownloader.prototype.download).toHaveBeenCalled();
+      expect(result.markdown).toBe('![Image](./test.webp)');
+      expect(writtenManifest().downloads[url]).toMatchObject({ status: 'ok', filename: 'test.webp' });
     });
 
-    it('should skip retry if 403 marker exists (permanent failure)', async () => {
-      const markdown = '![Image](https://cdn.hashnode.com/res/hashnode/image/upload/v1/forbidden.png)';
-      const filename = 'forbidden.png';
+    it('should skip using the filename recorded for a renamed download', async () => {
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, path.join(testBlogDir, 'test.webp')].includes(filepath.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok', filename: 'test.webp' } });
 
-      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+      const result = await processor.process(markdown, testBlogDir);
 
-      // 403 marker exists
-      vi.mocked(fs.existsSync).mockImplementation((filepath: any) => {
-        const pathStr = filepath.toString();
-        if (pathStr === testBlogDir) return true;
-        if (pathStr.includes('.marker.403')) return true;
-        return false;
-      });
+      expect(result.imagesSkipped).toBe(1);
+      expect(result.markdown).toBe('![Image](./test.webp)');
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+    });
+
+    it('should download again if the file of a recorded success is gone', async () => {
+      mockDownloadManifest({ [url]: { status: 'ok' } });
+
+      const result = await processor.process(markdown, testBlogDir);
+
+      expect(result.imagesDownloaded).toBe(1);
+    });
+
+    it('should retry download after a transient failure', async () => {
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, path.join(testBlogDir, 'test.png')].includes(filepath.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'transient', lastError: 'Network timeout' } });
+
+      await processor.process(markdown, testBlogDir);
+
+      // Should retry the download
+      expect(ImageDownloader.prototype.download).toHaveBeenCalled();
+    });
+
+    it('should skip retry after an HTTP 403 (permanent failure)', async () => {
+      mockDownloadManifest({ [url]: { status: '403', lastError: 'HTTP 403 Forbidden' } });
 
       const result = await processor.process(markdown, testBlogDir);
 
       expect(result.imagesSkipped).toBe(1);
+      expect(result.markdown).toBe(markdown);
       expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
     });
 
+    it('should record downloads in a supplied manifest', async () => {
+      const manifest = new DownloadManifest('/test/blog');
+
+      await processor.process(markdown, testBlogDir, { downloadManifest: manifest });
+
+      expect(manifest.get(url)?.status).toBe('ok');
+      expect(writtenManifest(path.join('/test/blog', DOWNLOAD_MANIFEST_FILENAME)).downloads[url].status).toBe('ok');
+    });
+
     it('should replace URL only on successful download (keeps CDN URL for failures)', async () => {
       const cdnUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/test.png';
       const markdown = `
@@ -837,4 +1248,707 @@ Some text with ![external image](https://example.com/image.png)
       expect(result.markdown).toContain(cdnUrl);
     });
   });
+
+  // Category 9: Parallel Downloads (5 tests)
+  describe('Parallel Downloads', () => {
+    const twoImages = `
+![One](https://cdn.hashnode.com/res/hashnode/image/upload/v1/one.png)
+![Two](https://cdn.hashnode.com/res/hashnode/image/upload/v2/two.png)
+`;
+
+    /**
+     * Mock downloads that resolve after a per-filename delay while tracking
+     * the maximum number of downloads in flight.
+     */
+    function mockTimedDownloads(delays: Record<string, number>) {
+      const stats = { inFlight: 0, maxInFlight: 0 };
+      vi.mocked(ImageDownloader.prototype.download).mockImplementation(
+        async (_url: string, filepath: string) => {
+          stats.inFlight++;
+          stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+          await new Promise((resolve) => setTimeout(resolve, delays[path.basename(filepath)] ?? 0));
+          stats.inFlight--;
+          return { success: true };
+        }
+      );
+      return stats;
+    }
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockImplementation((url: string) => path.basename(url));
+    });
+
+    it('should download different images in parallel', async () => {
+      const stats = mockTimedDownloads({ 'one.png': 10, 'two.png': 10 });
+
+      const result = await processor.process(twoImages, testBlogDir);
+
+      expect(stats.maxInFlight).toBe(2);
+      expect(result.imagesDownloaded).toBe(2);
+    });
+
+    it('should respect maxConcurrentDownloads', async () => {
+      const stats = mockTimedDownloads({ 'one.png': 5, 'two.png': 5 });
+      const sequential = new ImageProcessor({ maxConcurrentDownloads: 1 });
+
+      await sequential.process(twoImages, testBlogDir);
+
+      expect(stats.maxInFlight).toBe(1);
+    });
+
+    it('should share the download queue across concurrent process() calls', async () => {
+      const stats = mockTimedDownloads({ 'one.png': 10, 'two.png': 10 });
+      const shared = new ImageProcessor({ maxConcurrentDownloads: 1 });
+
+      await Promise.all([
+        shared.process('![](https://cdn.hashnode.com/res/v1/one.png)', testBlogDir),
+        shared.process('![](https://cdn.hashnode.com/res/v1/two.png)', testBlogDir),
+      ]);
+
+      expect(stats.maxInFlight).toBe(1);
+    });
+
+    it('should keep errors and replacements in document order when later images finish first', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockImplementation(
+        async (url: string) => {
+          const slow = url.includes('one.png');
+          await new Promise((resolve) => setTimeout(resolve, slow ? 15 : 0));
+          return { success: false, error: `Failed ${path.basename(url)}` };
+        }
+      );
+
+      const result = await processor.process(twoImages, testBlogDir);
+
+      expect(result.errors.map((e) => e.filename)).toEqual(['one.png', 'two.png']);
+    });
+
+    it('should process repeated occurrences of the same image sequentially', async () => {
+      const stats = mockTimedDownloads({ 'one.png': 5 });
+      const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/one.png';
+
+      const result = await processor.process(`![a](${url})\n![b](${url})`, testBlogDir);
+
+      expect(stats.maxInFlight).toBe(1);
+      expect(result.imagesProcessed).toBe(2);
+    });
+  });
+
+  describe('Legacy Marker Migration', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/forbidden.png';
+    const markersDir = path.join(testBlogDir, '.downloaded-markers');
+    const marker403 = path.join(markersDir, 'forbidden.png.marker.403');
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue('forbidden.png');
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, markersDir, marker403].includes(filepath.toString())
+      );
+      vi.mocked(fs.readFileSync).mockImplementation(((filepath: any) =>
+        filepath.toString().endsWith('.403') ? 'HTTP 403 Forbidden' : Buffer.from('image bytes')) as typeof fs.readFileSync);
+      vi.mocked(fs.statSync).mockReturnValue({ mtime: new Date('2024-03-01T12:00:00.000Z') } as any);
+    });
+
+    it('should import markers into the manifest and remove the marker directory', async () => {
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.imagesSkipped).toBe(1);
+      expect(fs.rmSync).toHaveBeenCalledWith(markersDir, { recursive: true, force: true });
+      expect(writtenManifest().downloads[url]).toEqual({
+        status: '403',
+        attempts: 1,
+        lastError: 'HTTP 403 Forbidden',
+        updatedAt: '2024-03-01T12:00:00.000Z',
+      });
+    });
+
+    it('should migrate markers without downloading', () => {
+      const manifest = new DownloadManifest('/test/blog');
+
+      const imported = processor.migrateMarkers(`![Image](${url})`, testBlogDir, manifest);
+
+      expect(imported).toBe(1);
+      expect(manifest.get(url)?.status).toBe('403');
+      expect(fs.rmSync).toHaveBeenCalledWith(markersDir, { recursive: true, force: true });
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+    });
+
+    it('should map the cover image marker to the cover URL', () => {
+      const coverUrl = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/cover-uuid.png';
+      const coverMarker = path.join(markersDir, 'cover.png.marker.403');
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, markersDir, coverMarker].includes(filepath.toString())
+      );
+      const manifest = new DownloadManifest('/test/blog');
+
+      processor.migrateMarkers('# No images', testBlogDir, manifest, coverUrl);
+
+      expect(manifest.get(coverUrl)?.status).toBe('403');
+    });
+
+    it('should plan with markers without importing or removing them', () => {
+      const manifest = new DownloadManifest('/test/blog');
+
+      expect(processor.plan(`![Image](${url})`, testBlogDir, undefined, manifest)).toEqual([]);
+      expect(manifest.get(url)).toBeUndefined();
+      expect(fs.rmSync).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Shared Assets', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/diagram.png';
+    let store: { find: Mock; add: Mock; reference: Mock; save: Mock };
+    let sharedAssets: SharedAssetContext;
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue('diagram.png');
+      store = {
+        find: vi.fn().mockReturnValue(undefined),
+        add: vi.fn().mockReturnValue('assets/3f2a9c0d1b7e4a65/diagram.png'),
+        reference: vi.fn(),
+        save: vi.fn(),
+      };
+      sharedAssets = {
+        store: store as unknown as AssetStore,
+        postSlug: 'post-slug',
+        link: (assetPath) => `../${assetPath}`,
+      };
+    });
+
+    it('should move downloads into the store and link the stored asset', async () => {
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { sharedAssets });
+
+      expect(store.add).toHaveBeenCalledWith(path.join(testBlogDir, 'diagram.png'), 'diagram.png', url, 'post-slug');
+      expect(store.save).toHaveBeenCalledTimes(1);
+      expect(result.imagesDownloaded).toBe(1);
+      expect(result.markdown).toBe('![Diagram](../assets/3f2a9c0d1b7e4a65/diagram.png)');
+    });
+
+    it('should reuse an asset already in the store without downloading', async () => {
+      store.find.mockReturnValue('assets/3f2a9c0d1b7e4a65/diagram.png');
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { sharedAssets });
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(store.reference).toHaveBeenCalledWith('assets/3f2a9c0d1b7e4a65/diagram.png', 'post-slug');
+      expect(result.imagesSkipped).toBe(1);
+      expect(result.markdown).toBe('![Diagram](../assets/3f2a9c0d1b7e4a65/diagram.png)');
+    });
+
+    it('should download again when only a per-post download is recorded', async () => {
+      // File and manifest record from an earlier run without the store
+      vi.mocked(fs.existsSync).mockImplementation((filepath: any) =>
+        [testBlogDir, path.join(testBlogDir, 'diagram.png')].includes(filepath.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok' } });
+
+      await processor.process(`![Diagram](${url})`, testBlogDir, { sharedAssets });
+
+      expect(ImageDownloader.prototype.download).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store the cover image too', async () => {
+      const result = await processor.process('# No images', testBlogDir, { coverImageUrl: url, sharedAssets });
+
+      expect(store.add).toHaveBeenCalledWith(path.join(testBlogDir, 'cover.png'), 'cover.png', url, 'post-slug');
+      expect(result.coverImage?.localPath).toBe('../assets/3f2a9c0d1b7e4a65/diagram.png');
+    });
+
+    it('should keep the remote URL and skip the store when a download fails', async () => {
+      vi.mocked(ImageDownloader.prototype.download).mockResolvedValue({ success: false, error: 'Timeout' });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { sharedAssets });
+
+      expect(store.add).not.toHaveBeenCalled();
+      expect(result.errors).toHaveLength(1);
+      expect(result.markdown).toBe(`![Diagram](${url})`);
+    });
+
+    it('should not write the manifest for posts without images', async () => {
+      await processor.process('# No images', testBlogDir, { sharedAssets });
+
+      expect(store.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Offline Mode', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+    const filename = '550e8400-e29b-41d4-a716-446655440000.png';
+    const prefetchedDir = '/prefetched';
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+      vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    });
+
+    it('should keep the URL and report an offline miss without downloading', async () => {
+      processor = new ImageProcessor({ offline: true, prefetchedDir });
+
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(`![Image](${url})`);
+      expect(result.offlineMisses).toEqual([{ filename, url }]);
+      expect(result.errors).toEqual([]);
+      expect(result.imagesDownloaded).toBe(0);
+      expect(result.imagesSkipped).toBe(0);
+      expect(writtenManifest().downloads[url]).toBeUndefined(); // No attempt recorded
+    });
+
+    it('should copy an image from the pre-fetched directory', async () => {
+      processor = new ImageProcessor({ offline: true, prefetchedDir });
+      vi.mocked(fs.existsSync).mockImplementation(
+        (filepath: any) => filepath === testBlogDir || filepath === path.join(prefetchedDir, filename)
+      );
+
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(fs.copyFileSync).toHaveBeenCalledWith(
+        path.join(prefetchedDir, filename),
+        path.join(testBlogDir, filename)
+      );
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(`![Image](./${filename})`);
+      expect(result.imagesDownloaded).toBe(1);
+      expect(result.offlineMisses).toEqual([]);
+      expect(writtenManifest().downloads[url].status).toBe('ok');
+    });
+
+    it('should copy an image from the HTTP cache whatever its age', async () => {
+      const copyTo = vi.spyOn(HttpCache.prototype, 'copyTo').mockReturnValue(true);
+      processor = new ImageProcessor({ offline: true, cache: { dir: '/cache', maxAgeMs: 0 } });
+
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(copyTo).toHaveBeenCalledWith(url, path.join(testBlogDir, filename));
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(`![Image](./${filename})`);
+      expect(result.imagesDownloaded).toBe(1);
+    });
+
+    it('should still skip images downloaded by an earlier run', async () => {
+      processor = new ImageProcessor({ offline: true });
+      vi.mocked(fs.existsSync).mockImplementation(
+        (filepath: any) => filepath === testBlogDir || filepath === path.join(testBlogDir, filename)
+      );
+      mockDownloadManifest({ [url]: { status: 'ok' } });
+
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(result.imagesSkipped).toBe(1);
+      expect(result.offlineMisses).toEqual([]);
+      expect(result.markdown).toBe(`![Image](./${filename})`);
+    });
+
+    it('should report a cover image without a local copy as an offline miss', async () => {
+      processor = new ImageProcessor({ offline: true });
+
+      const result = await processor.process('No images here', testBlogDir, { coverImageUrl: url });
+
+      expect(result.coverImage).toEqual({ url, filename: 'cover.png', status: 'offline-miss' });
+      expect(result.offlineMisses).toEqual([]);
+    });
+
+    it('should not report offline misses when online', async () => {
+      const result = await processor.process(`![Image](${url})`, testBlogDir);
+
+      expect(result).not.toHaveProperty('offlineMisses');
+    });
+  });
+
+  describe('Image Optimization', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+    const filename = '550e8400-e29b-41d4-a716-446655440000.png';
+    const filepath = path.join(testBlogDir, filename);
+    let codec: ImageCodec & { encode: Mock };
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+      vi.mocked(fs.statSync).mockReturnValue({ size: 100 } as any);
+      codec = { encode: vi.fn().mockResolvedValue({ size: 60 }) };
+    });
+
+    it('should link the first modern-format copy with file markup', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp', 'avif'], codec } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(codec.encode).toHaveBeenCalledWith(filepath, `${filepath}.webp.tmp`, expect.objectContaining({ format: 'webp' }));
+      expect(result.markdown).toBe(`![Diagram](./${filename}.webp)`);
+      expect(result.bytesSaved).toBe(40);
+      expect(result.optimizationErrors).toEqual([]);
+      expect(writtenManifest().downloads[url].variants).toEqual([`${filename}.webp`, `${filename}.avif`]);
+    });
+
+    it('should replace inline images with a <picture> element with picture markup', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['avif', 'webp'], markup: 'picture', codec } });
+
+      const result = await processor.process(`Before ![Diagram](${url} "Flow") after`, testBlogDir);
+
+      expect(result.markdown).toBe(
+        'Before <picture>' +
+          `<source srcset="./${filename}.avif" type="image/avif">` +
+          `<source srcset="./${filename}.webp" type="image/webp">` +
+          `<img src="./${filename}" alt="Diagram" title="Flow">` +
+          '</picture> after'
+      );
+    });
+
+    it('should use the given picture renderer', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], markup: 'picture', codec } });
+      const renderPicture = vi.fn().mockReturnValue('<Picture />');
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { renderPicture });
+
+      expect(renderPicture).toHaveBeenCalledWith({
+        src: `./${filename}`,
+        alt: 'Diagram',
+        sources: [{ srcset: `./${filename}.webp`, type: 'image/webp' }],
+      });
+      expect(result.markdown).toBe('<Picture />');
+    });
+
+    it('should use the markup preferred by the output target', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], codec } });
+      const renderPicture = vi.fn().mockReturnValue('<Picture />');
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, {
+        imageMarkup: 'picture',
+        renderPicture,
+      });
+
+      expect(result.markdown).toBe('<Picture />');
+    });
+
+    it('should let the markup option override the output target', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], markup: 'file', codec } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { imageMarkup: 'picture' });
+
+      expect(result.markdown).toBe(`![Diagram](./${filename}.webp)`);
+    });
+
+    it('should link the original image from HTML tags with picture markup', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], markup: 'picture', codec } });
+
+      const result = await processor.process(`<img src="${url}" width="300">`, testBlogDir);
+
+      expect(result.markdown).toBe(`<img src="./${filename}" width="300">`);
+    });
+
+    it('should link the copies recorded by an earlier run', async () => {
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], codec } });
+      vi.mocked(fs.existsSync).mockImplementation((file: any) =>
+        [testBlogDir, filepath, `${filepath}.webp`].includes(file.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok', variants: [`${filename}.webp`] } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result.imagesSkipped).toBe(1);
+      expect(codec.encode).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(`![Diagram](./${filename}.webp)`);
+    });
+
+    it('should keep the image as downloaded and report the error when optimization fails', async () => {
+      codec.encode.mockRejectedValue(new Error('Input file has corrupt header'));
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], codec } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result.markdown).toBe(`![Diagram](./${filename})`);
+      expect(result.imagesDownloaded).toBe(1);
+      expect(result.errors).toEqual([]);
+      expect(result.optimizationErrors).toEqual([
+        { filename, url, error: 'Input file has corrupt header', is403: false },
+      ]);
+      expect(writtenManifest().downloads[url].status).toBe('ok');
+    });
+
+    it('should only re-encode images moved into the shared store', async () => {
+      const store = {
+        find: vi.fn().mockReturnValue(undefined),
+        add: vi.fn().mockReturnValue('assets/3f2a9c0d1b7e4a65/diagram.png'),
+        reference: vi.fn(),
+        save: vi.fn(),
+      };
+      const sharedAssets: SharedAssetContext = {
+        store: store as unknown as AssetStore,
+        postSlug: 'post-slug',
+        link: (assetPath) => `../${assetPath}`,
+      };
+      processor = new ImageProcessor({ optimize: { formats: ['webp'], codec } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { sharedAssets });
+
+      expect(codec.encode).toHaveBeenCalledTimes(1);
+      expect(codec.encode).toHaveBeenCalledWith(filepath, `${filepath}.tmp`, expect.objectContaining({ format: 'png' }));
+      expect(result.markdown).toBe('![Diagram](../assets/3f2a9c0d1b7e4a65/diagram.png)');
+    });
+
+    it('should not report optimization results when optimization is off', async () => {
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result).not.toHaveProperty('bytesSaved');
+      expect(result).not.toHaveProperty('optimizationErrors');
+    });
+
+    it('should throw for invalid optimization options', () => {
+      expect(() => new ImageProcessor({ optimize: { quality: 0, codec } })).toThrow('quality must be an integer');
+    });
+  });
+
+  describe('Image Dimensions', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+    const filename = '550e8400-e29b-41d4-a716-446655440000.png';
+
+    /**
+     * Serve a PNG header of the given size to fs.readSync
+     */
+    function mockPngHeader(width: number, height: number): void {
+      const header = Buffer.alloc(24);
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+      header.write('IHDR', 12, 'latin1');
+      header.writeUInt32BE(width, 16);
+      header.writeUInt32BE(height, 20);
+      vi.mocked(fs.readSync).mockImplementation(((
+        _fd: number,
+        buffer: Buffer,
+        offset: number,
+        length: number,
+        position: number
+      ) => header.copy(buffer, offset, position, position + length)) as typeof fs.readSync);
+    }
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+      mockPngHeader(1600, 900);
+    });
+
+    it('should record the dimensions in the manifest without changing the markdown by default', async () => {
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result.markdown).toBe(`![Diagram](./${filename})`);
+      expect(writtenManifest().downloads[url]).toMatchObject({ status: 'ok', width: 1600, height: 900 });
+    });
+
+    it('should replace inline images with an <img> element', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+
+      const result = await processor.process(`Before ![Diagram](${url} "Flow") after`, testBlogDir);
+
+      expect(result.markdown).toBe(
+        `Before <img src="./${filename}" alt="Diagram" title="Flow" width="1600" height="900"> after`
+      );
+    });
+
+    it('should use the given image renderer', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+      const renderImage = vi.fn().mockReturnValue('<Image />');
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir, { renderImage });
+
+      expect(renderImage).toHaveBeenCalledWith({ src: `./${filename}`, alt: 'Diagram', width: 1600, height: 900 });
+      expect(result.markdown).toBe('<Image />');
+    });
+
+    it('should add the dimensions to HTML tags that have none', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+
+      const result = await processor.process(
+        `<img src="${url}" alt="Diagram" />\n\n<img src="${url}" width="300">`,
+        testBlogDir
+      );
+
+      expect(result.markdown).toBe(
+        `<img src="./${filename}" alt="Diagram" width="1600" height="900" />\n\n<img src="./${filename}" width="300">`
+      );
+    });
+
+    it('should leave reference images and images of unknown size as links', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+
+      const result = await processor.process(`![Diagram][d]\n\n[d]: ${url}`, testBlogDir);
+
+      expect(result.markdown).toBe(`![Diagram][d]\n\n[d]: ./${filename}`);
+
+      vi.mocked(fs.readSync).mockReturnValue(0);
+      const unknown = await processor.process(`![Diagram](${url}?v=2)`, testBlogDir);
+
+      expect(unknown.markdown).toBe(`![Diagram](./${filename})`);
+    });
+
+    it('should use the dimensions recorded by an earlier run', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+      vi.mocked(fs.existsSync).mockImplementation((file: any) =>
+        [testBlogDir, path.join(testBlogDir, filename)].includes(file.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok', width: 800, height: 600 } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result.imagesSkipped).toBe(1);
+      expect(fs.readSync).not.toHaveBeenCalled();
+      expect(result.markdown).toBe(`<img src="./${filename}" alt="Diagram" width="800" height="600">`);
+    });
+
+    it('should read the dimensions of files recorded without them', async () => {
+      processor = new ImageProcessor({ writeDimensions: true });
+      vi.mocked(fs.existsSync).mockImplementation((file: any) =>
+        [testBlogDir, path.join(testBlogDir, filename)].includes(file.toString())
+      );
+      mockDownloadManifest({ [url]: { status: 'ok' } });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(fs.openSync).toHaveBeenCalledWith(path.join(testBlogDir, filename), 'r');
+      expect(result.markdown).toBe(`<img src="./${filename}" alt="Diagram" width="1600" height="900">`);
+    });
+
+    it('should measure optimized images after they are re-encoded', async () => {
+      vi.mocked(fs.statSync).mockReturnValue({ size: 100 } as any);
+      const codec: ImageCodec = {
+        encode: vi.fn(async () => {
+          mockPngHeader(1200, 675);
+          return { size: 60 };
+        }),
+      };
+      processor = new ImageProcessor({
+        writeDimensions: true,
+        optimize: { maxWidth: 1200, formats: ['webp'], markup: 'picture', codec },
+      });
+
+      const result = await processor.process(`![Diagram](${url})`, testBlogDir);
+
+      expect(result.markdown).toBe(
+        `<picture><source srcset="./${filename}.webp" type="image/webp">` +
+          `<img src="./${filename}" alt="Diagram" width="1200" height="675"></picture>`
+      );
+    });
+  });
+
+  describe('Alt Text Audit', () => {
+    const url = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1/550e8400-e29b-41d4-a716-446655440000.png';
+    const filename = '550e8400-e29b-41d4-a716-446655440000.png';
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockReturnValue(filename);
+    });
+
+    it('should not audit alt text by default', async () => {
+      const result = await processor.process(`![](${url})`, testBlogDir);
+
+      expect(result.altTextIssues).toBeUndefined();
+    });
+
+    it('should report images of every host with missing or meaningless alt text', async () => {
+      processor = new ImageProcessor({ altText: {} });
+
+      const result = await processor.process(
+        `![](${url})\n\n![IMG_0042.jpg](https://example.com/photo.jpg)\n\n![Architecture](${url})`,
+        testBlogDir
+      );
+
+      expect(result.markdown).toBe(
+        `![](./${filename})\n\n![IMG_0042.jpg](https://example.com/photo.jpg)\n\n![Architecture](./${filename})`
+      );
+      expect(result.altTextIssues).toEqual([
+        { url, alt: '', problem: 'empty' },
+        { url: 'https://example.com/photo.jpg', alt: 'IMG_0042.jpg', problem: 'filename' },
+      ]);
+    });
+
+    it('should fill alt text before rendering image elements', async () => {
+      const header = Buffer.alloc(24);
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+      header.write('IHDR', 12, 'latin1');
+      header.writeUInt32BE(640, 16);
+      header.writeUInt32BE(480, 20);
+      vi.mocked(fs.readSync).mockImplementation(((
+        _fd: number,
+        buffer: Buffer,
+        offset: number,
+        length: number,
+        position: number
+      ) => header.copy(buffer, offset, position, position + length)) as typeof fs.readSync);
+      processor = new ImageProcessor({ writeDimensions: true, altText: { fill: true } });
+
+      const result = await processor.process(`## Request flow\n\n![image](${url})`, testBlogDir);
+
+      expect(result.markdown).toBe(
+        `## Request flow\n\n<img src="./${filename}" alt="Request flow" width="640" height="480">`
+      );
+      expect(result.altTextIssues).toEqual([
+        { url, alt: 'image', problem: 'generic', filledAlt: 'Request flow', filledFrom: 'heading' },
+      ]);
+    });
+
+    it('should throw for an unknown alt text source', () => {
+      expect(() => new ImageProcessor({ altText: { sources: ['nearby' as never] } })).toThrow(
+        'Invalid alt text source: nearby'
+      );
+    });
+  });
+
+  describe('Dry-Run Planning', () => {
+    const cdn = 'https://cdn.hashnode.com/res/hashnode/image/upload/v1';
+
+    beforeEach(() => {
+      vi.mocked(ImageDownloader.extractHash).mockImplementation((url: string) => url.split('/').pop() ?? null);
+    });
+
+    it('should list each image to fetch once, cover first, without downloading or writing', () => {
+      const markdown = [
+        `![A](${cdn}/a.png)`,
+        `<img src="${cdn}/b.jpg">`,
+        `![A again](${cdn}/a.png)`,
+        '![Other](https://example.com/c.png)',
+      ].join('\n');
+
+      const images = processor.plan(markdown, '/blog/new-post', `${cdn}/cover.jpg`);
+
+      expect(images).toEqual([
+        { url: `${cdn}/cover.jpg`, filename: 'cover.jpg', filepath: path.join('/blog/new-post', 'cover.jpg') },
+        { url: `${cdn}/a.png`, filename: 'a.png', filepath: path.join('/blog/new-post', 'a.png') },
+        { url: `${cdn}/b.jpg`, filename: 'b.jpg', filepath: path.join('/blog/new-post', 'b.jpg') },
+      ]);
+      expect(ImageDownloader.prototype.download).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+      expect(fs.mkdirSync).not.toHaveBeenCalled();
+    });
+
+    it('should leave out downloaded images and previous 403 failures', () => {
+      vi.mocked(fs.existsSync).mockImplementation((file: any) => file === path.join(testBlogDir, 'a.png'));
+      mockDownloadManifest({
+        [`${cdn}/a.png`]: { status: 'ok' },
+        [`${cdn}/b.png`]: { status: '403' },
+        [`${cdn}/c.png`]: { status: 'transient' },
+        [`${cdn}/d.png`]: { status: 'ok' },
+      });
+      const markdown = ['a', 'b', 'c', 'd'].map((name) => `![${name}](${cdn}/${name}.png)`).join('\n');
+
+      const images = processor.plan(markdown, testBlogDir);
+
+      expect(images.map((image) => image.filename)).toEqual(['c.png', 'd.png']);
+    });
+
+    it('should leave out images kept in the shared asset store', () => {
+      const store = { find: vi.fn((url: string) => (url.endsWith('a.png') ? 'assets/3f2a/a.png' : undefined)) };
+
+      const images = processor.plan(
+        `![a](${cdn}/a.png) ![b](${cdn}/b.png)`,
+        testBlogDir,
+        undefined,
+        undefined,
+        store as unknown as AssetStore
+      );
+
+      expect(images.map((image) => image.url)).toEqual([`${cdn}/b.png`]);
+    });
+
+    it('should ignore images in code', () => {
+      expect(processor.plan(`\`\`\`\n![a](${cdn}/a.png)\n\`\`\``, testBlogDir)).toEqual([]);
+    });
+  });
 });
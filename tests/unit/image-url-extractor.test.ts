@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { ImageUrlExtractor } from '../../src/processors/image-url-extractor.js';
+
+const URL_A = 'https://cdn.hashnode.com/res/a.png';
+const URL_B = 'https://i.imgur.com/b.png';
+
+/**
+ * Extract and check that every reported range covers the raw URL text
+ */
+function extract(markdown: string) {
+  const occurrences = new ImageUrlExtractor().extract(markdown);
+  for (const { url, start, end } of occurrences) {
+    expect(markdown.slice(start, end).replace(/&amp;/g, '&')).toBe(url);
+  }
+  return occurrences;
+}
+
+describe('ImageUrlExtractor', () => {
+  describe('Inline Images', () => {
+    it('should extract inline image URLs with and without titles', () => {
+      expect(extract(`![a](${URL_A}) and ![b](${URL_B} "Title")`)).toEqual([
+        {
+          url: URL_A,
+          start: 5,
+          end: 5 + URL_A.length,
+          syntax: 'inline',
+          image: { start: 0, end: 6 + URL_A.length, alt: 'a' },
+        },
+        expect.objectContaining({ url: URL_B, syntax: 'inline' }),
+      ]);
+    });
+
+    it('should report the whole image with its alt text and title', () => {
+      const markdown = `See ![A diagram](${URL_A} 'Flow') here`;
+      const [{ image }] = extract(markdown);
+
+      expect(image).toEqual({ start: 4, end: markdown.length - 5, alt: 'A diagram', title: 'Flow' });
+      expect(markdown.slice(image!.start, image!.end)).toBe(`![A diagram](${URL_A} 'Flow')`);
+    });
+
+    it('should ignore relative URLs and links', () => {
+      expect(extract(`![a](./a.png) [link](${URL_A})`)).toEqual([]);
+    });
+
+    it('should extract URLs wrapped in angle brackets', () => {
+      const markdown = `![a](<${URL_A}> "Title")`;
+
+      expect(extract(markdown)).toEqual([
+        expect.objectContaining({
+          url: URL_A,
+          start: 6,
+          image: { start: 0, end: markdown.length, alt: 'a', title: 'Title' },
+        }),
+      ]);
+    });
+  });
+
+  describe('HTML Images', () => {
+    it.each([
+      [`<img src="${URL_A}" width="300" align="center">`],
+      [`<img width='300' src='${URL_A}'/>`],
+      [`<img src=${URL_A} alt=x>`],
+      [`<IMG\n  SRC="${URL_A}"\n  alt="Multi-line">`],
+    ])('should extract the src of %s', (markdown) => {
+      expect(extract(markdown)).toEqual([expect.objectContaining({ url: URL_A, syntax: 'html' })]);
+    });
+
+    it('should report the alt and title attributes', () => {
+      const markdown = `<img title='Flow' src="${URL_A}" alt="A &amp; B" ALT="ignored">`;
+      const [{ tag }] = extract(markdown);
+
+      expect(tag).toEqual({
+        start: 0,
+        end: markdown.length,
+        alt: 'A &amp; B',
+        altAttribute: { start: markdown.indexOf('alt='), end: markdown.indexOf(' ALT=') },
+        title: 'Flow',
+      });
+    });
+
+    it('should report the range of the whole tag', () => {
+      const markdown = `Text <img src="${URL_A}" />`;
+
+      expect(extract(markdown)[0].tag).toEqual({ start: 5, end: markdown.length });
+    });
+
+    it('should decode &amp; in the URL', () => {
+      expect(extract('<img src="https://example.com/a.png?w=1&amp;h=2">')[0].url).toBe(
+        'https://example.com/a.png?w=1&h=2'
+      );
+    });
+
+    it('should ignore data-src, relative and data URLs', () => {
+      expect(
+        extract('<img data-src="https://example.com/a.png" src="a.png"> <img src="data:image/png;base64,AA">')
+      ).toEqual([]);
+    });
+  });
+
+  describe('Reference Images', () => {
+    it.each([
+      ['full', `![Alt][logo]\n\n[logo]: ${URL_A}`],
+      ['collapsed', `![Logo][]\n\n[logo]: ${URL_A}`],
+      ['shortcut', `![Logo]\n\n[logo]: ${URL_A}`],
+      ['angle-bracket', `![Alt][logo]\n\n[logo]: <${URL_A}> "Title"`],
+      ['whitespace-insensitive', `![Alt][My  Logo]\n\n[my logo]: ${URL_A}`],
+      ['blockquote', `> ![Alt][logo]\n>\n> [logo]: ${URL_A}`],
+    ])('should extract the definition used by a %s reference', (_name, markdown) => {
+      expect(extract(markdown)).toEqual([expect.objectContaining({ url: URL_A, syntax: 'reference' })]);
+    });
+
+    it('should report a definition used by several images once', () => {
+      expect(extract(`![a][logo] ![b][logo]\n\n[logo]: ${URL_A}`)).toHaveLength(1);
+    });
+
+    it('should report the images using a definition and its title', () => {
+      const [definition] = extract(`![a][Logo] and ![logo][]\n\n[logo]: ${URL_A} (The logo)`);
+
+      expect(definition.title).toBe('The logo');
+      expect(definition.references).toEqual([
+        { start: 0, end: 10, alt: 'a', label: 'Logo' },
+        { start: 15, end: 24, alt: 'logo', label: 'logo' },
+      ]);
+    });
+
+    it('should ignore definitions only used by links', () => {
+      expect(extract(`[Download][file]\n\n[file]: ${URL_A}`)).toEqual([]);
+    });
+
+    it('should use the first definition of a label', () => {
+      expect(extract(`![a][logo]\n\n[logo]: ${URL_A}\n[logo]: ${URL_B}`)).toEqual([
+        expect.objectContaining({ url: URL_A }),
+      ]);
+    });
+  });
+
+  it('should report relative URLs with relativeUrls', () => {
+    const extractor = new ImageUrlExtractor({ relativeUrls: true });
+    const markdown = '![a](./a.png) ![b][b] <img src="/c.png" alt="">\n\n[b]: b.png';
+
+    expect(extractor.extract(markdown).map(({ url, syntax }) => [url, syntax])).toEqual([
+      ['./a.png', 'inline'],
+      ['/c.png', 'html'],
+      ['b.png', 'reference'],
+    ]);
+  });
+
+  it('should return every syntax in document order', () => {
+    const markdown = `<img src="${URL_B}">\n\n![a][ref]\n\n![b](${URL_A})\n\n[ref]: ${URL_B}`;
+    expect(extract(markdown).map((occurrence) => occurrence.syntax)).toEqual(['html', 'inline', 'reference']);
+  });
+
+  it('should handle empty markdown', () => {
+    expect(extract('')).toEqual([]);
+  });
+});
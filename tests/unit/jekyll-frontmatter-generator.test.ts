@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { JekyllFrontmatterGenerator } from '../../src/processors/jekyll-frontmatter-generator.js';
+import type { PostMetadata } from '../../src/types/hashnode-schema.js';
+
+describe('JekyllFrontmatterGenerator', () => {
+  const generator = new JekyllFrontmatterGenerator();
+
+  const baseMetadata: PostMetadata = {
+    title: 'My Post Title',
+    slug: 'my-post-slug',
+    dateAdded: '2023-01-01T12:00:00.000Z',
+    brief: 'A brief description',
+    contentMarkdown: 'Content',
+  };
+
+  it('should wrap frontmatter in YAML --- delimiters', () => {
+    const lines = generator.generate(baseMetadata).split('\n');
+
+    expect(lines[0]).toBe('---');
+    expect(lines[lines.length - 1]).toBe('---');
+  });
+
+  it('should generate layout, title, date and description', () => {
+    const result = generator.generate(baseMetadata);
+
+    expect(result).toContain('layout: "post"');
+    expect(result).toContain('title: "My Post Title"');
+    expect(result).toContain('date: 2023-01-01T12:00:00.000Z');
+    expect(result).toContain('description: "A brief description"');
+  });
+
+  it('should use the configured layout', () => {
+    const result = new JekyllFrontmatterGenerator({ layout: 'article' }).generate(baseMetadata);
+
+    expect(result).toContain('layout: "article"');
+  });
+
+  it('should include the permalink only when provided', () => {
+    expect(generator.generate(baseMetadata, '/my-post-slug/')).toContain('permalink: "/my-post-slug/"');
+    expect(generator.generate(baseMetadata)).not.toContain('permalink');
+  });
+
+  it('should default categories to the post tags', () => {
+    const result = generator.generate({ ...baseMetadata, tags: ['javascript', 'web'] });
+
+    expect(result).toContain('categories:\n  - "javascript"\n  - "web"');
+    expect(result).toContain('tags:\n  - "javascript"\n  - "web"');
+  });
+
+  it('should use configured categories instead of tags', () => {
+    const result = new JekyllFrontmatterGenerator({ categories: ['blog'] }).generate({
+      ...baseMetadata,
+      tags: ['javascript'],
+    });
+
+    expect(result).toContain('categories:\n  - "blog"');
+    expect(result).toContain('tags:\n  - "javascript"');
+  });
+
+  it('should omit categories and tags when there are none', () => {
+    const result = generator.generate(baseMetadata);
+
+    expect(result).not.toContain('categories');
+    expect(result).not.toContain('tags');
+  });
+
+  it('should map coverImage to image', () => {
+    const result = generator.generate({ ...baseMetadata, coverImage: 'https://example.com/cover.png' });
+
+    expect(result).toContain('image: "https://example.com/cover.png"');
+  });
+
+  it('should quote an unparseable date instead of emitting invalid output', () => {
+    const result = generator.generate({ ...baseMetadata, dateAdded: 'not-a-date' });
+
+    expect(result).toContain('date: "not-a-date"');
+  });
+
+  it('should escape quotes and backslashes', () => {
+    const result = generator.generate({ ...baseMetadata, title: 'Say "hi" \\ bye' });
+
+    expect(result).toContain('title: "Say \\"hi\\" \\\\ bye"');
+  });
+});
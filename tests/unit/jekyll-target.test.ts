@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import { JekyllTarget } from '../../src/targets/jekyll-target.js';
+import type { PostMetadata } from '../../src/types/hashnode-schema.js';
+
+describe('JekyllTarget', () => {
+  const context = { slug: 'my-post', dateAdded: '2024-01-15T10:30:00.000Z' };
+
+  const metadata: PostMetadata = {
+    title: 'My Post',
+    slug: 'my-post',
+    dateAdded: '2024-01-15T10:30:00.000Z',
+    brief: '',
+    contentMarkdown: 'Content',
+  };
+
+  describe('Layout', () => {
+    const target = new JekyllTarget();
+
+    it('should write posts to _posts with a date-prefixed filename', () => {
+      expect(target.postPath(context)).toBe(path.join('_posts', '2024-01-15-my-post.md'));
+      expect(target.existencePath(context)).toBe(path.join('_posts', '2024-01-15-my-post.md'));
+    });
+
+    it('should use the UTC date of dateAdded', () => {
+      expect(target.postPath({ slug: 'late', dateAdded: '2024-01-15T23:30:00.000-05:00' })).toBe(
+        path.join('_posts', '2024-01-16-late.md')
+      );
+    });
+
+    it.each([undefined, 'not-a-date'])('should throw for dateAdded %j', (dateAdded) => {
+      expect(() => target.postPath({ slug: 'my-post', dateAdded })).toThrow(
+        'Invalid post date for Jekyll filename'
+      );
+    });
+
+    it('should store images in assets/images/<slug>', () => {
+      expect(target.imageDir(context)).toBe(path.join('assets', 'images', 'my-post'));
+    });
+
+    it('should link images with absolute site paths', () => {
+      expect(target.imageLink('uuid.png', context)).toBe('/assets/images/my-post/uuid.png');
+    });
+
+    it('should prefix image links with the base URL', () => {
+      const subpath = new JekyllTarget({ baseUrl: '/blog/' });
+
+      expect(subpath.imageLink('uuid.png', context)).toBe('/blog/assets/images/my-post/uuid.png');
+    });
+
+    it('should link shared assets with site paths', () => {
+      expect(target.sharedAssetLink('assets/3f2a/diagram.png')).toBe('/assets/3f2a/diagram.png');
+      expect(new JekyllTarget({ baseUrl: '/blog' }).sharedAssetLink('assets/3f2a/diagram.png')).toBe(
+        '/blog/assets/3f2a/diagram.png'
+      );
+    });
+  });
+
+  describe('Frontmatter', () => {
+    it('should emit the default layout and permalink', () => {
+      const result = new JekyllTarget().generateFrontmatter(metadata);
+
+      expect(result).toContain('layout: "post"');
+      expect(result).toContain('permalink: "/my-post/"');
+    });
+
+    it('should fill date placeholders in the permalink template', () => {
+      const target = new JekyllTarget({ permalink: '/:year/:month/:day/:slug.html' });
+
+      expect(target.generateFrontmatter(metadata)).toContain('permalink: "/2024/01/15/my-post.html"');
+    });
+
+    it('should omit the permalink when disabled', () => {
+      const target = new JekyllTarget({ permalink: false });
+
+      expect(target.generateFrontmatter(metadata)).not.toContain('permalink');
+    });
+
+    it('should pass layout and categories to the frontmatter', () => {
+      const target = new JekyllTarget({ layout: 'article', categories: ['blog'] });
+      const result = target.generateFrontmatter(metadata);
+
+      expect(result).toContain('layout: "article"');
+      expect(result).toContain('categories:\n  - "blog"');
+    });
+  });
+});
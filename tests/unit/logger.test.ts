@@ -285,6 +285,70 @@ describe('Logger', () => {
     });
   });
 
+  describe('Offline Miss Tracking', () => {
+    it('should count offline misses in the summary and list them by post', () => {
+      const logger = new Logger({ filePath: '/tmp/test.log' });
+
+      logger.trackOfflineMiss('post-1', 'img1.jpg', 'https://example.com/1.jpg');
+      logger.trackOfflineMiss('post-1', 'img2.jpg', 'https://example.com/2.jpg');
+      logger.trackOfflineMiss('post-2', 'img3.jpg', 'https://example.com/3.jpg');
+      logger.writeSummary(2, 0, 0);
+
+      const output = mockWriteStream.write.mock.calls.map(call => String(call[0])).join('');
+
+      expect(output).toContain('Image Offline Misses: 3 images');
+      expect(output).toContain('OFFLINE MISSES (3 images across 2 posts)');
+      expect(output).toContain('Post: post-2');
+      expect(output).toContain('https://example.com/3.jpg');
+      expect(output).not.toContain('HTTP 403 IMAGE FAILURES');
+    });
+
+    it('should leave offline misses out of the summary when there are none', () => {
+      const logger = new Logger({ filePath: '/tmp/test.log' });
+      logger.writeSummary(1, 0, 0);
+
+      const output = mockWriteStream.write.mock.calls.map(call => String(call[0])).join('');
+
+      expect(output).not.toContain('Offline Misses');
+      expect(output).not.toContain('OFFLINE MISSES');
+    });
+  });
+
+  describe('Alt Text Issue Tracking', () => {
+    it('should count alt text issues in the summary and describe them by post', () => {
+      const logger = new Logger({ filePath: '/tmp/test.log' });
+
+      logger.trackAltTextIssue('post-1', { url: './a.png', alt: '', problem: 'empty' });
+      logger.trackAltTextIssue('post-2', {
+        url: './b.png',
+        alt: 'IMG_0042.jpg',
+        problem: 'filename',
+        filledAlt: 'Deployment pipeline',
+        filledFrom: 'caption',
+      });
+      logger.writeSummary(2, 0, 0);
+
+      const output = mockWriteStream.write.mock.calls.map(call => String(call[0])).join('');
+
+      expect(output).toContain('Alt Text Issues: 2 images');
+      expect(output).toContain('ALT TEXT ISSUES (2 images across 2 posts)');
+      expect(output).toContain('[1/1] empty alt text\n    ./a.png');
+      expect(output).toContain(
+        '[1/1] filename alt text "IMG_0042.jpg" (filled from caption: "Deployment pipeline")\n    ./b.png'
+      );
+    });
+
+    it('should leave alt text issues out of the summary when there are none', () => {
+      const logger = new Logger({ filePath: '/tmp/test.log' });
+      logger.writeSummary(1, 0, 0);
+
+      const output = mockWriteStream.write.mock.calls.map(call => String(call[0])).join('');
+
+      expect(output).not.toContain('Alt Text Issues');
+      expect(output).not.toContain('ALT TEXT ISSUES');
+    });
+  });
+
   describe('Summary Generation', () => {
     it('should write summary with all statistics', () => {
       const logger = new Logger({ filePath: '/tmp/test.log' });
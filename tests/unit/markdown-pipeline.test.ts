@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownPipeline } from '../../src/processors/markdown-pipeline.js';
+import type { MarkdownPluginContext, MarkdownTransformPlugin } from '../../src/types/markdown-plugin.js';
+
+/**
+ * Run a single plugin built from a transform function
+ */
+function run(markdown: string, transform: (context: MarkdownPluginContext) => void): string {
+  return new MarkdownPipeline([{ name: 'test', transform }]).run(markdown);
+}
+
+describe('MarkdownPipeline', () => {
+  it('should return markdown unchanged without plugins', () => {
+    const markdown = '* Item\n\n1) Other   \n\\_escaped\\_';
+    expect(new MarkdownPipeline([]).run(markdown)).toBe(markdown);
+  });
+
+  it('should run plugins in order, each on the previous output', () => {
+    const append = (suffix: string): MarkdownTransformPlugin => ({
+      name: suffix,
+      transform(context) {
+        context.replace(context.markdown.length, context.markdown.length, suffix);
+      },
+    });
+    expect(new MarkdownPipeline([append('a'), append('b')]).run('x')).toBe('xab');
+  });
+
+  it('should parse the markdown into a tree with positions', () => {
+    run('# Title\n\nText', (context) => {
+      expect(context.tree.type).toBe('root');
+      expect(context.tree.children.map((node) => node.type)).toEqual(['heading', 'paragraph']);
+      expect(context.tree.children[1].position?.start.offset).toBe(9);
+    });
+  });
+
+  describe('visit()', () => {
+    it('should visit nodes of one type in document order', () => {
+      const values: string[] = [];
+      run('A `one`\n\n- B `two`\n\n> `three`', (context) => {
+        context.visit('inlineCode', (node) => values.push(node.value));
+      });
+      expect(values).toEqual(['one', 'two', 'three']);
+    });
+  });
+
+  describe('replace()', () => {
+    it('should keep untouched source byte for byte', () => {
+      const markdown = '*  Item  \n\n__bold__ and REPLACE\n\n+ other';
+      expect(
+        run(markdown, (context) => {
+          const start = context.markdown.indexOf('REPLACE');
+          context.replace(start, start + 'REPLACE'.length, 'done');
+        })
+      ).toBe('*  Item  \n\n__bold__ and done\n\n+ other');
+    });
+
+    it('should allow replacing a whole code node', () => {
+      expect(
+        run('```mermaid\ngraph TD\n```', (context) => {
+          context.visit('code', (code) => context.replaceNode(code, '<Mermaid />'));
+        })
+      ).toBe('<Mermaid />');
+    });
+
+    it('should reject edits that start or end inside code', () => {
+      expect(() => run('```\ncode\n```', (context) => context.replace(4, 8, 'x'))).toThrow(
+        'Markdown plugin "test" cannot edit inside code (offset 4)'
+      );
+      expect(() => run('a `b` c', (context) => context.replace(0, 3, 'x'))).toThrow(
+        'cannot edit inside code (offset 3)'
+      );
+    });
+
+    it('should reject ranges outside the markdown', () => {
+      expect(() => run('abc', (context) => context.replace(2, 10, 'x'))).toThrow(
+        'Markdown plugin "test" made an invalid edit: 2-10'
+      );
+      expect(() => run('abc', (context) => context.replace(2, 1, 'x'))).toThrow('made an invalid edit');
+    });
+
+    it('should reject overlapping edits', () => {
+      expect(() =>
+        run('abcdef', (context) => {
+          context.replace(0, 3, 'x');
+          context.replace(2, 4, 'y');
+        })
+      ).toThrow('Markdown plugin "test" made overlapping edits at offset 2');
+    });
+
+    it('should apply edits made out of order', () => {
+      expect(
+        run('abcdef', (context) => {
+          context.replace(4, 6, 'Y');
+          context.replace(0, 2, 'X');
+        })
+      ).toBe('XcdY');
+    });
+  });
+
+  describe('replaceBlock()', () => {
+    it('should repeat blockquote and list prefixes on following lines', () => {
+      const replaceParagraph = (context: MarkdownPluginContext): void => {
+        context.visit('paragraph', (paragraph) => {
+          if (paragraph.position?.start.offset !== undefined && paragraph.position.end.offset !== undefined) {
+            context.replaceBlock(paragraph.position.start.offset, paragraph.position.end.offset, 'one\n\ntwo');
+          }
+        });
+      };
+      expect(run('> - text', replaceParagraph)).toBe('> - one\n>\n>   two');
+      expect(run('1. text', replaceParagraph)).toBe('1. one\n\n   two');
+    });
+  });
+
+  describe('replaceOutsideCode()', () => {
+    it('should replace matches outside code only', () => {
+      const markdown = 'foo `foo`\n\n```\nfoo\n```\n\n    foo\n\nfoo';
+      expect(run(markdown, (context) => context.replaceOutsideCode(/foo/, 'bar'))).toBe(
+        'bar `foo`\n\n```\nfoo\n```\n\n    foo\n\nbar'
+      );
+    });
+
+    it('should insert string replacements literally', () => {
+      expect(run('a-b', (context) => context.replaceOutsideCode(/(-)/g, '$1$1'))).toBe('a$1$1b');
+    });
+
+    it('should pass the match to replacement functions', () => {
+      expect(run('v1 and v22', (context) => context.replaceOutsideCode(/v(\d+)/g, (match) => `#${match[1]}`))).toBe(
+        '#1 and #22'
+      );
+    });
+  });
+
+  describe('isInCode()', () => {
+    it('should report offsets inside code blocks and inline code', () => {
+      run('a `b` c\n\n```\nd\n```', (context) => {
+        expect(context.isInCode(0)).toBe(false);
+        expect(context.isInCode(2)).toBe(true);
+        expect(context.isInCode(5)).toBe(false);
+        expect(context.isInCode(context.markdown.indexOf('d'))).toBe(true);
+      });
+    });
+  });
+});
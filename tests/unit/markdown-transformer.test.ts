@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { MarkdownTransformer } from '../../src/processors/markdown-transformer.js';
+import type { MarkdownTransformPlugin } from '../../src/types/markdown-plugin.js';
+import { trickyPosts } from '../fixtures/tricky-posts.js';
 
 describe('MarkdownTransformer', () => {
   describe('constructor', () => {
@@ -129,9 +131,6 @@ Some text here.
 
     describe('Complex Markdown', () => {
       it('should remove align attributes outside code blocks', () => {
-        // Note: Current implementation uses simple regex that may match inside code blocks.
-        // Analysis of 48 real Hashnode blog posts showed align attributes ONLY appear on images,
-        // never in code blocks, so this is not a practical concern for real Hashnode exports.
         const transformer = new MarkdownTransformer();
         const input = '```js\nconst config = { imageAlign: "center" };\n```\n![](img.png) align="center"';
         const expected = '```js\nconst config = { imageAlign: "center" };\n```\n![](img.png)';
@@ -145,6 +144,38 @@ Some text here.
         expect(transformer.transform(input)).toBe(expected);
       });
 
+      it('should not remove align attributes inside code blocks', () => {
+        const transformer = new MarkdownTransformer();
+        const input = '```html\n<img src="a.png" align="center">\n```\n\n    <td align="left">\n\n![](img.png) align="center"';
+        const expected = '```html\n<img src="a.png" align="center">\n```\n\n    <td align="left">\n\n![](img.png)';
+        expect(transformer.transform(input)).toBe(expected);
+      });
+
+      it('should not remove align attributes inside inline code', () => {
+        const transformer = new MarkdownTransformer();
+        const input = 'Hashnode writes `![](img.png) align="center"` for images';
+        expect(transformer.transform(input)).toBe(input);
+      });
+
+      it('should keep align attributes on HTML tags', () => {
+        const transformer = new MarkdownTransformer();
+        const input = '<img src="a.png" width="300" align="center">\n\n<img\n  src="b.png"\n  align="left"\n/>';
+        expect(transformer.transform(input)).toBe(input);
+      });
+
+      it('should remove align attributes after reference images and inline <img> tags', () => {
+        const transformer = new MarkdownTransformer();
+        const input = '![A][a] align="center" and <img src="b.png"> align="left"\n\n[a]: a.png';
+        const expected = '![A][a] and <img src="b.png">\n\n[a]: a.png';
+        expect(transformer.transform(input)).toBe(expected);
+      });
+
+      it('should keep align text that does not follow an image', () => {
+        const transformer = new MarkdownTransformer();
+        const input = 'Set align="center" on the table cell, or ![](img.png) that align="left"';
+        expect(transformer.transform(input)).toBe(input);
+      });
+
       it('should handle markdown with multiple paragraphs and images', () => {
         const transformer = new MarkdownTransformer();
         const input = `Paragraph 1
@@ -278,6 +309,60 @@ Final paragraph.`;
           const expected = 'Line 1\nLine 2\n';
           expect(transformer.transform(input)).toBe(expected);
         });
+
+        it('should not trim trailing whitespace inside code blocks', () => {
+          const transformer = new MarkdownTransformer({
+            trimTrailingWhitespace: true,
+          });
+          const input = 'Text   \n```\ncode   \n```\n';
+          const expected = 'Text\n```\ncode   \n```\n';
+          expect(transformer.transform(input)).toBe(expected);
+        });
+      });
+
+      describe('Embed Fallback', () => {
+        const markdown = 'Watch this:\n\n%[https://youtu.be/abc123]\n\n```md\n%[https://youtu.be/abc123]\n```';
+
+        it('should leave embed directives untouched by default', () => {
+          const transformer = new MarkdownTransformer();
+          expect(transformer.transform(markdown)).toBe(markdown);
+        });
+
+        it('should rewrite embeds outside code blocks as link cards', () => {
+          const transformer = new MarkdownTransformer({ embedFallback: 'link' });
+          expect(transformer.transform(markdown)).toBe(
+            'Watch this:\n\n> **[YouTube video](<https://youtu.be/abc123>)**  \n> https://youtu.be/abc123\n\n```md\n%[https://youtu.be/abc123]\n```'
+          );
+        });
+
+        it('should rewrite embeds with the configured shortcodes', () => {
+          const transformer = new MarkdownTransformer({
+            embedFallback: 'shortcode',
+            embedShortcodes: 'liquid',
+          });
+          expect(transformer.transform('%[https://youtu.be/abc123]')).toBe('{% embed https://youtu.be/abc123 %}');
+        });
+
+        it('should not rewrite directives inside indented code blocks', () => {
+          const transformer = new MarkdownTransformer({ embedFallback: 'link' });
+          const input = 'Example:\n\n    %[https://youtu.be/abc123]';
+          expect(transformer.transform(input)).toBe(input);
+        });
+
+        it('should keep the blockquote prefix on every link card line', () => {
+          const transformer = new MarkdownTransformer({ embedFallback: 'iframe' });
+          expect(transformer.transform('> %[https://x.com/jane/status/42]')).toBe(
+            '> <blockquote class="twitter-tweet"><a href="https://x.com/jane/status/42">https://x.com/jane/status/42</a></blockquote>\n> <script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>'
+          );
+        });
+
+        it('should keep the link card line break when trimming trailing whitespace', () => {
+          const transformer = new MarkdownTransformer({
+            embedFallback: 'link',
+            trimTrailingWhitespace: true,
+          });
+          expect(transformer.transform('%[https://youtu.be/abc123]')).toContain(')**  \n>');
+        });
       });
 
       describe('Callout Conversion', () => {
@@ -289,17 +374,93 @@ Final paragraph.`;
           expect(transformer.transform(input)).toBe(input);
         });
 
-        it('should not convert callouts when enabled (TODO: not implemented)', () => {
+        it('should convert callouts to alerts when enabled', () => {
+          const transformer = new MarkdownTransformer({
+            convertCalloutsToBlockquotes: true,
+          });
+          const input = '<div data-node-type="callout">\n<div data-node-type="callout-emoji">💡</div>\n<div data-node-type="callout-text">Note content</div>\n</div>';
+          expect(transformer.transform(input)).toBe('> [!TIP]\n> Note content');
+        });
+
+        it('should use custom callout alert types', () => {
+          const transformer = new MarkdownTransformer({
+            convertCalloutsToBlockquotes: true,
+            calloutAlertTypes: { '💡': 'IMPORTANT' },
+          });
+          const input = '<div data-node-type="callout">\n<div data-node-type="callout-emoji">💡</div>\n<div data-node-type="callout-text">- one\n- two</div>\n</div>';
+          expect(transformer.transform(input)).toBe('> [!IMPORTANT]\n> - one\n> - two');
+        });
+
+        it('should convert callouts inside list items', () => {
+          const transformer = new MarkdownTransformer({
+            convertCalloutsToBlockquotes: true,
+          });
+          const input = '- Step\n\n  <div data-node-type="callout">\n  <div data-node-type="callout-emoji">⚠️</div>\n  <div data-node-type="callout-text">Careful\n\n  ```sh\n  rm -rf\n  ```\n  </div>\n  </div>';
+          expect(transformer.transform(input)).toBe(
+            '- Step\n\n  > [!WARNING]\n  > Careful\n  >\n  > ```sh\n  > rm -rf\n  > ```'
+          );
+        });
+
+        it('should not convert callouts inside code blocks', () => {
           const transformer = new MarkdownTransformer({
             convertCalloutsToBlockquotes: true,
           });
-          const input = '<div data-node-type="callout">\n<div data-node-type="callout-emoji">💡</div>\n<div>Note content</div>\n</div>';
-          // For now, it just returns unchanged since conversion is not implemented
+          const input = '~~~html\n<div data-node-type="callout">\n<div data-node-type="callout-text">Text</div>\n</div>\n~~~';
           expect(transformer.transform(input)).toBe(input);
         });
       });
     });
 
+    describe('Plugins', () => {
+      const shoutHeadings: MarkdownTransformPlugin = {
+        name: 'shout-headings',
+        transform(context) {
+          context.visit('text', (text) => {
+            context.replaceNode(text, text.value.toUpperCase());
+          });
+        },
+      };
+
+      it('should run custom plugins', () => {
+        const transformer = new MarkdownTransformer({ plugins: [shoutHeadings] });
+        expect(transformer.transform('# Title\n\nUse `code` here')).toBe('# TITLE\n\nUSE `code` HERE');
+      });
+
+      it('should run plugins after built-in transformations and before trimming', () => {
+        const seen: string[] = [];
+        const transformer = new MarkdownTransformer({
+          trimTrailingWhitespace: true,
+          plugins: [
+            {
+              name: 'append',
+              transform(context) {
+                seen.push(context.markdown);
+                context.replace(context.markdown.length, context.markdown.length, '   ');
+              },
+            },
+          ],
+        });
+        expect(transformer.transform('![](a.png) align="center"')).toBe('![](a.png)');
+        expect(seen).toEqual(['![](a.png)']);
+      });
+
+      it('should reject plugin edits that cut into code', () => {
+        const transformer = new MarkdownTransformer({
+          plugins: [
+            {
+              name: 'bad-plugin',
+              transform(context) {
+                context.replace(5, 7, '');
+              },
+            },
+          ],
+        });
+        expect(() => transformer.transform('Use `code` here')).toThrow(
+          'Markdown plugin "bad-plugin" cannot edit inside code (offset 5)'
+        );
+      });
+    });
+
     describe('Combined Transformations', () => {
       it('should apply multiple transformations when enabled', () => {
         const transformer = new MarkdownTransformer({
@@ -333,6 +494,14 @@ Final paragraph.`;
     });
 
     describe('Real-World Scenarios', () => {
+      it.each(trickyPosts)('should only remove the align attribute of the real image in "$slug"', ({ contentMarkdown }) => {
+        const transformer = new MarkdownTransformer({ trimTrailingWhitespace: true });
+        const alignStart = contentMarkdown.lastIndexOf(' align=');
+        const expected =
+          contentMarkdown.slice(0, alignStart) + contentMarkdown.slice(alignStart).replace(/ align="[^"]*"/, '');
+        expect(transformer.transform(contentMarkdown)).toBe(expected);
+      });
+
       it('should handle typical Hashnode blog post structure', () => {
         const transformer = new MarkdownTransformer();
         const input = `# My Blog Post
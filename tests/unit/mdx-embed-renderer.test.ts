@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { MdxEmbedRenderer } from '../../src/processors/mdx-embed-renderer.js';
+
+describe('MdxEmbedRenderer', () => {
+  it('should render default components without imports', () => {
+    const renderer = new MdxEmbedRenderer();
+
+    expect(renderer.render('%[https://youtu.be/abc]')).toBe(
+      '<YouTube id="abc" url="https://youtu.be/abc" />'
+    );
+  });
+
+  it('should pass user and id for CodePen embeds', () => {
+    const renderer = new MdxEmbedRenderer();
+
+    expect(renderer.render('%[https://codepen.io/jane/pen/xyz]')).toBe(
+      '<CodePen id="xyz" user="jane" url="https://codepen.io/jane/pen/xyz" />'
+    );
+  });
+
+  it('should add one import line per imported component, in order of first use', () => {
+    const renderer = new MdxEmbedRenderer({
+      tweet: { component: 'Tweet', from: 'astro-embed', named: true },
+      youtube: { component: 'YouTube', from: '@/components/YouTube.astro' },
+    });
+
+    const result = renderer.render(
+      ['%[https://youtu.be/abc]', '', '%[https://x.com/jane/status/1]', '', '%[https://youtu.be/def]'].join('\n')
+    );
+
+    expect(result.split('\n\n')[0]).toBe(
+      "import YouTube from '@/components/YouTube.astro';\nimport { Tweet } from 'astro-embed';"
+    );
+    expect(result).toContain('<YouTube id="def" url="https://youtu.be/def" />');
+  });
+
+  it('should fall back to the generic component for unmapped kinds', () => {
+    const renderer = new MdxEmbedRenderer({
+      generic: { component: 'LinkCard', from: './LinkCard', props: (embed) => ({ href: embed.url }) },
+    });
+
+    expect(renderer.render('%[https://gist.github.com/jane/123]')).toBe(
+      "import LinkCard from './LinkCard';\n\n<LinkCard href=\"https://gist.github.com/jane/123\" />"
+    );
+  });
+
+  it('should leave embeds without any matching component unchanged', () => {
+    const renderer = new MdxEmbedRenderer({ youtube: { component: 'YouTube' } });
+
+    expect(renderer.render('%[https://example.com/page]')).toBe('%[https://example.com/page]');
+  });
+
+  it('should render non-string props and escape unsafe strings as expressions', () => {
+    const renderer = new MdxEmbedRenderer({
+      youtube: {
+        component: 'Video',
+        props: (embed) => ({ id: embed.id, start: 42, autoplay: false, title: 'Say "hi" {now}', skip: undefined }),
+      },
+    });
+
+    expect(renderer.render('%[https://youtu.be/abc]')).toBe(
+      '<Video id="abc" start={42} autoplay={false} title={"Say \\"hi\\" {now}"} />'
+    );
+  });
+
+  it('should import the root binding of namespaced components', () => {
+    const renderer = new MdxEmbedRenderer({ youtube: { component: 'Embeds.YouTube', from: './embeds' } });
+
+    expect(renderer.render('%[https://youtu.be/abc]')).toMatch(/^import Embeds from '\.\/embeds';\n\n<Embeds\.YouTube /);
+  });
+
+  it('should reject invalid component names', () => {
+    expect(() => new MdxEmbedRenderer({ youtube: { component: 'youtube-player' } })).toThrow(
+      'Invalid MDX component name: youtube-player'
+    );
+  });
+
+  it('should reject invalid prop names', () => {
+    const renderer = new MdxEmbedRenderer({ youtube: { component: 'YouTube', props: () => ({ 'a b': 'x' }) } });
+
+    expect(() => renderer.render('%[https://youtu.be/abc]')).toThrow('Invalid MDX prop name: a b');
+  });
+
+  it('should return content without embeds unchanged', () => {
+    const renderer = new MdxEmbedRenderer({ youtube: { component: 'YouTube', from: './YouTube' } });
+
+    expect(renderer.render('# Title\n\nText')).toBe('# Title\n\nText');
+  });
+});
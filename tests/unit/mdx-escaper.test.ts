@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { MdxEscaper } from '../../src/processors/mdx-escaper.js';
+
+describe('MdxEscaper', () => {
+  const escaper = new MdxEscaper();
+
+  it('should escape braces and stray < characters', () => {
+    expect(escaper.escape('Use {name: 1} when a<b, I <3 it')).toBe('Use \\{name: 1\\} when a\\<b, I \\<3 it');
+  });
+
+  it('should keep backslash escapes', () => {
+    expect(escaper.escape('Already \\{escaped\\} and \\<b>')).toBe('Already \\{escaped\\} and \\<b>');
+  });
+
+  it('should turn HTML comments into MDX comments', () => {
+    expect(escaper.escape('Text <!-- TODO: a */ b -->')).toBe('Text {/* TODO: a * / b */}');
+  });
+
+  it('should turn autolinks into links', () => {
+    expect(escaper.escape('See <https://example.com/a_b> or <ada@example.com>')).toBe(
+      'See [https://example.com/a\\_b](<https://example.com/a_b>) or [ada@example.com](<mailto:ada@example.com>)'
+    );
+  });
+
+  it('should self-close void elements and quote unquoted attribute values', () => {
+    expect(escaper.escape('One<br>two<br/>three\n\n<img src=./a.png title="w=1" width=200></img>')).toBe(
+      'One<br />two<br/>three\n\n<img src="./a.png" title="w=1" width="200" />'
+    );
+  });
+
+  it('should keep closed elements and JSX', () => {
+    const markdown = [
+      '<details>\n<summary>More</summary>\n\nPress <kbd>Ctrl</kbd>.\n\n</details>',
+      '<picture><source srcSet="./a.png.webp" type="image/webp" /><img src="./a.png" alt="A" width={800} /></picture>',
+    ].join('\n\n');
+
+    expect(escaper.escape(markdown)).toBe(markdown);
+  });
+
+  it('should escape unclosed tags like text', () => {
+    expect(escaper.escape('Array<string> and <p>open {x} </span>')).toBe(
+      'Array\\<string> and \\<p>open \\{x\\} \\</span>'
+    );
+  });
+
+  it('should leave code untouched', () => {
+    const markdown = 'Call `fn({ a })` <br>\n\n```html\n<!-- x --><br>{y}\n```';
+
+    expect(escaper.escape(markdown)).toBe('Call `fn({ a })` <br />\n\n```html\n<!-- x --><br>{y}\n```');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { compile } from '@mdx-js/mdx';
+import { MdxTarget } from '../../src/targets/mdx-target.js';
+import { MarkdownTransformer } from '../../src/processors/markdown-transformer.js';
+import { mdxPosts } from '../fixtures/mdx-posts.js';
+import { trickyPosts } from '../fixtures/tricky-posts.js';
+
+describe('MdxTarget', () => {
+  const context = { slug: 'my-post' };
+
+  it('should write posts as index.mdx page bundles', () => {
+    const target = new MdxTarget();
+
+    expect(target.postPath(context)).toBe(path.join('my-post', 'index.mdx'));
+    expect(target.imageDir(context)).toBe('my-post');
+    expect(target.imageLink('uuid.png')).toBe('./uuid.png');
+  });
+
+  it('should place bundles under the configured content directory', () => {
+    const target = new MdxTarget({ contentDir: 'posts' });
+
+    expect(target.postPath(context)).toBe(path.join('posts', 'my-post', 'index.mdx'));
+  });
+
+  it('should convert embeds with the configured components', () => {
+    const target = new MdxTarget({
+      components: { youtube: { component: 'Video', from: './Video', props: (embed) => ({ id: embed.id }) } },
+    });
+
+    expect(target.transformContent('%[https://youtu.be/abc]')).toBe(
+      "import Video from './Video';\n\n<Video id=\"abc\" />"
+    );
+  });
+
+  it('should render <picture> elements as JSX', () => {
+    const picture = new MdxTarget().renderPicture({
+      src: './uuid.png',
+      alt: 'Diagram',
+      sources: [{ srcset: './uuid.png.webp', type: 'image/webp' }],
+    });
+
+    expect(picture).toBe(
+      '<picture><source srcSet="./uuid.png.webp" type="image/webp" /><img src="./uuid.png" alt="Diagram" /></picture>'
+    );
+  });
+
+  it('should render images with dimensions as the configured image component', () => {
+    const target = new MdxTarget({ imageComponent: { component: 'Image', from: 'next/image' } });
+    const image = target.renderImage({ src: './uuid.png', alt: 'Diagram', width: 800, height: 600 });
+
+    expect(image).toBe('<Image src="./uuid.png" alt="Diagram" width={800} height={600} />');
+    expect(target.transformContent(`${image}\n\n%[https://youtu.be/abc]`)).toBe(
+      `import Image from 'next/image';\n\n${image}\n\n<YouTube id="abc" url="https://youtu.be/abc" />`
+    );
+  });
+
+  it('should only import the image component when the post uses it outside code', () => {
+    const target = new MdxTarget({ imageComponent: { component: 'Image', from: 'next/image' } });
+    const markdown = '```jsx\n<Image src="/a.png" />\n```';
+
+    expect(target.transformContent(markdown)).toBe(markdown);
+  });
+
+  it('should escape markdown that is not valid MDX', () => {
+    expect(new MdxTarget().transformContent('Use {braces}<br>\n\n%[https://youtu.be/abc]')).toBe(
+      'Use \\{braces\\}<br />\n\n<YouTube id="abc" url="https://youtu.be/abc" />'
+    );
+  });
+
+  describe('exported posts', () => {
+    const sampleExport = JSON.parse(
+      fs.readFileSync(path.join(__dirname, '../fixtures/sample-hashnode-export.json'), 'utf8')
+    ) as { posts: Array<{ slug: string; contentMarkdown: string }> };
+    const posts = [...sampleExport.posts, ...mdxPosts, ...trickyPosts];
+    const transformer = new MarkdownTransformer();
+
+    it.each(posts.map((post) => [post.slug, post.contentMarkdown]))('should compile %s as MDX', async (_slug, body) => {
+      const mdx = new MdxTarget().transformContent(transformer.transform(body));
+
+      await expect(compile(mdx)).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { PictureRenderer } from '../../src/processors/picture-renderer.js';
+import type { PictureElement } from '../../src/processors/picture-renderer.js';
+
+const picture: PictureElement = {
+  src: './uuid.png',
+  alt: 'Diagram',
+  sources: [
+    { srcset: './uuid.png.avif', type: 'image/avif' },
+    { srcset: './uuid.png.webp', type: 'image/webp' },
+  ],
+};
+
+describe('PictureRenderer', () => {
+  it('should render an HTML <picture> element on one line', () => {
+    expect(new PictureRenderer().render(picture)).toBe(
+      '<picture>' +
+        '<source srcset="./uuid.png.avif" type="image/avif">' +
+        '<source srcset="./uuid.png.webp" type="image/webp">' +
+        '<img src="./uuid.png" alt="Diagram">' +
+        '</picture>'
+    );
+  });
+
+  it('should render JSX for MDX', () => {
+    expect(new PictureRenderer({ jsx: true }).render(picture)).toBe(
+      '<picture>' +
+        '<source srcSet="./uuid.png.avif" type="image/avif" />' +
+        '<source srcSet="./uuid.png.webp" type="image/webp" />' +
+        '<img src="./uuid.png" alt="Diagram" />' +
+        '</picture>'
+    );
+  });
+
+  it('should keep the title and escape attribute values', () => {
+    const html = new PictureRenderer().render({ ...picture, alt: 'Say "hi" <3', title: 'A & B' });
+
+    expect(html).toContain('<img src="./uuid.png" alt="Say &quot;hi&quot; &lt;3" title="A &amp; B">');
+  });
+
+  it('should write dimensions on the <img> of a <picture> element', () => {
+    const html = new PictureRenderer({ jsx: true }).render({ ...picture, width: 800, height: 600 });
+
+    expect(html).toContain('<img src="./uuid.png" alt="Diagram" width={800} height={600} /></picture>');
+  });
+
+  describe('renderImage()', () => {
+    const image = { src: './uuid.png', alt: 'Diagram', title: 'Flow', width: 1600, height: 900 };
+
+    it('should render an HTML <img> with its dimensions', () => {
+      expect(new PictureRenderer().renderImage(image)).toBe(
+        '<img src="./uuid.png" alt="Diagram" title="Flow" width="1600" height="900">'
+      );
+    });
+
+    it('should render the configured image component in JSX', () => {
+      expect(new PictureRenderer({ jsx: true, imageComponent: 'Image' }).renderImage(image)).toBe(
+        '<Image src="./uuid.png" alt="Diagram" title="Flow" width={1600} height={900} />'
+      );
+    });
+
+    it('should keep <picture> elements on plain <img> elements', () => {
+      const html = new PictureRenderer({ jsx: true, imageComponent: 'Image' }).render(picture);
+
+      expect(html).toContain('<img src="./uuid.png"');
+    });
+
+    it('should throw for an invalid image component name', () => {
+      expect(() => new PictureRenderer({ imageComponent: 'img onload=x' })).toThrow(
+        'Invalid image component name: img onload=x'
+      );
+    });
+  });
+});
@@ -43,6 +43,8 @@ describe('PostParser', () => {
         contentMarkdown: '# Test Content',
         coverImage: 'https://example.com/image.png',
         tags: ['test'],
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        isActive: true,
       });
     });
 
@@ -64,6 +66,8 @@ describe('PostParser', () => {
         contentMarkdown: '# Test Content',
         coverImage: undefined,
         tags: ['test'],
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        isActive: true,
       });
     });
 
@@ -87,6 +91,8 @@ describe('PostParser', () => {
         contentMarkdown: '# Test Content',
         coverImage: undefined,
         tags: ['test'],
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        isActive: true,
       });
     });
   });
@@ -628,6 +634,51 @@ describe('PostParser', () => {
     });
   });
 
+  describe('I2. Optional Field Handling - updatedAt and isActive', () => {
+    it('should extract a valid updatedAt date', () => {
+      const parser = new PostParser();
+      const post = createValidPost({ updatedAt: ' 2024-02-01T08:00:00.000Z ' });
+
+      const result = parser.parse(post);
+
+      expect(result.updatedAt).toBe('2024-02-01T08:00:00.000Z');
+    });
+
+    it('should return undefined for an invalid updatedAt instead of throwing', () => {
+      const parser = new PostParser();
+      const post = createValidPost({ updatedAt: 'last tuesday' });
+
+      const result = parser.parse(post);
+
+      expect(result.updatedAt).toBeUndefined();
+    });
+
+    it('should return undefined when updatedAt is missing', () => {
+      const parser = new PostParser();
+      const post = createValidPost({ updatedAt: undefined as unknown as string });
+
+      const result = parser.parse(post);
+
+      expect(result.updatedAt).toBeUndefined();
+    });
+
+    it('should extract isActive when it is a boolean', () => {
+      const parser = new PostParser();
+
+      expect(parser.parse(createValidPost({ isActive: false })).isActive).toBe(false);
+      expect(parser.parse(createValidPost({ isActive: true })).isActive).toBe(true);
+    });
+
+    it('should return undefined when isActive is not a boolean', () => {
+      const parser = new PostParser();
+      const post = createValidPost({ isActive: 'yes' as unknown as boolean });
+
+      const result = parser.parse(post);
+
+      expect(result.isActive).toBeUndefined();
+    });
+  });
+
   describe('J. Edge Cases', () => {
     it('should handle very long contentMarkdown (10,000+ characters)', () => {
       // Arrange